@@ -1,10 +1,10 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { useTheme } from "@/components/providers";
 import { ScrollDotIndicator } from "@/components/ui/ScrollDotIndicator";
 import { Attribution } from "@/components/ui/Attribution";
-import { GridView } from "@/components/orb-field";
+import { GridView, CARD_ANCHOR_FORCE_FIELD, ORB_FOCAL_PLANES, type ForceFieldAnchor } from "@/components/orb-field";
 import { GlassSlider } from "@/components/glass";
 import { useDeviceOrientation } from "@/hooks";
 import { cardsConfig } from "@/config/cards.config";
@@ -69,6 +69,12 @@ export function HomePage({ initialSection }: HomePageProps) {
 		isMobile,
 	});
 
+	// Gentle attractor behind the active card so orbs drift toward it
+	// (the card itself is position: fixed, so anchor to the wrapper's child)
+	const forceFieldAnchors = useMemo<ForceFieldAnchor[]>(() => [
+		{ selector: `[data-card-section="${activeSection}"] > *`, field: CARD_ANCHOR_FORCE_FIELD },
+	], [activeSection]);
+
 	// Dynamic background based on theme
 	// When stage >= 2, background is transparent (via CSS) to show orbs through
 	const homepageBackground = stage >= 2 ? "transparent" : "#000000";
@@ -101,6 +107,9 @@ export function HomePage({ initialSection }: HomePageProps) {
 				isMobile={isMobile}
 				deviceTiltX={rawTiltX}
 				deviceTiltY={rawTiltY}
+				forceFieldAnchors={hasPassedGreeting ? forceFieldAnchors : undefined}
+				palette={hasPassedGreeting ? cardsConfig[activeSection]?.orbPalette : undefined}
+				focalPlane={hasPassedGreeting ? ORB_FOCAL_PLANES.card : stage >= 2 ? ORB_FOCAL_PLANES.greeting : undefined}
 			/>
 
 			<main
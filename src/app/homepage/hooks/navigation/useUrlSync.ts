@@ -51,7 +51,9 @@ export function useUrlSync({ enabled, hasPassedGreeting, activeSection }: UseUrl
 
 		// Don't update if we're already at the correct path
 		if (currentPath !== targetPath) {
-			window.history.replaceState(null, "", targetPath);
+			// Debug query parameters (e.g. ?seed=) survive section changes
+			const search = isDebugMode ? window.location.search : "";
+			window.history.replaceState(null, "", targetPath + search);
 		}
 	}, [activeSection, enabled, hasPassedGreeting, isDebugMode]);
 }
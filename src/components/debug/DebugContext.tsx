@@ -23,6 +23,8 @@ export interface DebugState {
 	showArrowVector: boolean;
 	/** Show true position indicator (1px dot) on orbs */
 	showTruePosition: boolean;
+	/** Show force field shapes (attractors, repellers, emitters, wind) */
+	showForceFields: boolean;
 	/** Show grid lines */
 	showGrid: boolean;
 	/** Enable continuous orb spawning */
@@ -31,10 +33,6 @@ export interface DebugState {
 	enableOrbDespawning: boolean;
 	/** Pause physics simulation */
 	pausePhysics: boolean;
-	/** Disable orb-orb hard collisions (red zones) */
-	disableCollisions: boolean;
-	/** Disable orb-orb soft avoidance (yellow zones) */
-	disableAvoidance: boolean;
 }
 
 /**
@@ -63,12 +61,11 @@ const defaultState: DebugState = {
 	showCards: true,
 	showArrowVector: true,
 	showTruePosition: true,
+	showForceFields: true,
 	showGrid: true,
 	enableOrbSpawning: true,
 	enableOrbDespawning: true,
 	pausePhysics: false,
-	disableCollisions: false,
-	disableAvoidance: false,
 };
 
 const DebugContext = createContext<DebugContextValue | null>(null);
@@ -5,11 +5,23 @@ import { Settings, X, ChevronRight } from "lucide-react";
 import { glassStyles, combineGlassStyles } from "@/components/glass/styles";
 import { debugMenuConfig } from "./config/debugMenuConfig";
 import { useDebugMenuState } from "./hooks/useDebugMenuState";
+import { useTimeShortcuts } from "./hooks/useTimeShortcuts";
 import { ToggleRow } from "./components/ToggleRow";
 import { SectionHeader } from "./components/SectionHeader";
 import { OrbDebugSection } from "./components/OrbDebugSection";
 import { GridDebugSection } from "./components/GridDebugSection";
-import type { GlassDebugMenuProps, ToggleItem, MenuComponentProps } from "./types";
+import { SimulationDebugSection } from "./components/SimulationDebugSection";
+import { PhysicsPhasesDebugSection } from "./components/PhysicsPhasesDebugSection";
+import { ForceFieldsDebugSection } from "./components/ForceFieldsDebugSection";
+import { PointerModeDebugSection } from "./components/PointerModeDebugSection";
+import { QualityDebugSection } from "./components/QualityDebugSection";
+import { PaletteDebugSection } from "./components/PaletteDebugSection";
+import { RevealDebugSection } from "./components/RevealDebugSection";
+import { PostFxDebugSection } from "./components/PostFxDebugSection";
+import { SceneDebugSection } from "./components/SceneDebugSection";
+import { ReplayDebugSection } from "./components/ReplayDebugSection";
+import { TimeControlsDebugSection } from "./components/TimeControlsDebugSection";
+import type { GlassDebugMenuProps, SimulationDebugProps, PhysicsPhaseDebugProps, ForceFieldDebugProps, PointerModeDebugProps, QualityDebugProps, PaletteDebugProps, PostFxDebugProps, SceneDebugProps, ReplayDebugProps, TimeControlDebugProps, RevealDebugProps, ToggleItem, MenuComponentProps } from "./types";
 
 const toggleItems: ToggleItem[] = [
 	{ key: "showGrid", label: "Grid Lines", description: "Spatial grid visualization" },
@@ -18,9 +30,8 @@ const toggleItems: ToggleItem[] = [
 	{ key: "showGraphics", label: "Orb Graphics", description: "Visual orb rendering" },
 	{ key: "showArrowVector", label: "Arrow Vectors", description: "Show velocity arrows on orbs" },
 	{ key: "showTruePosition", label: "True Position", description: "Show position indicator dot" },
+	{ key: "showForceFields", label: "Force Fields", description: "Field shapes and influence radii" },
 	{ key: "pausePhysics", label: "Pause Physics", description: "Freeze orb movement" },
-	{ key: "disableCollisions", label: "Disable Orb Collisions", description: "No hard bounce (red zones)" },
-	{ key: "disableAvoidance", label: "Disable Avoidance", description: "No soft nudge (yellow zones)" },
 	{ key: "enableOrbSpawning", label: "Orb Spawning", description: "Continuous orb spawning" },
 	{ key: "enableOrbDespawning", label: "Orb Despawning", description: "Lifetime expiration" },
 	{ key: "enableSpawnOnClick", label: "Click to Create", description: "Click to spawn orbs" },
@@ -60,6 +71,15 @@ export function GlassDebugMenu(props: GlassDebugMenuProps) {
 		return () => window.removeEventListener("resize", checkMobile);
 	}, []);
 
+	useTimeShortcuts({
+		enabled: mounted && isDebugEnabled,
+		isPaused: state.pausePhysics,
+		togglePause: () => handleToggle("pausePhysics"),
+		timeScale: props.timeScale,
+		onTimeScaleChange: props.onTimeScaleChange,
+		onStepFrame: props.onStepFrame,
+	});
+
 	if (!mounted || !isDebugEnabled) return null;
 
 	const baseGlassStyles = combineGlassStyles(
@@ -87,6 +107,52 @@ export function GlassDebugMenu(props: GlassDebugMenuProps) {
 			handleToggle={handleToggle}
 			toggleItems={toggleItems}
 			glassStyles={baseGlassStyles}
+			seed={props.seed}
+			fixedTimestepMs={props.fixedTimestepMs}
+			collisionCounters={props.collisionCounters}
+			onResetCollisionCounters={props.onResetCollisionCounters}
+			physicsWorkerStatus={props.physicsWorkerStatus}
+			physicsPhases={props.physicsPhases}
+			onTogglePhysicsPhase={props.onTogglePhysicsPhase}
+			forceFields={props.forceFields}
+			forceFieldPlacementKind={props.forceFieldPlacementKind}
+			onArmForceFieldPlacement={props.onArmForceFieldPlacement}
+			onRemoveForceField={props.onRemoveForceField}
+			onClearForceFields={props.onClearForceFields}
+			pointerMode={props.pointerMode}
+			pointerConfig={props.pointerConfig}
+			onPointerModeChange={props.onPointerModeChange}
+			onPointerConfigChange={props.onPointerConfigChange}
+			qualityTier={props.qualityTier}
+			qualityTierIndex={props.qualityTierIndex}
+			qualityTierCount={props.qualityTierCount}
+			adaptiveQuality={props.adaptiveQuality}
+			frameTimeStats={props.frameTimeStats}
+			onResetFrameTimeStats={props.onResetFrameTimeStats}
+			orbRenderer={props.orbRenderer}
+			isWebGLUnavailable={props.isWebGLUnavailable}
+			webGLFallbackReason={props.webGLFallbackReason}
+			onOrbRendererChange={props.onOrbRendererChange}
+			spriteCacheStats={props.spriteCacheStats}
+			onResetSpriteCacheStats={props.onResetSpriteCacheStats}
+			orbTrailMode={props.orbTrailMode}
+			onOrbTrailModeChange={props.onOrbTrailModeChange}
+			orbPalette={props.orbPalette}
+			onOrbPaletteChange={props.onOrbPaletteChange}
+			postFxConfig={props.postFxConfig}
+			postFxDisabledReason={props.postFxDisabledReason}
+			onTogglePostFxEffect={props.onTogglePostFxEffect}
+			onExportScene={props.onExportScene}
+			onImportScene={props.onImportScene}
+			replayStatus={props.replayStatus}
+			replayControls={props.replayControls}
+			timeScale={props.timeScale}
+			onTimeScaleChange={props.onTimeScaleChange}
+			onStepFrame={props.onStepFrame}
+			revealPreset={props.revealPreset}
+			onRevealPresetChange={props.onRevealPresetChange}
+			onReplayReveal={props.onReplayReveal}
+			isReplayingReveal={props.isReplayingReveal}
 		/>
 	);
 }
@@ -101,7 +167,53 @@ function DesktopMenu({
 	handleToggle,
 	toggleItems,
 	glassStyles: baseGlassStyles,
-}: MenuComponentProps) {
+	seed,
+	fixedTimestepMs,
+	collisionCounters,
+	onResetCollisionCounters,
+	physicsWorkerStatus,
+	physicsPhases,
+	onTogglePhysicsPhase,
+	forceFields,
+	forceFieldPlacementKind,
+	onArmForceFieldPlacement,
+	onRemoveForceField,
+	onClearForceFields,
+	pointerMode,
+	pointerConfig,
+	onPointerModeChange,
+	onPointerConfigChange,
+	qualityTier,
+	qualityTierIndex,
+	qualityTierCount,
+	adaptiveQuality,
+	frameTimeStats,
+	onResetFrameTimeStats,
+	orbRenderer,
+	isWebGLUnavailable,
+	webGLFallbackReason,
+	onOrbRendererChange,
+	spriteCacheStats,
+	onResetSpriteCacheStats,
+	orbTrailMode,
+	onOrbTrailModeChange,
+	orbPalette,
+	onOrbPaletteChange,
+	postFxConfig,
+	postFxDisabledReason,
+	onTogglePostFxEffect,
+	onExportScene,
+	onImportScene,
+	replayStatus,
+	replayControls,
+	timeScale,
+	onTimeScaleChange,
+	onStepFrame,
+	revealPreset,
+	onRevealPresetChange,
+	onReplayReveal,
+	isReplayingReveal,
+}: MenuComponentProps & SimulationDebugProps & PhysicsPhaseDebugProps & ForceFieldDebugProps & PointerModeDebugProps & QualityDebugProps & PaletteDebugProps & PostFxDebugProps & SceneDebugProps & ReplayDebugProps & TimeControlDebugProps & RevealDebugProps) {
 	const { dimensions, zIndex, spacing, colors } = debugMenuConfig;
 	const [isHovered, setIsHovered] = useState(false);
 
@@ -188,6 +300,83 @@ function DesktopMenu({
 							/>
 						))}
 					</div>
+
+					<PhysicsPhasesDebugSection physicsPhases={physicsPhases} onTogglePhysicsPhase={onTogglePhysicsPhase} />
+
+					<PointerModeDebugSection
+						pointerMode={pointerMode}
+						pointerConfig={pointerConfig}
+						onPointerModeChange={onPointerModeChange}
+						onPointerConfigChange={onPointerConfigChange}
+					/>
+
+					<PaletteDebugSection orbPalette={orbPalette} onOrbPaletteChange={onOrbPaletteChange} />
+
+					<RevealDebugSection
+						revealPreset={revealPreset}
+						onRevealPresetChange={onRevealPresetChange}
+						onReplayReveal={onReplayReveal}
+						isReplayingReveal={isReplayingReveal}
+					/>
+
+					<PostFxDebugSection
+						postFxConfig={postFxConfig}
+						postFxDisabledReason={postFxDisabledReason}
+						onTogglePostFxEffect={onTogglePostFxEffect}
+					/>
+
+					<ForceFieldsDebugSection
+						forceFields={forceFields}
+						forceFieldPlacementKind={forceFieldPlacementKind}
+						onArmForceFieldPlacement={onArmForceFieldPlacement}
+						onRemoveForceField={onRemoveForceField}
+						onClearForceFields={onClearForceFields}
+					/>
+
+					<TimeControlsDebugSection
+						timeScale={timeScale}
+						onTimeScaleChange={onTimeScaleChange}
+						onStepFrame={onStepFrame}
+						state={state}
+						handleToggle={handleToggle}
+					/>
+
+					<SimulationDebugSection
+						seed={seed}
+						fixedTimestepMs={fixedTimestepMs}
+						collisionCounters={collisionCounters}
+						onResetCollisionCounters={onResetCollisionCounters}
+						physicsWorkerStatus={physicsWorkerStatus}
+					/>
+
+					<SceneDebugSection
+						onExportScene={onExportScene}
+						onImportScene={onImportScene}
+						state={state}
+						handleToggle={handleToggle}
+					/>
+
+					<ReplayDebugSection
+						replayStatus={replayStatus}
+						replayControls={replayControls}
+					/>
+
+					<QualityDebugSection
+						qualityTier={qualityTier}
+						qualityTierIndex={qualityTierIndex}
+						qualityTierCount={qualityTierCount}
+						adaptiveQuality={adaptiveQuality}
+						frameTimeStats={frameTimeStats}
+						onResetFrameTimeStats={onResetFrameTimeStats}
+						orbRenderer={orbRenderer}
+						isWebGLUnavailable={isWebGLUnavailable}
+						webGLFallbackReason={webGLFallbackReason}
+						onOrbRendererChange={onOrbRendererChange}
+						spriteCacheStats={spriteCacheStats}
+						onResetSpriteCacheStats={onResetSpriteCacheStats}
+						orbTrailMode={orbTrailMode}
+						onOrbTrailModeChange={onOrbTrailModeChange}
+					/>
 				</div>
 			)}
 		</div>
@@ -212,11 +401,64 @@ function MobileMenu({
 	onSelectOrb,
 	onDeleteOrb,
 	onSizeChange,
+	orbHistory,
+	totalLayers,
+	isFollowingOrb,
+	onFollowOrbChange,
+	onEditOrb,
 	gridConfig,
 	viewportCells,
 	currentLayer,
 	onLayerChange,
+	focusLayer,
+	onFocusLayerChange,
 	hoveredCell,
+	seed,
+	fixedTimestepMs,
+	collisionCounters,
+	onResetCollisionCounters,
+	physicsWorkerStatus,
+	physicsPhases,
+	onTogglePhysicsPhase,
+	forceFields,
+	forceFieldPlacementKind,
+	onArmForceFieldPlacement,
+	onRemoveForceField,
+	onClearForceFields,
+	pointerMode,
+	pointerConfig,
+	onPointerModeChange,
+	onPointerConfigChange,
+	qualityTier,
+	qualityTierIndex,
+	qualityTierCount,
+	adaptiveQuality,
+	frameTimeStats,
+	onResetFrameTimeStats,
+	orbRenderer,
+	isWebGLUnavailable,
+	webGLFallbackReason,
+	onOrbRendererChange,
+	spriteCacheStats,
+	onResetSpriteCacheStats,
+	orbTrailMode,
+	onOrbTrailModeChange,
+	orbPalette,
+	onOrbPaletteChange,
+	postFxConfig,
+	postFxDisabledReason,
+	onTogglePostFxEffect,
+	onExportScene,
+	onImportScene,
+	replayStatus,
+	replayControls,
+	timeScale,
+	onTimeScaleChange,
+	onStepFrame,
+	revealPreset,
+	onRevealPresetChange,
+	onReplayReveal,
+	isReplayingReveal,
 }: MenuComponentProps & GlassDebugMenuProps) {
 	const { dimensions, zIndex, spacing, colors } = debugMenuConfig;
 	const [isHovered, setIsHovered] = useState(false);
@@ -322,6 +564,8 @@ function MobileMenu({
 					viewportCells={viewportCells}
 					currentLayer={currentLayer}
 					onLayerChange={onLayerChange}
+					focusLayer={focusLayer}
+					onFocusLayerChange={onFocusLayerChange}
 					hoveredCell={hoveredCell}
 				/>
 
@@ -335,6 +579,88 @@ function MobileMenu({
 					onSelectOrb={onSelectOrb}
 					onDeleteOrb={onDeleteOrb}
 					onSizeChange={onSizeChange}
+					orbHistory={orbHistory}
+					totalLayers={totalLayers}
+					isFollowingOrb={isFollowingOrb}
+					onFollowOrbChange={onFollowOrbChange}
+					onEditOrb={onEditOrb}
+				/>
+
+				<PhysicsPhasesDebugSection physicsPhases={physicsPhases} onTogglePhysicsPhase={onTogglePhysicsPhase} />
+
+				<PointerModeDebugSection
+					pointerMode={pointerMode}
+					pointerConfig={pointerConfig}
+					onPointerModeChange={onPointerModeChange}
+					onPointerConfigChange={onPointerConfigChange}
+				/>
+
+				<PaletteDebugSection orbPalette={orbPalette} onOrbPaletteChange={onOrbPaletteChange} />
+
+				<RevealDebugSection
+					revealPreset={revealPreset}
+					onRevealPresetChange={onRevealPresetChange}
+					onReplayReveal={onReplayReveal}
+					isReplayingReveal={isReplayingReveal}
+				/>
+
+				<PostFxDebugSection
+					postFxConfig={postFxConfig}
+					postFxDisabledReason={postFxDisabledReason}
+					onTogglePostFxEffect={onTogglePostFxEffect}
+				/>
+
+				<ForceFieldsDebugSection
+					forceFields={forceFields}
+					forceFieldPlacementKind={forceFieldPlacementKind}
+					onArmForceFieldPlacement={onArmForceFieldPlacement}
+					onRemoveForceField={onRemoveForceField}
+					onClearForceFields={onClearForceFields}
+				/>
+
+				<TimeControlsDebugSection
+					timeScale={timeScale}
+					onTimeScaleChange={onTimeScaleChange}
+					onStepFrame={onStepFrame}
+					state={state}
+					handleToggle={handleToggle}
+				/>
+
+				<SimulationDebugSection
+					seed={seed}
+					fixedTimestepMs={fixedTimestepMs}
+					collisionCounters={collisionCounters}
+					onResetCollisionCounters={onResetCollisionCounters}
+					physicsWorkerStatus={physicsWorkerStatus}
+				/>
+
+				<SceneDebugSection
+					onExportScene={onExportScene}
+					onImportScene={onImportScene}
+					state={state}
+					handleToggle={handleToggle}
+				/>
+
+				<ReplayDebugSection
+					replayStatus={replayStatus}
+					replayControls={replayControls}
+				/>
+
+				<QualityDebugSection
+					qualityTier={qualityTier}
+					qualityTierIndex={qualityTierIndex}
+					qualityTierCount={qualityTierCount}
+					adaptiveQuality={adaptiveQuality}
+					frameTimeStats={frameTimeStats}
+					onResetFrameTimeStats={onResetFrameTimeStats}
+					orbRenderer={orbRenderer}
+					isWebGLUnavailable={isWebGLUnavailable}
+					webGLFallbackReason={webGLFallbackReason}
+					onOrbRendererChange={onOrbRendererChange}
+					spriteCacheStats={spriteCacheStats}
+					onResetSpriteCacheStats={onResetSpriteCacheStats}
+					orbTrailMode={orbTrailMode}
+					onOrbTrailModeChange={onOrbTrailModeChange}
 				/>
 			</div>
 		</>
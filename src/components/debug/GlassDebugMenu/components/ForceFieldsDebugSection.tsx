@@ -0,0 +1,92 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import type { ForceFieldKind } from "@/components/orb-field/forces/types";
+import type { ForceFieldDebugProps } from "../types";
+
+const placementKinds: { kind: ForceFieldKind; label: string }[] = [
+	{ kind: "attractor", label: "Attract" },
+	{ kind: "repeller", label: "Repel" },
+	{ kind: "line", label: "Line" },
+	{ kind: "ring", label: "Ring" },
+	{ kind: "wind", label: "Wind" },
+];
+
+/**
+ * ForceFieldsDebugSection - Arms click placement and lists active force fields
+ * Follows Single Responsibility Principle - only handles force field UI
+ */
+export function ForceFieldsDebugSection({
+	forceFields,
+	forceFieldPlacementKind,
+	onArmForceFieldPlacement,
+	onRemoveForceField,
+	onClearForceFields,
+}: ForceFieldDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!onArmForceFieldPlacement) return null;
+
+	const buttonStyle = (active: boolean) => ({
+		flex: 1,
+		background: active ? colors.maroon : colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	});
+
+	return (
+		<>
+			<SectionHeader title="Force Fields" />
+
+			<div style={{ display: "flex", flexDirection: "column", gap: `${spacing.gapMd}px`, marginBottom: `${spacing.gapLg}px` }}>
+				<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+					{placementKinds.map(({ kind, label }) => (
+						<button
+							key={kind}
+							onClick={() => onArmForceFieldPlacement(forceFieldPlacementKind === kind ? null : kind)}
+							style={buttonStyle(forceFieldPlacementKind === kind)}
+						>
+							{label}
+						</button>
+					))}
+				</div>
+
+				<span style={{ fontSize: `${typography.fontSizeSm}px`, color: colors.textMuted }}>
+					{forceFieldPlacementKind ? "Click the canvas to place" : "Pick a kind, then click the canvas"}
+				</span>
+
+				{forceFields?.map((field) => (
+					<div
+						key={field.id}
+						style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: `${spacing.gapXl}px` }}
+					>
+						<span style={{ fontSize: `${typography.fontSizeMd}px`, color: colors.textSecondary }}>
+							{field.kind} · {field.id}
+							{field.screenSpace && <span style={{ color: colors.textMuted }}> (anchored)</span>}
+						</span>
+						<button
+							onClick={() => onRemoveForceField?.(field.id)}
+							style={{ ...buttonStyle(false), flex: "none", background: colors.maroonButton }}
+						>
+							Remove
+						</button>
+					</div>
+				))}
+
+				{forceFields && forceFields.length > 0 && (
+					<button
+						onClick={() => onClearForceFields?.()}
+						style={{ ...buttonStyle(false), background: colors.maroonButton }}
+					>
+						Clear All
+					</button>
+				)}
+			</div>
+		</>
+	);
+}
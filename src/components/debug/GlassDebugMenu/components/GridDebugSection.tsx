@@ -13,6 +13,8 @@ export function GridDebugSection({
 	viewportCells,
 	currentLayer = 0,
 	onLayerChange,
+	focusLayer,
+	onFocusLayerChange,
 	hoveredCell,
 }: GridDebugProps) {
 	const { spacing, typography, colors, dimensions } = debugMenuConfig;
@@ -60,6 +62,31 @@ export function GridDebugSection({
 				</label>
 			</div>
 
+			{focusLayer !== undefined && onFocusLayerChange && (
+				<div style={{ marginBottom: spacing.gapLg, fontSize: typography.fontSizeMd }}>
+					<label htmlFor="debug-focus-z" style={{ display: 'flex', alignItems: 'center', gap: spacing.gapLg }}>
+						<span style={{ color: colors.textSecondary }}>Focus:</span>
+						<input
+							id="debug-focus-z"
+							name="debug-focus-z"
+							type="range"
+							min={0}
+							max={gridConfig.layers - 1}
+							value={Math.round(focusLayer)}
+							onChange={(e) => onFocusLayerChange(parseInt(e.target.value))}
+							style={{
+								flex: 1,
+								cursor: 'pointer',
+								accentColor: colors.maroonAccent,
+							}}
+						/>
+						<span style={{ minWidth: dimensions.layerInputMinWidth, textAlign: 'right', color: colors.textPrimary }}>
+							{Math.round(focusLayer)}
+						</span>
+					</label>
+				</div>
+			)}
+
 			{hoveredCell && (
 				<div style={{ color: colors.textSuccess, fontSize: typography.fontSizeSm, paddingTop: spacing.gapLg, borderTop: `1px solid ${colors.borderLight}` }}>
 					Cell ({hoveredCell.x}, {hoveredCell.y})
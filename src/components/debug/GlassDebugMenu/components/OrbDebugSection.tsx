@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { DEFAULT_ORB_SPAWN_CONFIG } from "@/components/orb-field/orb/config";
+import { OrbInspector } from "@/components/orb-field/debug-info/components/OrbInspector";
 import { debugMenuConfig } from "../config/debugMenuConfig";
 import { SectionHeader } from "./SectionHeader";
 import type { OrbDebugProps } from "../types";
@@ -20,6 +21,11 @@ export function OrbDebugSection({
 	onSelectOrb,
 	onDeleteOrb,
 	onSizeChange,
+	orbHistory,
+	totalLayers,
+	isFollowingOrb,
+	onFollowOrbChange,
+	onEditOrb,
 }: OrbDebugProps) {
 	const { minSize, maxSize } = DEFAULT_ORB_SPAWN_CONFIG;
 	const { spacing, typography, colors, dimensions } = debugMenuConfig;
@@ -94,6 +100,18 @@ export function OrbDebugSection({
 				</div>
 			)}
 
+			{/* Inspector */}
+			{selectedOrb && (
+				<OrbInspector
+					orb={selectedOrb}
+					history={orbHistory}
+					totalLayers={totalLayers}
+					isFollowing={isFollowingOrb}
+					onFollowChange={onFollowOrbChange}
+					onEditOrb={onEditOrb}
+				/>
+			)}
+
 			{/* Delete Button */}
 			<div style={{ display: 'flex', gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
 				<button
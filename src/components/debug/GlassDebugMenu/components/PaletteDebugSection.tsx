@@ -0,0 +1,76 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { ORB_PALETTES } from "@/components/orb-field/palette/PaletteConfig";
+import type { OrbPalette, OrbPaletteId } from "@/components/orb-field/palette/types";
+import type { PaletteDebugProps } from "../types";
+
+const palettes = Object.entries(ORB_PALETTES) as [OrbPaletteId, OrbPalette][];
+
+/**
+ * Builds a CSS gradient showing a palette's colours in proportion to their weights
+ */
+function paletteSwatch(palette: OrbPalette): string {
+	const total = palette.colors.reduce((sum, color) => sum + color.weight, 0);
+	let position = 0;
+	const stops = palette.colors.map((color) => {
+		const start = (position / total) * 100;
+		position += color.weight;
+		const end = (position / total) * 100;
+		const css = `hsl(${color.hue}, ${color.saturation}%, ${color.lightness}%)`;
+		return `${css} ${start}%, ${css} ${end}%`;
+	});
+	return `linear-gradient(90deg, ${stops.join(", ")})`;
+}
+
+/**
+ * PaletteDebugSection - Switches the orb colour palette (existing orbs cross-fade)
+ * Follows Single Responsibility Principle - only handles palette UI
+ */
+export function PaletteDebugSection({ orbPalette, onOrbPaletteChange }: PaletteDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!orbPalette || !onOrbPaletteChange) return null;
+
+	return (
+		<>
+			<SectionHeader title="Palette" />
+
+			<div style={{ display: 'flex', flexDirection: 'column', gap: `${spacing.gapSm}px`, marginBottom: spacing.gapLg }}>
+				{palettes.map(([id, palette]) => (
+					<button
+						key={id}
+						onClick={() => onOrbPaletteChange(id)}
+						aria-pressed={orbPalette === id}
+						style={{
+							display: 'flex',
+							alignItems: 'center',
+							gap: `${spacing.gapMd}px`,
+							background: orbPalette === id ? colors.maroon : colors.inputBg,
+							color: colors.textPrimary,
+							border: `1px solid ${colors.inputBorder}`,
+							borderRadius: dimensions.borderRadiusSm,
+							padding: `${spacing.gapSm}px ${spacing.gapMd}px`,
+							fontSize: typography.fontSizeSm,
+							cursor: 'pointer',
+						}}
+					>
+						<span
+							style={{
+								width: 48,
+								height: 8,
+								borderRadius: dimensions.borderRadiusSm,
+								background: paletteSwatch(palette),
+							}}
+						/>
+						<span style={{ flex: 1, textAlign: 'left' }}>{palette.label}</span>
+						{palette.driftPeriodMs && (
+							<span style={{ color: colors.textMuted, fontSize: typography.fontSizeXs }}>drifts</span>
+						)}
+					</button>
+				))}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { ToggleSlider } from "./ToggleSlider";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import type { PhysicsPhaseDebugProps } from "../types";
+
+/**
+ * PhysicsPhasesDebugSection - Lists the physics pipeline phases with toggles and timings
+ * Follows Single Responsibility Principle - only handles phase toggle UI
+ */
+export function PhysicsPhasesDebugSection({ physicsPhases, onTogglePhysicsPhase }: PhysicsPhaseDebugProps) {
+	const { spacing, typography, colors } = debugMenuConfig;
+
+	if (!physicsPhases || physicsPhases.length === 0) return null;
+
+	return (
+		<>
+			<SectionHeader title="Physics Phases" />
+
+			<div style={{ display: "flex", flexDirection: "column", marginBottom: `${spacing.gapLg}px` }}>
+				{physicsPhases.map((phase) => (
+					<div
+						key={phase.id}
+						style={{
+							display: "flex",
+							alignItems: "center",
+							justifyContent: "space-between",
+							paddingTop: `${spacing.gapMd}px`,
+							paddingBottom: `${spacing.gapMd}px`,
+							gap: `${spacing.gapXl}px`,
+						}}
+					>
+						<div style={{ display: "flex", flexDirection: "column", gap: `${spacing.gapXs}px`, flex: 1, minWidth: 0 }}>
+							<span style={{ fontSize: `${typography.fontSizeLg}px`, fontWeight: typography.fontWeightNormal, color: colors.textPrimary }}>
+								{phase.label}
+								{!phase.builtIn && <span style={{ color: colors.textMuted }}> (custom)</span>}
+							</span>
+							<span style={{ fontSize: `${typography.fontSizeSm}px`, color: colors.textMuted, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+								{phase.enabled ? `${phase.averageDurationMs.toFixed(2)}ms` : "off"}
+								{phase.description && ` · ${phase.description}`}
+							</span>
+						</div>
+						<ToggleSlider
+							checked={phase.enabled}
+							onToggle={() => onTogglePhysicsPhase?.(phase.id, !phase.enabled)}
+						/>
+					</div>
+				))}
+			</div>
+		</>
+	);
+}
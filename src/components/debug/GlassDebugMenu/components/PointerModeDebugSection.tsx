@@ -0,0 +1,196 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import type {
+	PointerGrabConfig,
+	PointerRadialConfig,
+	PointerSwirlConfig,
+	PointerWakeConfig,
+} from "@/components/orb-field/pointer/PointerConfig";
+import type { PointerMode } from "@/components/orb-field/pointer/types";
+import type { PointerModeDebugProps } from "../types";
+
+/**
+ * Slider definition for one numeric mode parameter (K is the config key it edits)
+ */
+interface ParamSlider<K extends string> {
+	key: K;
+	label: string;
+	min: number;
+	max: number;
+	step: number;
+}
+
+const modes: { mode: PointerMode; label: string }[] = [
+	{ mode: "repel", label: "Repel" },
+	{ mode: "attract", label: "Attract" },
+	{ mode: "swirl", label: "Swirl" },
+	{ mode: "grab", label: "Grab" },
+	{ mode: "wake", label: "Wake" },
+];
+
+const radiusSlider: ParamSlider<"radius"> = { key: "radius", label: "Radius", min: 20, max: 500, step: 10 };
+const strengthSlider: ParamSlider<"strength"> = { key: "strength", label: "Strength", min: 0, max: 400, step: 5 };
+
+const radialSliders: readonly ParamSlider<keyof PointerRadialConfig>[] = [radiusSlider, strengthSlider];
+
+const swirlSliders: readonly ParamSlider<keyof PointerSwirlConfig>[] = [
+	radiusSlider,
+	strengthSlider,
+	{ key: "inwardPull", label: "Inward Pull", min: 0, max: 1, step: 0.05 },
+	{ key: "direction", label: "Direction", min: -1, max: 1, step: 2 },
+];
+
+const grabSliders: readonly ParamSlider<keyof PointerGrabConfig>[] = [
+	{ key: "pickRadius", label: "Pick Radius", min: 10, max: 300, step: 5 },
+	{ key: "followRate", label: "Follow Rate", min: 1, max: 30, step: 1 },
+	{ key: "throwScale", label: "Throw Scale", min: 0, max: 3, step: 0.1 },
+	{ key: "maxThrowSpeed", label: "Max Throw Speed", min: 100, max: 4000, step: 100 },
+];
+
+const wakeSliders: readonly ParamSlider<keyof PointerWakeConfig>[] = [
+	radiusSlider,
+	{ key: "transfer", label: "Transfer", min: 0, max: 20, step: 0.5 },
+	{ key: "minPointerSpeed", label: "Min Pointer Speed", min: 0, max: 300, step: 10 },
+];
+
+/**
+ * Sliders for one mode's parameters, read from and written through the slider keys
+ */
+function ParamSliders<K extends string>({
+	idPrefix,
+	params,
+	sliders,
+	onChange,
+}: {
+	idPrefix: string;
+	params: Record<K, number>;
+	sliders: readonly ParamSlider<K>[];
+	onChange: (key: K, value: number) => void;
+}) {
+	const { spacing, typography, colors } = debugMenuConfig;
+
+	return sliders.map((slider) => {
+		const id = `${idPrefix}-${slider.key}`;
+		const value = params[slider.key];
+		return (
+			<div key={id} style={{ display: "flex", flexDirection: "column", gap: spacing.gapSm, fontSize: typography.fontSizeMd }}>
+				<label htmlFor={id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+					<span style={{ color: colors.textSecondary }}>{slider.label}:</span>
+					<span style={{ color: colors.textPrimary }}>{value}</span>
+				</label>
+				<input
+					id={id}
+					name={id}
+					type="range"
+					min={slider.min}
+					max={slider.max}
+					step={slider.step}
+					value={value}
+					onChange={(e) => onChange(slider.key, parseFloat(e.target.value))}
+					aria-label={`${slider.label}: ${value}`}
+					style={{
+						width: "100%",
+						cursor: "pointer",
+						accentColor: colors.maroonAccent,
+					}}
+				/>
+			</div>
+		);
+	});
+}
+
+/**
+ * PointerModeDebugSection - Selects the mouse/touch interaction mode and tunes its parameters
+ * Follows Single Responsibility Principle - only handles pointer mode UI
+ */
+export function PointerModeDebugSection({
+	pointerMode,
+	pointerConfig,
+	onPointerModeChange,
+	onPointerConfigChange,
+}: PointerModeDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!pointerMode || !pointerConfig || !onPointerModeChange) return null;
+
+	const idPrefix = `debug-pointer-${pointerMode}`;
+	const change = onPointerConfigChange ?? (() => {});
+	let sliders: React.ReactNode;
+	switch (pointerMode) {
+		case "repel":
+		case "attract":
+			sliders = (
+				<ParamSliders
+					idPrefix={idPrefix}
+					params={pointerConfig[pointerMode]}
+					sliders={radialSliders}
+					onChange={(key, value) => change(pointerMode, { [key]: value })}
+				/>
+			);
+			break;
+		case "swirl":
+			sliders = (
+				<ParamSliders
+					idPrefix={idPrefix}
+					params={pointerConfig.swirl}
+					sliders={swirlSliders}
+					onChange={(key, value) => change("swirl", key === "direction" ? { direction: value < 0 ? -1 : 1 } : { [key]: value })}
+				/>
+			);
+			break;
+		case "grab":
+			sliders = (
+				<ParamSliders
+					idPrefix={idPrefix}
+					params={pointerConfig.grab}
+					sliders={grabSliders}
+					onChange={(key, value) => change("grab", { [key]: value })}
+				/>
+			);
+			break;
+		case "wake":
+			sliders = (
+				<ParamSliders
+					idPrefix={idPrefix}
+					params={pointerConfig.wake}
+					sliders={wakeSliders}
+					onChange={(key, value) => change("wake", { [key]: value })}
+				/>
+			);
+			break;
+	}
+
+	return (
+		<>
+			<SectionHeader title="Pointer Mode" />
+
+			<div style={{ display: "flex", flexDirection: "column", gap: `${spacing.gapMd}px`, marginBottom: `${spacing.gapLg}px` }}>
+				<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+					{modes.map(({ mode, label }) => (
+						<button
+							key={mode}
+							onClick={() => onPointerModeChange(mode)}
+							aria-pressed={pointerMode === mode}
+							style={{
+								flex: 1,
+								background: pointerMode === mode ? colors.maroon : colors.inputBg,
+								color: colors.textPrimary,
+								border: `1px solid ${colors.inputBorder}`,
+								borderRadius: dimensions.borderRadiusSm,
+								padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+								fontSize: typography.fontSizeSm,
+								cursor: "pointer",
+							}}
+						>
+							{label}
+						</button>
+					))}
+				</div>
+
+				{sliders}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { ToggleSlider } from "./ToggleSlider";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import type { PostFxEffect } from "@/components/orb-field/postfx/types";
+import type { PostFxDebugProps } from "../types";
+
+const effects: { id: PostFxEffect; label: string }[] = [
+	{ id: "bloom", label: "Bloom" },
+	{ id: "vignette", label: "Vignette" },
+	{ id: "chromaticAberration", label: "Burst Aberration" },
+	{ id: "filmGrain", label: "Film Grain" },
+];
+
+/**
+ * PostFxDebugSection - Toggles the post-processing effects over the orbs
+ * Follows Single Responsibility Principle - only handles post-processing UI
+ */
+export function PostFxDebugSection({ postFxConfig, postFxDisabledReason, onTogglePostFxEffect }: PostFxDebugProps) {
+	const { spacing, typography, colors } = debugMenuConfig;
+
+	if (!postFxConfig || !onTogglePostFxEffect) return null;
+
+	return (
+		<>
+			<SectionHeader title="Post Processing" />
+
+			{postFxDisabledReason && (
+				<div style={{ marginBottom: spacing.gapMd, color: colors.textMuted, fontSize: typography.fontSizeXs }}>
+					{postFxDisabledReason}
+				</div>
+			)}
+
+			<div style={{ display: "flex", flexDirection: "column", marginBottom: `${spacing.gapLg}px` }}>
+				{effects.map(({ id, label }) => (
+					<div
+						key={id}
+						style={{
+							display: "flex",
+							alignItems: "center",
+							justifyContent: "space-between",
+							paddingTop: `${spacing.gapMd}px`,
+							paddingBottom: `${spacing.gapMd}px`,
+							gap: `${spacing.gapXl}px`,
+						}}
+					>
+						<span style={{ fontSize: `${typography.fontSizeLg}px`, fontWeight: typography.fontWeightNormal, color: colors.textPrimary }}>
+							{label}
+						</span>
+						<ToggleSlider checked={postFxConfig[id].enabled} onToggle={() => onTogglePostFxEffect(id)} />
+					</div>
+				))}
+			</div>
+		</>
+	);
+}
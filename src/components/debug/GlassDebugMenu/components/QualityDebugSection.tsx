@@ -0,0 +1,208 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import type { OrbRendererKind, OrbTrailMode } from "@/components/orb-field/orb/visuals/types";
+import type { QualityDebugProps } from "../types";
+
+const renderers: { kind: OrbRendererKind; label: string }[] = [
+	{ kind: "canvas2d", label: "Canvas 2D" },
+	{ kind: "webgl", label: "WebGL" },
+];
+
+const trailModes: { mode: OrbTrailMode; label: string }[] = [
+	{ mode: "off", label: "No Trails" },
+	{ mode: "motionBlur", label: "Blur" },
+	{ mode: "history", label: "History" },
+];
+
+/**
+ * Formats a histogram bucket's upper bound as a label
+ */
+function formatBucketLabel(limitsMs: readonly number[], index: number): string {
+	const limit = limitsMs[index];
+	if (limit === Infinity) return `>${limitsMs[index - 1]}ms`;
+	return `≤${limit}ms`;
+}
+
+/**
+ * Formats a byte count as megabytes
+ */
+function formatMegabytes(bytes: number): string {
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * QualityDebugSection - Shows the adaptive quality tier, orb renderer and trail choice, sprite cache and a frame time histogram
+ * Follows Single Responsibility Principle - only handles quality governor UI
+ */
+export function QualityDebugSection({
+	qualityTier,
+	qualityTierIndex,
+	qualityTierCount,
+	adaptiveQuality,
+	frameTimeStats,
+	onResetFrameTimeStats,
+	orbRenderer,
+	isWebGLUnavailable,
+	webGLFallbackReason,
+	onOrbRendererChange,
+	spriteCacheStats,
+	onResetSpriteCacheStats,
+	orbTrailMode,
+	onOrbTrailModeChange,
+}: QualityDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!qualityTier || qualityTierIndex === undefined || !frameTimeStats) return null;
+
+	const maxCount = Math.max(1, ...frameTimeStats.counts);
+	const spriteLookups = spriteCacheStats ? spriteCacheStats.hits + spriteCacheStats.misses : 0;
+
+	return (
+		<>
+			<SectionHeader title="Quality" />
+
+			<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+				<span style={{ color: colors.textSecondary }}>Tier:</span>
+				<span style={{ color: qualityTierIndex === 0 ? colors.textSuccess : colors.textPrimary }}>
+					{qualityTier.label} ({qualityTierIndex + 1}/{qualityTierCount}){adaptiveQuality ? '' : ' · fixed'}
+				</span>
+			</div>
+
+			{orbRenderer && onOrbRendererChange && (
+				<div style={{ marginBottom: spacing.gapMd }}>
+					<div style={{ display: 'flex', gap: `${spacing.gapSm}px` }}>
+						{renderers.map(({ kind, label }) => (
+							<button
+								key={kind}
+								onClick={() => onOrbRendererChange(kind)}
+								aria-pressed={orbRenderer === kind}
+								disabled={kind === 'webgl' && isWebGLUnavailable}
+								style={{
+									flex: 1,
+									background: orbRenderer === kind ? colors.maroon : colors.inputBg,
+									color: colors.textPrimary,
+									border: `1px solid ${colors.inputBorder}`,
+									borderRadius: dimensions.borderRadiusSm,
+									padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+									fontSize: typography.fontSizeSm,
+									cursor: kind === 'webgl' && isWebGLUnavailable ? 'not-allowed' : 'pointer',
+									opacity: kind === 'webgl' && isWebGLUnavailable ? 0.5 : 1,
+								}}
+							>
+								{label}
+							</button>
+						))}
+					</div>
+					{isWebGLUnavailable && (
+						<div style={{ marginTop: spacing.gapSm, color: colors.textMuted, fontSize: typography.fontSizeXs }}>
+							WebGL unavailable{webGLFallbackReason ? ` (${webGLFallbackReason})` : ''} · drawing with Canvas 2D
+						</div>
+					)}
+				</div>
+			)}
+
+			{orbTrailMode && onOrbTrailModeChange && (
+				<div style={{ marginBottom: spacing.gapMd }}>
+					<div style={{ display: 'flex', gap: `${spacing.gapSm}px` }}>
+						{trailModes.map(({ mode, label }) => (
+							<button
+								key={mode}
+								onClick={() => onOrbTrailModeChange(mode)}
+								aria-pressed={orbTrailMode === mode}
+								style={{
+									flex: 1,
+									background: orbTrailMode === mode ? colors.maroon : colors.inputBg,
+									color: colors.textPrimary,
+									border: `1px solid ${colors.inputBorder}`,
+									borderRadius: dimensions.borderRadiusSm,
+									padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+									fontSize: typography.fontSizeSm,
+									cursor: 'pointer',
+								}}
+							>
+								{label}
+							</button>
+						))}
+					</div>
+					{orbTrailMode !== 'off' && orbRenderer === 'webgl' && !isWebGLUnavailable && (
+						<div style={{ marginTop: spacing.gapSm, color: colors.textMuted, fontSize: typography.fontSizeXs }}>
+							Trails draw with Canvas 2D only
+						</div>
+					)}
+				</div>
+			)}
+
+			{spriteCacheStats && orbRenderer !== 'webgl' && (
+				<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+					<span style={{ color: colors.textSecondary }}>Sprites:</span>
+					<span style={{ color: colors.textPrimary }}>
+						{spriteLookups > 0 ? `${Math.round((spriteCacheStats.hits / spriteLookups) * 100)}% hit` : '—'}
+						{` · ${spriteCacheStats.spriteCount} · ${formatMegabytes(spriteCacheStats.bytes)}`}
+						{spriteCacheStats.evictions > 0 && ` · ${spriteCacheStats.evictions} evicted`}
+					</span>
+				</div>
+			)}
+
+			<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+				<span style={{ color: colors.textSecondary }}>Frame:</span>
+				<span style={{ color: colors.textPrimary }}>
+					{frameTimeStats.recentMeanMs > 0 ? `${frameTimeStats.recentMeanMs.toFixed(1)}ms avg` : '—'}
+				</span>
+			</div>
+
+			<div style={{ marginBottom: spacing.gapMd, color: colors.textMuted, fontSize: typography.fontSizeXs }}>
+				{Math.round(qualityTier.orbCountScale * 100)}% orbs · {qualityTier.gradientStopCount} stops
+				{qualityTier.enableAvoidance ? '' : ' · no avoidance'}
+				{qualityTier.visualResolutionScale < 1 ? ` · ${Math.round(qualityTier.visualResolutionScale * 100)}% res` : ''}
+				{qualityTier.enablePostFx ? '' : ' · no post fx'}
+			</div>
+
+			<div style={{ display: 'flex', flexDirection: 'column', gap: `${spacing.gapSm}px`, marginBottom: spacing.gapLg }}>
+				{frameTimeStats.counts.map((count, index) => (
+					<div key={index} style={{ display: 'flex', alignItems: 'center', gap: `${spacing.gapSm}px`, fontSize: typography.fontSizeXs }}>
+						<span style={{ color: colors.textSecondary, minWidth: 48 }}>
+							{formatBucketLabel(frameTimeStats.bucketLimitsMs, index)}
+						</span>
+						<div style={{ flex: 1, height: 6, background: colors.inputBg, borderRadius: dimensions.borderRadiusSm }}>
+							<div
+								style={{
+									width: `${(count / maxCount) * 100}%`,
+									height: '100%',
+									background: colors.maroonAccent,
+									borderRadius: dimensions.borderRadiusSm,
+								}}
+							/>
+						</div>
+						<span style={{ color: colors.textMuted, minWidth: 32, textAlign: 'right' }}>
+							{frameTimeStats.total > 0 ? `${Math.round((count / frameTimeStats.total) * 100)}%` : '0%'}
+						</span>
+					</div>
+				))}
+			</div>
+
+			{onResetFrameTimeStats && (
+				<button
+					onClick={() => {
+						onResetFrameTimeStats();
+						onResetSpriteCacheStats?.();
+					}}
+					style={{
+						width: '100%',
+						marginBottom: spacing.gapLg,
+						background: colors.inputBg,
+						color: colors.textPrimary,
+						border: `1px solid ${colors.inputBorder}`,
+						borderRadius: dimensions.borderRadiusSm,
+						padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+						fontSize: typography.fontSizeSm,
+						cursor: 'pointer',
+					}}
+				>
+					Reset Stats
+				</button>
+			)}
+		</>
+	);
+}
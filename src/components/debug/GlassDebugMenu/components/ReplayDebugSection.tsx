@@ -0,0 +1,191 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { DEFAULT_INPUT_REPLAY_CONFIG } from "@/components/orb-field/replay/ReplayConfig";
+import type { ReplayDebugProps } from "../types";
+
+/**
+ * Result of the last export or import, shown under the buttons
+ */
+interface TransferStatus {
+	message: string;
+	isError: boolean;
+}
+
+/**
+ * Formats milliseconds as seconds with one decimal
+ */
+function formatSeconds(ms: number): string {
+	return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * ReplayDebugSection - Records inputs and plays them back with scrubbable controls
+ * Follows Single Responsibility Principle - only handles recording and playback UI
+ */
+export function ReplayDebugSection({ replayStatus, replayControls }: ReplayDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+	const [transferStatus, setTransferStatus] = useState<TransferStatus | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	if (!replayStatus || !replayControls) return null;
+
+	const { mode, hasRecording, isPlaying, speed, positionMs, durationMs, eventCount, error } = replayStatus;
+	const isRecording = mode === "recording";
+	const isReplaying = mode === "replaying";
+
+	const handleRecord = () => {
+		if (isRecording) {
+			replayControls.stopRecording();
+			return;
+		}
+		setTransferStatus(replayControls.startRecording() ? null : { message: "The grid is not ready yet", isError: true });
+	};
+
+	const handleCopy = async () => {
+		const recording = replayControls.exportRecording();
+		if (!recording) return;
+		try {
+			await navigator.clipboard.writeText(recording);
+			setTransferStatus({ message: "Recording copied to clipboard", isError: false });
+		} catch {
+			setTransferStatus({ message: "Clipboard unavailable - use Download", isError: true });
+		}
+	};
+
+	const handleDownload = () => {
+		const recording = replayControls.exportRecording();
+		if (!recording) return;
+		const url = URL.createObjectURL(new Blob([recording], { type: "application/json" }));
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `orb-recording-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+		setTransferStatus({ message: "Recording downloaded", isError: false });
+	};
+
+	const handleFile = async (file: File | undefined) => {
+		if (!file) return;
+		const result = replayControls.importRecording(await file.text());
+		setTransferStatus(result.ok
+			? { message: `Loaded ${result.recording.events.length} inputs (${formatSeconds(result.recording.durationMs)})`, isError: false }
+			: { message: result.error, isError: true });
+		if (fileInputRef.current) fileInputRef.current.value = "";
+	};
+
+	const buttonStyle = (active = false, disabled = false): React.CSSProperties => ({
+		flex: 1,
+		background: active ? colors.maroon : colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: disabled ? "not-allowed" : "pointer",
+		opacity: disabled ? 0.5 : 1,
+	});
+
+	const canTransfer = hasRecording && !isRecording;
+	const message = error ? { message: error, isError: true } : transferStatus;
+
+	return (
+		<>
+			<SectionHeader title="Input Replay" />
+
+			<div style={{ display: "flex", flexDirection: "column", gap: `${spacing.gapMd}px`, marginBottom: `${spacing.gapLg}px` }}>
+				<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+					<button
+						onClick={handleRecord}
+						disabled={isReplaying}
+						style={buttonStyle(isRecording, isReplaying)}
+						aria-pressed={isRecording}
+					>
+						{isRecording ? "Stop" : "Record"}
+					</button>
+					<button
+						onClick={isReplaying ? replayControls.exitReplay : replayControls.startReplay}
+						disabled={!canTransfer}
+						style={buttonStyle(isReplaying, !canTransfer)}
+						aria-pressed={isReplaying}
+					>
+						{isReplaying ? "Exit Replay" : "Replay"}
+					</button>
+				</div>
+
+				<span style={{ fontSize: `${typography.fontSizeSm}px`, color: colors.textSecondary }}>
+					{isRecording
+						? `Recording: ${formatSeconds(durationMs)}, ${eventCount} inputs`
+						: hasRecording
+							? `${formatSeconds(positionMs)} / ${formatSeconds(durationMs)}, ${eventCount} inputs`
+							: "No recording"}
+				</span>
+
+				{isReplaying && (
+					<>
+						<input
+							type="range"
+							min={0}
+							max={durationMs}
+							step={1}
+							value={positionMs}
+							onChange={(e) => replayControls.seek(parseFloat(e.target.value))}
+							aria-label={`Replay position: ${formatSeconds(positionMs)}`}
+							style={{ width: "100%", cursor: "pointer", accentColor: colors.maroonAccent }}
+						/>
+
+						<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+							<button onClick={isPlaying ? replayControls.pause : replayControls.play} style={buttonStyle(isPlaying)}>
+								{isPlaying ? "Pause" : "Play"}
+							</button>
+							<button onClick={replayControls.stepFrame} style={buttonStyle()}>Step</button>
+						</div>
+
+						<div style={{ display: "flex", gap: `${spacing.gapXs}px` }}>
+							{DEFAULT_INPUT_REPLAY_CONFIG.speeds.map((option) => (
+								<button
+									key={option}
+									onClick={() => replayControls.setSpeed(option)}
+									style={buttonStyle(option === speed)}
+									aria-pressed={option === speed}
+								>
+									{option}x
+								</button>
+							))}
+						</div>
+					</>
+				)}
+
+				<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+					<button onClick={handleCopy} disabled={!canTransfer} style={buttonStyle(false, !canTransfer)}>Copy JSON</button>
+					<button onClick={handleDownload} disabled={!canTransfer} style={buttonStyle(false, !canTransfer)}>Download</button>
+					<button onClick={() => fileInputRef.current?.click()} disabled={isRecording} style={buttonStyle(false, isRecording)}>
+						Load File
+					</button>
+					<input
+						ref={fileInputRef}
+						type="file"
+						accept="application/json,.json"
+						onChange={(e) => handleFile(e.target.files?.[0])}
+						style={{ display: "none" }}
+					/>
+				</div>
+
+				{message && (
+					<span
+						role="status"
+						style={{
+							fontSize: `${typography.fontSizeSm}px`,
+							color: message.isError ? colors.maroonButton : colors.textSuccess,
+							whiteSpace: "pre-wrap",
+						}}
+					>
+						{message.message}
+					</span>
+				)}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { GRID_REVEAL_PRESETS } from "@/components/orb-field/grid/visuals/GridRevealPresets";
+import type { GridRevealPreset, GridRevealPresetId } from "@/components/orb-field/grid/types";
+import type { RevealDebugProps } from "../types";
+
+const presets = Object.entries(GRID_REVEAL_PRESETS) as [GridRevealPresetId, GridRevealPreset][];
+
+/**
+ * RevealDebugSection - Picks the grid reveal preset and replays it over the running field
+ * Follows Single Responsibility Principle - only handles reveal preset UI
+ */
+export function RevealDebugSection({ revealPreset, onRevealPresetChange, onReplayReveal, isReplayingReveal = false }: RevealDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!revealPreset || !onRevealPresetChange || !onReplayReveal) return null;
+
+	const buttonStyle = (active: boolean): React.CSSProperties => ({
+		background: active ? colors.maroon : colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: 'pointer',
+	});
+
+	return (
+		<>
+			<SectionHeader title="Grid Reveal" />
+
+			<div style={{ display: 'flex', flexDirection: 'column', gap: `${spacing.gapMd}px`, marginBottom: spacing.gapLg }}>
+				<div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: `${spacing.gapSm}px` }}>
+					{presets.map(([id, preset]) => (
+						<button
+							key={id}
+							onClick={() => onRevealPresetChange(id)}
+							aria-pressed={revealPreset === id}
+							style={buttonStyle(revealPreset === id)}
+						>
+							{preset.label}
+						</button>
+					))}
+				</div>
+
+				<button onClick={onReplayReveal} disabled={isReplayingReveal} style={{ ...buttonStyle(false), opacity: isReplayingReveal ? 0.6 : 1 }}>
+					{isReplayingReveal ? "Playing…" : "Replay reveal"}
+				</button>
+
+				<span style={{ color: colors.textMuted, fontSize: typography.fontSizeXs }}>
+					{(GRID_REVEAL_PRESETS[revealPreset].durationMs / 1000).toFixed(1)}s · From cursor starts where the pointer is when replayed
+				</span>
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import type { DebugState } from "../../DebugContext";
+import type { SceneDebugProps } from "../types";
+
+type DebugToggleKey = keyof Omit<DebugState, "enabled">;
+
+/**
+ * Props for SceneDebugSection (toggles are saved with the scene and restored on load)
+ */
+interface SceneDebugSectionProps extends SceneDebugProps {
+	state: DebugState;
+	handleToggle: (key: DebugToggleKey) => void;
+}
+
+/**
+ * Result of the last export or import, shown under the buttons
+ */
+interface SceneStatus {
+	message: string;
+	isError: boolean;
+}
+
+/**
+ * SceneDebugSection - Copies, downloads and loads the orb field as scene JSON
+ * Follows Single Responsibility Principle - only handles scene transfer UI
+ */
+export function SceneDebugSection({ onExportScene, onImportScene, state, handleToggle }: SceneDebugSectionProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+	const [json, setJson] = useState("");
+	const [status, setStatus] = useState<SceneStatus | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	if (!onExportScene || !onImportScene) return null;
+
+	const exportJson = (): string | null => {
+		const { enabled: _enabled, ...toggles } = state;
+		const scene = onExportScene(toggles);
+		if (!scene) setStatus({ message: "The grid is not ready yet", isError: true });
+		return scene;
+	};
+
+	const handleCopy = async () => {
+		const scene = exportJson();
+		if (!scene) return;
+		try {
+			await navigator.clipboard.writeText(scene);
+			setStatus({ message: "Scene copied to clipboard", isError: false });
+		} catch {
+			// Clipboard access can be denied; leave the JSON where it can be copied by hand
+			setJson(scene);
+			setStatus({ message: "Clipboard unavailable - scene placed in the text box", isError: true });
+		}
+	};
+
+	const handleDownload = () => {
+		const scene = exportJson();
+		if (!scene) return;
+		const url = URL.createObjectURL(new Blob([scene], { type: "application/json" }));
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `orb-scene-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+		setStatus({ message: "Scene downloaded", isError: false });
+	};
+
+	const load = (text: string) => {
+		const result = onImportScene(text);
+		if (!result.ok) {
+			setStatus({ message: result.error, isError: true });
+			return;
+		}
+		for (const [key, value] of Object.entries(result.scene.debugToggles)) {
+			if (key in state && key !== "enabled" && state[key as DebugToggleKey] !== value) {
+				handleToggle(key as DebugToggleKey);
+			}
+		}
+		setStatus({
+			message: result.warning ?? `Loaded ${result.scene.orbs.length} orbs (seed ${result.scene.seed})`,
+			isError: false,
+		});
+	};
+
+	const handleFile = async (file: File | undefined) => {
+		if (!file) return;
+		load(await file.text());
+		if (fileInputRef.current) fileInputRef.current.value = "";
+	};
+
+	const buttonStyle = {
+		flex: 1,
+		background: colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	return (
+		<>
+			<SectionHeader title="Scene" />
+
+			<div style={{ display: "flex", flexDirection: "column", gap: `${spacing.gapMd}px`, marginBottom: `${spacing.gapLg}px` }}>
+				<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+					<button onClick={handleCopy} style={buttonStyle}>Copy JSON</button>
+					<button onClick={handleDownload} style={buttonStyle}>Download</button>
+				</div>
+
+				<textarea
+					value={json}
+					onChange={(e) => setJson(e.target.value)}
+					placeholder="Paste scene JSON"
+					aria-label="Scene JSON"
+					rows={3}
+					style={{
+						background: colors.inputBg,
+						color: colors.textPrimary,
+						border: `1px solid ${colors.inputBorder}`,
+						borderRadius: dimensions.borderRadiusSm,
+						fontSize: typography.fontSizeSm,
+						fontFamily: "inherit",
+						padding: `${spacing.gapSm}px ${spacing.gapMd}px`,
+						resize: "vertical",
+					}}
+				/>
+
+				<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+					<button
+						onClick={() => load(json)}
+						disabled={json.trim() === ""}
+						style={{ ...buttonStyle, opacity: json.trim() === "" ? 0.5 : 1 }}
+					>
+						Load Pasted
+					</button>
+					<button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>Load File</button>
+					<input
+						ref={fileInputRef}
+						type="file"
+						accept="application/json,.json"
+						onChange={(e) => handleFile(e.target.files?.[0])}
+						style={{ display: "none" }}
+					/>
+				</div>
+
+				{status && (
+					<span
+						role="status"
+						style={{
+							fontSize: `${typography.fontSizeSm}px`,
+							color: status.isError ? colors.maroonButton : colors.textSuccess,
+							whiteSpace: "pre-wrap",
+						}}
+					>
+						{status.message}
+					</span>
+				)}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import type { SimulationDebugProps } from "../types";
+
+/**
+ * SimulationDebugSection - Displays the simulation seed, stepping mode and collision diagnostics
+ * Follows Single Responsibility Principle - only handles simulation info UI
+ */
+export function SimulationDebugSection({ seed, fixedTimestepMs, collisionCounters, onResetCollisionCounters, physicsWorkerStatus }: SimulationDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (seed === undefined) return null;
+
+	return (
+		<>
+			<SectionHeader title="Simulation" />
+
+			<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+				<span style={{ color: colors.textSecondary }}>Seed:</span>
+				<span style={{ color: colors.textPrimary, userSelect: 'all' }}>{seed}</span>
+			</div>
+
+			<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+				<span style={{ color: colors.textSecondary }}>Step:</span>
+				<span style={{ color: colors.textPrimary }}>
+					{fixedTimestepMs ? `fixed ${fixedTimestepMs.toFixed(2)}ms` : 'variable'}
+				</span>
+			</div>
+
+			<div style={{ marginBottom: spacing.gapLg, color: colors.textMuted, fontSize: typography.fontSizeXs }}>
+				{fixedTimestepMs ? 'Reload this URL to replay the run' : `Open /debug?seed=${seed} to replay deterministically`}
+			</div>
+
+			{physicsWorkerStatus && (
+				<>
+					<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+						<span style={{ color: colors.textSecondary }}>Physics:</span>
+						<span style={{ color: physicsWorkerStatus.fallbackReason ? colors.maroonButton : colors.textPrimary }}>
+							{physicsWorkerStatus.active ? 'worker' : 'inline'}
+						</span>
+					</div>
+
+					{(physicsWorkerStatus.fallbackReason || physicsWorkerStatus.skipsCustomPhases) && (
+						<div style={{ marginBottom: spacing.gapLg, color: colors.textMuted, fontSize: typography.fontSizeXs }}>
+							{physicsWorkerStatus.fallbackReason
+								? `Worker ${physicsWorkerStatus.fallbackReason}`
+								: 'Custom phases only run inline; the worker skips them'}
+						</div>
+					)}
+				</>
+			)}
+
+			{collisionCounters && (
+				<>
+					<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+						<span style={{ color: colors.textSecondary }}>Tunnels Caught:</span>
+						<span style={{ color: colors.textPrimary }}>
+							{collisionCounters.wallTunnelsCaught} wall · {collisionCounters.orbTunnelsCaught} orb
+						</span>
+					</div>
+
+					<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+						<span style={{ color: colors.textSecondary }}>Escaped Orbs:</span>
+						<span style={{ color: collisionCounters.escapedOrbs === 0 ? colors.textSuccess : colors.maroonButton }}>
+							{collisionCounters.escapedOrbs}
+						</span>
+					</div>
+
+					<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between', fontSize: typography.fontSizeMd }}>
+						<span style={{ color: colors.textSecondary }}>Extra Sub-steps:</span>
+						<span style={{ color: colors.textPrimary }}>{collisionCounters.substeps}</span>
+					</div>
+
+					{onResetCollisionCounters && (
+						<button
+							onClick={onResetCollisionCounters}
+							style={{
+								width: '100%',
+								marginBottom: spacing.gapLg,
+								background: colors.inputBg,
+								color: colors.textPrimary,
+								border: `1px solid ${colors.inputBorder}`,
+								borderRadius: dimensions.borderRadiusSm,
+								padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+								fontSize: typography.fontSizeSm,
+								cursor: 'pointer',
+							}}
+						>
+							Reset Counters
+						</button>
+					)}
+				</>
+			)}
+		</>
+	);
+}
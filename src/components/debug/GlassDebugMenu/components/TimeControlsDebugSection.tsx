@@ -0,0 +1,93 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { DEFAULT_TIME_SCALE_CONFIG } from "@/components/orb-field/shared/config";
+import type { DebugState } from "../../DebugContext";
+import type { TimeControlDebugProps } from "../types";
+
+/**
+ * Props for TimeControlsDebugSection (pause is the existing pausePhysics toggle)
+ */
+interface TimeControlsDebugSectionProps extends TimeControlDebugProps {
+	state: DebugState;
+	handleToggle: (key: "pausePhysics") => void;
+}
+
+/**
+ * Formats a time scale as a multiplier without trailing zeros
+ */
+function formatTimeScale(scale: number): string {
+	return `${parseFloat(scale.toFixed(2))}x`;
+}
+
+/**
+ * TimeControlsDebugSection - Slow motion, fast forward and frame stepping for physics
+ * Follows Single Responsibility Principle - only handles time control UI
+ */
+export function TimeControlsDebugSection({ timeScale, onTimeScaleChange, onStepFrame, state, handleToggle }: TimeControlsDebugSectionProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+	const { min, max } = DEFAULT_TIME_SCALE_CONFIG;
+
+	if (timeScale === undefined || !onTimeScaleChange || !onStepFrame) return null;
+
+	const isPaused = state.pausePhysics;
+
+	const handleStep = () => {
+		// Stepping only runs while paused, so the first press freezes the field
+		if (!isPaused) {
+			handleToggle("pausePhysics");
+			return;
+		}
+		onStepFrame();
+	};
+
+	const buttonStyle = (active = false): React.CSSProperties => ({
+		flex: 1,
+		background: active ? colors.maroon : colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	});
+
+	return (
+		<>
+			<SectionHeader title="Time" />
+
+			<div style={{ display: "flex", flexDirection: "column", gap: `${spacing.gapMd}px`, marginBottom: `${spacing.gapLg}px` }}>
+				<label style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: `${typography.fontSizeMd}px` }}>
+					<span style={{ color: colors.textSecondary }}>Time Scale:</span>
+					<span style={{ color: colors.textPrimary }}>{formatTimeScale(timeScale)}</span>
+				</label>
+				{/* Logarithmic so 0.05x-1x gets as much travel as 1x-8x */}
+				<input
+					type="range"
+					min={Math.log2(min)}
+					max={Math.log2(max)}
+					step={0.01}
+					value={Math.log2(timeScale)}
+					onChange={(e) => onTimeScaleChange(2 ** parseFloat(e.target.value))}
+					aria-label={`Time scale: ${formatTimeScale(timeScale)}`}
+					style={{ width: "100%", cursor: "pointer", accentColor: colors.maroonAccent }}
+				/>
+
+				<div style={{ display: "flex", gap: `${spacing.gapSm}px` }}>
+					<button onClick={() => handleToggle("pausePhysics")} style={buttonStyle(isPaused)} aria-pressed={isPaused}>
+						{isPaused ? "Resume" : "Pause"}
+					</button>
+					<button onClick={handleStep} style={buttonStyle()}>Step</button>
+					<button onClick={() => onTimeScaleChange(1)} style={buttonStyle(timeScale === 1)} aria-pressed={timeScale === 1}>
+						1x
+					</button>
+				</div>
+
+				<span style={{ color: colors.textMuted, fontSize: `${typography.fontSizeXs}px` }}>
+					P pause · . step · [ ] slower/faster · 0 real time
+				</span>
+			</div>
+		</>
+	);
+}
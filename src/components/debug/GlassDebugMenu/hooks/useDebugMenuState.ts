@@ -22,12 +22,11 @@ export function useDebugMenuState() {
 		showCards: true,
 		showArrowVector: true,
 		showTruePosition: true,
+		showForceFields: true,
 		showGrid: true,
 		enableOrbSpawning: true,
 		enableOrbDespawning: true,
 		pausePhysics: false,
-		disableCollisions: false,
-		disableAvoidance: false,
 	});
 
 	// Subscribe to storage changes
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { DEFAULT_TIME_SCALE_CONFIG } from "@/components/orb-field/shared/config";
+import type { TimeControlDebugProps } from "../types";
+
+/**
+ * Options for the time control keyboard shortcuts
+ */
+interface UseTimeShortcutsOptions extends TimeControlDebugProps {
+	/** Only listens while the debug menu is shown */
+	enabled: boolean;
+	isPaused: boolean;
+	togglePause: () => void;
+}
+
+/**
+ * Returns the next preset above or below the current scale (slider values fall between presets)
+ */
+function nextPreset(scale: number, direction: 1 | -1): number {
+	const { presets } = DEFAULT_TIME_SCALE_CONFIG;
+	if (direction > 0) return presets.find((preset) => preset > scale + 1e-6) ?? presets[presets.length - 1];
+	return [...presets].reverse().find((preset) => preset < scale - 1e-6) ?? presets[0];
+}
+
+/**
+ * Whether a keystroke belongs to a form field rather than the page
+ */
+function isTypingTarget(target: EventTarget | null): boolean {
+	if (!(target instanceof HTMLElement)) return false;
+	return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/**
+ * Keyboard shortcuts for physics time controls
+ * P toggles pause, . steps one frame (pausing first), [ and ] move through
+ * the time scale presets and 0 returns to real time.
+ * Arrow keys and Space are left alone - the homepage navigates with them.
+ * Follows Single Responsibility Principle - only handles time control keys
+ */
+export function useTimeShortcuts({ enabled, isPaused, togglePause, timeScale, onTimeScaleChange, onStepFrame }: UseTimeShortcutsOptions) {
+	// Read by the listener so it is attached once rather than on every state change
+	const latestRef = useRef({ isPaused, togglePause, timeScale, onTimeScaleChange, onStepFrame });
+	useEffect(() => {
+		latestRef.current = { isPaused, togglePause, timeScale, onTimeScaleChange, onStepFrame };
+	}, [isPaused, togglePause, timeScale, onTimeScaleChange, onStepFrame]);
+
+	useEffect(() => {
+		if (!enabled) return;
+
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (e.ctrlKey || e.metaKey || e.altKey) return;
+			if (isTypingTarget(e.target)) return;
+
+			const { isPaused, togglePause, timeScale, onTimeScaleChange, onStepFrame } = latestRef.current;
+			if (timeScale === undefined || !onTimeScaleChange || !onStepFrame) return;
+
+			switch (e.key) {
+				case "p":
+				case "P":
+					// Holding P would flicker between paused and running
+					if (!e.repeat) togglePause();
+					break;
+				case ".":
+					if (isPaused) onStepFrame();
+					else togglePause();
+					break;
+				case "[":
+					onTimeScaleChange(nextPreset(timeScale, -1));
+					break;
+				case "]":
+					onTimeScaleChange(nextPreset(timeScale, 1));
+					break;
+				case "0":
+					onTimeScaleChange(1);
+					break;
+				default:
+					return;
+			}
+			e.preventDefault();
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [enabled]);
+}
@@ -3,8 +3,23 @@
  * Follows Interface Segregation Principle - focused interfaces for specific concerns
  */
 
-import { type Orb } from "@/components/orb-field/orb/types";
-import { type GridConfig, type ViewportCells } from "@/components/orb-field/grid/types";
+import { type Orb, type OrbEdit } from "@/components/orb-field/orb/types";
+import { type OrbHistorySamples } from "@/components/orb-field/inspector/types";
+import { type GridConfig, type GridRevealPresetId, type ViewportCells } from "@/components/orb-field/grid/types";
+import { type PhysicsPhaseInfo } from "@/components/orb-field/physics/types";
+import { type CollisionCounterValues } from "@/components/orb-field/collision/CollisionCounters";
+import { type PhysicsWorkerStatus } from "@/components/orb-field/worker/types";
+import { type ForceField, type ForceFieldKind } from "@/components/orb-field/forces/types";
+import { type PointerInteractionConfig } from "@/components/orb-field/pointer/PointerConfig";
+import { type PointerMode } from "@/components/orb-field/pointer/types";
+import { type QualityTier, type FrameTimeStats } from "@/components/orb-field/quality/types";
+import { type OrbRendererKind, type OrbTrailMode } from "@/components/orb-field/orb/visuals/types";
+import { type OrbSpriteCacheStats } from "@/components/orb-field/orb/visuals/OrbSpriteCache";
+import { type OrbPaletteId } from "@/components/orb-field/palette/types";
+import { type PostFxConfig } from "@/components/orb-field/postfx/PostFxConfig";
+import { type PostFxEffect } from "@/components/orb-field/postfx/types";
+import { type SceneLoadResult } from "@/components/orb-field/scene/types";
+import { type InputReplayStatus, type InputReplayControls } from "@/components/orb-field/replay/types";
 import { type DebugState } from "../DebugContext";
 
 /**
@@ -29,6 +44,16 @@ export interface OrbDebugProps {
 	onDeleteOrb?: (id: string) => void;
 	/** Callback when orb size changes */
 	onSizeChange?: (size: number) => void;
+	/** Speed and layer history of the selected orb */
+	orbHistory?: OrbHistorySamples | null;
+	/** Number of z-layers (inspector layer range) */
+	totalLayers?: number;
+	/** Whether the follow marker is drawn around the selected orb */
+	isFollowingOrb?: boolean;
+	/** Callback when the follow marker is toggled */
+	onFollowOrbChange?: (following: boolean) => void;
+	/** Callback when the selected orb is edited in the inspector */
+	onEditOrb?: (edit: OrbEdit) => void;
 }
 
 /**
@@ -57,14 +82,176 @@ export interface GridDebugProps {
 	currentLayer?: number;
 	/** Callback when layer changes */
 	onLayerChange?: (layer: number) => void;
+	/** Depth-of-field focus layer */
+	focusLayer?: number;
+	/** Callback when the focus layer changes */
+	onFocusLayerChange?: (layer: number) => void;
 	/** Currently hovered cell */
 	hoveredCell?: CellPosition | null;
 }
 
 /**
- * Combined props for GlassDebugMenu (union of orb and grid debug props)
+ * Props for simulation reproducibility info
  */
-export type GlassDebugMenuProps = OrbDebugProps & GridDebugProps;
+export interface SimulationDebugProps {
+	/** Seed of the orb simulation's random source */
+	seed?: number;
+	/** Fixed physics step length in milliseconds, or null for variable stepping */
+	fixedTimestepMs?: number | null;
+	/** Continuous collision diagnostics (tunnelling caught, escaped orbs) */
+	collisionCounters?: CollisionCounterValues;
+	/** Callback to zero the collision counters */
+	onResetCollisionCounters?: () => void;
+	/** Whether physics runs in the worker, and why it fell back if not */
+	physicsWorkerStatus?: PhysicsWorkerStatus;
+}
+
+/**
+ * Props for physics pipeline phase toggles
+ */
+export interface PhysicsPhaseDebugProps {
+	/** Registered physics phases in execution order */
+	physicsPhases?: PhysicsPhaseInfo[];
+	/** Callback when a phase is toggled */
+	onTogglePhysicsPhase?: (id: string, enabled: boolean) => void;
+}
+
+/**
+ * Props for interactive force field placement
+ */
+export interface ForceFieldDebugProps {
+	/** Active force fields */
+	forceFields?: readonly ForceField[];
+	/** Kind placed by the next canvas click, or null */
+	forceFieldPlacementKind?: ForceFieldKind | null;
+	/** Callback to arm (or disarm with null) click placement */
+	onArmForceFieldPlacement?: (kind: ForceFieldKind | null) => void;
+	/** Callback when a field is removed */
+	onRemoveForceField?: (id: string) => void;
+	/** Callback when all fields are removed */
+	onClearForceFields?: () => void;
+}
+
+/**
+ * Props for the mouse and touch interaction mode selector
+ */
+export interface PointerModeDebugProps {
+	/** Active pointer mode */
+	pointerMode?: PointerMode;
+	/** Parameters for every pointer mode */
+	pointerConfig?: PointerInteractionConfig;
+	/** Callback when a mode is selected */
+	onPointerModeChange?: (mode: PointerMode) => void;
+	/** Callback when a mode parameter changes */
+	onPointerConfigChange?: <M extends PointerMode>(mode: M, changes: Partial<PointerInteractionConfig[M]>) => void;
+}
+
+/**
+ * Props for the adaptive quality governor readout
+ */
+export interface QualityDebugProps {
+	/** Active quality tier */
+	qualityTier?: QualityTier;
+	/** Index of the active tier (0 is full quality) */
+	qualityTierIndex?: number;
+	/** Number of tiers on the ladder */
+	qualityTierCount?: number;
+	/** Whether frame times currently drive the tier */
+	adaptiveQuality?: boolean;
+	/** Frame time distribution */
+	frameTimeStats?: FrameTimeStats;
+	/** Callback to clear the frame time histogram */
+	onResetFrameTimeStats?: () => void;
+	/** Requested orb renderer */
+	orbRenderer?: OrbRendererKind;
+	/** Whether WebGL is unavailable (orbs are drawn with Canvas 2D regardless) */
+	isWebGLUnavailable?: boolean;
+	/** Why orbs fell back to Canvas 2D */
+	webGLFallbackReason?: string | null;
+	/** Callback to switch orb renderer */
+	onOrbRendererChange?: (kind: OrbRendererKind) => void;
+	/** Canvas 2D glow sprite cache hit rate and memory */
+	spriteCacheStats?: OrbSpriteCacheStats;
+	/** Callback to clear the sprite cache counters */
+	onResetSpriteCacheStats?: () => void;
+	/** Active orb trail mode */
+	orbTrailMode?: OrbTrailMode;
+	/** Callback to switch orb trail mode */
+	onOrbTrailModeChange?: (mode: OrbTrailMode) => void;
+}
+
+/**
+ * Props for the orb palette selector
+ */
+export interface PaletteDebugProps {
+	/** Active orb palette */
+	orbPalette?: OrbPaletteId;
+	/** Callback to switch palette */
+	onOrbPaletteChange?: (id: OrbPaletteId) => void;
+}
+
+/**
+ * Props for the post-processing effect toggles
+ */
+export interface PostFxDebugProps {
+	/** Post-processing settings */
+	postFxConfig?: PostFxConfig;
+	/** Why the whole stage is currently skipped (null while it runs) */
+	postFxDisabledReason?: string | null;
+	/** Callback to turn one effect on or off */
+	onTogglePostFxEffect?: (effect: PostFxEffect) => void;
+}
+
+/**
+ * Props for scene save/load
+ */
+export interface SceneDebugProps {
+	/** Serializes the field with the given debug toggles (null while the grid is not ready) */
+	onExportScene?: (debugToggles: Record<string, boolean>) => string | null;
+	/** Validates and loads scene JSON */
+	onImportScene?: (json: string) => SceneLoadResult;
+}
+
+/**
+ * Props for input recording and replay
+ */
+export interface ReplayDebugProps {
+	/** Recorder and player state */
+	replayStatus?: InputReplayStatus;
+	/** Record, playback and transfer actions */
+	replayControls?: InputReplayControls;
+}
+
+/**
+ * Props for physics time scaling and single stepping
+ */
+export interface TimeControlDebugProps {
+	/** Current physics time scale (1 = real time) */
+	timeScale?: number;
+	/** Callback when the time scale changes */
+	onTimeScaleChange?: (scale: number) => void;
+	/** Runs one physics frame while paused */
+	onStepFrame?: () => void;
+}
+
+/**
+ * Props for choosing and replaying the grid reveal animation
+ */
+export interface RevealDebugProps {
+	/** Active reveal preset */
+	revealPreset?: GridRevealPresetId;
+	/** Callback to switch preset */
+	onRevealPresetChange?: (id: GridRevealPresetId) => void;
+	/** Plays the active preset again */
+	onReplayReveal?: () => void;
+	/** Whether a replay is playing */
+	isReplayingReveal?: boolean;
+}
+
+/**
+ * Combined props for GlassDebugMenu (union of orb, grid, simulation, physics, force field, pointer, quality, palette, post-processing, scene, replay, time control and reveal debug props)
+ */
+export type GlassDebugMenuProps = OrbDebugProps & GridDebugProps & SimulationDebugProps & PhysicsPhaseDebugProps & ForceFieldDebugProps & PointerModeDebugProps & QualityDebugProps & PaletteDebugProps & PostFxDebugProps & SceneDebugProps & ReplayDebugProps & TimeControlDebugProps & RevealDebugProps;
 
 /**
  * Toggle item configuration
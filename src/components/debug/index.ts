@@ -1,6 +1,6 @@
 export { DebugProvider, useDebug, useDebugSafe, type DebugState } from "./DebugContext";
 export { DebugMenu } from "./DebugMenu";
 export { GlassDebugMenu } from "./GlassDebugMenu/index";
-export type { GlassDebugMenuProps } from "./GlassDebugMenu/index";
+export type { GlassDebugMenuProps, SimulationDebugProps, PhysicsPhaseDebugProps, ForceFieldDebugProps, PointerModeDebugProps, QualityDebugProps } from "./GlassDebugMenu/index";
 export { DebugGitHubButton } from "./DebugGitHubButton";
-export { useDebugUrlSync, getInitialSectionFromDebugUrl } from "./useDebugUrlSync";
+export { useDebugUrlSync, getInitialSectionFromDebugUrl, getSeedFromDebugUrl } from "./useDebugUrlSync";
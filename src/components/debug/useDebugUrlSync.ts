@@ -3,6 +3,7 @@
 import { useEffect, useRef } from "react";
 import { useDebugSafe } from "./DebugContext";
 import { debugStorage } from "@/lib/storage";
+import { parseSeed } from "@/components/orb-field/shared/random";
 
 // Map section indices to card slugs
 const SECTION_TO_CARD = ["about", "links", "contact"] as const;
@@ -24,6 +25,8 @@ const CARD_TO_SECTION: Record<string, number> = {
  * When navigating to a /debug URL:
  * - Debug mode is automatically enabled
  * 
+ * Query parameters (e.g. ?seed=) are kept when the path is rewritten.
+ * 
  * This hook should be called from a component that has access to:
  * - activeSection (current card index)
  * - hasPassedGreeting (whether greeting animation completed)
@@ -79,7 +82,7 @@ export function useDebugUrlSync(
 		// Only update if path actually changed
 		if (targetPath !== currentPath && targetPath !== lastUpdateRef.current) {
 			lastUpdateRef.current = targetPath;
-			window.history.replaceState(null, "", targetPath);
+			window.history.replaceState(null, "", targetPath + window.location.search);
 		}
 
 		// Also update the debug context's activeCard
@@ -121,3 +124,12 @@ export function isDebugUrl(): boolean {
 	if (typeof window === "undefined") return false;
 	return window.location.pathname.startsWith("/debug");
 }
+
+/**
+ * Get the simulation seed from a /debug URL (e.g. /debug?seed=12345).
+ * Returns null if not on a debug route or the seed is missing or invalid.
+ */
+export function getSeedFromDebugUrl(): number | null {
+	if (!isDebugUrl()) return null;
+	return parseSeed(new URLSearchParams(window.location.search).get("seed"));
+}
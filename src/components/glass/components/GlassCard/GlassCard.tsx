@@ -5,6 +5,7 @@ import { useDeviceOrientation, useTouchDevice } from "@/hooks";
 import { useCardTilt } from "../../hooks/tilt";
 import { useEntryExitAnimation, buildEntryExitTransform, buildWheelTransform, buildMobilePaddingValue, buildGlassCardCssVars } from "../../hooks/animation";
 import { useOpacityVisibility } from "../../hooks/visibility";
+import { useGridObstacle } from "@/components/orb-field/hooks/useGridObstacle";
 import { borderRadiusDefaults, paddingDefaults, cardDefaults } from "../../styles";
 import type { GlassCardProps } from "../../types";
 import { GlassCardBackground } from "./GlassCardBackground";
@@ -64,6 +65,9 @@ export function GlassCard({
 	// Visibility management
 	const { isVisible } = useOpacityVisibility({ opacity });
 
+	// Orbs bounce off the card while it is mostly shown (the active card)
+	useGridObstacle(cardRef, { enabled: opacity > 0.5 });
+
 	// Padding values
 	const paddingValue = typeof padding === "number" ? `${padding}px` : padding;
 	const mobilePaddingValue = buildMobilePaddingValue(mobilePadding, padding, paddingDefaults.cardMobile);
@@ -6,6 +6,7 @@ import { useInteraction3D, useDragInteraction } from "../../hooks/interaction";
 import { useSpringAnimation } from "../../hooks/animation";
 import { useDelayedVisibility, computeSliderVisibility } from "../../hooks/visibility";
 import { useDebugMode } from "../../hooks/debug";
+import { useGridObstacle } from "@/components/orb-field/hooks/useGridObstacle";
 import { DEFAULT_SLIDER_CONFIG } from "../../types";
 import { sliderPositionDefaults, visibilityDefaults, animationTimings } from "../../styles";
 import type { SliderConfig } from "../../types";
@@ -106,6 +107,9 @@ export function GlassSlider({ opacity = 1, onSlideComplete, config: configOverri
 	// Use mounted check to ensure consistent SSR/client rendering
 	const isInteractive = mounted && computedVisibility === "visible" && computedOpacity > 0;
 
+	// Orbs bounce off the track while the slider is shown
+	useGridObstacle(trackRef, { enabled: isInteractive });
+
 	return (
 		<div
 			onTouchStart={(e) => e.stopPropagation()}
@@ -4,7 +4,7 @@
 // OrbField - Controller Component for Grid and Orb Systems
 // =============================================================================
 
-import { useEffect, useState, useRef, useMemo } from 'react';
+import { useCallback, useEffect, useState, useRef, useMemo } from 'react';
 import { useOrbManager } from './orb/hooks/useOrbManager';
 import {
 	DEFAULT_REVEAL_CONFIG,
@@ -22,14 +22,46 @@ import {
 	useDebugStateSync,
 	useEventHandlers,
 	usePhysicsLoop,
+	usePhysicsWorker,
 	useGridInitialization,
+	useGridLineTransition,
+	useGridReveal,
 	useOrbFieldInteractions,
 	useCanvasSync,
 	useOpacityFade,
 	useOpacityRef,
 	useOrbBurst,
 	useRenderLoop,
+	useSimulationSeed,
+	useOrbSimulation,
+	usePhysicsPipeline,
+	useForceFields,
+	useForceFieldAnchors,
+	useGridObstacles,
+	useGridShapes,
+	usePointerInteraction,
+	useCollisionCounters,
+	useGridStorageStats,
+	useQualityGovernor,
+	useOrbRenderer,
+	useOrbPalette,
+	useOrbFocus,
+	useOrbTrails,
+	useOrbInspector,
+	useSceneTransfer,
+	useReplayedInputs,
+	useInputReplay,
+	useTimeControls,
+	usePostFx,
+	type ForceFieldAnchor,
 } from './hooks';
+import { type ForceFieldInput } from './forces';
+import { type GridShape } from './obstacles';
+import { type GridRevealPresetId } from './grid/types';
+import { type PointerMode } from './pointer';
+import { DEFAULT_ORB_FOCAL_PLANE, type OrbRendererKind, type OrbFocalPlane, type OrbTrailMode } from './orb/visuals';
+import { type OrbPaletteId } from './palette';
+import { PHYSICS_PHASE_IDS } from './physics';
 import styles from './OrbField.module.css';
 
 /**
@@ -42,8 +74,10 @@ interface OrbFieldProps {
 	layer?: number;
 	/** Base opacity of the canvas element. */
 	opacity?: number;
-	/** Overrides for reveal animation configuration. */
+	/** Overrides for reveal animation configuration (a duration here overrides the preset's). */
 	revealConfig?: Partial<GridRevealConfig>;
+	/** Initial grid reveal preset (switchable and replayable in the debug menu). */
+	revealPreset?: GridRevealPresetId;
 	/** Overrides for visual style configuration. */
 	styleConfig?: Partial<GridStyleConfig>;
 	/** When true, triggers the orb burst explosion. Should transition from false to true once. */
@@ -58,6 +92,32 @@ interface OrbFieldProps {
 	deviceTiltX?: number;
 	/** Device tilt Y (0-1, 0.5 = center) for parallax offset */
 	deviceTiltY?: number;
+	/** Run physics in a Web Worker (falls back to the inline loop when unsupported). */
+	useWorkerPhysics?: boolean;
+	/** Pins the simulation seed for a reproducible run (overrides /debug?seed=). */
+	seed?: number;
+	/** Force fields to keep registered (memoize; the array identity drives re-sync). */
+	forceFields?: ForceFieldInput[];
+	/** Force fields that follow DOM elements, e.g. an attractor behind the active card. */
+	forceFieldAnchors?: ForceFieldAnchor[];
+	/** SVG paths, text or image masks placed in grid world space (cm) as walls or containers (memoize). */
+	shapes?: readonly GridShape[];
+	/** Initial mouse and touch interaction mode (switchable in the debug menu). */
+	pointerMode?: PointerMode;
+	/** Merge gently touching small orbs and split hard-hit large ones (toggle under Physics Phases). */
+	orbLifecycle?: boolean;
+	/** Lower orb count and render quality when frames miss their budget (off for pinned seeds). */
+	adaptiveQuality?: boolean;
+	/** Initial orb renderer (switchable in the debug menu; WebGL falls back to Canvas 2D). */
+	orbRenderer?: OrbRendererKind;
+	/** Orb colour palette; changing it cross-fades the existing orbs. */
+	palette?: OrbPaletteId;
+	/** Depth-of-field focal plane; changing it pulls focus smoothly (memoize or use ORB_FOCAL_PLANES). */
+	focalPlane?: OrbFocalPlane;
+	/** Initial orb trail mode (switchable in the debug menu; the WebGL renderer draws no trails). */
+	orbTrails?: OrbTrailMode;
+	/** Bloom, vignette, burst aberration and grain over the orbs (skipped under reduced motion and on low tiers). */
+	postFx?: boolean;
 }
 
 /**
@@ -75,6 +135,7 @@ export function OrbField({
 	layer: initialLayer = 50,
 	opacity = DEFAULT_ORBFIELD_CONFIG.defaultOpacity,
 	revealConfig: revealOverrides,
+	revealPreset: initialRevealPreset = DEFAULT_ORBFIELD_CONFIG.revealPreset,
 	styleConfig: styleOverrides,
 	triggerBurst = false,
 	onAnimationComplete,
@@ -82,12 +143,26 @@ export function OrbField({
 	isMobile = false,
 	deviceTiltX = 0.5,
 	deviceTiltY = 0.5,
+	useWorkerPhysics = DEFAULT_ORBFIELD_CONFIG.useWorkerPhysics,
+	seed: pinnedSeed,
+	forceFields: programmaticForceFields,
+	forceFieldAnchors,
+	shapes,
+	pointerMode: initialPointerMode = DEFAULT_ORBFIELD_CONFIG.pointerMode,
+	orbLifecycle = DEFAULT_ORBFIELD_CONFIG.orbLifecycle,
+	adaptiveQuality = DEFAULT_ORBFIELD_CONFIG.adaptiveQuality,
+	orbRenderer: initialOrbRenderer = DEFAULT_ORBFIELD_CONFIG.orbRenderer,
+	palette = DEFAULT_ORBFIELD_CONFIG.palette,
+	focalPlane = DEFAULT_ORB_FOCAL_PLANE,
+	orbTrails: initialOrbTrails = DEFAULT_ORBFIELD_CONFIG.orbTrails,
+	postFx: enablePostFx = DEFAULT_ORBFIELD_CONFIG.postFx,
 }: OrbFieldProps) {
 	// =========================================================================
 	// Refs
 	// =========================================================================
 	const canvasRef = useRef<HTMLCanvasElement>(null);
 	const visualCanvasRef = useRef<HTMLCanvasElement>(null);
+	const postFxCanvasRef = useRef<HTMLCanvasElement>(null);
 	const currentLayerRef = useRef(initialLayer);
 	const windowSizeRef = useRef({ width: 0, height: 0 });
 
@@ -100,12 +175,41 @@ export function OrbField({
 	// =========================================================================
 	// Hooks
 	// =========================================================================
-	const { windowSize, mousePosRef, isPageVisibleRef, isMounted } = useEventHandlers();
-	const { gridConfig, viewportCells, gridRef, viewportCellsRef } = useGridInitialization({ windowSize, isMobile });
+	const { windowSize: liveWindowSize, pointerTrackerRef, isPageVisibleRef, isMounted } = useEventHandlers();
+	// Scroll, tilt and window size come from the recording while a replay runs
+	const fieldInputs = useReplayedInputs(liveWindowSize, scrollProgress, deviceTiltX, deviceTiltY);
+	const { windowSize } = fieldInputs.inputs;
 	const debugState = useDebugStateSync();
-	const { currentScrollOffsetRef, updateParallaxOffset } = useParallaxOffset(scrollProgress, isMobile, deviceTiltX, deviceTiltY);
+	const seedState = useSimulationSeed({
+		seed: pinnedSeed,
+		fixedTimestepMs: DEFAULT_ORBFIELD_CONFIG.fixedTimestepMs,
+		getEffectiveTime: debugState.getEffectiveTime,
+	});
+	const simulation = useOrbSimulation({ random: seedState.random });
+	const { gridConfig, viewportCells, gridRef, viewportCellsRef } = useGridInitialization({ windowSize, isMobile, simulation });
+	const lineCellsRef = useGridLineTransition(viewportCells);
+	const { currentScrollOffsetRef, updateParallaxOffset } = useParallaxOffset(
+		fieldInputs.inputs.scrollProgress,
+		isMobile,
+		fieldInputs.inputs.deviceTiltX,
+		fieldInputs.inputs.deviceTiltY
+	);
+	const forceFields = useForceFields(simulation.forceFields, programmaticForceFields);
+	useForceFieldAnchors(simulation.forceFields, forceFieldAnchors);
+	useGridObstacles(simulation);
+	useGridShapes(simulation, gridConfig, shapes);
+	const pointer = usePointerInteraction(simulation.pointer, initialPointerMode);
 
-	const orbManager = useOrbManager();
+	const timeControls = useTimeControls({
+		pausePhysicsRef: debugState.pausePhysicsRef,
+		setClockScale: debugState.setTimeScale,
+		advancePausedTime: debugState.advancePausedTime,
+	});
+
+	const orbManager = useOrbManager({
+		simulation,
+		getTime: seedState.getSimulationTime,
+	});
 	const {
 		hoveredCell,
 		hoveredCellRef,
@@ -127,6 +231,8 @@ export function OrbField({
 		enableSpawnOnClickRef: debugState.enableSpawnOnClickRef,
 		createOrb: orbManager.createOrb,
 		deleteOrb: orbManager.deleteOrb,
+		placeForceField: forceFields.placeField,
+		pointerModeRef: pointer.modeRef,
 	});
 
 	const { burstTimeRef } = useOrbBurst({
@@ -136,18 +242,83 @@ export function OrbField({
 		currentScrollOffsetRef,
 		gridRef,
 		viewportCellsRef,
+		getTime: seedState.getSimulationTime,
 	});
 
 	const { syncCanvasDimensions } = useCanvasSync();
 	const { calculateOpacity, updateOpacity } = useOpacityFade();
 	const opacityRef = useOpacityRef(opacity);
 
-	const { runPhysics } = usePhysicsLoop({
-		getEffectiveTime: debugState.getEffectiveTime,
-		spawnRandomOrbs: orbManager.spawnRandomOrbs,
+	const sceneTransfer = useSceneTransfer({
+		simulation,
+		random: seedState.random,
+		gridRef,
+		viewportCellsRef,
+		seed: seedState.seed,
+		setSeed: seedState.setSeed,
+		getSimulationTime: seedState.getSimulationTime,
+		setSimulationTime: seedState.setSimulationTime,
+		burstTimeRef,
+		replaceOrbs: orbManager.replaceOrbs,
+	});
+	const replay = useInputReplay({
+		livePointerTrackerRef: pointerTrackerRef,
+		liveInputs: fieldInputs.liveInputs,
+		setReplayedInputs: fieldInputs.setReplayedInputs,
+		windowSize,
+		debugOptionRefs: debugState,
+		seed: seedState.seed,
+		stepMs: seedState.fixedTimestepMs ?? DEFAULT_ORBFIELD_CONFIG.fixedTimestepMs,
+		captureScene: sceneTransfer.captureScene,
+		loadScene: sceneTransfer.loadScene,
+		setSteppedClock: seedState.setSteppedClock,
+	});
+	const gridReveal = useGridReveal({ initialPresetId: initialRevealPreset, pointerTrackerRef: replay.pointerTrackerRef });
+
+	// Replays run inline so they share the main thread random source
+	const physicsWorker = usePhysicsWorker({
+		enabled: useWorkerPhysics && !replay.isReplaying,
+		gridConfig,
+		viewportCells,
+		getEffectiveTime: seedState.getSimulationTime,
+		seed: seedState.seed,
+		simulation,
 		syncOrbsState: orbManager.syncOrbsState,
 	});
 
+	const physicsPipeline = usePhysicsPipeline(simulation.pipeline, debugState.isDebugMode);
+	const collisionCounters = useCollisionCounters(simulation.collisionCounters, debugState.isDebugMode);
+	const gridStorage = useGridStorageStats(gridRef, debugState.isDebugMode);
+	// Tier changes alter spawning, so pinned seeds (fixed stepping) keep full quality to stay reproducible
+	const isAdaptiveQuality = adaptiveQuality && seedState.fixedTimestepMs === null;
+	const quality = useQualityGovernor(simulation, isAdaptiveQuality, debugState.isDebugMode);
+	const orbRenderer = useOrbRenderer(initialOrbRenderer, debugState.isDebugMode);
+	const orbPalette = useOrbPalette(simulation, palette);
+	const focus = useOrbFocus(focalPlane);
+	const trails = useOrbTrails(initialOrbTrails);
+	const postFx = usePostFx(enablePostFx);
+	const inspector = useOrbInspector({
+		simulation,
+		selectedOrbId: orbManager.selectedOrbId,
+		isDebugMode: debugState.isDebugMode,
+	});
+
+	// Recorded input first, so a replayed pause toggle applies to the same step
+	const { onBeforeStep: beforeReplayStep } = replay;
+	const { onBeforeStep: beforeTimedStep } = timeControls;
+	const beforeStep = useCallback(() => {
+		beforeReplayStep();
+		beforeTimedStep();
+	}, [beforeReplayStep, beforeTimedStep]);
+
+	const { runPhysics } = usePhysicsLoop({
+		simulation,
+		getEffectiveTime: seedState.getSimulationTime,
+		advanceTime: seedState.advanceSimulationTime,
+		runWorkerPhysics: physicsWorker.runWorkerPhysics,
+		onBeforeStep: beforeStep,
+	});
+
 	// =========================================================================
 	// Configs
 	// =========================================================================
@@ -169,16 +340,28 @@ export function OrbField({
 	// Sync windowSize to ref for stable render loop access
 	useEffect(() => { windowSizeRef.current = windowSize; }, [windowSize]);
 
+	// Lifecycle mode is an opt-in pipeline phase
+	useEffect(() => { simulation.pipeline.setEnabled(PHYSICS_PHASE_IDS.ORB_LIFECYCLE, orbLifecycle); }, [simulation, orbLifecycle]);
+
 	const targetOrbCount = useMemo(() => {
 		const { targetOrbCountAt4K, referenceScreenArea, minOrbCount } = DEFAULT_CONTINUOUS_SPAWN_CONFIG;
 		const screenArea = windowSize.width * windowSize.height;
 		const areaScale = screenArea / referenceScreenArea;
 		const scaledCount = Math.round(targetOrbCountAt4K * areaScale);
-		return Math.max(minOrbCount, scaledCount);
-	}, [windowSize]);
+		return Math.round(Math.max(minOrbCount, scaledCount) * quality.tier.orbCountScale);
+	}, [windowSize, quality.tier]);
 
 	useEffect(() => { currentLayerRef.current = currentLayer; }, [currentLayer]);
 
+	// Why the post-processing stage is skipped, for the debug menu
+	const postFxDisabledReason = !enablePostFx
+		? 'Disabled by the postFx prop'
+		: postFx.isReducedMotion
+			? 'Off: prefers reduced motion'
+			: !quality.tier.enablePostFx
+				? `Off on ${quality.tier.label} quality`
+				: null;
+
 	// =========================================================================
 	// Render Loop
 	// =========================================================================
@@ -187,15 +370,17 @@ export function OrbField({
 		{
 			canvasRef,
 			visualCanvasRef,
+			postFxCanvasRef,
 			gridRef,
 			viewportCellsRef,
+			lineCellsRef,
 			hoveredCellRef,
 			windowSizeRef,
 			orbsRef: orbManager.orbsRef,
 			selectedOrbIdRef: orbManager.selectedOrbIdRef,
 			currentLayerRef,
 			currentScrollOffsetRef,
-			mousePosRef,
+			pointerTrackerRef: replay.pointerTrackerRef,
 			isPageVisibleRef,
 			burstTimeRef,
 			showGridRef: debugState.showGridRef,
@@ -204,9 +389,16 @@ export function OrbField({
 			showGraphicsRef: debugState.showGraphicsRef,
 			showArrowVectorRef: debugState.showArrowVectorRef,
 			showTruePositionRef: debugState.showTruePositionRef,
-			pausePhysicsRef: debugState.pausePhysicsRef,
-			disableCollisionsRef: debugState.disableCollisionsRef,
-			disableAvoidanceRef: debugState.disableAvoidanceRef,
+			showForceFieldsRef: debugState.showForceFieldsRef,
+			forceFieldsRef: forceFields.fieldsRef,
+			qualityTierRef: quality.tierRef,
+			orbRendererRef: orbRenderer.activeKindRef,
+			spriteCacheRef: orbRenderer.spriteCacheRef,
+			focusAnimatorRef: focus.focusAnimatorRef,
+			trailsRef: trails.trailsRef,
+			postFxRef: postFx.postFxRef,
+			followSelectedOrbRef: inspector.followSelectedOrbRef,
+			pausePhysicsRef: timeControls.physicsPausedRef,
 			enableOrbSpawningRef: debugState.enableOrbSpawningRef,
 			enableOrbDespawningRef: debugState.enableOrbDespawningRef,
 			enableSpawnOnClickRef: debugState.enableSpawnOnClickRef,
@@ -221,18 +413,32 @@ export function OrbField({
 			syncCanvasDimensions,
 			calculateOpacity,
 			updateOpacity,
-			getEffectiveTime: debugState.getEffectiveTime,
+			getEffectiveTime: seedState.getSimulationTime,
 			updateSelectedOrbData: orbManager.updateSelectedOrbData,
 			updateParallaxOffset,
+			getWebGLRenderer: orbRenderer.getWebGLRenderer,
+			getRevealFrame: gridReveal.getRevealFrame,
 		}
 	);
 
+	// Time scale and single steps shape the frame; a replay then decides how many steps run
+	const { planFrame: planTimedFrame } = timeControls;
+	const { planFrame: planReplayFrame } = replay;
+	const runFrame = useCallback((easedProgress: number, deltaTime: number, stepCount: number) => {
+		const timed = planTimedFrame(deltaTime, stepCount);
+		const frame = planReplayFrame(timed.deltaTime, timed.stepCount);
+		runLoop(easedProgress, frame.deltaTime, frame.stepCount);
+	}, [planTimedFrame, planReplayFrame, runLoop]);
+
 	useAnimationLoop({
 		visible,
 		gridConfig,
-		revealDuration: revealConfig.duration,
-		onLoop: runLoop,
+		revealDuration: revealOverrides?.duration ?? gridReveal.preset.durationMs,
+		revealEasing: gridReveal.preset.easing,
+		onLoop: runFrame,
 		onAnimationComplete,
+		fixedTimestepMs: seedState.fixedTimestepMs,
+		onFrameTiming: quality.recordFrame,
 	});
 
 	// =========================================================================
@@ -242,7 +448,9 @@ export function OrbField({
 
 	return (
 		<>
-			<canvas ref={visualCanvasRef} className={styles.visualCanvas} />
+			{/* Keyed so switching renderer gets a canvas without a context of the other kind */}
+			<canvas key={orbRenderer.activeKind} ref={visualCanvasRef} className={styles.visualCanvas} />
+			<canvas ref={postFxCanvasRef} className={styles.postFxCanvas} />
 			<canvas
 				ref={canvasRef}
 				onMouseMove={handleMouseMove}
@@ -268,11 +476,64 @@ export function OrbField({
 				onSelectOrb={orbManager.selectOrb}
 				onDeleteOrb={handleDeleteOrb}
 				onSizeChange={setOrbSize}
+				orbHistory={inspector.history}
+				totalLayers={gridConfig?.layers}
+				isFollowingOrb={inspector.isFollowing}
+				onFollowOrbChange={inspector.setFollowing}
+				onEditOrb={inspector.editOrb}
 				gridConfig={gridConfig}
 				viewportCells={viewportCells}
 				currentLayer={currentLayer}
 				onLayerChange={setCurrentLayer}
+				focusLayer={focus.focusLayer}
+				onFocusLayerChange={focus.setFocusLayer}
 				hoveredCell={hoveredCell}
+				seed={seedState.seed}
+				fixedTimestepMs={seedState.fixedTimestepMs}
+				collisionCounters={collisionCounters.values}
+				onResetCollisionCounters={collisionCounters.reset}
+				physicsWorkerStatus={physicsWorker.status}
+				physicsPhases={physicsPipeline.phases}
+				onTogglePhysicsPhase={physicsPipeline.setPhaseEnabled}
+				forceFields={forceFields.fields}
+				forceFieldPlacementKind={forceFields.placementKind}
+				onArmForceFieldPlacement={forceFields.setPlacementKind}
+				onRemoveForceField={forceFields.removeField}
+				onClearForceFields={forceFields.clearFields}
+				pointerMode={pointer.mode}
+				pointerConfig={pointer.config}
+				onPointerModeChange={pointer.setMode}
+				onPointerConfigChange={pointer.updateModeConfig}
+				qualityTier={quality.tier}
+				qualityTierIndex={quality.tierIndex}
+				qualityTierCount={quality.tierCount}
+				adaptiveQuality={isAdaptiveQuality}
+				frameTimeStats={quality.stats}
+				onResetFrameTimeStats={quality.resetStats}
+				orbRenderer={orbRenderer.kind}
+				isWebGLUnavailable={orbRenderer.isWebGLUnavailable}
+				webGLFallbackReason={orbRenderer.webGLFallbackReason}
+				onOrbRendererChange={orbRenderer.setKind}
+				spriteCacheStats={orbRenderer.spriteCacheStats}
+				onResetSpriteCacheStats={orbRenderer.resetSpriteCacheStats}
+				orbTrailMode={trails.mode}
+				onOrbTrailModeChange={trails.setMode}
+				postFxConfig={postFx.config}
+				postFxDisabledReason={postFxDisabledReason}
+				onTogglePostFxEffect={postFx.toggleEffect}
+				onExportScene={sceneTransfer.exportScene}
+				onImportScene={sceneTransfer.importScene}
+				replayStatus={replay.status}
+				replayControls={replay.controls}
+				timeScale={timeControls.timeScale}
+				onTimeScaleChange={timeControls.setTimeScale}
+				onStepFrame={timeControls.stepFrame}
+				orbPalette={orbPalette.paletteId}
+				onOrbPaletteChange={orbPalette.setPaletteId}
+				revealPreset={gridReveal.presetId}
+				onRevealPresetChange={gridReveal.setPresetId}
+				onReplayReveal={gridReveal.replay}
+				isReplayingReveal={gridReveal.isReplaying}
 			/>
 
 			<DebugGitHubButton />
@@ -289,13 +550,22 @@ export function OrbField({
 						onSelectOrb={orbManager.selectOrb}
 						onDeleteOrb={handleDeleteOrb}
 						onSizeChange={setOrbSize}
+						orbHistory={inspector.history}
+						totalLayers={gridConfig.layers}
+						isFollowingOrb={inspector.isFollowing}
+						onFollowOrbChange={inspector.setFollowing}
+						onEditOrb={inspector.editOrb}
 					/>
 					<GridDebugPanel
 						gridConfig={gridConfig}
 						viewportCells={viewportCells}
 						currentLayer={currentLayer}
 						onLayerChange={setCurrentLayer}
+						focusLayer={focus.focusLayer}
+						onFocusLayerChange={focus.setFocusLayer}
 						hoveredCell={hoveredCell}
+						storageStats={gridStorage.stats}
+						storageComparison={gridStorage.comparison}
 					/>
 				</div>
 			)}
@@ -0,0 +1,61 @@
+// =============================================================================
+// CollisionCounters - Running totals for continuous collision diagnostics
+// =============================================================================
+
+/**
+ * Plain-value copy of the counters (posted from the physics worker).
+ */
+export interface CollisionCounterValues {
+	/** Wall hits found by sub-stepping that the end-of-step test would have missed. */
+	wallTunnelsCaught: number;
+	/** Orb pairs that would have passed through each other within a step. */
+	orbTunnelsCaught: number;
+	/** Orbs outside the border after the latest step (a gauge, should stay 0). */
+	escapedOrbs: number;
+	/** Extra wall sub-steps run for fast orbs. */
+	substeps: number;
+}
+
+/**
+ * Accumulates continuous collision events since the last reset.
+ * escapedOrbs is overwritten every step rather than accumulated.
+ *
+ * Single Responsibility: Collision diagnostics bookkeeping only.
+ */
+export class CollisionCounters implements CollisionCounterValues {
+	wallTunnelsCaught = 0;
+	orbTunnelsCaught = 0;
+	escapedOrbs = 0;
+	substeps = 0;
+
+	/** Zeroes every counter. */
+	reset(): void {
+		this.wallTunnelsCaught = 0;
+		this.orbTunnelsCaught = 0;
+		this.escapedOrbs = 0;
+		this.substeps = 0;
+	}
+
+	/**
+	 * Adds events counted elsewhere (e.g. by the worker since its last
+	 * snapshot) and takes over their escaped-orb gauge.
+	 *
+	 * @param values - Counter values to merge.
+	 */
+	merge(values: CollisionCounterValues): void {
+		this.wallTunnelsCaught += values.wallTunnelsCaught;
+		this.orbTunnelsCaught += values.orbTunnelsCaught;
+		this.escapedOrbs = values.escapedOrbs;
+		this.substeps += values.substeps;
+	}
+
+	/** Returns a plain copy for posting or rendering. */
+	toValues(): CollisionCounterValues {
+		return {
+			wallTunnelsCaught: this.wallTunnelsCaught,
+			orbTunnelsCaught: this.orbTunnelsCaught,
+			escapedOrbs: this.escapedOrbs,
+			substeps: this.substeps,
+		};
+	}
+}
@@ -0,0 +1,230 @@
+// =============================================================================
+// ContinuousCollision - Tunnelling prevention for fast orbs
+// =============================================================================
+
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type ViewportCells } from '../grid/types';
+import { type Orb } from '../orb/types';
+import { OrbLifecycle } from '../orb/utils/OrbLifecycle';
+import { DEFAULT_CONTINUOUS_COLLISION_CONFIG } from '../orb/config';
+import { type CollisionCounters } from './CollisionCounters';
+import { OrbMass } from './OrbMass';
+import { OrbBroadPhase } from './OrbBroadPhase';
+
+/**
+ * Continuous collision helpers for orbs that move further than their own
+ * radius in one step, where end-of-step tests can skip over obstacles.
+ *
+ * Walls are handled by sub-stepping the move (see getSubstepCount), orb pairs
+ * by a swept-sphere time-of-impact test (see sweepOrbPairs). Distances are in
+ * cell space like the discrete resolvers: X/Y in cells, Z in layers.
+ *
+ * Single Responsibility: Continuous (swept) collision logic only.
+ */
+export class ContinuousCollision {
+	/** Indices of fast orbs for the current sweep (reused between frames). */
+	private static fastIndices: number[] = [];
+	/** Per-orb fast flag for the current sweep (grown as needed). */
+	private static fastFlags = new Uint8Array(0);
+	/** Spatial hash of the orbs' current positions, for sweep candidates. */
+	private static broadPhase = new OrbBroadPhase();
+	/** Sweep candidates of one fast orb (reused between queries). */
+	private static candidates: number[] = [];
+
+	/**
+	 * Returns the orb's displacement over one step in cells (largest axis).
+	 *
+	 * @param orb - The orb to measure.
+	 * @param deltaTime - Step length in seconds.
+	 * @param vpc - Viewport cell metrics for pixel to cell conversion.
+	 */
+	static getStepDisplacement(orb: Orb, deltaTime: number, vpc: ViewportCells): number {
+		return Math.max(
+			Math.abs(orb.vx * deltaTime) * vpc.invCellSizeXPx,
+			Math.abs(orb.vy * deltaTime) * vpc.invCellSizeYPx,
+			Math.abs(orb.vz * deltaTime)
+		);
+	}
+
+	/**
+	 * Returns the length of the orb's move over one step in cells (Euclidean).
+	 */
+	private static getStepTravel(orb: Orb, deltaTime: number, vpc: ViewportCells): number {
+		const mx = orb.vx * deltaTime * vpc.invCellSizeXPx;
+		const my = orb.vy * deltaTime * vpc.invCellSizeYPx;
+		const mz = orb.vz * deltaTime;
+		return Math.sqrt(mx * mx + my * my + mz * mz);
+	}
+
+	/**
+	 * Number of sub-steps needed so no sub-step moves the orb further than
+	 * its footprint radius (one cell for size 1 orbs), which is the largest
+	 * move WallCollision.checkMove can test without skipping a wall cell.
+	 *
+	 * @param orb - The orb about to move.
+	 * @param deltaTime - Step length in seconds.
+	 * @param vpc - Viewport cell metrics for pixel to cell conversion.
+	 * @param maxSubsteps - Upper bound on the result.
+	 * @returns Sub-step count (1 when the orb is slow enough).
+	 */
+	static getSubstepCount(
+		orb: Orb,
+		deltaTime: number,
+		vpc: ViewportCells,
+		maxSubsteps: number = DEFAULT_CONTINUOUS_COLLISION_CONFIG.maxSubsteps
+	): number {
+		const displacement = this.getStepDisplacement(orb, deltaTime, vpc);
+		const safeStep = Math.max(1, orb.size - 1);
+		if (!(displacement > safeStep)) return 1;
+		return Math.min(maxSubsteps, Math.ceil(displacement / safeStep));
+	}
+
+	/**
+	 * Checks whether an orb's center lies on or beyond the grid border.
+	 *
+	 * @param orb - The orb to check.
+	 * @param grid - The spatial grid (for its dimensions).
+	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 */
+	static isOutsideBorder(orb: Orb, grid: SpatialGrid, vpc: ViewportCells): boolean {
+		const cellX = ((orb.pxX * vpc.invCellSizeXPx) | 0) + vpc.startCellX;
+		const cellY = ((orb.pxY * vpc.invCellSizeYPx) | 0) + vpc.startCellY;
+		const { cellsX, cellsY } = grid.config;
+		return !(cellX > 0 && cellX < cellsX - 1 && cellY > 0 && cellY < cellsY - 1);
+	}
+
+	/**
+	 * Bounces orb pairs that would pass through each other during this step.
+	 *
+	 * Only pairs involving a fast orb (moving further than its radius) are
+	 * swept. Candidates come from a broad-phase query around each fast orb,
+	 * padded by its own move and the longest move of any orb this step,
+	 * so every orb whose path can reach it this step is tested. Pairs that
+	 * overlap now or at the end of the step are left to OrbOrbCollision.
+	 *
+	 * @param orbs - Array of all orbs.
+	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 * @param deltaTime - Step length in seconds.
+	 * @param counters - Optional counters for caught tunnelling events.
+	 * @param elasticity - Fraction of the approach speed kept after a hit.
+	 */
+	static sweepOrbPairs(
+		orbs: Orb[],
+		vpc: ViewportCells,
+		deltaTime: number,
+		counters?: CollisionCounters,
+		elasticity: number = DEFAULT_CONTINUOUS_COLLISION_CONFIG.elasticity
+	): void {
+		const fast = this.fastIndices;
+		fast.length = 0;
+		if (this.fastFlags.length < orbs.length) {
+			this.fastFlags = new Uint8Array(orbs.length * 2);
+		}
+		const flags = this.fastFlags;
+
+		let maxTravel = 0;
+		for (let i = 0; i < orbs.length; i++) {
+			const isFast = this.getStepDisplacement(orbs[i], deltaTime, vpc) > orbs[i].size - 0.5;
+			flags[i] = isFast ? 1 : 0;
+			if (isFast) fast.push(i);
+			const travel = this.getStepTravel(orbs[i], deltaTime, vpc);
+			if (travel > maxTravel) maxTravel = travel;
+		}
+		if (fast.length === 0) return;
+
+		this.broadPhase.index(orbs, vpc);
+		const candidates = this.candidates;
+
+		for (const i of fast) {
+			// Covers the contact distance plus both orbs' moves (query adds the other orb's size)
+			const radius = orbs[i].size + this.getStepTravel(orbs[i], deltaTime, vpc) + maxTravel;
+			this.broadPhase.query(i, radius, candidates);
+			// Index order, so bounces apply in the same order whatever the bucket layout
+			candidates.sort((a, b) => a - b);
+
+			for (const j of candidates) {
+				// Each fast-fast pair once
+				if (flags[j] && j < i) continue;
+				if (this.sweepPair(orbs[i], orbs[j], vpc, deltaTime, elasticity)) {
+					if (counters) counters.orbTunnelsCaught++;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Sweeps one pair and applies an elastic bounce at the time of impact.
+	 *
+	 * @returns True if the pair would have tunnelled and was bounced.
+	 */
+	private static sweepPair(
+		orbA: Orb,
+		orbB: Orb,
+		vpc: ViewportCells,
+		deltaTime: number,
+		elasticity: number
+	): boolean {
+		if (OrbLifecycle.isDissolving(orbA) || OrbLifecycle.isDissolving(orbB)) return false;
+
+		const { invCellSizeXPx, invCellSizeYPx } = vpc;
+
+		// Relative position and step displacement of B with respect to A (cells)
+		const dx = (orbB.pxX - orbA.pxX) * invCellSizeXPx;
+		const dy = (orbB.pxY - orbA.pxY) * invCellSizeYPx;
+		const dz = orbB.z - orbA.z;
+		const mx = (orbB.vx - orbA.vx) * deltaTime * invCellSizeXPx;
+		const my = (orbB.vy - orbA.vy) * deltaTime * invCellSizeYPx;
+		const mz = (orbB.vz - orbA.vz) * deltaTime;
+
+		// Same contact distance as OrbOrbCollision
+		const minDist = (orbA.size - 1) + (orbB.size - 1) + 1;
+		const minDistSq = minDist * minDist;
+
+		const c = dx * dx + dy * dy + dz * dz - minDistSq;
+		if (c <= 0) return false; // Already touching - discrete resolver handles it
+
+		const b = dx * mx + dy * my + dz * mz;
+		if (b >= 0) return false; // Separating
+
+		const a = mx * mx + my * my + mz * mz;
+		const discriminant = b * b - a * c;
+		if (discriminant < 0) return false; // Paths never come within contact distance
+
+		const t = (-b - Math.sqrt(discriminant)) / a;
+		if (t > 1) return false; // Contact happens after this step
+
+		// Overlapping at the end of the step is caught by the discrete resolver
+		const ex = dx + mx;
+		const ey = dy + my;
+		const ez = dz + mz;
+		if (ex * ex + ey * ey + ez * ez < minDistSq) return false;
+
+		// Contact normal (A to B) at the time of impact, converted to pixel space
+		const cx = (dx + mx * t) * vpc.cellSizeXPx;
+		const cy = (dy + my * t) * vpc.cellSizeYPx;
+		const cz = dz + mz * t;
+		const len = Math.sqrt(cx * cx + cy * cy + cz * cz);
+		if (!(len > 0.001)) return false;
+		const nx = cx / len;
+		const ny = cy / len;
+		const nz = cz / len;
+
+		const dvn = (orbA.vx - orbB.vx) * nx + (orbA.vy - orbB.vy) * ny + (orbA.vz - orbB.vz) * nz;
+		if (!(dvn > 0)) return false;
+
+		// Mass-weighted elastic impulse, as in OrbOrbCollision
+		const impulseA = elasticity * OrbMass.share(orbA, orbB) * dvn;
+		const impulseB = elasticity * OrbMass.share(orbB, orbA) * dvn;
+		if (!isFinite(impulseA) || !isFinite(impulseB)) return false;
+
+		orbA.vx -= impulseA * nx;
+		orbA.vy -= impulseA * ny;
+		orbA.vz -= impulseA * nz;
+		orbB.vx += impulseB * nx;
+		orbB.vy += impulseB * ny;
+		orbB.vz += impulseB * nz;
+		orbA.angle = Math.atan2(orbA.vy, orbA.vx);
+		orbB.angle = Math.atan2(orbB.vy, orbB.vx);
+		return true;
+	}
+}
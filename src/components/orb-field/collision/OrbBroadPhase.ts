@@ -0,0 +1,283 @@
+// =============================================================================
+// OrbBroadPhase - Uniform spatial hash for orb-orb candidate pairs
+// =============================================================================
+
+import { type ViewportCells } from '../grid/types';
+import { type Orb } from '../orb/types';
+import { type OrbPairList } from './types';
+
+/**
+ * Offset applied to bucket coordinates before packing them into a single key.
+ * Keeps negative coordinates (orbs in the off-screen grid extension) positive.
+ */
+const BUCKET_KEY_OFFSET = 512;
+
+/** Number of distinct values per axis in a packed bucket key. */
+const BUCKET_KEY_RANGE = 1024;
+
+/** Values stored per orb in the cell cache: x, y, z (cells) and size. */
+const CELL_STRIDE = 4;
+
+/** Values stored per orb in the bucket cache: bx, by, bz. */
+const BUCKET_STRIDE = 3;
+
+/**
+ * Broad-phase collision culling using a uniform 3D spatial hash.
+ *
+ * Orbs are bucketed in cell space (the same space the narrow phase measures
+ * distances in), using bucket edges at least as long as the largest possible
+ * interaction distance. Only orbs in the same or adjacent buckets can interact,
+ * and those are further filtered with a sphere test against their combined
+ * avoidance range, so the narrow phase only sees pairs that can interact.
+ *
+ * Candidate pairs are stored as a flat list of orb indices [a0, b0, a1, b1, ...]
+ * which is shared by OrbAvoidance and OrbOrbCollision within the same frame.
+ * The same buckets answer wider radius queries for swept collision tests.
+ * All buffers are reused between frames to avoid per-frame allocation.
+ *
+ * Single Responsibility: Candidate pair generation only.
+ */
+export class OrbBroadPhase {
+	/** Flat list of candidate pair indices (two entries per pair). */
+	private pairs: number[] = [];
+
+	/** Number of valid pairs in the pairs list. */
+	private pairCount = 0;
+
+	/** Bucket key to orb indices. Arrays are reused between frames. */
+	private buckets: Map<number, number[]> = new Map();
+
+	/** Cached cell-space position and size per orb (CELL_STRIDE entries each). */
+	private orbCells = new Float64Array(0);
+
+	/** Cached bucket coordinates per orb (BUCKET_STRIDE entries each). */
+	private orbBuckets = new Int32Array(0);
+
+	/** Number of orbs bucketed by the last index() call. */
+	private indexedCount = 0;
+
+	/** Largest orb size bucketed by the last index() call. */
+	private maxSize = 1;
+
+	/** Inverse bucket edge length used by the last index() call. */
+	private invBucketSize = 1;
+
+	/**
+	 * Rebuilds the candidate pair list for the given orbs.
+	 *
+	 * @param orbs - Array of all orbs in the simulation.
+	 * @param vpc - Viewport cell metrics for pixel to cell conversion.
+	 * @param margin - Extra distance in cells added to the interaction range so pairs
+	 *                 that close in during the frame are still considered (default 1).
+	 */
+	build(orbs: Orb[], vpc: ViewportCells, margin: number = 1): void {
+		this.pairCount = 0;
+		this.index(orbs, vpc, margin);
+
+		const count = this.indexedCount;
+		if (count < 2) return;
+
+		const cells = this.orbCells;
+		const bucketCoords = this.orbBuckets;
+
+		// Collect pairs from the 27 neighbouring buckets
+		// Only j > i is recorded so each pair appears exactly once
+		for (let i = 0; i < count; i++) {
+			const c = i * CELL_STRIDE;
+			const ax = cells[c];
+			const ay = cells[c + 1];
+			const az = cells[c + 2];
+			const reachA = cells[c + 3] + margin;
+
+			const b = i * BUCKET_STRIDE;
+			const bx = bucketCoords[b];
+			const by = bucketCoords[b + 1];
+			const bz = bucketCoords[b + 2];
+
+			for (let oz = -1; oz <= 1; oz++) {
+				for (let oy = -1; oy <= 1; oy++) {
+					for (let ox = -1; ox <= 1; ox++) {
+						const bucket = this.buckets.get(this.packKey(bx + ox, by + oy, bz + oz));
+						if (!bucket) continue;
+
+						for (let k = 0; k < bucket.length; k++) {
+							const j = bucket[k];
+							if (j <= i) continue;
+
+							// Sphere test against the combined avoidance range
+							const cj = j * CELL_STRIDE;
+							const dx = cells[cj] - ax;
+							const dy = cells[cj + 1] - ay;
+							const dz = cells[cj + 2] - az;
+							const reach = reachA + cells[cj + 3];
+							if (dx * dx + dy * dy + dz * dz < reach * reach) {
+								this.pairs[this.pairCount * 2] = i;
+								this.pairs[this.pairCount * 2 + 1] = j;
+								this.pairCount++;
+							}
+						}
+					}
+				}
+			}
+		}
+
+		// Drop empty buckets when the map grows much larger than the orb count
+		if (this.buckets.size > count * 4) {
+			for (const [key, bucket] of this.buckets) {
+				if (bucket.length === 0) this.buckets.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Buckets the orbs without collecting pairs. build() calls this; call it
+	 * directly to answer radius queries (see query) for the current positions.
+	 *
+	 * @param orbs - Array of all orbs in the simulation.
+	 * @param vpc - Viewport cell metrics for pixel to cell conversion.
+	 * @param margin - Extra distance in cells added to the bucket edge (default 1).
+	 */
+	index(orbs: Orb[], vpc: ViewportCells, margin: number = 1): void {
+		// Reset buckets without discarding their arrays
+		for (const bucket of this.buckets.values()) {
+			bucket.length = 0;
+		}
+
+		const count = orbs.length;
+		this.indexedCount = count;
+		if (count === 0) return;
+
+		// Grow caches with headroom so they are not reallocated every spawn
+		if (this.orbCells.length < count * CELL_STRIDE) {
+			this.orbCells = new Float64Array(count * 2 * CELL_STRIDE);
+			this.orbBuckets = new Int32Array(count * 2 * BUCKET_STRIDE);
+		}
+		const cells = this.orbCells;
+		const bucketCoords = this.orbBuckets;
+
+		// Largest interaction distance is the avoidance range of the two largest orbs
+		// (avoidance radius = size, see OrbAvoidance)
+		let maxSize = 1;
+		for (let i = 0; i < count; i++) {
+			if (orbs[i].size > maxSize) maxSize = orbs[i].size;
+		}
+		const invBucketSize = 1 / (2 * maxSize + margin);
+		this.maxSize = maxSize;
+		this.invBucketSize = invBucketSize;
+
+		// Convert to cell space and assign each orb to a bucket
+		for (let i = 0; i < count; i++) {
+			const orb = orbs[i];
+			const cellX = orb.pxX * vpc.invCellSizeXPx;
+			const cellY = orb.pxY * vpc.invCellSizeYPx;
+			const cellZ = orb.z;
+			const bx = Math.floor(cellX * invBucketSize);
+			const by = Math.floor(cellY * invBucketSize);
+			const bz = Math.floor(cellZ * invBucketSize);
+
+			const c = i * CELL_STRIDE;
+			cells[c] = cellX;
+			cells[c + 1] = cellY;
+			cells[c + 2] = cellZ;
+			cells[c + 3] = orb.size;
+
+			const b = i * BUCKET_STRIDE;
+			bucketCoords[b] = bx;
+			bucketCoords[b + 1] = by;
+			bucketCoords[b + 2] = bz;
+
+			const key = this.packKey(bx, by, bz);
+			let bucket = this.buckets.get(key);
+			if (!bucket) {
+				bucket = [];
+				this.buckets.set(key, bucket);
+			}
+			bucket.push(i);
+		}
+	}
+
+	/**
+	 * Collects the orbs within reach of one orb, using the buckets of the last
+	 * index() or build() call. An orb j is within reach when the distance
+	 * between the centres is below radius plus j's size, so a radius padded by
+	 * how far orbs move this step finds the pairs a sweep has to test.
+	 *
+	 * @param i - Index of the orb to query around.
+	 * @param radius - Reach in cells from the orb's centre (before j's size).
+	 * @param out - Receives the indices of orbs within reach (cleared first, i excluded).
+	 */
+	query(i: number, radius: number, out: number[]): void {
+		out.length = 0;
+		if (i >= this.indexedCount) return;
+
+		const cells = this.orbCells;
+		const bucketCoords = this.orbBuckets;
+		const c = i * CELL_STRIDE;
+		const ax = cells[c];
+		const ay = cells[c + 1];
+		const az = cells[c + 2];
+
+		// Buckets far enough out to hold any orb within reach
+		const range = Math.ceil((radius + this.maxSize) * this.invBucketSize);
+		const side = 2 * range + 1;
+
+		// A reach wider than the occupied area is cheaper to test orb by orb
+		if (side * side * side > this.indexedCount) {
+			for (let j = 0; j < this.indexedCount; j++) {
+				if (j !== i && this.isWithinReach(ax, ay, az, radius, j)) out.push(j);
+			}
+			return;
+		}
+
+		const b = i * BUCKET_STRIDE;
+		const bx = bucketCoords[b];
+		const by = bucketCoords[b + 1];
+		const bz = bucketCoords[b + 2];
+
+		for (let oz = -range; oz <= range; oz++) {
+			for (let oy = -range; oy <= range; oy++) {
+				for (let ox = -range; ox <= range; ox++) {
+					const bucket = this.buckets.get(this.packKey(bx + ox, by + oy, bz + oz));
+					if (!bucket) continue;
+
+					for (let k = 0; k < bucket.length; k++) {
+						const j = bucket[k];
+						if (j !== i && this.isWithinReach(ax, ay, az, radius, j)) out.push(j);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Gets the candidate pairs built by the last build() call.
+	 * The returned list is only valid until the next build().
+	 *
+	 * @returns Candidate pair list for OrbAvoidance and OrbOrbCollision.
+	 */
+	getPairList(): OrbPairList {
+		return { pairs: this.pairs, count: this.pairCount };
+	}
+
+	/**
+	 * Sphere test of a cached orb against a point's reach plus the orb's size.
+	 */
+	private isWithinReach(x: number, y: number, z: number, radius: number, j: number): boolean {
+		const cj = j * CELL_STRIDE;
+		const dx = this.orbCells[cj] - x;
+		const dy = this.orbCells[cj + 1] - y;
+		const dz = this.orbCells[cj + 2] - z;
+		const reach = radius + this.orbCells[cj + 3];
+		return dx * dx + dy * dy + dz * dz < reach * reach;
+	}
+
+	/**
+	 * Packs 3D bucket coordinates into a single numeric map key.
+	 */
+	private packKey(bx: number, by: number, bz: number): number {
+		return (
+			((bx + BUCKET_KEY_OFFSET) * BUCKET_KEY_RANGE + (by + BUCKET_KEY_OFFSET)) * BUCKET_KEY_RANGE +
+			(bz + BUCKET_KEY_OFFSET)
+		);
+	}
+}
@@ -0,0 +1,28 @@
+// =============================================================================
+// OrbMass - Mass weighting for pair responses
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+
+/**
+ * Splits a pair response (separation, impulse, repulsion) between two orbs.
+ *
+ * Size acts as mass, so the smaller orb moves more. Pinned orbs have
+ * infinite mass: they take none of the response and the other orb takes
+ * all of it.
+ *
+ * Single Responsibility: Pair mass ratios only.
+ */
+export class OrbMass {
+	/**
+	 * Fraction of a pair response applied to `orb` (0-1).
+	 *
+	 * @param orb - Orb receiving the share.
+	 * @param other - The other orb of the pair.
+	 */
+	static share(orb: Orb, other: Orb): number {
+		if (orb.pinned) return 0;
+		if (other.pinned) return 1;
+		return other.size / (orb.size + other.size);
+	}
+}
@@ -6,9 +6,11 @@ import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
 import { type Orb } from '../orb/types';
 import { type CollisionResult } from './types';
+import { DEFAULT_RANDOM, type RandomSource } from '../shared/random';
 
 /**
- * Handles collision detection and resolution with walls.
+ * Handles collision detection and resolution with walls: the viewport
+ * border and obstacle cells rasterised from DOM elements.
  * 
  * Single Responsibility: Wall-based collision logic only.
  */
@@ -132,12 +134,14 @@ export class WallCollision {
 	 * @param orb - The orb to check and fix.
 	 * @param grid - The spatial grid instance for wall queries.
 	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 * @param random - Random source for picking a push direction when the orb is still (defaults to Math.random).
 	 * @returns True if the orb was stuck and was pushed out.
 	 */
 	static unstickFromWall(
 		orb: Orb,
 		grid: SpatialGrid,
-		vpc: ViewportCells
+		vpc: ViewportCells,
+		random: RandomSource = DEFAULT_RANDOM
 	): boolean {
 		const centerCellX = ((orb.pxX * vpc.invCellSizeXPx) | 0) + vpc.startCellX;
 		const centerCellY = ((orb.pxY * vpc.invCellSizeYPx) | 0) + vpc.startCellY;
@@ -156,8 +160,8 @@ export class WallCollision {
 		if (orb.size === 1) {
 			if (grid.isWall(centerCellX, centerCellY, centerLayer)) {
 				// Determine push direction based on velocity (push opposite to movement)
-				pushDirX = orb.vx !== 0 ? -Math.sign(orb.vx) : (Math.random() > 0.5 ? 1 : -1);
-				pushDirY = orb.vy !== 0 ? -Math.sign(orb.vy) : (Math.random() > 0.5 ? 1 : -1);
+				pushDirX = orb.vx !== 0 ? -Math.sign(orb.vx) : (random.next() > 0.5 ? 1 : -1);
+				pushDirY = orb.vy !== 0 ? -Math.sign(orb.vy) : (random.next() > 0.5 ? 1 : -1);
 				pushDirZ = orb.vz !== 0 ? -Math.sign(orb.vz) : 0;
 				stuckX = stuckY = true;
 			}
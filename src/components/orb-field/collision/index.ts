@@ -2,10 +2,14 @@
 // Collision System - Exports for all collision modules
 // =============================================================================
 
-export { type CollisionResult } from './types';
+export { type CollisionResult, type OrbPairList } from './types';
 export { WallCollision } from './WallCollision';
 export { OrbOrbCollision } from './OrbOrbCollision';
 export { OrbAvoidance } from './OrbAvoidance';
+export { OrbBroadPhase } from './OrbBroadPhase';
 export { MouseRepulsion } from './MouseRepulsion';
 export { SpawnValidation } from './SpawnValidation';
+export { ContinuousCollision } from './ContinuousCollision';
+export { OrbMass } from './OrbMass';
+export { CollisionCounters, type CollisionCounterValues } from './CollisionCounters';
 
@@ -15,3 +15,13 @@ export interface CollisionResult {
 	/** Whether to reflect velocity on the Z-axis. */
 	reflectZ: boolean;
 }
+
+/**
+ * Candidate orb pairs produced by the broad phase for narrow-phase resolvers.
+ */
+export interface OrbPairList {
+	/** Flat list of orb index pairs [a0, b0, a1, b1, ...]. */
+	pairs: readonly number[];
+	/** Number of valid pairs in the list. */
+	count: number;
+}
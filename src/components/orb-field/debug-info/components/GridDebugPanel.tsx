@@ -4,7 +4,7 @@
 // GridDebugPanel - Debug UI for Grid System Information
 // =============================================================================
 
-import { type GridConfig, type ViewportCells } from '../../grid/types';
+import { type GridConfig, type GridStorageComparison, type GridStorageStats, type ViewportCells } from '../../grid/types';
 import { glassStyles, combineGlassStyles } from '@/components/glass/styles';
 import { debugMenuConfig } from '@/components/debug/GlassDebugMenu/config/debugMenuConfig';
 
@@ -20,8 +20,23 @@ interface GridDebugPanelProps {
 	currentLayer: number;
 	/** Callback when the depth layer slider changes. */
 	onLayerChange: (layer: number) => void;
+	/** Depth-of-field focus layer. */
+	focusLayer: number;
+	/** Callback when the focus slider changes. */
+	onFocusLayerChange: (layer: number) => void;
 	/** Currently hovered cell information, or null. */
 	hoveredCell: { x: number; y: number; worldX: number; worldY: number } | null;
+	/** Chunked storage memory and clear time. */
+	storageStats?: GridStorageStats | null;
+	/** Measured mark, query and clear cost of chunked against dense storage. */
+	storageComparison?: GridStorageComparison | null;
+}
+
+/**
+ * Formats a byte count as KB or MB.
+ */
+function formatBytes(bytes: number): string {
+	return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${(bytes / 1024).toFixed(0)}KB`;
 }
 
 /**
@@ -31,6 +46,8 @@ interface GridDebugPanelProps {
  * - Grid dimensions (cells × cells × layers)
  * - Cell size in centimeters
  * - Depth layer slider
+ * - Focus layer slider (depth of field)
+ * - Chunk usage, memory, and mark/query/clear cost against a dense grid
  * - Currently hovered cell coordinates
  *
  * Only visible when debug mode is enabled.
@@ -41,7 +58,11 @@ export function GridDebugPanel({
 	viewportCells,
 	currentLayer,
 	onLayerChange,
+	focusLayer,
+	onFocusLayerChange,
 	hoveredCell,
+	storageStats,
+	storageComparison,
 }: GridDebugPanelProps) {
 	const { dimensions, spacing, typography, colors } = debugMenuConfig;
 
@@ -88,6 +109,43 @@ export function GridDebugPanel({
 				<span>{viewportCells.cellSizeXCm.toFixed(2)}×{viewportCells.cellSizeYCm.toFixed(2)}cm</span>
 			</div>
 
+			{storageStats && (
+				<>
+					<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between' }}>
+						<span style={{ color: colors.textSecondary }}>Chunks:</span>
+						<span>{storageStats.allocatedChunks}/{storageStats.totalChunks}</span>
+					</div>
+
+					<div style={{ marginBottom: spacing.gapMd, display: 'flex', justifyContent: 'space-between' }}>
+						<span style={{ color: colors.textSecondary }}>Memory:</span>
+						<span>{formatBytes(storageStats.bytes)} / {formatBytes(storageStats.denseBytes)} dense</span>
+					</div>
+
+					<div style={{ marginBottom: storageComparison ? spacing.gapMd : spacing.gapLg, display: 'flex', justifyContent: 'space-between' }}>
+						<span style={{ color: colors.textSecondary }}>Clear:</span>
+						<span>{storageStats.clearMs.toFixed(3)}ms ({storageStats.lastClearedChunks} chunks)</span>
+					</div>
+				</>
+			)}
+
+			{storageComparison && (
+				<div style={{ marginBottom: spacing.gapLg }}>
+					<div style={{ marginBottom: spacing.gapMd, color: colors.textSecondary }}>
+						Chunked / dense, {storageComparison.footprints} footprints:
+					</div>
+					{(['markMs', 'queryMs', 'clearMs'] as const).map((key) => (
+						<div key={key} style={{ display: 'flex', justifyContent: 'space-between' }}>
+							<span style={{ color: colors.textSecondary }}>
+								{key === 'markMs' ? 'Mark' : key === 'queryMs' ? 'Query' : 'Clear'}:
+							</span>
+							<span>
+								{storageComparison.chunked[key].toFixed(3)} / {storageComparison.dense[key].toFixed(3)}ms
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+
 			<div style={{ marginBottom: spacing.gapLg }}>
 				<label style={{ display: 'flex', alignItems: 'center', gap: spacing.gapLg }}>
 					<span style={{ color: colors.textSecondary }}>Z:</span>
@@ -107,6 +165,25 @@ export function GridDebugPanel({
 				</label>
 			</div>
 
+			<div style={{ marginBottom: spacing.gapLg }}>
+				<label style={{ display: 'flex', alignItems: 'center', gap: spacing.gapLg }}>
+					<span style={{ color: colors.textSecondary }}>Focus:</span>
+					<input
+						type="range"
+						min={0}
+						max={gridConfig.layers - 1}
+						value={Math.round(focusLayer)}
+						onChange={(e) => onFocusLayerChange(parseInt(e.target.value))}
+						style={{
+							flex: 1,
+							cursor: 'pointer',
+							accentColor: colors.maroonAccent,
+						}}
+					/>
+					<span style={{ minWidth: dimensions.layerInputMinWidth, textAlign: 'right' }}>{Math.round(focusLayer)}</span>
+				</label>
+			</div>
+
 			{hoveredCell && (
 				<div
 					style={{
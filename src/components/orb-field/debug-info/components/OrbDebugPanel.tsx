@@ -5,10 +5,12 @@
 // =============================================================================
 
 import { useState } from 'react';
-import { type Orb } from '../../orb/types';
+import { type Orb, type OrbEdit } from '../../orb/types';
+import { type OrbHistorySamples } from '../../inspector';
 import { DEFAULT_ORB_SPAWN_CONFIG } from '../../orb/config';
 import { glassStyles, combineGlassStyles } from '@/components/glass/styles';
 import { debugMenuConfig } from '@/components/debug/GlassDebugMenu/config/debugMenuConfig';
+import { OrbInspector } from './OrbInspector';
 
 /**
  * Props for the OrbDebugPanel component.
@@ -32,6 +34,16 @@ interface OrbDebugPanelProps {
 	onDeleteOrb?: (id: string) => void;
 	/** Callback when the brush size changes. */
 	onSizeChange?: (size: number) => void;
+	/** Speed and layer history of the selected orb. */
+	orbHistory?: OrbHistorySamples | null;
+	/** Number of z-layers (inspector layer range). */
+	totalLayers?: number;
+	/** Whether the follow marker is drawn around the selected orb. */
+	isFollowingOrb?: boolean;
+	/** Callback when the follow marker is toggled. */
+	onFollowOrbChange?: (following: boolean) => void;
+	/** Callback when the selected orb is edited in the inspector. */
+	onEditOrb?: (edit: OrbEdit) => void;
 }
 
 /**
@@ -40,6 +52,7 @@ interface OrbDebugPanelProps {
  * Features:
  * - Orb selector dropdown
  * - Real-time position and velocity display
+ * - Inspector for live editing, pinning and following the selected orb
  * - Delete button for selected orb
  * - Brush size slider for new orbs (when spawn-on-click is enabled)
  *
@@ -56,6 +69,11 @@ export function OrbDebugPanel({
 	onSelectOrb,
 	onDeleteOrb,
 	onSizeChange,
+	orbHistory,
+	totalLayers,
+	isFollowingOrb,
+	onFollowOrbChange,
+	onEditOrb,
 }: OrbDebugPanelProps) {
 	// Track when the orb selector dropdown is open
 	// When open, freeze the orbs list to prevent updates making selection impossible
@@ -170,6 +188,18 @@ export function OrbDebugPanel({
 				</div>
 			)}
 
+			{/* Inspector */}
+			{selectedOrb && (
+				<OrbInspector
+					orb={selectedOrb}
+					history={orbHistory}
+					totalLayers={totalLayers}
+					isFollowing={isFollowingOrb}
+					onFollowChange={onFollowOrbChange}
+					onEditOrb={onEditOrb}
+				/>
+			)}
+
 			{/* Delete Button */}
 			<div style={{ display: 'flex', gap: spacing.gapSm }}>
 				<button
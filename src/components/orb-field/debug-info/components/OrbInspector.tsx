@@ -0,0 +1,287 @@
+"use client";
+
+// =============================================================================
+// OrbInspector - Live editor and history graph for the selected orb
+// =============================================================================
+
+import { type Orb, type OrbEdit } from '../../orb/types';
+import { DEFAULT_ORB_SPAWN_CONFIG } from '../../orb/config';
+import { DEFAULT_ORB_INSPECTOR_CONFIG, type OrbHistorySamples } from '../../inspector';
+import { debugMenuConfig } from '@/components/debug/GlassDebugMenu/config/debugMenuConfig';
+
+/** History graph size in pixels. */
+const GRAPH_WIDTH = 160;
+const GRAPH_HEIGHT = 40;
+
+/** Line colors for the history graph. */
+const SPEED_COLOR = 'rgba(120, 200, 255, 0.9)';
+const LAYER_COLOR = 'rgba(255, 200, 120, 0.9)';
+
+/**
+ * Props for the OrbInspector component.
+ */
+interface OrbInspectorProps {
+	/** Real-time data for the inspected orb. */
+	orb: Orb;
+	/** Speed and layer history of the orb. */
+	history?: OrbHistorySamples | null;
+	/** Number of z-layers (z slider range). */
+	totalLayers?: number;
+	/** Whether the follow marker is drawn. */
+	isFollowing?: boolean;
+	/** Callback when the follow marker is toggled. */
+	onFollowChange?: (following: boolean) => void;
+	/** Callback when a value is edited. */
+	onEditOrb?: (edit: OrbEdit) => void;
+}
+
+/**
+ * Props for one inspector slider row.
+ */
+interface InspectorSliderProps {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	step: number;
+	display: string;
+	disabled?: boolean;
+	onChange: (value: number) => void;
+}
+
+/**
+ * Labelled range input for one editable orb value.
+ */
+function InspectorSlider({ label, value, min, max, step, display, disabled = false, onChange }: InspectorSliderProps) {
+	const { spacing, colors } = debugMenuConfig;
+
+	return (
+		<div style={{ display: 'flex', flexDirection: 'column', gap: spacing.gapXs, opacity: disabled ? 0.5 : 1 }}>
+			<label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+				<span style={{ color: colors.textSecondary }}>{label}:</span>
+				<span style={{ color: colors.textPrimary }}>{display}</span>
+			</label>
+			<input
+				type="range"
+				min={min}
+				max={max}
+				step={step}
+				value={Math.min(max, Math.max(min, value))}
+				disabled={disabled}
+				onChange={(e) => onChange(parseFloat(e.target.value))}
+				aria-label={`${label}: ${display}`}
+				style={{
+					width: '100%',
+					cursor: disabled ? 'not-allowed' : 'pointer',
+					accentColor: colors.maroonAccent,
+				}}
+			/>
+		</div>
+	);
+}
+
+/**
+ * Builds SVG polyline points for a series scaled into the graph box.
+ */
+function toPolylinePoints(values: number[], max: number): string {
+	if (values.length < 2) return '';
+	const stepX = GRAPH_WIDTH / (DEFAULT_ORB_INSPECTOR_CONFIG.historyLength - 1);
+	const offsetX = GRAPH_WIDTH - (values.length - 1) * stepX;
+	return values
+		.map((value, i) => {
+			const y = GRAPH_HEIGHT - (Math.min(value, max) / max) * GRAPH_HEIGHT;
+			return `${(offsetX + i * stepX).toFixed(1)},${y.toFixed(1)}`;
+		})
+		.join(' ');
+}
+
+/**
+ * Inspector for the selected orb.
+ *
+ * Features:
+ * - Sliders for velocity, size, layer, lifetime and wander parameters
+ * - Pin button (infinite mass, zero velocity)
+ * - Follow toggle for the marker on the debug canvas
+ * - Speed and layer history graph
+ *
+ * Shared by the desktop panel and the mobile debug menu.
+ */
+export function OrbInspector({
+	orb,
+	history,
+	totalLayers = 1,
+	isFollowing = false,
+	onFollowChange,
+	onEditOrb,
+}: OrbInspectorProps) {
+	const { dimensions, spacing, typography, colors } = debugMenuConfig;
+	const {
+		maxVelocityPx,
+		maxVelocityZ,
+		maxLifetimeSeconds,
+		maxWanderStrength,
+		maxWanderSpeed,
+		maxModulationSpeed,
+	} = DEFAULT_ORB_INSPECTOR_CONFIG;
+	const { minSize, maxSize } = DEFAULT_ORB_SPAWN_CONFIG;
+
+	const isPinned = orb.pinned === true;
+	const isImmortal = !isFinite(orb.lifetimeMs);
+	const edit = (change: OrbEdit) => onEditOrb?.(change);
+
+	const speedMax = Math.max(1, ...(history?.speed ?? [0]));
+	const layerMax = Math.max(1, totalLayers - 1);
+
+	const buttonStyle = (active: boolean): React.CSSProperties => ({
+		flex: 1,
+		background: active ? colors.maroon : colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: 'pointer',
+		transition: 'background 0.2s ease',
+	});
+
+	return (
+		<div
+			style={{
+				display: 'flex',
+				flexDirection: 'column',
+				gap: spacing.gapMd,
+				fontSize: typography.fontSizeSm,
+				padding: `${spacing.gapLg}px 0`,
+				borderTop: `1px solid ${colors.borderLight}`,
+			}}
+		>
+			<div style={{ display: 'flex', gap: spacing.gapSm }}>
+				<button onClick={() => edit({ pinned: !isPinned })} style={buttonStyle(isPinned)} aria-pressed={isPinned}>
+					{isPinned ? 'Unpin' : 'Pin'}
+				</button>
+				<button onClick={() => onFollowChange?.(!isFollowing)} style={buttonStyle(isFollowing)} aria-pressed={isFollowing}>
+					{isFollowing ? 'Following' : 'Follow'}
+				</button>
+			</div>
+
+			<InspectorSlider
+				label="vx"
+				value={orb.vx}
+				min={-maxVelocityPx}
+				max={maxVelocityPx}
+				step={1}
+				display={`${orb.vx.toFixed(0)} px/s`}
+				disabled={isPinned}
+				onChange={(vx) => edit({ vx })}
+			/>
+			<InspectorSlider
+				label="vy"
+				value={orb.vy}
+				min={-maxVelocityPx}
+				max={maxVelocityPx}
+				step={1}
+				display={`${orb.vy.toFixed(0)} px/s`}
+				disabled={isPinned}
+				onChange={(vy) => edit({ vy })}
+			/>
+			<InspectorSlider
+				label="vz"
+				value={orb.vz}
+				min={-maxVelocityZ}
+				max={maxVelocityZ}
+				step={0.01}
+				display={`${orb.vz.toFixed(2)} l/s`}
+				disabled={isPinned}
+				onChange={(vz) => edit({ vz })}
+			/>
+			<InspectorSlider
+				label="Size"
+				value={orb.size}
+				min={minSize}
+				max={maxSize}
+				step={1}
+				display={`${orb.size}`}
+				onChange={(size) => edit({ size })}
+			/>
+			<InspectorSlider
+				label="Layer"
+				value={orb.z}
+				min={0}
+				max={layerMax}
+				step={0.1}
+				display={orb.z.toFixed(1)}
+				onChange={(z) => edit({ z })}
+			/>
+			<InspectorSlider
+				label="Lifetime"
+				value={isImmortal ? maxLifetimeSeconds : orb.lifetimeMs / 1000}
+				min={0}
+				max={maxLifetimeSeconds}
+				step={1}
+				display={isImmortal ? '∞' : `${(orb.lifetimeMs / 1000).toFixed(0)} s`}
+				disabled={isImmortal}
+				onChange={(seconds) => edit({ lifetimeMs: seconds * 1000 })}
+			/>
+			<label style={{ display: 'flex', alignItems: 'center', gap: spacing.gapSm, color: colors.textSecondary }}>
+				<input
+					type="checkbox"
+					checked={isImmortal}
+					onChange={(e) => edit({ lifetimeMs: e.target.checked ? Infinity : maxLifetimeSeconds * 1000 })}
+					style={{ accentColor: colors.maroonAccent }}
+				/>
+				Never despawn
+			</label>
+			<InspectorSlider
+				label="Wander"
+				value={orb.wanderStrength}
+				min={0}
+				max={maxWanderStrength}
+				step={0.01}
+				display={orb.wanderStrength.toFixed(2)}
+				onChange={(wanderStrength) => edit({ wanderStrength })}
+			/>
+			<InspectorSlider
+				label="Wander Speed"
+				value={orb.wanderSpeed}
+				min={0}
+				max={maxWanderSpeed}
+				step={0.01}
+				display={orb.wanderSpeed.toFixed(2)}
+				onChange={(wanderSpeed) => edit({ wanderSpeed })}
+			/>
+			<InspectorSlider
+				label="Modulation"
+				value={orb.wanderModulationSpeed}
+				min={0}
+				max={maxModulationSpeed}
+				step={0.01}
+				display={orb.wanderModulationSpeed.toFixed(2)}
+				onChange={(wanderModulationSpeed) => edit({ wanderModulationSpeed })}
+			/>
+
+			{/* History Graph */}
+			<div style={{ display: 'flex', flexDirection: 'column', gap: spacing.gapXs }}>
+				<div style={{ display: 'flex', justifyContent: 'space-between', color: colors.textMuted }}>
+					<span style={{ color: SPEED_COLOR }}>speed ≤ {speedMax.toFixed(0)}</span>
+					<span style={{ color: LAYER_COLOR }}>layer</span>
+				</div>
+				<svg
+					width="100%"
+					height={GRAPH_HEIGHT}
+					viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+					preserveAspectRatio="none"
+					role="img"
+					aria-label="Speed and layer history"
+					style={{ background: colors.inputBg, borderRadius: dimensions.borderRadiusSm }}
+				>
+					{history && (
+						<>
+							<polyline points={toPolylinePoints(history.speed, speedMax)} fill="none" stroke={SPEED_COLOR} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+							<polyline points={toPolylinePoints(history.z, layerMax)} fill="none" stroke={LAYER_COLOR} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+						</>
+					)}
+				</svg>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,60 @@
+// =============================================================================
+// Force Field Configuration
+// =============================================================================
+
+import { type ForceFieldInput, type ForceFieldKind } from './types';
+
+/**
+ * Configuration for force field debug visualization.
+ */
+export interface ForceFieldDebugVisualConfig {
+	/** Stroke color per field kind. */
+	colors: Record<ForceFieldKind, string>;
+	/** Line width of field shapes. */
+	lineWidth: number;
+	/** Dash pattern for influence boundaries. */
+	influenceDash: number[];
+	/** Size of center markers and arrowheads in pixels. */
+	markerSize: number;
+}
+
+/**
+ * Default debug visualization configuration for force fields.
+ */
+export const DEFAULT_FORCE_FIELD_DEBUG_CONFIG: ForceFieldDebugVisualConfig = {
+	colors: {
+		attractor: 'rgba(80, 220, 140, 0.9)',
+		repeller: 'rgba(255, 90, 90, 0.9)',
+		line: 'rgba(120, 170, 255, 0.9)',
+		ring: 'rgba(190, 130, 255, 0.9)',
+		wind: 'rgba(90, 220, 255, 0.9)',
+	},
+	lineWidth: 1.5,
+	influenceDash: [4, 4],
+	markerSize: 6,
+};
+
+/**
+ * Field templates centered on a point, used when placing fields from the debug menu.
+ */
+export const FORCE_FIELD_PRESETS: Record<ForceFieldKind, (x: number, y: number) => ForceFieldInput> = {
+	attractor: (x, y) => ({ kind: 'attractor', x, y, strength: 60, radius: 250, falloff: 'linear' }),
+	repeller: (x, y) => ({ kind: 'repeller', x, y, strength: 120, radius: 180, falloff: 'quadratic' }),
+	line: (x, y) => ({ kind: 'line', x1: x - 120, y1: y, x2: x + 120, y2: y, strength: 90, radius: 120, falloff: 'quadratic' }),
+	ring: (x, y) => ({ kind: 'ring', x, y, ringRadius: 150, strength: 80, radius: 90, falloff: 'smooth' }),
+	wind: (x, y) => ({ kind: 'wind', x: x - 150, y: y - 100, width: 300, height: 200, directionX: 1, directionY: 0, strength: 40, radius: 60, falloff: 'linear' }),
+};
+
+/**
+ * Gentle attractor for anchoring behind a card, so orbs gather around it.
+ * Position is filled in from the anchor element.
+ */
+export const CARD_ANCHOR_FORCE_FIELD: ForceFieldInput = {
+	kind: 'attractor',
+	x: 0,
+	y: 0,
+	strength: 12,
+	radius: 700,
+	falloff: 'smooth',
+	screenSpace: true,
+};
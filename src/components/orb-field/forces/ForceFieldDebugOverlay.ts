@@ -0,0 +1,147 @@
+// =============================================================================
+// ForceFieldDebugOverlay - Debug visualization for force fields
+// =============================================================================
+
+import { DEFAULT_FORCE_FIELD_DEBUG_CONFIG, type ForceFieldDebugVisualConfig } from './ForceFieldConfig';
+import { type ForceField } from './types';
+
+/**
+ * Draws force field shapes and their influence boundaries on the debug canvas.
+ *
+ * Solid strokes show the emitting shape, dashed strokes the edge of the radius.
+ *
+ * Single Responsibility: Only draws debug visuals for force fields.
+ */
+export class ForceFieldDebugOverlay {
+	/**
+	 * Draws every field.
+	 *
+	 * @param ctx - The 2D canvas rendering context (untransformed, screen pixels).
+	 * @param fields - Fields to draw.
+	 * @param offsetX - Parallax offset applied to physics-space fields.
+	 * @param offsetY - Parallax offset applied to physics-space fields.
+	 * @param config - Debug visualization configuration.
+	 */
+	static draw(
+		ctx: CanvasRenderingContext2D,
+		fields: readonly ForceField[],
+		offsetX: number,
+		offsetY: number,
+		config: ForceFieldDebugVisualConfig = DEFAULT_FORCE_FIELD_DEBUG_CONFIG
+	): void {
+		if (fields.length === 0) return;
+
+		ctx.save();
+		ctx.lineWidth = config.lineWidth;
+
+		for (const field of fields) {
+			ctx.save();
+			if (!field.screenSpace) {
+				ctx.translate(offsetX, offsetY);
+			}
+			ctx.strokeStyle = config.colors[field.kind];
+			ctx.fillStyle = config.colors[field.kind];
+			this.drawField(ctx, field, config);
+			ctx.restore();
+		}
+
+		ctx.restore();
+	}
+
+	private static drawField(ctx: CanvasRenderingContext2D, field: ForceField, config: ForceFieldDebugVisualConfig): void {
+		const m = config.markerSize;
+
+		switch (field.kind) {
+			case 'attractor':
+			case 'repeller': {
+				this.strokeInfluence(ctx, config, () => ctx.arc(field.x, field.y, field.radius, 0, Math.PI * 2));
+				// Plus for attractors, cross for repellers
+				ctx.beginPath();
+				if (field.kind === 'attractor') {
+					ctx.moveTo(field.x - m, field.y);
+					ctx.lineTo(field.x + m, field.y);
+					ctx.moveTo(field.x, field.y - m);
+					ctx.lineTo(field.x, field.y + m);
+				} else {
+					ctx.moveTo(field.x - m, field.y - m);
+					ctx.lineTo(field.x + m, field.y + m);
+					ctx.moveTo(field.x + m, field.y - m);
+					ctx.lineTo(field.x - m, field.y + m);
+				}
+				ctx.stroke();
+				break;
+			}
+			case 'line': {
+				ctx.beginPath();
+				ctx.moveTo(field.x1, field.y1);
+				ctx.lineTo(field.x2, field.y2);
+				ctx.stroke();
+				// Capsule around the segment
+				const angle = Math.atan2(field.y2 - field.y1, field.x2 - field.x1);
+				this.strokeInfluence(ctx, config, () => {
+					ctx.arc(field.x2, field.y2, field.radius, angle - Math.PI / 2, angle + Math.PI / 2);
+					ctx.arc(field.x1, field.y1, field.radius, angle + Math.PI / 2, angle + Math.PI * 1.5);
+					ctx.closePath();
+				});
+				break;
+			}
+			case 'ring': {
+				ctx.beginPath();
+				ctx.arc(field.x, field.y, field.ringRadius, 0, Math.PI * 2);
+				ctx.stroke();
+				this.strokeInfluence(ctx, config, () => {
+					ctx.arc(field.x, field.y, field.ringRadius + field.radius, 0, Math.PI * 2);
+					const inner = field.ringRadius - field.radius;
+					if (inner > 0) {
+						ctx.moveTo(field.x + inner, field.y);
+						ctx.arc(field.x, field.y, inner, 0, Math.PI * 2);
+					}
+				});
+				break;
+			}
+			case 'wind': {
+				ctx.strokeRect(field.x, field.y, field.width, field.height);
+				this.strokeInfluence(ctx, config, () => {
+					ctx.rect(field.x - field.radius, field.y - field.radius, field.width + field.radius * 2, field.height + field.radius * 2);
+				});
+				this.drawArrow(ctx, field.x + field.width / 2, field.y + field.height / 2, field.directionX, field.directionY, Math.min(field.width, field.height) / 3, m);
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Strokes a path with the influence dash pattern.
+	 */
+	private static strokeInfluence(ctx: CanvasRenderingContext2D, config: ForceFieldDebugVisualConfig, tracePath: () => void): void {
+		ctx.save();
+		ctx.setLineDash(config.influenceDash);
+		ctx.beginPath();
+		tracePath();
+		ctx.stroke();
+		ctx.restore();
+	}
+
+	/**
+	 * Draws an arrow centered on a point.
+	 */
+	private static drawArrow(ctx: CanvasRenderingContext2D, cx: number, cy: number, dx: number, dy: number, halfLength: number, headLength: number): void {
+		const len = Math.sqrt(dx * dx + dy * dy);
+		if (len === 0) return;
+
+		const angle = Math.atan2(dy, dx);
+		const ux = dx / len;
+		const uy = dy / len;
+		const endX = cx + ux * halfLength;
+		const endY = cy + uy * halfLength;
+		const headAngle = Math.PI / 6;
+
+		ctx.beginPath();
+		ctx.moveTo(cx - ux * halfLength, cy - uy * halfLength);
+		ctx.lineTo(endX, endY);
+		ctx.lineTo(endX - headLength * Math.cos(angle - headAngle), endY - headLength * Math.sin(angle - headAngle));
+		ctx.moveTo(endX, endY);
+		ctx.lineTo(endX - headLength * Math.cos(angle + headAngle), endY - headLength * Math.sin(angle + headAngle));
+		ctx.stroke();
+	}
+}
@@ -0,0 +1,100 @@
+// =============================================================================
+// ForceFieldSet - Mutable collection of force fields
+// =============================================================================
+
+import { type ForceField, type ForceFieldChanges, type ForceFieldInput } from './types';
+
+/**
+ * Holds the force fields of one simulation.
+ *
+ * The list is replaced (never mutated) on every change, so readers can keep
+ * a reference for a whole step and post it to the worker without copying.
+ *
+ * Single Responsibility: Force field bookkeeping only.
+ */
+export class ForceFieldSet {
+	private fields: readonly ForceField[] = [];
+	private listeners = new Set<() => void>();
+	private nextId = 1;
+
+	/** Current fields in insertion order. */
+	get list(): readonly ForceField[] {
+		return this.fields;
+	}
+
+	/**
+	 * Adds a field, or replaces the field with the same ID.
+	 *
+	 * @param input - Field to add (an ID is generated when omitted).
+	 * @returns The stored field.
+	 */
+	add(input: ForceFieldInput): ForceField {
+		const field = { ...input, id: input.id ?? `field-${this.nextId++}` } as ForceField;
+		const index = this.fields.findIndex((existing) => existing.id === field.id);
+		this.fields = index === -1
+			? [...this.fields, field]
+			: this.fields.map((existing, i) => (i === index ? field : existing));
+		this.notify();
+		return field;
+	}
+
+	/**
+	 * Updates properties of an existing field (e.g. to move an anchored field).
+	 * Unknown IDs are ignored.
+	 *
+	 * @param id - Field ID.
+	 * @param changes - Properties to overwrite (the kind cannot change).
+	 */
+	update(id: string, changes: ForceFieldChanges): void {
+		const index = this.fields.findIndex((field) => field.id === id);
+		if (index === -1) return;
+
+		const current = this.fields[index];
+		const unchanged = (Object.keys(changes) as (keyof typeof changes)[])
+			.every((key) => current[key] === changes[key]);
+		if (unchanged) return;
+
+		this.fields = this.fields.map((field, i) => (i === index ? { ...field, ...changes } : field));
+		this.notify();
+	}
+
+	/**
+	 * Removes a field.
+	 *
+	 * @param id - Field ID.
+	 * @returns True if a field was removed.
+	 */
+	remove(id: string): boolean {
+		const next = this.fields.filter((field) => field.id !== id);
+		if (next.length === this.fields.length) return false;
+		this.fields = next;
+		this.notify();
+		return true;
+	}
+
+	/** Removes every field. */
+	clear(): void {
+		if (this.fields.length === 0) return;
+		this.fields = [];
+		this.notify();
+	}
+
+	/**
+	 * Subscribes to changes.
+	 *
+	 * @param listener - Called after every change.
+	 * @returns Unsubscribe function.
+	 */
+	subscribe(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
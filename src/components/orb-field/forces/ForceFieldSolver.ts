@@ -0,0 +1,146 @@
+// =============================================================================
+// ForceFieldSolver - Applies force fields to orbs
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type ForceField, type ForceFieldFalloff } from './types';
+
+/**
+ * Scratch result for a single field/orb evaluation (reused to avoid allocation).
+ */
+interface FieldSample {
+	/** Unit direction of the force. */
+	dirX: number;
+	dirY: number;
+	/** Distance from the field's shape in pixels. */
+	distance: number;
+}
+
+/**
+ * Applies attractors, repellers, emitters and wind regions to orbs.
+ *
+ * Forces act in the XY plane only; zRange limits which depths a field reaches.
+ *
+ * Single Responsibility: Force field acceleration only.
+ */
+export class ForceFieldSolver {
+	private static sample: FieldSample = { dirX: 0, dirY: 0, distance: 0 };
+
+	/**
+	 * Accelerates every orb by every field that reaches it.
+	 *
+	 * @param orbs - Array of orbs to update.
+	 * @param fields - Fields to apply.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param scrollOffset - Parallax offset used to map screen-space fields into physics space.
+	 */
+	static apply(
+		orbs: Orb[],
+		fields: readonly ForceField[],
+		deltaTime: number,
+		scrollOffset: { x: number; y: number } = { x: 0, y: 0 }
+	): void {
+		if (fields.length === 0) return;
+
+		for (const field of fields) {
+			const offsetX = field.screenSpace ? scrollOffset.x : 0;
+			const offsetY = field.screenSpace ? scrollOffset.y : 0;
+
+			for (const orb of orbs) {
+				if (field.zRange && (orb.z < field.zRange.min || orb.z > field.zRange.max)) continue;
+
+				// Evaluate in the field's space
+				if (!this.evaluate(field, orb.pxX + offsetX, orb.pxY + offsetY, this.sample)) continue;
+
+				const { dirX, dirY, distance } = this.sample;
+				if (distance > field.radius) continue;
+
+				const t = field.radius > 0 ? distance / field.radius : 0;
+				const acceleration = field.strength * this.falloff(t, field.falloff);
+				if (!isFinite(acceleration) || acceleration === 0) continue;
+
+				orb.vx += acceleration * dirX * deltaTime;
+				orb.vy += acceleration * dirY * deltaTime;
+				orb.angle = Math.atan2(orb.vy, orb.vx);
+			}
+		}
+	}
+
+	/**
+	 * Evaluates the fade curve.
+	 *
+	 * @param t - Normalized distance (0 at the shape, 1 at the radius).
+	 * @param curve - Fade curve.
+	 * @returns Strength multiplier in [0, 1].
+	 */
+	static falloff(t: number, curve: ForceFieldFalloff): number {
+		const clamped = Math.min(1, Math.max(0, t));
+		switch (curve) {
+			case 'constant':
+				return 1;
+			case 'linear':
+				return 1 - clamped;
+			case 'quadratic':
+				return (1 - clamped) * (1 - clamped);
+			case 'smooth':
+				return 1 - clamped * clamped * (3 - 2 * clamped);
+		}
+	}
+
+	/**
+	 * Computes the force direction and distance for a point.
+	 * Returns false when the direction is undefined (point on the shape or a degenerate field).
+	 */
+	private static evaluate(field: ForceField, px: number, py: number, out: FieldSample): boolean {
+		switch (field.kind) {
+			case 'attractor':
+			case 'repeller': {
+				const dx = field.x - px;
+				const dy = field.y - py;
+				const dist = Math.sqrt(dx * dx + dy * dy);
+				if (dist < 1) return false;
+				const sign = field.kind === 'attractor' ? 1 : -1;
+				out.dirX = (dx / dist) * sign;
+				out.dirY = (dy / dist) * sign;
+				out.distance = dist;
+				return true;
+			}
+			case 'line': {
+				const sx = field.x2 - field.x1;
+				const sy = field.y2 - field.y1;
+				const lenSq = sx * sx + sy * sy;
+				const u = lenSq > 0 ? Math.min(1, Math.max(0, ((px - field.x1) * sx + (py - field.y1) * sy) / lenSq)) : 0;
+				const dx = px - (field.x1 + sx * u);
+				const dy = py - (field.y1 + sy * u);
+				const dist = Math.sqrt(dx * dx + dy * dy);
+				if (dist < 1) return false;
+				out.dirX = dx / dist;
+				out.dirY = dy / dist;
+				out.distance = dist;
+				return true;
+			}
+			case 'ring': {
+				const dx = px - field.x;
+				const dy = py - field.y;
+				const r = Math.sqrt(dx * dx + dy * dy);
+				if (r < 1) return false;
+				const sign = r >= field.ringRadius ? 1 : -1;
+				out.dirX = (dx / r) * sign;
+				out.dirY = (dy / r) * sign;
+				out.distance = Math.abs(r - field.ringRadius);
+				return true;
+			}
+			case 'wind': {
+				const len = Math.sqrt(field.directionX * field.directionX + field.directionY * field.directionY);
+				if (len === 0) return false;
+				// Distance outside the rectangle (0 inside)
+				const outsideX = Math.max(field.x - px, 0, px - (field.x + field.width));
+				const outsideY = Math.max(field.y - py, 0, py - (field.y + field.height));
+				out.dirX = field.directionX / len;
+				out.dirY = field.directionY / len;
+				out.distance = Math.sqrt(outsideX * outsideX + outsideY * outsideY);
+				return true;
+			}
+		}
+	}
+}
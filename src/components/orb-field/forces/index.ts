@@ -0,0 +1,25 @@
+// =============================================================================
+// Force Fields - Exports for attractors, repellers, emitters and wind regions
+// =============================================================================
+
+export {
+	type ForceField,
+	type ForceFieldInput,
+	type ForceFieldChanges,
+	type ForceFieldKind,
+	type ForceFieldFalloff,
+	type ForceFieldZRange,
+	type PointForceField,
+	type LineForceField,
+	type RingForceField,
+	type WindForceField,
+} from './types';
+export {
+	DEFAULT_FORCE_FIELD_DEBUG_CONFIG,
+	FORCE_FIELD_PRESETS,
+	CARD_ANCHOR_FORCE_FIELD,
+	type ForceFieldDebugVisualConfig,
+} from './ForceFieldConfig';
+export { ForceFieldSolver } from './ForceFieldSolver';
+export { ForceFieldSet } from './ForceFieldSet';
+export { ForceFieldDebugOverlay } from './ForceFieldDebugOverlay';
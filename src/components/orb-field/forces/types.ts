@@ -0,0 +1,111 @@
+// =============================================================================
+// Force Field Types - Attractors, repellers, emitters and wind regions
+// =============================================================================
+
+/**
+ * How a field's strength fades between its shape (t = 0) and its radius (t = 1).
+ */
+export type ForceFieldFalloff = 'constant' | 'linear' | 'quadratic' | 'smooth';
+
+/**
+ * Depth range (in layers) of orbs a field affects. Inclusive on both ends.
+ */
+export interface ForceFieldZRange {
+	min: number;
+	max: number;
+}
+
+/**
+ * Properties shared by every field.
+ */
+interface ForceFieldBase {
+	/** Unique identifier within a ForceFieldSet. */
+	id: string;
+	/** Acceleration at full strength in px/s² (negative values invert the direction). */
+	strength: number;
+	/** Distance from the field's shape in pixels over which the force fades out. */
+	radius: number;
+	/** Fade curve across the radius. */
+	falloff: ForceFieldFalloff;
+	/** Affected depth range (all layers when omitted). */
+	zRange?: ForceFieldZRange;
+	/**
+	 * Whether coordinates are screen pixels rather than physics space.
+	 * Screen-space fields stay fixed to the viewport while the orbs parallax,
+	 * e.g. a field anchored behind a DOM element.
+	 */
+	screenSpace?: boolean;
+}
+
+/**
+ * Pulls orbs toward (attractor) or pushes them away from (repeller) a point.
+ */
+export interface PointForceField extends ForceFieldBase {
+	kind: 'attractor' | 'repeller';
+	x: number;
+	y: number;
+}
+
+/**
+ * Pushes orbs away from a line segment.
+ */
+export interface LineForceField extends ForceFieldBase {
+	kind: 'line';
+	x1: number;
+	y1: number;
+	x2: number;
+	y2: number;
+}
+
+/**
+ * Pushes orbs away from a circle (inward inside it, outward outside it).
+ */
+export interface RingForceField extends ForceFieldBase {
+	kind: 'ring';
+	x: number;
+	y: number;
+	/** Radius of the emitting circle in pixels. */
+	ringRadius: number;
+}
+
+/**
+ * Pushes orbs in one direction inside a rectangle (fading out over radius beyond its edges).
+ */
+export interface WindForceField extends ForceFieldBase {
+	kind: 'wind';
+	/** Left edge in pixels. */
+	x: number;
+	/** Top edge in pixels. */
+	y: number;
+	width: number;
+	height: number;
+	/** Wind direction (normalized when applied). */
+	directionX: number;
+	directionY: number;
+}
+
+/**
+ * Any force field. Plain data, so fields can be posted to the physics worker.
+ */
+export type ForceField = PointForceField | LineForceField | RingForceField | WindForceField;
+
+/**
+ * Field kind discriminator.
+ */
+export type ForceFieldKind = ForceField['kind'];
+
+/**
+ * A field whose ID is assigned by the ForceFieldSet when omitted.
+ */
+export type ForceFieldInput = WithOptionalId<ForceField>;
+
+/**
+ * Properties ForceFieldSet.update() may overwrite on a field of any kind.
+ */
+export type ForceFieldChanges = FieldChanges<ForceField>;
+
+/** Partial per kind, so changes can name any kind's own fields (x1, width, ...). */
+type FieldChanges<F> = F extends ForceField ? Partial<Omit<F, 'id' | 'kind'>> : never;
+
+/** Distributes over the union so each kind keeps its own fields. */
+type WithOptionalId<F> = F extends ForceField ? Omit<F, 'id'> & { id?: string } : never;
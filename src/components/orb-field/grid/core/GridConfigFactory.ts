@@ -22,11 +22,11 @@ export class GridConfigFactory {
 	 * 2. Extend beyond the viewport by the configured multiplier
 	 * 3. Account for device DPI for consistent physical sizing
 	 *
-	 * @param window - Browser window object for dimensions and DPI.
+	 * @param window - Browser window (or a stand-in with replayed dimensions) for dimensions and DPI.
 	 * @param options - Optional overrides for default configuration.
 	 * @returns Fully calculated GridConfig object.
 	 */
-	static create(window: Window, options: Partial<GridSystemConfig> = {}): GridConfig {
+	static create(window: Pick<Window, 'innerWidth' | 'innerHeight' | 'devicePixelRatio'>, options: Partial<GridSystemConfig> = {}): GridConfig {
 		const config = { ...DEFAULT_GRID_CONFIG, ...options };
 
 		// Calculate physical dimensions using device pixel ratio
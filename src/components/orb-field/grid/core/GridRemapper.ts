@@ -0,0 +1,52 @@
+// =============================================================================
+// GridRemapper - Carries orbs across a grid rebuilt for a new viewport
+// =============================================================================
+
+import { type Orb } from '../../orb/types';
+import { type GridConfig } from '../types';
+
+/**
+ * Moves orbs from one grid's world bounds into another's.
+ *
+ * Positions keep their fraction of the world (viewport plus off-screen
+ * extension), so an orb a third of the way across the old field is a third
+ * of the way across the new one. Velocities are kept as they are.
+ *
+ * Single Responsibility: Orb position remapping between grid geometries.
+ */
+export class GridRemapper {
+	/**
+	 * Checks whether two configs cover the same world with the same cells,
+	 * in which case remapping is the identity.
+	 */
+	static sameGeometry(a: GridConfig, b: GridConfig): boolean {
+		return a.cellsX === b.cellsX && a.cellsY === b.cellsY && a.layers === b.layers &&
+			a.cellSizeXCm === b.cellSizeXCm && a.cellSizeYCm === b.cellSizeYCm &&
+			a.minXCm === b.minXCm && a.minYCm === b.minYCm &&
+			a.pixelsPerCm === b.pixelsPerCm;
+	}
+
+	/**
+	 * Remaps orb positions in place.
+	 *
+	 * @param orbs - Orbs positioned for the old grid.
+	 * @param from - Grid the positions were valid for.
+	 * @param to - Grid to move them into.
+	 */
+	static remapOrbs(orbs: readonly Orb[], from: GridConfig, to: GridConfig): void {
+		if (GridRemapper.sameGeometry(from, to)) return;
+
+		const fromWidthCm = from.cellsX * from.cellSizeXCm;
+		const fromHeightCm = from.cellsY * from.cellSizeYCm;
+		const toWidthCm = to.cellsX * to.cellSizeXCm;
+		const toHeightCm = to.cellsY * to.cellSizeYCm;
+
+		for (const orb of orbs) {
+			const tx = (orb.pxX * from.cmPerPixel - from.minXCm) / fromWidthCm;
+			const ty = (orb.pxY * from.cmPerPixel - from.minYCm) / fromHeightCm;
+			orb.pxX = (to.minXCm + tx * toWidthCm) * to.pixelsPerCm;
+			orb.pxY = (to.minYCm + ty * toHeightCm) * to.pixelsPerCm;
+			orb.z = Math.min(to.layers - 1, orb.z);
+		}
+	}
+}
@@ -0,0 +1,179 @@
+// =============================================================================
+// GridStorageBenchmark - Compares chunked and dense grid access cost
+// =============================================================================
+
+import { CELL_BORDER, CELL_OBSTACLE, CELL_PROXIMITY, hasCellFlag, type CellState } from '../../shared/types';
+import { DEFAULT_GRID_STORAGE_CONFIG, type GridStorageConfig } from '../../shared/config';
+import { type GridAccessTimings, type GridConfig, type GridStorageComparison } from '../types';
+import { SpatialGrid } from './SpatialGrid';
+
+/** Orb footprints marked, queried and cleared per run. */
+const FOOTPRINT_COUNT = 200;
+
+/** Footprint radius in cells (a size 2 orb's avoidance zone). */
+const FOOTPRINT_RADIUS = 2;
+
+/** Unmeasured runs first, so the JIT has compiled both storages' accessors. */
+const WARMUP_RUNS = 5;
+
+/** Runs averaged per measurement. */
+const RUNS = 10;
+
+/**
+ * The grid operations one physics step performs, shared by both storages.
+ */
+interface GridAccess {
+	addCellFlag(cellX: number, cellY: number, layer: number, flag: CellState): void;
+	isWall(cellX: number, cellY: number, layer: number): boolean;
+	clearDynamic(): void;
+}
+
+/**
+ * Flat [layer][y][x] array with a bulk-copied clean state, as the grid was
+ * stored before chunking. Only the operations the benchmark runs.
+ */
+class DenseGrid implements GridAccess {
+	private readonly cells: Uint8Array;
+	private readonly cleanState: Uint8Array;
+
+	constructor(private readonly config: GridConfig) {
+		const { cellsX, cellsY, layers } = config;
+		this.cells = new Uint8Array(cellsX * cellsY * layers);
+		for (let layer = 0; layer < layers; layer++) {
+			for (let y = 0; y < cellsY; y++) {
+				for (let x = 0; x < cellsX; x++) {
+					if (x === 0 || y === 0 || x === cellsX - 1 || y === cellsY - 1) {
+						this.cells[this.getIndex(x, y, layer)] = CELL_BORDER;
+					}
+				}
+			}
+		}
+		this.cleanState = new Uint8Array(this.cells);
+	}
+
+	private getIndex(cellX: number, cellY: number, layer: number): number {
+		return layer * this.config.cellsX * this.config.cellsY + cellY * this.config.cellsX + cellX;
+	}
+
+	private isInBounds(cellX: number, cellY: number, layer: number): boolean {
+		return (
+			cellX >= 0 && cellX < this.config.cellsX &&
+			cellY >= 0 && cellY < this.config.cellsY &&
+			layer >= 0 && layer < this.config.layers
+		);
+	}
+
+	addCellFlag(cellX: number, cellY: number, layer: number, flag: CellState): void {
+		if (!this.isInBounds(cellX, cellY, layer)) return;
+		this.cells[this.getIndex(cellX, cellY, layer)] |= flag;
+	}
+
+	isWall(cellX: number, cellY: number, layer: number): boolean {
+		if (!this.isInBounds(cellX, cellY, layer)) return true;
+		return hasCellFlag(this.cells[this.getIndex(cellX, cellY, layer)] as CellState, CELL_BORDER | CELL_OBSTACLE);
+	}
+
+	clearDynamic(): void {
+		this.cells.set(this.cleanState);
+	}
+}
+
+/**
+ * Times the per-step grid work - marking orb footprints, querying the cells
+ * around them and clearing them again - on the chunked SpatialGrid and on a
+ * dense array of the same grid, for comparison in the debug panel.
+ *
+ * Footprints are spread over the whole grid in a fixed pattern, so both
+ * storages see the same cells and repeated measurements are comparable.
+ *
+ * Single Responsibility: Grid storage cost measurement only.
+ */
+export class GridStorageBenchmark {
+	/**
+	 * Measures both storages. Allocates a dense array of the grid (twice)
+	 * while it runs, so call it once per grid rather than every frame.
+	 *
+	 * @param config - Grid dimensions to measure.
+	 * @param storage - Chunk dimensions of the chunked grid.
+	 * @returns Average mark, query and clear times per run for each storage.
+	 */
+	static measure(
+		config: GridConfig,
+		storage: GridStorageConfig = DEFAULT_GRID_STORAGE_CONFIG
+	): GridStorageComparison {
+		const footprints = this.placeFootprints(config);
+
+		const chunked = new SpatialGrid(config, storage);
+		chunked.initializeBorder();
+		chunked.saveCleanState();
+
+		return {
+			footprints: FOOTPRINT_COUNT,
+			chunked: this.time(chunked, footprints),
+			dense: this.time(new DenseGrid(config), footprints),
+		};
+	}
+
+	/**
+	 * Spreads footprint centres over the grid with a low-discrepancy sequence.
+	 *
+	 * @returns Flat list of [cellX, cellY, layer] triples.
+	 */
+	private static placeFootprints(config: GridConfig): Int32Array {
+		const centres = new Int32Array(FOOTPRINT_COUNT * 3);
+		for (let i = 0; i < FOOTPRINT_COUNT; i++) {
+			centres[i * 3] = Math.floor(((i * 0.6180339887) % 1) * config.cellsX);
+			centres[i * 3 + 1] = Math.floor(((i * 0.7548776662) % 1) * config.cellsY);
+			centres[i * 3 + 2] = Math.floor(((i * 0.5698402910) % 1) * config.layers);
+		}
+		return centres;
+	}
+
+	/**
+	 * Runs mark, query and clear on one storage and averages each.
+	 */
+	private static time(grid: GridAccess, footprints: Int32Array): GridAccessTimings {
+		const totals = { markMs: 0, queryMs: 0, clearMs: 0 };
+
+		for (let run = -WARMUP_RUNS; run < RUNS; run++) {
+			const markStart = performance.now();
+			this.forEachFootprintCell(footprints, (x, y, z) => grid.addCellFlag(x, y, z, CELL_PROXIMITY));
+			const queryStart = performance.now();
+			this.forEachFootprintCell(footprints, (x, y, z) => {
+				grid.isWall(x, y, z);
+			});
+			const clearStart = performance.now();
+			grid.clearDynamic();
+			const end = performance.now();
+
+			if (run < 0) continue;
+			totals.markMs += queryStart - markStart;
+			totals.queryMs += clearStart - queryStart;
+			totals.clearMs += end - clearStart;
+		}
+
+		return {
+			markMs: totals.markMs / RUNS,
+			queryMs: totals.queryMs / RUNS,
+			clearMs: totals.clearMs / RUNS,
+		};
+	}
+
+	/**
+	 * Visits every cell of every footprint cube.
+	 */
+	private static forEachFootprintCell(
+		footprints: Int32Array,
+		visit: (cellX: number, cellY: number, layer: number) => void
+	): void {
+		for (let i = 0; i < footprints.length; i += 3) {
+			for (let dz = -FOOTPRINT_RADIUS; dz <= FOOTPRINT_RADIUS; dz++) {
+				for (let dy = -FOOTPRINT_RADIUS; dy <= FOOTPRINT_RADIUS; dy++) {
+					for (let dx = -FOOTPRINT_RADIUS; dx <= FOOTPRINT_RADIUS; dx++) {
+						visit(footprints[i] + dx, footprints[i + 1] + dy, footprints[i + 2] + dz);
+					}
+				}
+			}
+		}
+	}
+}
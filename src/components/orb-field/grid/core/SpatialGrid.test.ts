@@ -0,0 +1,198 @@
+// =============================================================================
+// SpatialGrid Tests - Chunked cell storage, borders and dynamic clearing
+// =============================================================================
+
+import { describe, expect, it } from 'vitest';
+import { SpatialGrid } from './SpatialGrid';
+import { CELL_BORDER, CELL_EMPTY, CELL_FILLED, CELL_OBSTACLE, CELL_PROXIMITY } from '../../shared/types';
+import { type GridStorageConfig } from '../../shared/config';
+import { type GridConfig } from '../types';
+
+/** Small chunks, so a small grid spans several of them on every axis. */
+const SMALL_CHUNKS: GridStorageConfig = { chunkSizeX: 4, chunkSizeY: 4, chunkLayers: 2 };
+
+/**
+ * Builds a grid config with the given dimensions (world metrics are irrelevant here).
+ */
+function gridConfig(cellsX: number, cellsY: number, layers: number): GridConfig {
+	return {
+		cellsX,
+		cellsY,
+		layers,
+		cellSizeXCm: 1,
+		cellSizeYCm: 1,
+		minXCm: 0,
+		minYCm: 0,
+		viewportMinXCm: 0,
+		viewportMaxXCm: cellsX,
+		viewportMinYCm: 0,
+		viewportMaxYCm: cellsY,
+		pixelsPerCm: 1,
+		cmPerPixel: 1,
+	};
+}
+
+/**
+ * Creates a grid with its border saved as the clean state, as the simulation does.
+ */
+function createBorderedGrid(config: GridConfig, storage: GridStorageConfig = SMALL_CHUNKS): SpatialGrid {
+	const grid = new SpatialGrid(config, storage);
+	grid.initializeBorder();
+	grid.saveCleanState();
+	return grid;
+}
+
+/**
+ * Whether a cell lies on the XY edge of the grid.
+ */
+function isEdge(config: GridConfig, x: number, y: number): boolean {
+	return x === 0 || y === 0 || x === config.cellsX - 1 || y === config.cellsY - 1;
+}
+
+describe('SpatialGrid', () => {
+	it('keeps flags apart on both sides of chunk boundaries', () => {
+		const grid = new SpatialGrid(gridConfig(16, 16, 6), SMALL_CHUNKS);
+
+		// Last cell of one chunk and first cell of the next, on every axis
+		grid.addCellFlag(3, 5, 1, CELL_FILLED);
+		grid.addCellFlag(4, 5, 1, CELL_PROXIMITY);
+		grid.addCellFlag(6, 7, 2, CELL_FILLED);
+		grid.addCellFlag(6, 8, 2, CELL_OBSTACLE);
+		grid.addCellFlag(9, 9, 3, CELL_PROXIMITY);
+		grid.addCellFlag(9, 9, 4, CELL_FILLED);
+
+		expect(grid.getCell(3, 5, 1)).toBe(CELL_FILLED);
+		expect(grid.getCell(4, 5, 1)).toBe(CELL_PROXIMITY);
+		expect(grid.getCell(6, 7, 2)).toBe(CELL_FILLED);
+		expect(grid.getCell(6, 8, 2)).toBe(CELL_OBSTACLE);
+		expect(grid.getCell(9, 9, 3)).toBe(CELL_PROXIMITY);
+		expect(grid.getCell(9, 9, 4)).toBe(CELL_FILLED);
+
+		grid.addCellFlag(4, 5, 1, CELL_FILLED);
+		grid.removeCellFlag(4, 5, 1, CELL_PROXIMITY);
+		expect(grid.getCell(4, 5, 1)).toBe(CELL_FILLED);
+		expect(grid.getCell(3, 5, 1)).toBe(CELL_FILLED);
+	});
+
+	it('reads unwritten chunks as border on the edges and empty elsewhere', () => {
+		const config = gridConfig(12, 9, 4);
+		const grid = new SpatialGrid(config, SMALL_CHUNKS);
+		expect(grid.getCell(0, 0, 0)).toBe(CELL_EMPTY);
+
+		grid.initializeBorder();
+		expect(grid.getStorageStats().allocatedChunks).toBe(0);
+		for (let layer = 0; layer < config.layers; layer++) {
+			for (let y = 0; y < config.cellsY; y++) {
+				for (let x = 0; x < config.cellsX; x++) {
+					expect(grid.getCell(x, y, layer)).toBe(isEdge(config, x, y) ? CELL_BORDER : CELL_EMPTY);
+				}
+			}
+		}
+	});
+
+	it('adds flags to border cells of newly allocated edge chunks', () => {
+		const grid = createBorderedGrid(gridConfig(12, 9, 4));
+
+		grid.addCellFlag(0, 3, 1, CELL_PROXIMITY);
+		expect(grid.getCell(0, 3, 1)).toBe(CELL_BORDER | CELL_PROXIMITY);
+		// Neighbours in the same freshly allocated chunk keep their base state
+		expect(grid.getCell(0, 2, 1)).toBe(CELL_BORDER);
+		expect(grid.getCell(1, 3, 1)).toBe(CELL_EMPTY);
+	});
+
+	it('restores the saved clean state on clearDynamic, obstacles included', () => {
+		const config = gridConfig(12, 9, 4);
+		const grid = new SpatialGrid(config, SMALL_CHUNKS);
+		grid.initializeBorder();
+		grid.setCell(5, 4, 2, CELL_OBSTACLE);
+		grid.setCell(6, 4, 2, CELL_OBSTACLE);
+		grid.saveCleanState();
+
+		grid.addCellFlag(5, 4, 2, CELL_FILLED);
+		grid.addCellFlag(7, 4, 2, CELL_FILLED);
+		grid.addCellFlag(0, 1, 0, CELL_PROXIMITY);
+		grid.addCellFlag(10, 7, 3, CELL_FILLED);
+		grid.clearDynamic();
+
+		for (let layer = 0; layer < config.layers; layer++) {
+			for (let y = 0; y < config.cellsY; y++) {
+				for (let x = 0; x < config.cellsX; x++) {
+					const isObstacle = layer === 2 && y === 4 && (x === 5 || x === 6);
+					const expected = isObstacle ? CELL_OBSTACLE : isEdge(config, x, y) ? CELL_BORDER : CELL_EMPTY;
+					expect(grid.getCell(x, y, layer)).toBe(expected);
+				}
+			}
+		}
+		expect(grid.isWall(5, 4, 2)).toBe(true);
+		expect(grid.isWall(7, 4, 2)).toBe(false);
+	});
+
+	it('returns chunks written only by orbs to the pool on clearDynamic', () => {
+		const grid = createBorderedGrid(gridConfig(12, 9, 4));
+
+		grid.addCellFlag(5, 5, 1, CELL_FILLED);
+		grid.addCellFlag(9, 2, 3, CELL_FILLED);
+		expect(grid.getStorageStats().allocatedChunks).toBe(2);
+
+		grid.clearDynamic();
+		const stats = grid.getStorageStats();
+		expect(stats.allocatedChunks).toBe(0);
+		expect(stats.pooledChunks).toBe(2);
+		expect(stats.lastClearedChunks).toBe(2);
+	});
+
+	it('treats out-of-bounds cells as walls and ignores writes to them', () => {
+		const grid = createBorderedGrid(gridConfig(12, 9, 4));
+
+		expect(grid.isWall(-1, 4, 1)).toBe(true);
+		expect(grid.isWall(12, 4, 1)).toBe(true);
+		expect(grid.isWall(5, -1, 1)).toBe(true);
+		expect(grid.isWall(5, 9, 1)).toBe(true);
+		expect(grid.isWall(5, 4, -1)).toBe(true);
+		expect(grid.isWall(5, 4, 4)).toBe(true);
+		expect(grid.isWall(5, 4, 1)).toBe(false);
+
+		grid.addCellFlag(12, 4, 1, CELL_FILLED);
+		grid.setCell(-1, 0, 0, CELL_FILLED);
+		expect(grid.getCell(12, 4, 1)).toBe(CELL_EMPTY);
+		expect(grid.getStorageStats().allocatedChunks).toBe(0);
+	});
+
+	it('addresses every cell of grids that are not a multiple of the chunk size', () => {
+		// Odd chunk sizes are rounded up to 4 x 8 x 4, and the grid leaves partial chunks on every axis
+		const config = gridConfig(13, 11, 7);
+		const grid = new SpatialGrid(config, { chunkSizeX: 3, chunkSizeY: 5, chunkLayers: 3 });
+		const valueAt = (x: number, y: number, layer: number) => (x * 7 + y * 3 + layer * 5) % 16;
+
+		for (let layer = 0; layer < config.layers; layer++) {
+			for (let y = 0; y < config.cellsY; y++) {
+				for (let x = 0; x < config.cellsX; x++) {
+					grid.setCell(x, y, layer, valueAt(x, y, layer));
+				}
+			}
+		}
+		for (let layer = 0; layer < config.layers; layer++) {
+			for (let y = 0; y < config.cellsY; y++) {
+				for (let x = 0; x < config.cellsX; x++) {
+					expect(grid.getCell(x, y, layer)).toBe(valueAt(x, y, layer));
+				}
+			}
+		}
+
+		const stats = grid.getStorageStats();
+		expect(stats.totalChunks).toBe(Math.ceil(13 / 4) * Math.ceil(11 / 8) * Math.ceil(7 / 4));
+		expect(stats.allocatedChunks).toBe(stats.totalChunks);
+	});
+
+	it('draws the border on the last row and column of partial edge chunks', () => {
+		const config = gridConfig(13, 11, 3);
+		const grid = createBorderedGrid(config);
+
+		// Allocate the partial corner chunk, then check its edge cells
+		grid.addCellFlag(11, 9, 1, CELL_FILLED);
+		expect(grid.getCell(12, 9, 1)).toBe(CELL_BORDER);
+		expect(grid.getCell(11, 10, 1)).toBe(CELL_BORDER);
+		expect(grid.getCell(11, 9, 1)).toBe(CELL_FILLED);
+		expect(grid.isWall(12, 10, 2)).toBe(true);
+	});
+});
@@ -2,14 +2,30 @@
 // SpatialGrid - 3D Grid Data Structure for Collision Detection
 // =============================================================================
 
-import { CELL_EMPTY, CELL_BORDER, CELL_FILLED, hasCellFlag, type CellState } from '../../shared/types';
-import { type GridConfig } from '../types';
+import { CELL_EMPTY, CELL_BORDER, CELL_FILLED, CELL_OBSTACLE, hasCellFlag, type CellState } from '../../shared/types';
+import { DEFAULT_GRID_STORAGE_CONFIG, type GridStorageConfig } from '../../shared/config';
+import { type GridConfig, type GridStorageStats } from '../types';
+
+/** Weight of the newest sample in the smoothed clear time. */
+const CLEAR_TIME_SMOOTHING = 0.1;
+
+/**
+ * Returns the exponent of the smallest power of two at or above a chunk size.
+ */
+function chunkShift(size: number): number {
+	return Math.max(0, Math.ceil(Math.log2(size)));
+}
 
 /**
  * 3D Spatial Grid for efficient collision detection and spatial queries.
  *
- * Uses a flat Uint8Array for memory-efficient storage of cell states.
- * The grid is indexed as [layer][y][x] in row-major order.
+ * Cells are stored in fixed-size chunks (chunkSizeX × chunkSizeY × chunkLayers,
+ * each rounded up to a power of two so a cell's chunk and offset are found
+ * with shifts and masks) that are only allocated when a cell in them is written. Unallocated chunks
+ * read as the base state: CELL_BORDER on the XY edges once initializeBorder()
+ * has run, CELL_EMPTY elsewhere. Written chunks are tracked as dirty, so
+ * clearDynamic() only resets the chunks orbs touched since the last clear and
+ * returns them to a pool for reuse.
  *
  * Single Responsibility: Manages raw grid data and coordinate conversions.
  */
@@ -17,53 +33,256 @@ export class SpatialGrid {
 	/** Grid configuration containing dimensions and world-space metrics. */
 	readonly config: GridConfig;
 
-	/** Flat array storing cell states for all layers. */
-	private cells: Uint8Array;
+	/** Chunk dimensions (powers of two). */
+	private readonly chunkSizeX: number;
+	private readonly chunkSizeY: number;
+	private readonly chunkLayers: number;
+
+	/** Log2 of the chunk dimensions, for chunk coordinates. */
+	private readonly shiftX: number;
+	private readonly shiftY: number;
+	private readonly shiftZ: number;
+
+	/** Chunk dimensions minus one, for offsets within a chunk. */
+	private readonly maskX: number;
+	private readonly maskY: number;
+	private readonly maskZ: number;
+
+	/** Cells per chunk. */
+	private readonly chunkCells: number;
+
+	/** Grid dimensions, copied out of config for the hot accessors. */
+	private readonly cellsX: number;
+	private readonly cellsY: number;
+	private readonly layers: number;
+
+	/** Chunk counts along each axis. */
+	private readonly chunksX: number;
+	private readonly chunksY: number;
+
+	/** Chunks per layer chunk (chunksX * chunksY). */
+	private readonly chunksPerLayer: number;
+
+	/** Chunk directory indexed as [layerChunk][chunkY][chunkX]; null = base state. */
+	private chunks: (Uint8Array | null)[];
 
-	/** 
-	 * Pre-computed clean state with only border cells.
-	 * Used for fast clearDynamic() via bulk memory copy instead of per-cell iteration.
+	/** Number of non-null entries in chunks. */
+	private allocatedCount = 0;
+
+	/** 1 for chunks written since the last clearDynamic(). */
+	private dirty: Uint8Array;
+
+	/** Indices of dirty chunks, in the order they were first written. */
+	private dirtyChunks: number[] = [];
+
+	/** Released chunks, reused before allocating new ones. */
+	private pool: Uint8Array[] = [];
+
+	/**
+	 * Clean copies of chunks written before saveCleanState().
+	 * These chunks stay allocated and are restored instead of released.
 	 */
-	private cleanState: Uint8Array | null = null;
+	private cleanChunks = new Map<number, Uint8Array>();
+
+	/** Whether the XY edges read as CELL_BORDER. */
+	private hasBorder = false;
+
+	/** Base contents of edge chunks, by XY chunk column (built on first use). */
+	private borderTemplates = new Map<number, Uint8Array>();
+
+	/** Chunks reset by the last clearDynamic(). */
+	private lastClearedChunks = 0;
+
+	/** Smoothed clearDynamic() duration in milliseconds. */
+	private clearMs = 0;
 
 	/**
 	 * Creates a new SpatialGrid instance.
 	 *
 	 * @param config - Grid configuration with dimensions and world coordinates.
+	 * @param storage - Chunk dimensions (rounded up to powers of two).
 	 */
-	constructor(config: GridConfig) {
+	constructor(config: GridConfig, storage: GridStorageConfig = DEFAULT_GRID_STORAGE_CONFIG) {
 		this.config = config;
-		const totalCells = config.cellsX * config.cellsY * config.layers;
-		this.cells = new Uint8Array(totalCells);
+		this.cellsX = config.cellsX;
+		this.cellsY = config.cellsY;
+		this.layers = config.layers;
+
+		this.shiftX = chunkShift(storage.chunkSizeX);
+		this.shiftY = chunkShift(storage.chunkSizeY);
+		this.shiftZ = chunkShift(storage.chunkLayers);
+		this.chunkSizeX = 1 << this.shiftX;
+		this.chunkSizeY = 1 << this.shiftY;
+		this.chunkLayers = 1 << this.shiftZ;
+		this.maskX = this.chunkSizeX - 1;
+		this.maskY = this.chunkSizeY - 1;
+		this.maskZ = this.chunkLayers - 1;
+		this.chunkCells = this.chunkSizeX * this.chunkSizeY * this.chunkLayers;
+
+		this.chunksX = Math.ceil(config.cellsX / this.chunkSizeX);
+		this.chunksY = Math.ceil(config.cellsY / this.chunkSizeY);
+		this.chunksPerLayer = this.chunksX * this.chunksY;
+		const totalChunks = this.chunksPerLayer * Math.ceil(config.layers / this.chunkLayers);
+		this.chunks = new Array<Uint8Array | null>(totalChunks).fill(null);
+		this.dirty = new Uint8Array(totalChunks);
 	}
 
 	/**
-	 * Saves the current cell state as the "clean" state for fast clearing.
-	 * Call this after initializeBorder() to capture the border-only state.
-	 * 
-	 * This enables clearDynamic() to use a fast bulk memory copy instead of
-	 * iterating through millions of cells with conditional checks.
+	 * Saves the current cell state as the "clean" state that clearDynamic()
+	 * restores. Call this after initializeBorder() and after marking any
+	 * static cells.
+	 *
+	 * The border is part of the base state, so only explicitly written chunks
+	 * are copied; with a border alone this costs nothing.
 	 */
 	saveCleanState(): void {
-		this.cleanState = new Uint8Array(this.cells);
+		this.cleanChunks.clear();
+		for (let i = 0; i < this.chunks.length; i++) {
+			const chunk = this.chunks[i];
+			if (!chunk) continue;
+			this.cleanChunks.set(i, new Uint8Array(chunk));
+			this.dirty[i] = 0;
+		}
+		this.dirtyChunks = this.dirtyChunks.filter((index) => this.dirty[index] === 1);
+	}
+
+	/**
+	 * Forgets the saved clean state, returning its chunks to the base state
+	 * (border only). Call before marking a new set of static cells.
+	 */
+	resetCleanState(): void {
+		for (const index of this.cleanChunks.keys()) {
+			const chunk = this.chunks[index];
+			if (!chunk) continue;
+			this.pool.push(chunk);
+			this.chunks[index] = null;
+			this.allocatedCount--;
+			this.dirty[index] = 0;
+		}
+		this.cleanChunks.clear();
+		this.dirtyChunks = this.dirtyChunks.filter((index) => this.dirty[index] === 1);
 	}
 
 	/**
-	 * Calculates the flat array index for a 3D cell coordinate.
+	 * Calculates the chunk directory index for a 3D cell coordinate.
 	 *
 	 * @param cellX - X-coordinate of the cell.
 	 * @param cellY - Y-coordinate of the cell.
 	 * @param layer - Z-layer of the cell.
-	 * @returns Flat array index.
+	 * @returns Chunk index.
 	 */
-	private getIndex(cellX: number, cellY: number, layer: number): number {
+	private getChunkIndex(cellX: number, cellY: number, layer: number): number {
 		return (
-			layer * this.config.cellsX * this.config.cellsY +
-			cellY * this.config.cellsX +
-			cellX
+			(layer >> this.shiftZ) * this.chunksPerLayer +
+			(cellY >> this.shiftY) * this.chunksX +
+			(cellX >> this.shiftX)
 		);
 	}
 
+	/**
+	 * Calculates a cell's index within its chunk.
+	 *
+	 * @param cellX - X-coordinate of the cell.
+	 * @param cellY - Y-coordinate of the cell.
+	 * @param layer - Z-layer of the cell.
+	 * @returns Index into the chunk's array.
+	 */
+	private getLocalIndex(cellX: number, cellY: number, layer: number): number {
+		return (
+			(((layer & this.maskZ) << this.shiftY | (cellY & this.maskY)) << this.shiftX) |
+			(cellX & this.maskX)
+		);
+	}
+
+	/**
+	 * Base state of an unwritten cell (border flags are the same on every layer).
+	 */
+	private getBaseCell(cellX: number, cellY: number): CellState {
+		if (!this.hasBorder) return CELL_EMPTY;
+		return cellX === 0 || cellY === 0 || cellX === this.cellsX - 1 || cellY === this.cellsY - 1
+			? CELL_BORDER
+			: CELL_EMPTY;
+	}
+
+	/**
+	 * Reads a cell that is known to be in bounds.
+	 */
+	private readCell(cellX: number, cellY: number, layer: number): CellState {
+		const chunk = this.chunks[this.getChunkIndex(cellX, cellY, layer)];
+		if (!chunk) return this.getBaseCell(cellX, cellY);
+		return chunk[this.getLocalIndex(cellX, cellY, layer)] as CellState;
+	}
+
+	/**
+	 * Returns the chunk for writing, allocating it in its base state if needed,
+	 * and marks it dirty.
+	 *
+	 * @param index - Chunk directory index.
+	 * @returns The chunk's cells.
+	 */
+	private getWritableChunk(index: number): Uint8Array {
+		let chunk = this.chunks[index];
+		if (!chunk) {
+			chunk = this.pool.pop() ?? new Uint8Array(this.chunkCells);
+			this.fillBase(chunk, index);
+			this.chunks[index] = chunk;
+			this.allocatedCount++;
+		}
+		if (this.dirty[index] === 0) {
+			this.dirty[index] = 1;
+			this.dirtyChunks.push(index);
+		}
+		return chunk;
+	}
+
+	/**
+	 * Writes a chunk's base state: its clean copy if one was saved, otherwise
+	 * the border template for edge chunks, otherwise all CELL_EMPTY.
+	 */
+	private fillBase(chunk: Uint8Array, index: number): void {
+		const clean = this.cleanChunks.get(index);
+		if (clean) {
+			chunk.set(clean);
+			return;
+		}
+		const template = this.getBorderTemplate(index % this.chunksPerLayer);
+		if (template) {
+			chunk.set(template);
+		} else {
+			chunk.fill(CELL_EMPTY);
+		}
+	}
+
+	/**
+	 * Returns the base contents shared by every chunk in an XY chunk column,
+	 * or null when the column has no border cells.
+	 *
+	 * @param column - Chunk index within a layer chunk (chunkY * chunksX + chunkX).
+	 */
+	private getBorderTemplate(column: number): Uint8Array | null {
+		if (!this.hasBorder) return null;
+		const chunkX = column % this.chunksX;
+		const chunkY = (column / this.chunksX) | 0;
+		if (chunkX > 0 && chunkY > 0 && chunkX < this.chunksX - 1 && chunkY < this.chunksY - 1) return null;
+
+		let template = this.borderTemplates.get(column);
+		if (template) return template;
+
+		const { chunkSizeX, chunkSizeY, chunkLayers } = this;
+		template = new Uint8Array(this.chunkCells);
+		for (let y = 0; y < chunkSizeY; y++) {
+			for (let x = 0; x < chunkSizeX; x++) {
+				const state = this.getBaseCell(chunkX * chunkSizeX + x, chunkY * chunkSizeY + y);
+				if (state === CELL_EMPTY) continue;
+				for (let z = 0; z < chunkLayers; z++) {
+					template[(z * chunkSizeY + y) * chunkSizeX + x] = state;
+				}
+			}
+		}
+		this.borderTemplates.set(column, template);
+		return template;
+	}
+
 	/**
 	 * Checks if coordinates are within grid bounds.
 	 *
@@ -74,9 +293,9 @@ export class SpatialGrid {
 	 */
 	isInBounds(cellX: number, cellY: number, layer: number): boolean {
 		return (
-			cellX >= 0 && cellX < this.config.cellsX &&
-			cellY >= 0 && cellY < this.config.cellsY &&
-			layer >= 0 && layer < this.config.layers
+			cellX >= 0 && cellX < this.cellsX &&
+			cellY >= 0 && cellY < this.cellsY &&
+			layer >= 0 && layer < this.layers
 		);
 	}
 
@@ -90,7 +309,7 @@ export class SpatialGrid {
 	 */
 	getCell(cellX: number, cellY: number, layer: number): CellState {
 		if (!this.isInBounds(cellX, cellY, layer)) return CELL_EMPTY;
-		return this.cells[this.getIndex(cellX, cellY, layer)] as CellState;
+		return this.readCell(cellX, cellY, layer);
 	}
 
 	/**
@@ -103,7 +322,8 @@ export class SpatialGrid {
 	 */
 	setCell(cellX: number, cellY: number, layer: number, state: CellState): void {
 		if (!this.isInBounds(cellX, cellY, layer)) return;
-		this.cells[this.getIndex(cellX, cellY, layer)] = state;
+		const chunk = this.getWritableChunk(this.getChunkIndex(cellX, cellY, layer));
+		chunk[this.getLocalIndex(cellX, cellY, layer)] = state;
 	}
 
 	/**
@@ -117,8 +337,8 @@ export class SpatialGrid {
 	 */
 	addCellFlag(cellX: number, cellY: number, layer: number, flag: CellState): void {
 		if (!this.isInBounds(cellX, cellY, layer)) return;
-		const idx = this.getIndex(cellX, cellY, layer);
-		this.cells[idx] |= flag;
+		const chunk = this.getWritableChunk(this.getChunkIndex(cellX, cellY, layer));
+		chunk[this.getLocalIndex(cellX, cellY, layer)] |= flag;
 	}
 
 	/**
@@ -131,8 +351,11 @@ export class SpatialGrid {
 	 */
 	removeCellFlag(cellX: number, cellY: number, layer: number, flag: CellState): void {
 		if (!this.isInBounds(cellX, cellY, layer)) return;
-		const idx = this.getIndex(cellX, cellY, layer);
-		this.cells[idx] &= ~flag;
+		// Nothing to remove from an unwritten cell unless the flag is part of its base state
+		const index = this.getChunkIndex(cellX, cellY, layer);
+		if (!this.chunks[index] && (this.getBaseCell(cellX, cellY) & flag) === 0) return;
+		const chunk = this.getWritableChunk(index);
+		chunk[this.getLocalIndex(cellX, cellY, layer)] &= ~flag;
 	}
 
 	/**
@@ -168,62 +391,112 @@ export class SpatialGrid {
 	}
 
 	/**
-	 * Resets all cells to CELL_EMPTY.
-	 * Uses Uint8Array.fill() for optimal performance.
+	 * Resets all cells to CELL_EMPTY, including the border and clean state.
 	 */
 	clear(): void {
-		this.cells.fill(CELL_EMPTY);
+		for (let i = 0; i < this.chunks.length; i++) {
+			const chunk = this.chunks[i];
+			if (chunk) this.pool.push(chunk);
+		}
+		this.chunks.fill(null);
+		this.allocatedCount = 0;
+		this.dirty.fill(0);
+		this.dirtyChunks.length = 0;
+		this.cleanChunks.clear();
+		this.hasBorder = false;
+		this.borderTemplates.clear();
 	}
 
 	/**
 	 * Clears only dynamic cells (CELL_FILLED, CELL_PROXIMITY).
 	 * Preserves CELL_BORDER flag on cells to maintain permanent walls.
-	 * 
-	 * Performance: Uses bulk memory copy when cleanState is available,
-	 * reducing from O(n) conditional checks to a single fast memcpy operation.
-	 * This is critical for grids with millions of cells (e.g., 300x170x100 = 5M cells).
+	 *
+	 * Performance: Only chunks written since the last clear are touched, so
+	 * the cost follows the number of orbs rather than the grid size (a dense
+	 * 300x170x100 grid would copy 5M cells every call). Chunks with a saved
+	 * clean state are restored in place; all others go back to the pool.
 	 */
 	clearDynamic(): void {
-		if (this.cleanState) {
-			// Fast path: bulk memory copy (single operation instead of 5M+ iterations)
-			this.cells.set(this.cleanState);
-		} else {
-			// Fallback: iterate through all cells (slow for large grids)
-			for (let i = 0; i < this.cells.length; i++) {
-				if ((this.cells[i] & CELL_BORDER) !== 0) {
-					this.cells[i] = CELL_BORDER;
-				} else {
-					this.cells[i] = CELL_EMPTY;
-				}
+		const start = performance.now();
+		const dirtyChunks = this.dirtyChunks;
+
+		for (let i = 0; i < dirtyChunks.length; i++) {
+			const index = dirtyChunks[i];
+			this.dirty[index] = 0;
+
+			const clean = this.cleanChunks.get(index);
+			const chunk = this.chunks[index];
+			if (!chunk) continue;
+			if (clean) {
+				chunk.set(clean);
+			} else {
+				this.pool.push(chunk);
+				this.chunks[index] = null;
+				this.allocatedCount--;
 			}
 		}
+
+		this.lastClearedChunks = dirtyChunks.length;
+		dirtyChunks.length = 0;
+		this.clearMs += (performance.now() - start - this.clearMs) * CLEAR_TIME_SMOOTHING;
 	}
 
 	/**
 	 * Initializes border cells around the XY edges of the grid.
 	 * Walls extend infinitely in Z - they exist on all layers.
 	 * There are NO front/back Z walls - orbs can move freely in Z.
+	 *
+	 * The border becomes part of the base state, so no chunks are allocated;
+	 * only chunks that already hold cells get their edge cells written.
 	 */
 	initializeBorder(): void {
-		const { cellsX, cellsY, layers } = this.config;
+		const { cellsX, cellsY } = this.config;
+		const { chunkSizeX, chunkSizeY, chunkLayers } = this;
+		this.hasBorder = true;
+		this.borderTemplates.clear();
 
-		// XY border walls extend through ALL layers (infinite in Z)
-		for (let layer = 0; layer < layers; layer++) {
-			// Top and bottom edges
-			for (let x = 0; x < cellsX; x++) {
-				this.setCell(x, 0, layer, CELL_BORDER);
-				this.setCell(x, cellsY - 1, layer, CELL_BORDER);
-			}
+		for (let index = 0; index < this.chunks.length; index++) {
+			const chunk = this.chunks[index];
+			if (!chunk) continue;
+			const column = index % this.chunksPerLayer;
+			const originX = (column % this.chunksX) * chunkSizeX;
+			const originY = ((column / this.chunksX) | 0) * chunkSizeY;
 
-			// Left and right edges
-			for (let y = 0; y < cellsY; y++) {
-				this.setCell(0, y, layer, CELL_BORDER);
-				this.setCell(cellsX - 1, y, layer, CELL_BORDER);
+			for (let y = 0; y < chunkSizeY; y++) {
+				for (let x = 0; x < chunkSizeX; x++) {
+					const cellX = originX + x;
+					const cellY = originY + y;
+					if (cellX >= cellsX || cellY >= cellsY) continue;
+					if (this.getBaseCell(cellX, cellY) !== CELL_BORDER) continue;
+					for (let z = 0; z < chunkLayers; z++) {
+						chunk[(z * chunkSizeY + y) * chunkSizeX + x] = CELL_BORDER;
+					}
+				}
 			}
 		}
 		// No Z-axis walls - orbs move freely in the Z dimension
 	}
 
+	/**
+	 * Reports chunk usage, memory and clear cost for the debug panel.
+	 */
+	getStorageStats(): GridStorageStats {
+		const { cellsX, cellsY, layers } = this.config;
+		let cleanBytes = 0;
+		for (const clean of this.cleanChunks.values()) cleanBytes += clean.byteLength;
+		for (const template of this.borderTemplates.values()) cleanBytes += template.byteLength;
+
+		return {
+			totalChunks: this.chunks.length,
+			allocatedChunks: this.allocatedCount,
+			pooledChunks: this.pool.length,
+			bytes: (this.allocatedCount + this.pool.length) * this.chunkCells + cleanBytes + this.dirty.byteLength,
+			denseBytes: cellsX * cellsY * layers,
+			lastClearedChunks: this.lastClearedChunks,
+			clearMs: this.clearMs,
+		};
+	}
+
 	/**
 	 * Checks if a cell blocks movement.
 	 * 
@@ -231,6 +504,7 @@ export class SpatialGrid {
 	 * - Cell is out of bounds (acts as invisible wall)
 	 * - Cell has CELL_FILLED flag (another orb)
 	 * - Cell has CELL_BORDER flag (edge wall)
+	 * - Cell has CELL_OBSTACLE flag (DOM obstacle)
 	 *
 	 * @param cellX - X-coordinate of the cell.
 	 * @param cellY - Y-coordinate of the cell.
@@ -241,12 +515,13 @@ export class SpatialGrid {
 		// Out of bounds = blocked (implicit walls at grid boundaries)
 		if (!this.isInBounds(cellX, cellY, layer)) return true;
 
-		const state = this.getCell(cellX, cellY, layer);
-		return hasCellFlag(state, CELL_FILLED) || hasCellFlag(state, CELL_BORDER);
+		const state = this.readCell(cellX, cellY, layer);
+		return hasCellFlag(state, CELL_FILLED | CELL_BORDER | CELL_OBSTACLE);
 	}
 
 	/**
-	 * Checks if a cell is blocked by an actual WALL (border or out-of-bounds).
+	 * Checks if a cell is blocked by an actual WALL (border, obstacle or out-of-bounds).
+	 * Obstacles count as walls, so orbs bounce off glass cards like panes.
 	 * Unlike isBlocking(), this does NOT treat other orbs (CELL_FILLED) as blocking.
 	 * Use this for wall collision detection to avoid treating orbs as walls.
 	 */
@@ -254,7 +529,7 @@ export class SpatialGrid {
 		// Out of bounds = wall (implicit walls at grid boundaries)
 		if (!this.isInBounds(cellX, cellY, layer)) return true;
 
-		const state = this.getCell(cellX, cellY, layer);
-		return hasCellFlag(state, CELL_BORDER);
+		const state = this.readCell(cellX, cellY, layer);
+		return hasCellFlag(state, CELL_BORDER | CELL_OBSTACLE);
 	}
 }
@@ -67,3 +67,94 @@ export interface ViewportCells {
 	/** Height of a cell in centimeters. */
 	cellSizeYCm: number;
 }
+
+/**
+ * Memory and clear-cost figures for the chunked grid storage,
+ * alongside what a dense array of the same grid would use.
+ */
+export interface GridStorageStats {
+	/** Chunks needed to cover the whole grid. */
+	totalChunks: number;
+	/** Chunks currently holding cells. */
+	allocatedChunks: number;
+	/** Released chunks kept for reuse. */
+	pooledChunks: number;
+	/** Bytes held by chunks, the chunk pool, clean-state copies and the dirty map. */
+	bytes: number;
+	/** Bytes a dense array of every cell would hold. */
+	denseBytes: number;
+	/** Chunks reset by the last clearDynamic(). */
+	lastClearedChunks: number;
+	/** Smoothed clearDynamic() duration in milliseconds. */
+	clearMs: number;
+}
+
+/**
+ * Time one storage takes for each part of a step's grid work, in milliseconds.
+ */
+export interface GridAccessTimings {
+	/** Marking the orb footprints. */
+	markMs: number;
+	/** Wall queries over the same cells. */
+	queryMs: number;
+	/** Clearing the marks again. */
+	clearMs: number;
+}
+
+/**
+ * Chunked against dense grid cost for the same footprints (see GridStorageBenchmark).
+ */
+export interface GridStorageComparison {
+	/** Orb footprints marked and queried per measured step. */
+	footprints: number;
+	/** Chunked SpatialGrid timings. */
+	chunked: GridAccessTimings;
+	/** Dense array timings. */
+	dense: GridAccessTimings;
+}
+
+/**
+ * Identifiers of the grid reveal presets (see GRID_REVEAL_PRESETS).
+ */
+export type GridRevealPresetId = 'roll' | 'radial' | 'cursor' | 'diagonal' | 'dissolve' | 'depth' | 'hide';
+
+/**
+ * How the reveal front travels across the grid.
+ * - roll: top-to-bottom sweep with a white-to-grey band (GridLineRenderer)
+ * - radial: a ring growing from an origin
+ * - diagonal: a wipe from the top left to the bottom right corner
+ * - dissolve: cells appear in random order
+ * - depth: the grid flies in from far away, trailed by fading copies
+ */
+export type GridRevealPattern = 'roll' | 'radial' | 'diagonal' | 'dissolve' | 'depth';
+
+/**
+ * A reveal animation: the pattern plus its own timing.
+ */
+export interface GridRevealPreset {
+	/** Display name for the debug menu. */
+	label: string;
+	/** How the front travels. */
+	pattern: GridRevealPattern;
+	/** Duration in milliseconds (an explicit revealConfig.duration wins). */
+	durationMs: number;
+	/** Maps linear progress (0-1) to eased progress. */
+	easing: (t: number) => number;
+	/** Width of the front as a fraction of the sweep (ignored by roll and depth). */
+	band: number;
+	/** Radial only: start at the pointer instead of the viewport center. */
+	fromPointer?: boolean;
+	/** Play backwards so the grid disappears (and stays hidden). */
+	hide?: boolean;
+}
+
+/**
+ * What the grid lines show this frame.
+ */
+export interface GridRevealFrame {
+	preset: GridRevealPreset;
+	/** Eased progress (0-1) of the preset. */
+	progress: number;
+	/** Radial origin in screen pixels (null for the viewport center). */
+	origin: { x: number; y: number } | null;
+}
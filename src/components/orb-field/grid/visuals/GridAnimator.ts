@@ -6,7 +6,7 @@
  * Manages a requestAnimationFrame-based animation loop.
  *
  * Provides frame callbacks with both linear and eased progress values.
- * Uses cubic ease-out for smooth deceleration.
+ * Uses cubic ease-out for smooth deceleration unless given another easing.
  *
  * Single Responsibility: Control animation timing and callbacks.
  */
@@ -26,11 +26,13 @@ export class GridAnimator {
 	 * @param duration - Total animation duration in milliseconds.
 	 * @param onUpdate - Callback fired each frame with progress values.
 	 * @param onComplete - Optional callback fired when animation completes.
+	 * @param easing - Maps linear progress to eased progress (cubic ease-out by default).
 	 */
 	constructor(
 		private duration: number,
 		private onUpdate: (progress: number, eased: number) => void,
-		private onComplete?: () => void
+		private onComplete?: () => void,
+		private easing: (t: number) => number = (t) => 1 - Math.pow(1 - t, 3)
 	) {}
 
 	/**
@@ -58,7 +60,7 @@ export class GridAnimator {
 
 	/**
 	 * Internal animation frame handler.
-	 * Calculates progress and applies cubic ease-out.
+	 * Calculates progress and applies the easing.
 	 *
 	 * @param timestamp - High-resolution timestamp from requestAnimationFrame.
 	 */
@@ -72,8 +74,7 @@ export class GridAnimator {
 		const elapsed = timestamp - this.startTime;
 		const progress = Math.min(1, elapsed / this.duration);
 
-		// Cubic ease-out: fast start, smooth deceleration
-		const eased = 1 - Math.pow(1 - progress, 3);
+		const eased = this.easing(progress);
 
 		this.onUpdate(progress, eased);
 
@@ -5,11 +5,12 @@
 import { type GridRevealConfig, type GridStyleConfig } from '../../shared/config';
 import { type WindowSize } from '../../shared/types';
 import { SpatialGrid } from '../core/SpatialGrid';
-import { type ViewportCells } from '../types';
+import { type GridRevealFrame, type ViewportCells } from '../types';
 import { type Orb } from '../../orb/types';
 import { type OrbDebugVisualConfig } from '../../orb/config';
 import { OrbDebugOverlay } from './OrbDebugOverlay';
 import { GridLineRenderer } from './GridLineRenderer';
+import { GridRevealRenderer } from './GridRevealRenderer';
 import { OccupiedCellRenderer } from './OccupiedCellRenderer';
 import { HoverHighlight } from './HoverHighlight';
 
@@ -40,6 +41,8 @@ export class GridRenderer {
 	 * @param showAvoidanceArea - Whether to show avoidance area cells (default: true).
 	 * @param showArrowVector - Whether to show velocity arrow vectors (default: true).
 	 * @param showTruePosition - Whether to show true position indicator dot (default: true).
+	 * @param lineCells - Cell metrics for the grid lines while they ease to a new spacing (defaults to viewportCells).
+	 * @param reveal - Preset and progress the grid lines follow (null plays the roll with progress).
 	 */
 	static draw(
 		ctx: CanvasRenderingContext2D,
@@ -59,7 +62,9 @@ export class GridRenderer {
 		showCollisionArea: boolean = true,
 		showAvoidanceArea: boolean = true,
 		showArrowVector: boolean = true,
-		showTruePosition: boolean = true
+		showTruePosition: boolean = true,
+		lineCells: ViewportCells = viewportCells,
+		reveal: GridRevealFrame | null = null
 	): void {
 		const { width, height } = windowSize;
 		const { startCellX, endCellX, startCellY, endCellY, cellSizeXPx, cellSizeYPx } = viewportCells;
@@ -81,10 +86,6 @@ export class GridRenderer {
 		const extraCellsLeft = offsetX > 0 ? Math.ceil(offsetX / cellSizeXPx) + 1 : 0;
 		const extraCellsRight = offsetX < 0 ? Math.ceil(Math.abs(offsetX) / cellSizeXPx) + 1 : 0;
 
-		// Calculate animation boundaries
-		const fadeEndY = startYOffset + progress * (height + endYOffset - startYOffset + Math.abs(offsetY));
-		const whiteStartY = fadeEndY - fadeInDistance;
-
 		ctx.clearRect(0, 0, width, height);
 
 		// Apply parallax offset translation
@@ -115,28 +116,68 @@ export class GridRenderer {
 
 		// Phase 2: Draw grid lines with reveal animation
 		if (showGrid) {
-			GridLineRenderer.draw(
-				ctx,
-				width,
-				startCellX,
-				endCellX,
-				startCellY,
-				endCellY,
-				cellSizeXPx,
-				cellSizeYPx,
-				fadeEndY,
-				whiteStartY,
-				fadeInDistance,
-				whiteToGreyDistance,
-				lineColorGrey,
-				baseAlpha,
-				whiteAlpha,
-				lineWidth,
-				extraCellsTop,
-				extraCellsBottom,
-				extraCellsLeft,
-				extraCellsRight
-			);
+			const lineSizeXPx = lineCells.cellSizeXPx;
+			const lineSizeYPx = lineCells.cellSizeYPx;
+			const lineExtraTop = offsetY > 0 ? Math.ceil(offsetY / lineSizeYPx) + 1 : 0;
+			const lineExtraBottom = offsetY < 0 ? Math.ceil(Math.abs(offsetY) / lineSizeYPx) + 1 : 0;
+			const lineExtraLeft = offsetX > 0 ? Math.ceil(offsetX / lineSizeXPx) + 1 : 0;
+			const lineExtraRight = offsetX < 0 ? Math.ceil(Math.abs(offsetX) / lineSizeXPx) + 1 : 0;
+
+			const pattern = reveal?.preset.pattern ?? 'roll';
+			const hide = reveal?.preset.hide ?? false;
+			const lineProgress = reveal?.progress ?? progress;
+
+			if (reveal && pattern !== 'roll' && lineProgress < 1) {
+				GridRevealRenderer.draw(
+					ctx,
+					reveal,
+					width,
+					height,
+					lineCells.startCellX,
+					lineCells.endCellX,
+					lineCells.startCellY,
+					lineCells.endCellY,
+					lineSizeXPx,
+					lineSizeYPx,
+					offsetX,
+					offsetY,
+					lineColorGrey,
+					baseAlpha,
+					whiteAlpha,
+					lineWidth,
+					lineExtraTop,
+					lineExtraBottom,
+					lineExtraLeft,
+					lineExtraRight
+				);
+			} else if (pattern === 'roll' || !hide) {
+				// Finished presets settle into the completed roll; hide plays the roll backwards
+				const rollProgress = hide ? 1 - lineProgress : lineProgress;
+				const fadeEndY = startYOffset + rollProgress * (height + endYOffset - startYOffset + Math.abs(offsetY));
+				const whiteStartY = fadeEndY - fadeInDistance;
+				GridLineRenderer.draw(
+					ctx,
+					width,
+					lineCells.startCellX,
+					lineCells.endCellX,
+					lineCells.startCellY,
+					lineCells.endCellY,
+					lineSizeXPx,
+					lineSizeYPx,
+					fadeEndY,
+					whiteStartY,
+					fadeInDistance,
+					whiteToGreyDistance,
+					lineColorGrey,
+					baseAlpha,
+					whiteAlpha,
+					lineWidth,
+					lineExtraTop,
+					lineExtraBottom,
+					lineExtraLeft,
+					lineExtraRight
+				);
+			}
 		}
 
 		// Phase 3: Draw hover highlight (only after reveal completes)
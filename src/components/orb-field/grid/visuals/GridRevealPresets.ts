@@ -0,0 +1,33 @@
+// =============================================================================
+// Grid Reveal Presets - Patterns, timing and easing of the grid reveal
+// =============================================================================
+
+import { type GridRevealPreset, type GridRevealPresetId } from '../types';
+
+/** Decelerates into place (the original roll). */
+const easeOutCubic = (t: number): number => 1 - (1 - t) ** 3;
+
+/** Slow start and end, for sweeps that should read as one motion. */
+const easeInOutCubic = (t: number): number => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2);
+
+/** Fast burst that settles for a long time, like something arriving from far away. */
+const easeOutExpo = (t: number): number => (t >= 1 ? 1 : 1 - 2 ** (-10 * t));
+
+/** Accelerates away, for hiding. */
+const easeInCubic = (t: number): number => t ** 3;
+
+/** Constant speed, so random cells appear at an even rate. */
+const linear = (t: number): number => t;
+
+/**
+ * Available reveal presets. roll is the default and keeps the original look.
+ */
+export const GRID_REVEAL_PRESETS: Record<GridRevealPresetId, GridRevealPreset> = {
+	roll: { label: 'Roll', pattern: 'roll', durationMs: 1500, easing: easeOutCubic, band: 0 },
+	radial: { label: 'Radial', pattern: 'radial', durationMs: 1400, easing: easeOutCubic, band: 0.25 },
+	cursor: { label: 'From cursor', pattern: 'radial', durationMs: 1200, easing: easeOutCubic, band: 0.2, fromPointer: true },
+	diagonal: { label: 'Diagonal', pattern: 'diagonal', durationMs: 1300, easing: easeInOutCubic, band: 0.3 },
+	dissolve: { label: 'Dissolve', pattern: 'dissolve', durationMs: 1600, easing: linear, band: 0.15 },
+	depth: { label: 'Depth fly-in', pattern: 'depth', durationMs: 1500, easing: easeOutExpo, band: 0 },
+	hide: { label: 'Hide', pattern: 'roll', durationMs: 900, easing: easeInCubic, band: 0, hide: true },
+};
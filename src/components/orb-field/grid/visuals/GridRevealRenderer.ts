@@ -0,0 +1,201 @@
+// =============================================================================
+// GridRevealRenderer - Renders grid lines for the non-roll reveal presets
+// =============================================================================
+
+import { type GridRevealFrame } from '../types';
+
+/** Progress lag between the depth preset's trailing copies. */
+const DEPTH_TRAIL_LAG = 0.15;
+
+/** Trailing copies drawn behind the depth preset's grid. */
+const DEPTH_TRAIL_COUNT = 2;
+
+/** Scale the depth preset's grid starts at (far away). */
+const DEPTH_START_SCALE = 0.3;
+
+/** Levels a cell's progress is rounded up to, so cells share a stroke style per level. */
+const PROGRESS_LEVELS = 16;
+
+/** Hermite smoothstep on an already clamped 0-1 value. */
+function smoothstep(t: number): number {
+	return t * t * (3 - 2 * t);
+}
+
+/**
+ * Stable pseudo-random value (0-1) per cell, so the dissolve order does not flicker.
+ */
+function cellHash(cx: number, cy: number): number {
+	let h = Math.imul(cx, 374761393) + Math.imul(cy, 668265263);
+	h = Math.imul(h ^ (h >>> 13), 1274126177);
+	return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * Draws the grid cell by cell, each cell fading in as the preset's front
+ * passes it: first to white, then settling to the grey of the finished grid.
+ * Cells are grouped by their progress rounded to PROGRESS_LEVELS, and each
+ * group is stroked as one path, so a frame sets at most that many styles.
+ * The roll preset keeps using GridLineRenderer.
+ *
+ * Single Responsibility: Grid line drawing for reveal presets only.
+ */
+export class GridRevealRenderer {
+	/** Cell coordinates (cx, cy pairs) per progress level (reused between frames). */
+	private static levelCells: number[][] = Array.from({ length: PROGRESS_LEVELS }, () => []);
+
+	/**
+	 * Draws the grid lines for one frame of a reveal preset.
+	 * The context is expected to be translated by the parallax offset.
+	 *
+	 * @param ctx - The 2D canvas rendering context.
+	 * @param frame - Preset, eased progress and origin.
+	 * @param width - Viewport width in pixels.
+	 * @param height - Viewport height in pixels.
+	 * @param startCellX - First cell X coordinate in viewport.
+	 * @param endCellX - Last cell X coordinate in viewport.
+	 * @param startCellY - First cell Y coordinate in viewport.
+	 * @param endCellY - Last cell Y coordinate in viewport.
+	 * @param cellSizeXPx - Cell width in pixels.
+	 * @param cellSizeYPx - Cell height in pixels.
+	 * @param offsetX - Parallax offset the context is translated by.
+	 * @param offsetY - Parallax offset the context is translated by.
+	 * @param lineColorGrey - Settled grey color RGB values.
+	 * @param baseAlpha - Alpha of settled grey lines.
+	 * @param whiteAlpha - Alpha of lines at the front.
+	 * @param lineWidth - Width of grid lines.
+	 * @param extraCellsTop - Additional cells to render above viewport.
+	 * @param extraCellsBottom - Additional cells to render below viewport.
+	 * @param extraCellsLeft - Additional cells to render left of viewport.
+	 * @param extraCellsRight - Additional cells to render right of viewport.
+	 */
+	static draw(
+		ctx: CanvasRenderingContext2D,
+		frame: GridRevealFrame,
+		width: number,
+		height: number,
+		startCellX: number,
+		endCellX: number,
+		startCellY: number,
+		endCellY: number,
+		cellSizeXPx: number,
+		cellSizeYPx: number,
+		offsetX: number,
+		offsetY: number,
+		lineColorGrey: { r: number; g: number; b: number },
+		baseAlpha: number,
+		whiteAlpha: number,
+		lineWidth: number,
+		extraCellsTop: number = 0,
+		extraCellsBottom: number = 0,
+		extraCellsLeft: number = 0,
+		extraCellsRight: number = 0
+	): void {
+		const { preset } = frame;
+		const progress = preset.hide ? 1 - frame.progress : frame.progress;
+
+		const cxStart = -extraCellsLeft;
+		const cxEnd = (endCellX - startCellX) + extraCellsRight + 1;
+		const cyStart = -extraCellsTop;
+		const cyEnd = (endCellY - startCellY) + extraCellsBottom + 1;
+
+		ctx.lineWidth = lineWidth;
+		const levelCells = this.levelCells;
+
+		// Queues a cell's top and left edge; local is the cell's own progress
+		const addCell = (cx: number, cy: number, local: number) => {
+			if (local <= 0.01) return;
+			const cells = levelCells[Math.min(PROGRESS_LEVELS, Math.ceil(local * PROGRESS_LEVELS)) - 1];
+			cells.push(cx, cy);
+		};
+
+		// Strokes each level's queued cells as one path
+		const strokeLevels = (alphaScale: number) => {
+			for (let level = 0; level < PROGRESS_LEVELS; level++) {
+				const cells = levelCells[level];
+				if (cells.length === 0) continue;
+
+				const local = (level + 1) / PROGRESS_LEVELS;
+				const fade = smoothstep(Math.min(1, local * 2));
+				const greyMix = smoothstep(Math.max(0, local * 2 - 1));
+				const r = Math.round(255 - (255 - lineColorGrey.r) * greyMix);
+				const g = Math.round(255 - (255 - lineColorGrey.g) * greyMix);
+				const b = Math.round(255 - (255 - lineColorGrey.b) * greyMix);
+				const alpha = (whiteAlpha - (whiteAlpha - baseAlpha) * greyMix) * fade * alphaScale;
+
+				if (alpha >= 0.005) {
+					ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${alpha})`;
+					ctx.beginPath();
+					for (let i = 0; i < cells.length; i += 2) {
+						const x = cells[i] * cellSizeXPx;
+						const y = cells[i + 1] * cellSizeYPx;
+						ctx.moveTo(x + cellSizeXPx, y);
+						ctx.lineTo(x, y);
+						ctx.lineTo(x, y + cellSizeYPx);
+					}
+					ctx.stroke();
+				}
+				cells.length = 0;
+			}
+		};
+
+		if (preset.pattern === 'depth') {
+			// Far copies first so the arriving grid is drawn on top
+			const centerX = width / 2 - offsetX;
+			const centerY = height / 2 - offsetY;
+			for (let k = DEPTH_TRAIL_COUNT; k >= 0; k--) {
+				const layerProgress = Math.max(0, Math.min(1, progress - k * DEPTH_TRAIL_LAG));
+				if (layerProgress <= 0) continue;
+				const scale = DEPTH_START_SCALE + (1 - DEPTH_START_SCALE) * layerProgress;
+				const alphaScale = k === 0 ? 1 : (1 - progress) * 0.5 / k;
+
+				ctx.save();
+				ctx.translate(centerX, centerY);
+				ctx.scale(scale, scale);
+				ctx.translate(-centerX, -centerY);
+				ctx.lineWidth = lineWidth / scale;
+				for (let cy = cyStart; cy <= cyEnd; cy++) {
+					for (let cx = cxStart; cx <= cxEnd; cx++) {
+						addCell(cx, cy, layerProgress);
+					}
+				}
+				strokeLevels(alphaScale);
+				ctx.restore();
+			}
+			return;
+		}
+
+		// Distance (0-1) of each cell from where the front starts
+		let distance: (cx: number, cy: number, screenX: number, screenY: number) => number;
+		switch (preset.pattern) {
+			case 'radial': {
+				const originX = frame.origin?.x ?? width / 2;
+				const originY = frame.origin?.y ?? height / 2;
+				const maxDistance = Math.max(
+					Math.hypot(originX, originY),
+					Math.hypot(width - originX, originY),
+					Math.hypot(originX, height - originY),
+					Math.hypot(width - originX, height - originY)
+				) || 1;
+				distance = (_cx, _cy, screenX, screenY) => Math.min(1, Math.hypot(screenX - originX, screenY - originY) / maxDistance);
+				break;
+			}
+			case 'diagonal':
+				distance = (_cx, _cy, screenX, screenY) => Math.max(0, Math.min(1, (screenX / width + screenY / height) / 2));
+				break;
+			default:
+				distance = (cx, cy) => cellHash(cx + startCellX, cy + startCellY);
+		}
+
+		const band = Math.max(0.01, preset.band);
+		const front = progress * (1 + band);
+		for (let cy = cyStart; cy <= cyEnd; cy++) {
+			const screenY = (cy + 0.5) * cellSizeYPx + offsetY;
+			for (let cx = cxStart; cx <= cxEnd; cx++) {
+				const screenX = (cx + 0.5) * cellSizeXPx + offsetX;
+				const local = Math.min(1, (front - distance(cx, cy, screenX, screenY)) / band);
+				addCell(cx, cy, local);
+			}
+		}
+		strokeLevels(1);
+	}
+}
@@ -2,7 +2,8 @@
 // OccupiedCellRenderer - Renders occupied cells (collision and avoidance zones)
 // =============================================================================
 
-import { CELL_FILLED, CELL_PROXIMITY, hasCellFlag } from '../../shared/types';
+import { CELL_FILLED, CELL_OBSTACLE, CELL_PROXIMITY, hasCellFlag } from '../../shared/types';
+import { DEFAULT_GRID_OBSTACLE_CONFIG } from '../../obstacles/ObstacleConfig';
 import { SpatialGrid } from '../core/SpatialGrid';
 
 /**
@@ -12,8 +13,9 @@ import { SpatialGrid } from '../core/SpatialGrid';
  */
 export class OccupiedCellRenderer {
 	/**
-	 * Draws cells that are occupied (CELL_FILLED and CELL_PROXIMITY states).
-	 * Renders in two passes to ensure red orb bodies always appear above yellow zones.
+	 * Draws cells that are occupied (CELL_OBSTACLE, CELL_FILLED and CELL_PROXIMITY states).
+	 * Renders in passes so red orb bodies always appear above yellow zones,
+	 * which appear above obstacles.
 	 * 
 	 * @param ctx - The 2D canvas rendering context.
 	 * @param grid - SpatialGrid instance for cell state queries.
@@ -55,6 +57,20 @@ export class OccupiedCellRenderer {
 		const cxStart = -extraCellsLeft;
 		const cxEnd = (endCellX - startCellX) + extraCellsRight;
 
+		// Pass 0: Draw obstacle cells (DOM elements orbs bounce off)
+		if (showCollisionArea) {
+			ctx.fillStyle = DEFAULT_GRID_OBSTACLE_CONFIG.debugColor;
+			for (let cy = cyStart; cy <= cyEnd; cy++) {
+				for (let cx = cxStart; cx <= cxEnd; cx++) {
+					const state = grid.getCell(startCellX + cx, startCellY + cy, currentLayer);
+
+					if (hasCellFlag(state, CELL_OBSTACLE)) {
+						ctx.fillRect(cx * cellSizeXPx, cy * cellSizeYPx, cellSizeXPx, cellSizeYPx);
+					}
+				}
+			}
+		}
+
 		// Pass 1: Draw proximity cells (yellow/avoidance zones)
 		if (showAvoidanceArea) {
 			ctx.fillStyle = 'rgba(255, 220, 0, 0.5)';
@@ -5,6 +5,8 @@
 export { GridRenderer } from './GridRenderer';
 export { GridAnimator } from './GridAnimator';
 export { GridLineRenderer } from './GridLineRenderer';
+export { GridRevealRenderer } from './GridRevealRenderer';
+export { GRID_REVEAL_PRESETS } from './GridRevealPresets';
 export { OccupiedCellRenderer } from './OccupiedCellRenderer';
 export { HoverHighlight } from './HoverHighlight';
 export { OrbDebugOverlay } from './OrbDebugOverlay';
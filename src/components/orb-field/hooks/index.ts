@@ -3,19 +3,44 @@
 // =============================================================================
 
 export { useParallaxOffset, type UseParallaxOffsetReturn } from './useParallaxOffset';
-export { useAnimationLoop, type LoopCallback } from './useAnimationLoop';
+export { useAnimationLoop, type LoopCallback, type FrameTimingCallback } from './useAnimationLoop';
 export { useDebugStateSync, type UseDebugStateSyncReturn } from './useDebugStateSync';
 export { useDebugOptionRefs, type DebugOptionRefs } from './useDebugOptionRefs';
 export { useDebugContextSync } from './useDebugContextSync';
 export { useDebugEventSync } from './useDebugEventSync';
-export { usePauseTimeTracking, type PauseTimeRefs, type UsePauseTimeTrackingReturn, getEffectiveTime } from './usePauseTimeTracking';
+export { usePauseTimeTracking, type PauseTimeRefs, type TimeScaleRefs, type UsePauseTimeTrackingReturn, getEffectiveTime } from './usePauseTimeTracking';
 export { useDebugModeInit, type UseDebugModeInitReturn } from './useDebugModeInit';
 export { useEventHandlers } from './useEventHandlers';
 export { usePhysicsLoop, type UsePhysicsLoopReturn } from './usePhysicsLoop';
+export { usePhysicsWorker, type UsePhysicsWorkerReturn } from './usePhysicsWorker';
 export { useGridInitialization, type UseGridInitializationReturn } from './useGridInitialization';
+export { useGridLineTransition } from './useGridLineTransition';
+export { useGridReveal, type UseGridRevealReturn } from './useGridReveal';
 export { useOrbFieldInteractions, type UseOrbFieldInteractionsReturn } from './useOrbFieldInteractions';
 export { useCanvasSync } from './useCanvasSync';
 export { useOpacityFade, useOpacityRef } from './useOpacityFade';
 export { useOrbBurst, type UseOrbBurstReturn } from './useOrbBurst';
 export { useRenderLoop, type UseRenderLoopReturn } from './useRenderLoop';
-export type { PhysicsContext, RenderContext } from './types';
+export { useSimulationSeed, type UseSimulationSeedReturn } from './useSimulationSeed';
+export { useOrbSimulation } from './useOrbSimulation';
+export { usePhysicsPipeline, type UsePhysicsPipelineReturn } from './usePhysicsPipeline';
+export { useForceFields, type UseForceFieldsReturn } from './useForceFields';
+export { useForceFieldAnchors, type ForceFieldAnchor } from './useForceFieldAnchors';
+export { useGridObstacle } from './useGridObstacle';
+export { useGridObstacles } from './useGridObstacles';
+export { useGridShapes } from './useGridShapes';
+export { usePointerInteraction, type UsePointerInteractionReturn } from './usePointerInteraction';
+export { useCollisionCounters, type UseCollisionCountersReturn } from './useCollisionCounters';
+export { useGridStorageStats, type UseGridStorageStatsReturn } from './useGridStorageStats';
+export { useQualityGovernor, type UseQualityGovernorReturn } from './useQualityGovernor';
+export { useOrbRenderer, type UseOrbRendererReturn } from './useOrbRenderer';
+export { useOrbPalette, type UseOrbPaletteReturn } from './useOrbPalette';
+export { useOrbFocus, type UseOrbFocusReturn } from './useOrbFocus';
+export { useOrbTrails, type UseOrbTrailsReturn } from './useOrbTrails';
+export { usePostFx, type UsePostFxReturn } from './usePostFx';
+export { useOrbInspector, type UseOrbInspectorReturn } from './useOrbInspector';
+export { useSceneTransfer, type UseSceneTransferReturn } from './useSceneTransfer';
+export { useReplayedInputs, type UseReplayedInputsReturn } from './useReplayedInputs';
+export { useInputReplay, type UseInputReplayReturn } from './useInputReplay';
+export { useTimeControls, type UseTimeControlsReturn } from './useTimeControls';
+export type { PhysicsContext, RenderContext, LoopFrame } from './types';
@@ -6,6 +6,7 @@ import { type Orb } from '../orb/types';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
 import { type WindowSize } from '../shared/types';
+import { type PointerTracker } from '../pointer';
 
 /**
  * Context object for physics simulation.
@@ -24,24 +25,22 @@ export interface PhysicsContext {
 	vpc: ViewportCells;
 	/** Current window dimensions. */
 	windowSize: WindowSize;
-	/** Ref to mouse position (or null if not over canvas). */
-	mousePosRef: React.RefObject<{ x: number; y: number } | null>;
+	/** Ref to the tracker holding mouse and touch pointers. */
+	pointerTrackerRef: React.RefObject<PointerTracker>;
 	/** Ref indicating if page is visible and focused. */
 	isPageVisibleRef: React.RefObject<boolean>;
 	/** Ref to time when burst occurred (or null). */
 	burstTimeRef: React.RefObject<number | null>;
 	/** Ref for pause physics setting. */
 	pausePhysicsRef: React.RefObject<boolean>;
-	/** Ref for disable collisions setting. */
-	disableCollisionsRef: React.RefObject<boolean>;
-	/** Ref for disable avoidance setting. */
-	disableAvoidanceRef: React.RefObject<boolean>;
 	/** Ref for enable orb spawning setting. */
 	enableOrbSpawningRef: React.RefObject<boolean>;
 	/** Ref for enable orb despawning setting. */
 	enableOrbDespawningRef: React.RefObject<boolean>;
 	/** Ref to current scroll/parallax offset for coordinate adjustment. */
 	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
+	/** Ref indicating if debug mode is enabled. */
+	isDebugModeRef: React.RefObject<boolean>;
 }
 
 /**
@@ -83,6 +82,18 @@ export interface RenderContext {
 	showArrowVector: boolean;
 	/** Whether to show true position indicator dot. */
 	showTruePosition: boolean;
+	/** Whether to show force field shapes. */
+	showForceFields: boolean;
 	/** Whether debug mode is enabled. */
 	isDebugMode: boolean;
 }
+
+/**
+ * Physics steps to run in one frame (see LoopCallback).
+ */
+export interface LoopFrame {
+	/** Length of each step in seconds. */
+	deltaTime: number;
+	/** Number of steps. */
+	stepCount: number;
+}
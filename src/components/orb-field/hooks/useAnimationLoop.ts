@@ -11,9 +11,20 @@ import { type GridConfig } from '../grid/types';
 /**
  * Callback type for the loop update function.
  * @param easedProgress - Animation progress (0 to 1) with easing applied.
- * @param deltaTime - Time elapsed since last frame in seconds.
+ * @param deltaTime - Time elapsed since last frame in seconds, or the fixed step length in fixed-timestep mode.
+ * @param stepCount - Number of physics steps of deltaTime to run this frame (always 1 with variable stepping).
  */
-export type LoopCallback = (easedProgress: number, deltaTime: number) => void;
+export type LoopCallback = (easedProgress: number, deltaTime: number, stepCount: number) => void;
+
+/**
+ * Callback type for frame timing measurements.
+ * @param frameMs - Time since the previous frame in milliseconds.
+ * @param workMs - Time spent in the loop callback this frame in milliseconds.
+ */
+export type FrameTimingCallback = (frameMs: number, workMs: number) => void;
+
+/** Upper bound on fixed steps per frame so a long stall cannot snowball into ever longer frames. */
+const MAX_FIXED_STEPS_PER_FRAME = 5;
 
 /**
  * Options for the animation loop hook.
@@ -25,10 +36,20 @@ interface UseAnimationLoopOptions {
 	gridConfig: GridConfig | null;
 	/** Duration of the reveal animation in milliseconds. */
 	revealDuration: number;
+	/** Easing of the reveal progress (the preset's; cubic ease-out if omitted). */
+	revealEasing?: (t: number) => number;
 	/** Callback fired each frame during animation and physics loop. */
 	onLoop: LoopCallback;
 	/** Callback fired when reveal animation completes. */
 	onAnimationComplete?: () => void;
+	/**
+	 * Fixed physics step in milliseconds, or null to step with frame time.
+	 * In fixed mode frame time is accumulated and whole steps are handed to onLoop,
+	 * so the simulation depends only on the number of steps, not on the frame rate.
+	 */
+	fixedTimestepMs?: number | null;
+	/** Callback fired after each physics loop frame with its timing (not during the reveal). */
+	onFrameTiming?: FrameTimingCallback;
 }
 
 /**
@@ -38,6 +59,8 @@ interface UseAnimationLoopOptions {
  * - Reveal animation with GridAnimator
  * - Transition to continuous physics loop
  * - Frame timing and deltaTime calculation
+ * - Optional fixed-timestep accumulation
+ * - Frame time measurement for the quality governor
  * - Cleanup on unmount
  * 
  * Note: This hook doesn't return state values as they would cause unnecessary re-renders.
@@ -49,8 +72,11 @@ export function useAnimationLoop({
 	visible,
 	gridConfig,
 	revealDuration,
+	revealEasing,
 	onLoop,
 	onAnimationComplete,
+	fixedTimestepMs = null,
+	onFrameTiming,
 }: UseAnimationLoopOptions): void {
 	const animatorRef = useRef<GridAnimator | null>(null);
 	const loopIdRef = useRef<number | null>(null);
@@ -62,6 +88,10 @@ export function useAnimationLoop({
 	const onLoopRef = useRef(onLoop);
 	const onAnimationCompleteRef = useRef(onAnimationComplete);
 	const revealDurationRef = useRef(revealDuration);
+	const revealEasingRef = useRef(revealEasing);
+	const fixedTimestepMsRef = useRef(fixedTimestepMs);
+	const onFrameTimingRef = useRef(onFrameTiming);
+	const accumulatorMsRef = useRef(0);
 
 	useEffect(() => {
 		onLoopRef.current = onLoop;
@@ -75,6 +105,19 @@ export function useAnimationLoop({
 		revealDurationRef.current = revealDuration;
 	}, [revealDuration]);
 
+	useEffect(() => {
+		revealEasingRef.current = revealEasing;
+	}, [revealEasing]);
+
+	useEffect(() => {
+		onFrameTimingRef.current = onFrameTiming;
+	}, [onFrameTiming]);
+
+	useEffect(() => {
+		fixedTimestepMsRef.current = fixedTimestepMs;
+		accumulatorMsRef.current = 0;
+	}, [fixedTimestepMs]);
+
 	// Main effect - only depends on visible and whether gridConfig exists (as boolean)
 	const hasGridConfig = gridConfig !== null;
 
@@ -93,7 +136,7 @@ export function useAnimationLoop({
 				const dt = lastFrameTimeRef.current ? (now - lastFrameTimeRef.current) / 1000 : 0;
 				lastFrameTimeRef.current = now;
 
-				onLoopRef.current(eased, dt);
+				onLoopRef.current(eased, dt, 1);
 			},
 			() => {
 				hasAnimatedRef.current = true;
@@ -106,14 +149,26 @@ export function useAnimationLoop({
 					if (!hasAnimatedRef.current) return;
 
 					const now = performance.now();
-					const dt = (now - lastFrameTimeRef.current) / 1000;
+					const frameMs = now - lastFrameTimeRef.current;
 					lastFrameTimeRef.current = now;
 
-					onLoopRef.current(1, dt);
+					const stepMs = fixedTimestepMsRef.current;
+					if (stepMs) {
+						accumulatorMsRef.current += frameMs;
+						const stepCount = Math.min(Math.floor(accumulatorMsRef.current / stepMs), MAX_FIXED_STEPS_PER_FRAME);
+						accumulatorMsRef.current -= stepCount * stepMs;
+						// Drop time beyond the step cap instead of carrying it into later frames
+						if (accumulatorMsRef.current >= stepMs) accumulatorMsRef.current %= stepMs;
+						onLoopRef.current(1, stepMs / 1000, stepCount);
+					} else {
+						onLoopRef.current(1, frameMs / 1000, 1);
+					}
+					onFrameTimingRef.current?.(frameMs, performance.now() - now);
 					loopIdRef.current = requestAnimationFrame(physicsLoop);
 				};
 				loopIdRef.current = requestAnimationFrame(physicsLoop);
-			}
+			},
+			revealEasingRef.current
 		);
 
 		animatorRef.current.start();
@@ -10,21 +10,27 @@ import { type WindowSize } from '../shared/types';
 /**
  * Syncs canvas dimensions with window size.
  * 
+ * The visual canvas backing store can be scaled down (CSS keeps it
+ * full-screen), so it renders fewer pixels on lower quality tiers.
+ * 
  * Single Responsibility: Canvas size management only.
  */
 export function useCanvasSync() {
 	const syncCanvasDimensions = useCallback((
 		canvas: HTMLCanvasElement | null,
 		visualCanvas: HTMLCanvasElement | null,
-		windowSize: WindowSize
+		windowSize: WindowSize,
+		visualScale: number = 1
 	): void => {
 		if (canvas && (canvas.width !== windowSize.width || canvas.height !== windowSize.height)) {
 			canvas.width = windowSize.width;
 			canvas.height = windowSize.height;
 		}
-		if (visualCanvas && (visualCanvas.width !== windowSize.width || visualCanvas.height !== windowSize.height)) {
-			visualCanvas.width = windowSize.width;
-			visualCanvas.height = windowSize.height;
+		const visualWidth = Math.round(windowSize.width * visualScale);
+		const visualHeight = Math.round(windowSize.height * visualScale);
+		if (visualCanvas && (visualCanvas.width !== visualWidth || visualCanvas.height !== visualHeight)) {
+			visualCanvas.width = visualWidth;
+			visualCanvas.height = visualHeight;
 		}
 	}, []);
 
@@ -0,0 +1,52 @@
+"use client";
+
+// =============================================================================
+// useCollisionCounters - Polls continuous collision diagnostics for the debug menu
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { type CollisionCounters, type CollisionCounterValues } from '../collision';
+
+/** Interval for refreshing the counters while they are displayed. */
+const COUNTER_REFRESH_MS = 500;
+
+/**
+ * Return values from the collision counters hook.
+ */
+export interface UseCollisionCountersReturn {
+	/** Latest counter values. */
+	values: CollisionCounterValues;
+	/** Zeroes the counters (e.g. before triggering a burst). */
+	reset: () => void;
+}
+
+/**
+ * Hook exposing a simulation's collision counters to React.
+ *
+ * Counters change every step, so they are polled rather than pushed, and
+ * only while enabled.
+ *
+ * Single Responsibility: Collision counter to UI state sync only.
+ *
+ * @param counters - Counters to mirror (usually simulation.collisionCounters).
+ * @param enabled - Whether to refresh periodically.
+ */
+export function useCollisionCounters(counters: CollisionCounters, enabled: boolean): UseCollisionCountersReturn {
+	const [values, setValues] = useState<CollisionCounterValues>(() => counters.toValues());
+
+	useEffect(() => {
+		if (!enabled) return;
+		const interval = window.setInterval(() => setValues(counters.toValues()), COUNTER_REFRESH_MS);
+		return () => window.clearInterval(interval);
+	}, [counters, enabled]);
+
+	const reset = useCallback(() => {
+		counters.reset();
+		setValues(counters.toValues());
+	}, [counters]);
+
+	return useMemo(() => ({
+		values,
+		reset,
+	}), [values, reset]);
+}
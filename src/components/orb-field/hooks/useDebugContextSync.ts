@@ -19,10 +19,9 @@ interface UseDebugContextSyncParams {
 	enableOrbDespawningRef: React.RefObject<boolean>;
 	enableSpawnOnClickRef: React.RefObject<boolean>;
 	pausePhysicsRef: React.RefObject<boolean>;
-	disableCollisionsRef: React.RefObject<boolean>;
-	disableAvoidanceRef: React.RefObject<boolean>;
 	showArrowVectorRef: React.RefObject<boolean>;
 	showTruePositionRef: React.RefObject<boolean>;
+	showForceFieldsRef: React.RefObject<boolean>;
 	isDebugModeRef: React.RefObject<boolean>;
 	handlePauseChange: (wasPaused: boolean, isPaused: boolean) => void;
 }
@@ -45,10 +44,9 @@ export function useDebugContextSync(params: UseDebugContextSyncParams): void {
 		enableOrbDespawningRef,
 		enableSpawnOnClickRef,
 		pausePhysicsRef,
-		disableCollisionsRef,
-		disableAvoidanceRef,
 		showArrowVectorRef,
 		showTruePositionRef,
+		showForceFieldsRef,
 		isDebugModeRef,
 		handlePauseChange,
 	} = params;
@@ -68,8 +66,7 @@ export function useDebugContextSync(params: UseDebugContextSyncParams): void {
 		enableSpawnOnClickRef.current = state.enableSpawnOnClick;
 		showArrowVectorRef.current = state.showArrowVector;
 		showTruePositionRef.current = state.showTruePosition;
-		disableCollisionsRef.current = state.disableCollisions;
-		disableAvoidanceRef.current = state.disableAvoidance;
+		showForceFieldsRef.current = state.showForceFields;
 
 		// Handle pause state change
 		const wasPaused = pausePhysicsRef.current;
@@ -87,10 +84,9 @@ export function useDebugContextSync(params: UseDebugContextSyncParams): void {
 		enableOrbDespawningRef,
 		enableSpawnOnClickRef,
 		pausePhysicsRef,
-		disableCollisionsRef,
-		disableAvoidanceRef,
 		showArrowVectorRef,
 		showTruePositionRef,
+		showForceFieldsRef,
 		isDebugModeRef,
 		handlePauseChange,
 	]);
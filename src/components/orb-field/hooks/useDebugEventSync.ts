@@ -19,10 +19,9 @@ interface UseDebugEventSyncParams {
 	enableOrbDespawningRef: React.RefObject<boolean>;
 	enableSpawnOnClickRef: React.RefObject<boolean>;
 	pausePhysicsRef: React.RefObject<boolean>;
-	disableCollisionsRef: React.RefObject<boolean>;
-	disableAvoidanceRef: React.RefObject<boolean>;
 	showArrowVectorRef: React.RefObject<boolean>;
 	showTruePositionRef: React.RefObject<boolean>;
+	showForceFieldsRef: React.RefObject<boolean>;
 	handlePauseChange: (wasPaused: boolean, isPaused: boolean) => void;
 }
 
@@ -42,10 +41,9 @@ export function useDebugEventSync(params: UseDebugEventSyncParams): void {
 		enableOrbDespawningRef,
 		enableSpawnOnClickRef,
 		pausePhysicsRef,
-		disableCollisionsRef,
-		disableAvoidanceRef,
 		showArrowVectorRef,
 		showTruePositionRef,
+		showForceFieldsRef,
 		handlePauseChange,
 	} = params;
 
@@ -71,6 +69,9 @@ export function useDebugEventSync(params: UseDebugEventSyncParams): void {
 				case "showTruePosition":
 					showTruePositionRef.current = value;
 					break;
+				case "showForceFields":
+					showForceFieldsRef.current = value;
+					break;
 				case "enableOrbSpawning":
 					enableOrbSpawningRef.current = value;
 					break;
@@ -80,12 +81,6 @@ export function useDebugEventSync(params: UseDebugEventSyncParams): void {
 				case "enableSpawnOnClick":
 					enableSpawnOnClickRef.current = value;
 					break;
-				case "disableCollisions":
-					disableCollisionsRef.current = value;
-					break;
-				case "disableAvoidance":
-					disableAvoidanceRef.current = value;
-					break;
 				case "pausePhysics":
 					const wasPaused = pausePhysicsRef.current;
 					const isPaused = value;
@@ -108,10 +103,9 @@ export function useDebugEventSync(params: UseDebugEventSyncParams): void {
 		enableOrbDespawningRef,
 		enableSpawnOnClickRef,
 		pausePhysicsRef,
-		disableCollisionsRef,
-		disableAvoidanceRef,
 		showArrowVectorRef,
 		showTruePositionRef,
+		showForceFieldsRef,
 		handlePauseChange,
 	]);
 }
@@ -18,10 +18,9 @@ export interface DebugOptionRefs {
 	enableOrbDespawningRef: React.RefObject<boolean>;
 	enableSpawnOnClickRef: React.RefObject<boolean>;
 	pausePhysicsRef: React.RefObject<boolean>;
-	disableCollisionsRef: React.RefObject<boolean>;
-	disableAvoidanceRef: React.RefObject<boolean>;
 	showArrowVectorRef: React.RefObject<boolean>;
 	showTruePositionRef: React.RefObject<boolean>;
+	showForceFieldsRef: React.RefObject<boolean>;
 	isDebugModeRef: React.RefObject<boolean>;
 }
 
@@ -39,10 +38,9 @@ export function useDebugOptionRefs(): DebugOptionRefs {
 	const enableOrbDespawningRef = useRef(true);
 	const enableSpawnOnClickRef = useRef(true);
 	const pausePhysicsRef = useRef(false);
-	const disableCollisionsRef = useRef(false);
-	const disableAvoidanceRef = useRef(false);
 	const showArrowVectorRef = useRef(true);
 	const showTruePositionRef = useRef(true);
+	const showForceFieldsRef = useRef(true);
 	const isDebugModeRef = useRef(false);
 
 	return {
@@ -54,10 +52,9 @@ export function useDebugOptionRefs(): DebugOptionRefs {
 		enableOrbDespawningRef,
 		enableSpawnOnClickRef,
 		pausePhysicsRef,
-		disableCollisionsRef,
-		disableAvoidanceRef,
 		showArrowVectorRef,
 		showTruePositionRef,
+		showForceFieldsRef,
 		isDebugModeRef,
 	};
 }
@@ -5,7 +5,7 @@
 // =============================================================================
 
 import { useCallback } from 'react';
-import { usePauseTimeTracking, getEffectiveTime, type PauseTimeRefs } from './usePauseTimeTracking';
+import { usePauseTimeTracking, getEffectiveTime, type PauseTimeRefs, type TimeScaleRefs } from './usePauseTimeTracking';
 import { useDebugModeInit } from './useDebugModeInit';
 import { useDebugOptionRefs, type DebugOptionRefs } from './useDebugOptionRefs';
 import { useDebugContextSync } from './useDebugContextSync';
@@ -14,11 +14,15 @@ import { useDebugEventSync } from './useDebugEventSync';
 /**
  * Return values from the debug state sync hook.
  */
-export interface UseDebugStateSyncReturn extends DebugOptionRefs, PauseTimeRefs {
+export interface UseDebugStateSyncReturn extends DebugOptionRefs, PauseTimeRefs, TimeScaleRefs {
 	/** Whether debug mode is currently enabled. */
 	isDebugMode: boolean;
-	/** Function to get effective time (frozen when paused). */
+	/** Function to get effective time (frozen when paused, scaled by the time scale). */
 	getEffectiveTime: () => number;
+	/** Changes the speed of the effective clock. */
+	setTimeScale: (scale: number) => void;
+	/** Moves the frozen clock forward while paused. */
+	advancePausedTime: (ms: number) => void;
 }
 
 /**
@@ -52,17 +56,21 @@ export function useDebugStateSync(): UseDebugStateSyncReturn {
 		enableOrbDespawningRef: refs.enableOrbDespawningRef,
 		enableSpawnOnClickRef: refs.enableSpawnOnClickRef,
 		pausePhysicsRef: refs.pausePhysicsRef,
-		disableCollisionsRef: refs.disableCollisionsRef,
-		disableAvoidanceRef: refs.disableAvoidanceRef,
 		showArrowVectorRef: refs.showArrowVectorRef,
 		showTruePositionRef: refs.showTruePositionRef,
+		showForceFieldsRef: refs.showForceFieldsRef,
 		handlePauseChange: pauseTracking.handlePauseChange,
 	});
 
 	// Memoize getEffectiveTime to prevent recreating on every render
+	const { timeScaleRef, timeScaleAnchorRef, timeScaleDriftRef } = pauseTracking;
 	const getEffectiveTimeMemoized = useCallback(() => {
-		return getEffectiveTime(refs.pausePhysicsRef, pauseTracking.pausedAtTimeRef, pauseTracking.pausedTimeOffsetRef);
-	}, [refs.pausePhysicsRef, pauseTracking.pausedAtTimeRef, pauseTracking.pausedTimeOffsetRef]);
+		return getEffectiveTime(refs.pausePhysicsRef, pauseTracking.pausedAtTimeRef, pauseTracking.pausedTimeOffsetRef, {
+			timeScaleRef,
+			timeScaleAnchorRef,
+			timeScaleDriftRef,
+		});
+	}, [refs.pausePhysicsRef, pauseTracking.pausedAtTimeRef, pauseTracking.pausedTimeOffsetRef, timeScaleRef, timeScaleAnchorRef, timeScaleDriftRef]);
 
 	return {
 		...refs,
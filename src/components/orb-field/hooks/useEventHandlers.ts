@@ -6,6 +6,7 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { type WindowSize } from '../shared/types';
+import { PointerTracker, MOUSE_POINTER_ID } from '../pointer';
 
 /**
  * Return values from the event handlers hook.
@@ -13,8 +14,8 @@ import { type WindowSize } from '../shared/types';
 interface UseEventHandlersReturn {
 	/** Current window dimensions. */
 	windowSize: WindowSize;
-	/** Ref to current mouse position (null when not hovering). */
-	mousePosRef: React.RefObject<{ x: number; y: number } | null>;
+	/** Ref to the tracker holding the mouse and every active touch. */
+	pointerTrackerRef: React.RefObject<PointerTracker>;
 	/** Ref to whether the page/tab is currently visible and focused. */
 	isPageVisibleRef: React.RefObject<boolean>;
 	/** Whether the component has mounted. */
@@ -26,7 +27,7 @@ interface UseEventHandlersReturn {
  * 
  * Handles:
  * - Window resize events
- * - Global mouse/touch tracking (for orb repulsion)
+ * - Global mouse and multi-touch tracking (for pointer interaction)
  * - Page visibility and focus tracking (for pausing spawning)
  * - Mount state tracking
  * 
@@ -35,7 +36,7 @@ interface UseEventHandlersReturn {
 export function useEventHandlers(): UseEventHandlersReturn {
 	const [windowSize, setWindowSize] = useState<WindowSize>({ width: 0, height: 0 });
 	const [isMounted, setIsMounted] = useState(false);
-	const mousePosRef = useRef<{ x: number; y: number } | null>(null);
+	const pointerTrackerRef = useRef(new PointerTracker());
 	const isPageVisibleRef = useRef(typeof document !== 'undefined' ? !document.hidden : true);
 
 	useEffect(() => {
@@ -57,34 +58,41 @@ export function useEventHandlers(): UseEventHandlersReturn {
 			});
 		};
 
-		// Global mouse tracking for orb repulsion (works even when canvas has pointerEvents: none)
+		const pointerTracker = pointerTrackerRef.current;
+
+		// Global mouse tracking for pointer interaction (works even when canvas has pointerEvents: none)
 		const handleGlobalMouseMove = (e: MouseEvent) => {
-			mousePosRef.current = { x: e.clientX, y: e.clientY };
+			pointerTracker.move(MOUSE_POINTER_ID, e.clientX, e.clientY, performance.now(), (e.buttons & 1) === 1);
+		};
+
+		const handleGlobalMouseDown = (e: MouseEvent) => {
+			if (e.button !== 0) return;
+			pointerTracker.move(MOUSE_POINTER_ID, e.clientX, e.clientY, performance.now(), true);
+		};
+
+		const handleGlobalMouseUp = (e: MouseEvent) => {
+			if (e.button !== 0) return;
+			pointerTracker.setPressed(MOUSE_POINTER_ID, false);
 		};
 
 		const handleGlobalMouseLeave = () => {
-			mousePosRef.current = null;
+			pointerTracker.remove(MOUSE_POINTER_ID);
 		};
 
-		// Global touch tracking for orb repulsion on mobile (same behavior as mouse)
+		// Global touch tracking on mobile: every finger is its own pointer
 		const handleGlobalTouchMove = (e: TouchEvent) => {
-			if (e.touches.length > 0) {
-				const touch = e.touches[0];
-				mousePosRef.current = { x: touch.clientX, y: touch.clientY };
+			const now = performance.now();
+			for (const touch of Array.from(e.changedTouches)) {
+				pointerTracker.move(touch.identifier, touch.clientX, touch.clientY, now, true);
 			}
 		};
 
-		const handleGlobalTouchStart = (e: TouchEvent) => {
-			if (e.touches.length > 0) {
-				const touch = e.touches[0];
-				mousePosRef.current = { x: touch.clientX, y: touch.clientY };
+		const handleGlobalTouchEnd = (e: TouchEvent) => {
+			for (const touch of Array.from(e.changedTouches)) {
+				pointerTracker.remove(touch.identifier);
 			}
 		};
 
-		const handleGlobalTouchEnd = () => {
-			mousePosRef.current = null;
-		};
-
 		// Track page visibility AND window focus to pause spawning when inactive
 		const updateVisibility = () => {
 			const isVisible = document.hasFocus() && !document.hidden;
@@ -109,8 +117,10 @@ export function useEventHandlers(): UseEventHandlersReturn {
 		handleResize();
 		window.addEventListener('resize', handleResize);
 		window.addEventListener('mousemove', handleGlobalMouseMove);
+		window.addEventListener('mousedown', handleGlobalMouseDown);
+		window.addEventListener('mouseup', handleGlobalMouseUp);
 		document.addEventListener('mouseleave', handleGlobalMouseLeave);
-		window.addEventListener('touchstart', handleGlobalTouchStart, { passive: true });
+		window.addEventListener('touchstart', handleGlobalTouchMove, { passive: true });
 		window.addEventListener('touchmove', handleGlobalTouchMove, { passive: true });
 		window.addEventListener('touchend', handleGlobalTouchEnd);
 		window.addEventListener('touchcancel', handleGlobalTouchEnd);
@@ -121,8 +131,10 @@ export function useEventHandlers(): UseEventHandlersReturn {
 		return () => {
 			window.removeEventListener('resize', handleResize);
 			window.removeEventListener('mousemove', handleGlobalMouseMove);
+			window.removeEventListener('mousedown', handleGlobalMouseDown);
+			window.removeEventListener('mouseup', handleGlobalMouseUp);
 			document.removeEventListener('mouseleave', handleGlobalMouseLeave);
-			window.removeEventListener('touchstart', handleGlobalTouchStart);
+			window.removeEventListener('touchstart', handleGlobalTouchMove);
 			window.removeEventListener('touchmove', handleGlobalTouchMove);
 			window.removeEventListener('touchend', handleGlobalTouchEnd);
 			window.removeEventListener('touchcancel', handleGlobalTouchEnd);
@@ -135,7 +147,7 @@ export function useEventHandlers(): UseEventHandlersReturn {
 
 	return {
 		windowSize,
-		mousePosRef,
+		pointerTrackerRef,
 		isPageVisibleRef,
 		isMounted,
 	};
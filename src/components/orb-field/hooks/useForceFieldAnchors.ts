@@ -0,0 +1,94 @@
+"use client";
+
+// =============================================================================
+// useForceFieldAnchors - Keeps force fields centered on DOM elements
+// =============================================================================
+
+import { useEffect } from 'react';
+import { type ForceFieldChanges, type ForceFieldInput, type ForceFieldSet } from '../forces';
+
+/** How often anchored elements are measured (fields move smoothly enough at this rate). */
+const ANCHOR_POLL_MS = 200;
+
+/**
+ * A force field that follows a DOM element.
+ */
+export interface ForceFieldAnchor {
+	/** CSS selector of the element to follow (the first match is used). */
+	selector: string;
+	/** Field template; it is re-centered on the element and placed in screen space. */
+	field: ForceFieldInput;
+}
+
+/**
+ * Returns the field's coordinates moved so its center sits on (cx, cy).
+ * Wind regions are resized to cover the element instead.
+ */
+function fitToRect(field: ForceFieldInput, rect: DOMRect): ForceFieldChanges {
+	const cx = rect.left + rect.width / 2;
+	const cy = rect.top + rect.height / 2;
+
+	switch (field.kind) {
+		case 'attractor':
+		case 'repeller':
+		case 'ring':
+			return { x: cx, y: cy };
+		case 'line': {
+			const halfX = (field.x2 - field.x1) / 2;
+			const halfY = (field.y2 - field.y1) / 2;
+			return { x1: cx - halfX, y1: cy - halfY, x2: cx + halfX, y2: cy + halfY };
+		}
+		case 'wind':
+			return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+	}
+}
+
+/**
+ * Hook that registers fields anchored to DOM elements, e.g. an attractor
+ * behind the active card so orbs gather around it.
+ *
+ * Elements are measured periodically rather than every frame to avoid forced
+ * layout; while an element is missing or has no size its field is removed.
+ *
+ * Single Responsibility: DOM anchoring of force fields only.
+ *
+ * @param forceFields - Set owned by the simulation.
+ * @param anchors - Anchors to keep registered (memoize to avoid re-registration).
+ */
+export function useForceFieldAnchors(forceFields: ForceFieldSet, anchors?: readonly ForceFieldAnchor[]): void {
+	useEffect(() => {
+		if (!anchors || anchors.length === 0) return;
+
+		const ids = anchors.map((anchor, index) => anchor.field.id ?? `anchor-${index}`);
+
+		const measure = () => {
+			anchors.forEach((anchor, index) => {
+				const id = ids[index];
+				const element = document.querySelector(anchor.selector);
+				const rect = element?.getBoundingClientRect();
+
+				if (!rect || rect.width === 0 || rect.height === 0) {
+					forceFields.remove(id);
+					return;
+				}
+
+				const placement = fitToRect(anchor.field, rect);
+				if (forceFields.list.some((field) => field.id === id)) {
+					forceFields.update(id, placement);
+				} else {
+					forceFields.add({ ...anchor.field, ...placement, id, screenSpace: true } as ForceFieldInput);
+				}
+			});
+		};
+
+		measure();
+		const interval = window.setInterval(measure, ANCHOR_POLL_MS);
+
+		return () => {
+			window.clearInterval(interval);
+			for (const id of ids) {
+				forceFields.remove(id);
+			}
+		};
+	}, [forceFields, anchors]);
+}
@@ -0,0 +1,102 @@
+"use client";
+
+// =============================================================================
+// useForceFields - Force field state, placement and programmatic sync
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+	FORCE_FIELD_PRESETS,
+	type ForceField,
+	type ForceFieldInput,
+	type ForceFieldKind,
+	type ForceFieldSet,
+} from '../forces';
+
+/**
+ * Return values from the force fields hook.
+ */
+export interface UseForceFieldsReturn {
+	/** Current fields (React state for the debug menu). */
+	fields: readonly ForceField[];
+	/** Ref to the current fields for render loop access. */
+	fieldsRef: React.RefObject<readonly ForceField[]>;
+	/** Kind placed by the next debug canvas click, or null. */
+	placementKind: ForceFieldKind | null;
+	/** Arms (or disarms with null) click placement. */
+	setPlacementKind: (kind: ForceFieldKind | null) => void;
+	/**
+	 * Places the armed kind centered on a physics-space point.
+	 * Returns false when nothing is armed, so the click can fall through.
+	 */
+	placeField: (pxX: number, pxY: number) => boolean;
+	/** Removes a field by ID. */
+	removeField: (id: string) => void;
+	/** Removes every field. */
+	clearFields: () => void;
+}
+
+/**
+ * Hook mirroring a ForceFieldSet into React state.
+ *
+ * Fields passed in `fields` are added on mount and whenever the array
+ * changes, and removed again when they disappear from it.
+ *
+ * Single Responsibility: Force field UI state and sync only.
+ *
+ * @param forceFields - Set owned by the simulation.
+ * @param fields - Programmatic fields to keep registered.
+ */
+export function useForceFields(forceFields: ForceFieldSet, fields?: readonly ForceFieldInput[]): UseForceFieldsReturn {
+	const [current, setCurrent] = useState<readonly ForceField[]>(() => forceFields.list);
+	const fieldsRef = useRef<readonly ForceField[]>(forceFields.list);
+	const [placementKind, setPlacementKind] = useState<ForceFieldKind | null>(null);
+	const placementKindRef = useRef<ForceFieldKind | null>(null);
+
+	useEffect(() => {
+		return forceFields.subscribe(() => {
+			fieldsRef.current = forceFields.list;
+			setCurrent(forceFields.list);
+		});
+	}, [forceFields]);
+
+	useEffect(() => {
+		placementKindRef.current = placementKind;
+	}, [placementKind]);
+
+	// Keep programmatic fields registered
+	useEffect(() => {
+		if (!fields || fields.length === 0) return;
+		const added = fields.map((field) => forceFields.add(field));
+		return () => {
+			for (const field of added) {
+				forceFields.remove(field.id);
+			}
+		};
+	}, [forceFields, fields]);
+
+	const placeField = useCallback((pxX: number, pxY: number): boolean => {
+		const kind = placementKindRef.current;
+		if (!kind) return false;
+		forceFields.add(FORCE_FIELD_PRESETS[kind](pxX, pxY));
+		return true;
+	}, [forceFields]);
+
+	const removeField = useCallback((id: string) => {
+		forceFields.remove(id);
+	}, [forceFields]);
+
+	const clearFields = useCallback(() => {
+		forceFields.clear();
+	}, [forceFields]);
+
+	return useMemo(() => ({
+		fields: current,
+		fieldsRef,
+		placementKind,
+		setPlacementKind,
+		placeField,
+		removeField,
+		clearFields,
+	}), [current, placementKind, placeField, removeField, clearFields]);
+}
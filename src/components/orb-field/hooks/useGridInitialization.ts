@@ -9,7 +9,9 @@ import { GridConfigFactory } from '../grid/core/GridConfigFactory';
 import { ViewportCellsFactory } from '../grid/core/ViewportCellsFactory';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type GridConfig, type ViewportCells } from '../grid/types';
+import { DEFAULT_GRID_RESIZE_CONFIG, type GridResizeConfig } from '../shared/config';
 import { type WindowSize } from '../shared/types';
+import { type OrbSimulation } from '../simulation';
 
 /**
  * Parameters for the grid initialization hook.
@@ -17,6 +19,10 @@ import { type WindowSize } from '../shared/types';
 interface UseGridInitializationParams {
 	windowSize: WindowSize;
 	isMobile: boolean;
+	/** Simulation that shares the grid (attached as soon as the grid is created). */
+	simulation?: OrbSimulation;
+	/** Debounce for rebuilding after a resize. */
+	resizeConfig?: GridResizeConfig;
 }
 
 /**
@@ -31,11 +37,15 @@ export interface UseGridInitializationReturn {
 
 /**
  * Handles grid configuration, creation, and viewport cell calculation.
+ *
+ * The first grid is built at once; later size changes are debounced so a
+ * stream of resize events rebuilds the grid once. The simulation remaps its
+ * orbs into each rebuilt grid (see OrbSimulation.attachGrid).
  * 
  * Single Responsibility: Grid initialization only.
  */
 export function useGridInitialization(params: UseGridInitializationParams): UseGridInitializationReturn {
-	const { windowSize, isMobile } = params;
+	const { windowSize, isMobile, simulation, resizeConfig = DEFAULT_GRID_RESIZE_CONFIG } = params;
 
 	const [gridConfig, setGridConfig] = useState<GridConfig | null>(null);
 	const [viewportCells, setViewportCells] = useState<ViewportCells | null>(null);
@@ -49,24 +59,39 @@ export function useGridInitialization(params: UseGridInitializationParams): UseG
 	useEffect(() => {
 		if (windowWidth === 0) return;
 
-		const config = GridConfigFactory.create(window, {
-			targetCellSizeCm: isMobile ? 0.25 : 0.5,
-		});
-		const newGrid = new SpatialGrid(config);
-		newGrid.initializeBorder();
-		// Save clean state for fast clearDynamic() - enables O(1) bulk memory copy
-		// instead of O(n) per-cell iteration through millions of cells
-		newGrid.saveCleanState();
-		const vpc = ViewportCellsFactory.create(config);
+		const build = () => {
+			// Sized from windowSize rather than window, so replayed resizes rebuild the same grid
+			const config = GridConfigFactory.create({
+				innerWidth: windowWidth,
+				innerHeight: windowHeight,
+				devicePixelRatio: window.devicePixelRatio,
+			}, {
+				targetCellSizeCm: isMobile ? 0.25 : 0.5,
+			});
+			const newGrid = new SpatialGrid(config);
+			newGrid.initializeBorder();
+			// Captures cells marked so far as the state clearDynamic() restores (the border needs no copy)
+			newGrid.saveCleanState();
+			const vpc = ViewportCellsFactory.create(config);
 
-		gridRef.current = newGrid;
-		viewportCellsRef.current = vpc;
+			gridRef.current = newGrid;
+			viewportCellsRef.current = vpc;
+			simulation?.attachGrid(newGrid, vpc, { width: windowWidth, height: windowHeight });
 
-		queueMicrotask(() => {
-			setGridConfig(config);
-			setViewportCells(vpc);
-		});
-	}, [windowWidth, windowHeight, isMobile]);
+			queueMicrotask(() => {
+				setGridConfig(config);
+				setViewportCells(vpc);
+			});
+		};
+
+		if (!gridRef.current || resizeConfig.debounceMs <= 0) {
+			build();
+			return;
+		}
+
+		const timeout = window.setTimeout(build, resizeConfig.debounceMs);
+		return () => window.clearTimeout(timeout);
+	}, [windowWidth, windowHeight, isMobile, simulation, resizeConfig]);
 
 	return {
 		gridConfig,
@@ -0,0 +1,73 @@
+"use client";
+
+// =============================================================================
+// useGridLineTransition - Eases the grid lines to a rebuilt grid's spacing
+// =============================================================================
+
+import { useEffect, useRef } from 'react';
+import { GridAnimator } from '../grid/visuals/GridAnimator';
+import { type ViewportCells } from '../grid/types';
+import { DEFAULT_GRID_RESIZE_CONFIG } from '../shared/config';
+
+/**
+ * Blends two cell metrics: sizes are interpolated, the cell range is the target's.
+ */
+function blendCells(from: ViewportCells, to: ViewportCells, t: number): ViewportCells {
+	const cellSizeXPx = from.cellSizeXPx + (to.cellSizeXPx - from.cellSizeXPx) * t;
+	const cellSizeYPx = from.cellSizeYPx + (to.cellSizeYPx - from.cellSizeYPx) * t;
+	return {
+		...to,
+		cellSizeXPx,
+		cellSizeYPx,
+		invCellSizeXPx: 1 / cellSizeXPx,
+		invCellSizeYPx: 1 / cellSizeYPx,
+		cellSizeXCm: from.cellSizeXCm + (to.cellSizeXCm - from.cellSizeXCm) * t,
+		cellSizeYCm: from.cellSizeYCm + (to.cellSizeYCm - from.cellSizeYCm) * t,
+	};
+}
+
+/**
+ * Hook providing the cell metrics the grid lines are drawn with.
+ *
+ * The first grid is used as is (the reveal animation introduces it); after a
+ * resize the lines ease from their current spacing to the new one instead of
+ * snapping. A resize during a transition starts from wherever the lines are.
+ * Only the drawing is animated: physics uses the new grid at once.
+ *
+ * Single Responsibility: Grid line spacing animation only.
+ *
+ * @param viewportCells - Metrics of the current grid.
+ * @param durationMs - Transition length (0 snaps).
+ * @returns Ref to the metrics to draw lines with (null before the first grid).
+ */
+export function useGridLineTransition(
+	viewportCells: ViewportCells | null,
+	durationMs: number = DEFAULT_GRID_RESIZE_CONFIG.lineTransitionMs
+): React.RefObject<ViewportCells | null> {
+	const lineCellsRef = useRef<ViewportCells | null>(null);
+
+	useEffect(() => {
+		if (!viewportCells) return;
+
+		const from = lineCellsRef.current;
+		if (!from || durationMs <= 0) {
+			lineCellsRef.current = viewportCells;
+			return;
+		}
+
+		const animator = new GridAnimator(
+			durationMs,
+			(_progress, eased) => {
+				lineCellsRef.current = blendCells(from, viewportCells, eased);
+			},
+			() => {
+				lineCellsRef.current = viewportCells;
+			}
+		);
+		animator.start();
+
+		return () => animator.stop();
+	}, [viewportCells, durationMs]);
+
+	return lineCellsRef;
+}
@@ -0,0 +1,41 @@
+"use client";
+
+// =============================================================================
+// useGridObstacle - Lets any component block orbs with its bounding rect
+// =============================================================================
+
+import { useEffect, useId } from 'react';
+import { gridObstacleRegistry, type GridObstacleRegistry } from '../obstacles/GridObstacleRegistry';
+import { type GridObstacleOptions } from '../obstacles/types';
+
+/**
+ * Hook that registers an element as a grid obstacle while enabled.
+ *
+ * The orb field measures the element's bounding rect (on resize, scroll and
+ * periodically) and rasterises it into CELL_OBSTACLE cells, so orbs bounce
+ * off it. The ref may be empty until the element mounts.
+ *
+ * Single Responsibility: Obstacle registration for one element only.
+ *
+ * @param ref - Ref to the element.
+ * @param options - Enabled flag, layers and padding.
+ * @param registry - Registry read by the orb field (defaults to the shared one).
+ */
+export function useGridObstacle(
+	ref: React.RefObject<Element | null>,
+	options: GridObstacleOptions = {},
+	registry: GridObstacleRegistry = gridObstacleRegistry
+): void {
+	const { enabled = true, layers, paddingPx } = options;
+	const id = useId();
+
+	// Primitive deps, so inline layer objects do not re-register every render
+	const minLayer = layers?.min;
+	const maxLayer = layers?.max;
+
+	useEffect(() => {
+		if (!enabled) return;
+		const range = minLayer !== undefined && maxLayer !== undefined ? { min: minLayer, max: maxLayer } : undefined;
+		return registry.register(id, ref, { layers: range, paddingPx });
+	}, [registry, id, ref, enabled, minLayer, maxLayer, paddingPx]);
+}
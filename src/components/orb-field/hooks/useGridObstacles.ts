@@ -0,0 +1,61 @@
+"use client";
+
+// =============================================================================
+// useGridObstacles - Feeds registered DOM obstacles into the simulation
+// =============================================================================
+
+import { useEffect } from 'react';
+import { type OrbSimulation } from '../simulation';
+import { DEFAULT_GRID_OBSTACLE_CONFIG, gridObstacleRegistry, type GridObstacle, type GridObstacleRegistry } from '../obstacles';
+
+/**
+ * Returns whether two obstacle lists describe the same rectangles.
+ */
+function sameObstacles(a: readonly GridObstacle[], b: readonly GridObstacle[]): boolean {
+	return a.length === b.length && a.every((obstacle, i) => {
+		const other = b[i];
+		return obstacle.id === other.id &&
+			obstacle.x === other.x && obstacle.y === other.y &&
+			obstacle.width === other.width && obstacle.height === other.height &&
+			obstacle.layers.min === other.layers.min && obstacle.layers.max === other.layers.max;
+	});
+}
+
+/**
+ * Hook that keeps the simulation's obstacles in step with the registered
+ * elements (see useGridObstacle).
+ *
+ * Elements are measured on registration changes, resize and scroll, and
+ * periodically for CSS transitions that fire no events. The simulation only
+ * receives a new list when a rect actually changed; it re-rasterises when the
+ * covered cells change.
+ *
+ * Single Responsibility: DOM obstacle measurement to simulation sync only.
+ *
+ * @param simulation - Simulation whose grid the obstacles are marked in.
+ * @param registry - Registry components register with (defaults to the shared one).
+ */
+export function useGridObstacles(simulation: OrbSimulation, registry: GridObstacleRegistry = gridObstacleRegistry): void {
+	useEffect(() => {
+		const measure = () => {
+			const obstacles = registry.measure();
+			if (!sameObstacles(obstacles, simulation.obstacles)) {
+				simulation.setObstacles(obstacles);
+			}
+		};
+
+		measure();
+		const unsubscribe = registry.subscribe(measure);
+		const interval = window.setInterval(measure, DEFAULT_GRID_OBSTACLE_CONFIG.measureIntervalMs);
+		window.addEventListener('resize', measure);
+		window.addEventListener('scroll', measure, { capture: true, passive: true });
+
+		return () => {
+			unsubscribe();
+			window.clearInterval(interval);
+			window.removeEventListener('resize', measure);
+			window.removeEventListener('scroll', measure, { capture: true });
+			simulation.setObstacles([]);
+		};
+	}, [simulation, registry]);
+}
@@ -0,0 +1,128 @@
+"use client";
+
+// =============================================================================
+// useGridReveal - Reveal preset selection and replay for the grid lines
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { GridAnimator } from '../grid/visuals/GridAnimator';
+import { GRID_REVEAL_PRESETS } from '../grid/visuals/GridRevealPresets';
+import { type GridRevealFrame, type GridRevealPreset, type GridRevealPresetId } from '../grid/types';
+import { MOUSE_POINTER_ID, type PointerTracker } from '../pointer';
+
+/**
+ * Options for the grid reveal hook.
+ */
+interface UseGridRevealOptions {
+	/** Preset of the initial reveal (switchable afterwards). */
+	initialPresetId: GridRevealPresetId;
+	/** Pointers, for presets that start at the cursor. */
+	pointerTrackerRef: React.RefObject<PointerTracker>;
+}
+
+/**
+ * Return values from the grid reveal hook.
+ */
+export interface UseGridRevealReturn {
+	/** Active preset id. */
+	presetId: GridRevealPresetId;
+	/** Active preset (timing and easing for the initial reveal). */
+	preset: GridRevealPreset;
+	/** Switches preset; the lines change the next time a reveal plays. */
+	setPresetId: (id: GridRevealPresetId) => void;
+	/** Plays the active preset again over the running field. */
+	replay: () => void;
+	/** Whether a replay is playing. */
+	isReplaying: boolean;
+	/** What the lines show this frame, given the main loop's reveal progress. */
+	getRevealFrame: (easedProgress: number) => GridRevealFrame;
+}
+
+/**
+ * Hook for choosing and previewing grid reveal presets.
+ *
+ * The initial reveal is driven by the animation loop, whose progress also
+ * gates physics and the canvas fade; a replay runs its own animator and only
+ * overrides what the grid lines show. The lines are drawn with the preset
+ * that last played, so switching presets changes nothing on screen until
+ * replay() runs; a finished hide keeps the lines hidden until then.
+ *
+ * Single Responsibility: Reveal preset state and replay timing only.
+ */
+export function useGridReveal(options: UseGridRevealOptions): UseGridRevealReturn {
+	const { initialPresetId, pointerTrackerRef } = options;
+
+	const [presetId, setPresetIdState] = useState(initialPresetId);
+	const [isReplaying, setIsReplaying] = useState(false);
+	const presetRef = useRef(GRID_REVEAL_PRESETS[initialPresetId]);
+	const playedPresetRef = useRef(GRID_REVEAL_PRESETS[initialPresetId]);
+	const replayProgressRef = useRef<number | null>(null);
+	const originRef = useRef<{ x: number; y: number } | null>(null);
+	const hasOriginRef = useRef(false);
+	const animatorRef = useRef<GridAnimator | null>(null);
+
+	// The mouse if it is over the page, else the first touch
+	const readOrigin = useCallback((): { x: number; y: number } | null => {
+		const pointers = pointerTrackerRef.current.read(performance.now());
+		const pointer = pointers.find((p) => p.id === MOUSE_POINTER_ID) ?? pointers[0];
+		return pointer ? { x: pointer.x, y: pointer.y } : null;
+	}, [pointerTrackerRef]);
+
+	const getRevealFrame = useCallback((easedProgress: number): GridRevealFrame => {
+		if (!hasOriginRef.current) {
+			originRef.current = readOrigin();
+			hasOriginRef.current = true;
+		}
+		return {
+			preset: playedPresetRef.current,
+			progress: replayProgressRef.current ?? easedProgress,
+			origin: originRef.current,
+		};
+	}, [readOrigin]);
+
+	const setPresetId = useCallback((id: GridRevealPresetId) => {
+		presetRef.current = GRID_REVEAL_PRESETS[id];
+		// A running replay keeps its progress; a finished one hands back to the main progress
+		if (!animatorRef.current) replayProgressRef.current = null;
+		setPresetIdState(id);
+	}, []);
+
+	const replay = useCallback(() => {
+		animatorRef.current?.stop();
+		const preset = presetRef.current;
+		playedPresetRef.current = preset;
+		originRef.current = readOrigin();
+		hasOriginRef.current = true;
+		replayProgressRef.current = 0;
+		setIsReplaying(true);
+
+		const animator = new GridAnimator(
+			preset.durationMs,
+			(_progress, eased) => {
+				replayProgressRef.current = eased;
+			},
+			() => {
+				// Revealed lines hand back to the (finished) main progress; hidden ones stay hidden
+				if (!preset.hide) replayProgressRef.current = null;
+				if (animatorRef.current === animator) animatorRef.current = null;
+				setIsReplaying(false);
+			},
+			preset.easing
+		);
+		animatorRef.current = animator;
+		animator.start();
+	}, [readOrigin]);
+
+	useEffect(() => {
+		return () => animatorRef.current?.stop();
+	}, []);
+
+	return useMemo(() => ({
+		presetId,
+		preset: GRID_REVEAL_PRESETS[presetId],
+		setPresetId,
+		replay,
+		isReplaying,
+		getRevealFrame,
+	}), [presetId, setPresetId, replay, isReplaying, getRevealFrame]);
+}
@@ -0,0 +1,135 @@
+"use client";
+
+// =============================================================================
+// useGridShapes - Rasterises and reveals arbitrary shapes in the simulation grid
+// =============================================================================
+
+import { useEffect, useRef } from 'react';
+import { type OrbSimulation } from '../simulation';
+import { type GridConfig } from '../grid/types';
+import {
+	DEFAULT_GRID_SHAPE_CONFIG,
+	ShapeRasterizer,
+	type GridShape,
+	type GridShapeConfig,
+	type GridShapeMask,
+} from '../obstacles';
+
+/**
+ * Animation and rasterisation state of one shape.
+ */
+interface ShapeEntry {
+	shape: GridShape;
+	/** Linear reveal progress (0 hidden, 1 full size). */
+	reveal: number;
+	/** Progress the shape animates toward (0 once it was removed). */
+	target: number;
+	/** Reveal step the mask was made for (-1 forces a new mask). */
+	step: number;
+	/** Grid the mask was made for. */
+	gridConfig: GridConfig | null;
+	mask: GridShapeMask | null;
+}
+
+/**
+ * Decelerating curve so shapes pop in quickly and settle into place.
+ */
+function easeOutCubic(t: number): number {
+	return 1 - (1 - t) ** 3;
+}
+
+/**
+ * Hook that keeps the simulation's shape masks in step with the given shapes.
+ *
+ * Added shapes grow in from their center and removed ones shrink away over
+ * revealMs. A shape is rasterised once per reveal step (and again when the
+ * grid changes), so animating costs at most revealSteps canvas draws.
+ *
+ * Single Responsibility: Shape reveal animation to simulation sync only.
+ *
+ * @param simulation - Simulation whose grid the shapes are marked in.
+ * @param gridConfig - Current grid (masks refer to its cells).
+ * @param shapes - Shapes to show (memoize to avoid re-rasterising).
+ * @param config - Threshold, font defaults and reveal timing.
+ */
+export function useGridShapes(
+	simulation: OrbSimulation,
+	gridConfig: GridConfig | null,
+	shapes?: readonly GridShape[],
+	config: GridShapeConfig = DEFAULT_GRID_SHAPE_CONFIG
+): void {
+	const entriesRef = useRef(new Map<string, ShapeEntry>());
+
+	useEffect(() => {
+		const entries = entriesRef.current;
+		const ids = new Set<string>();
+
+		for (const shape of shapes ?? []) {
+			ids.add(shape.id);
+			const entry = entries.get(shape.id);
+			if (!entry) {
+				entries.set(shape.id, { shape, reveal: 0, target: 1, step: -1, gridConfig: null, mask: null });
+			} else {
+				if (entry.shape !== shape) entry.step = -1;
+				entry.shape = shape;
+				entry.target = 1;
+			}
+		}
+		for (const [id, entry] of entries) {
+			if (!ids.has(id)) entry.target = 0;
+		}
+
+		let frameId = 0;
+		let lastTime = performance.now();
+
+		const tick = (now: number) => {
+			const rate = config.revealMs > 0 ? (now - lastTime) / config.revealMs : Infinity;
+			lastTime = now;
+			let animating = false;
+			let changed = false;
+
+			for (const [id, entry] of entries) {
+				entry.reveal = entry.target > entry.reveal
+					? Math.min(entry.target, entry.reveal + rate)
+					: Math.max(entry.target, entry.reveal - rate);
+				if (entry.reveal !== entry.target) animating = true;
+
+				if (entry.reveal === 0 && entry.target === 0) {
+					entries.delete(id);
+					changed = changed || entry.mask !== null;
+					continue;
+				}
+
+				const step = Math.round(entry.reveal * config.revealSteps);
+				if (step === entry.step && entry.gridConfig === gridConfig) continue;
+
+				entry.step = step;
+				entry.gridConfig = gridConfig;
+				entry.mask = gridConfig
+					? ShapeRasterizer.rasterize(entry.shape, gridConfig, easeOutCubic(step / config.revealSteps), config)
+					: null;
+				changed = true;
+			}
+
+			if (changed) {
+				const masks: GridShapeMask[] = [];
+				for (const entry of entries.values()) {
+					if (entry.mask) masks.push(entry.mask);
+				}
+				simulation.setShapeMasks(masks);
+			}
+			if (animating) frameId = requestAnimationFrame(tick);
+		};
+
+		tick(lastTime);
+		return () => cancelAnimationFrame(frameId);
+	}, [simulation, gridConfig, shapes, config]);
+
+	useEffect(() => {
+		const entries = entriesRef.current;
+		return () => {
+			entries.clear();
+			simulation.setShapeMasks([]);
+		};
+	}, [simulation]);
+}
@@ -0,0 +1,62 @@
+"use client";
+
+// =============================================================================
+// useGridStorageStats - Polls grid memory and access cost for the debug panel
+// =============================================================================
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { GridStorageBenchmark } from '../grid/core/GridStorageBenchmark';
+import { type GridStorageComparison, type GridStorageStats } from '../grid/types';
+
+/** Interval for refreshing the stats while they are displayed. */
+const STATS_REFRESH_MS = 500;
+
+/**
+ * Return values from the grid storage stats hook.
+ */
+export interface UseGridStorageStatsReturn {
+	/** Latest chunk usage, memory and clear time (null until the first poll). */
+	stats: GridStorageStats | null;
+	/** Measured mark, query and clear cost against a dense array of the same grid (null until measured). */
+	comparison: GridStorageComparison | null;
+}
+
+/**
+ * Hook exposing the grid's chunked storage figures to React.
+ *
+ * The chunked/dense comparison is measured once per grid, on the first poll
+ * after the grid is created, since it briefly allocates two dense arrays.
+ *
+ * Single Responsibility: Grid storage stats to UI state sync only.
+ *
+ * @param gridRef - Ref to the current spatial grid.
+ * @param enabled - Whether to refresh periodically.
+ */
+export function useGridStorageStats(
+	gridRef: React.RefObject<SpatialGrid | null>,
+	enabled: boolean
+): UseGridStorageStatsReturn {
+	const [stats, setStats] = useState<GridStorageStats | null>(null);
+	const [comparison, setComparison] = useState<GridStorageComparison | null>(null);
+	const measuredGridRef = useRef<SpatialGrid | null>(null);
+
+	useEffect(() => {
+		if (!enabled) return;
+		const interval = window.setInterval(() => {
+			const grid = gridRef.current;
+			if (!grid) return;
+			if (measuredGridRef.current !== grid) {
+				measuredGridRef.current = grid;
+				setComparison(GridStorageBenchmark.measure(grid.config));
+			}
+			setStats(grid.getStorageStats());
+		}, STATS_REFRESH_MS);
+		return () => window.clearInterval(interval);
+	}, [gridRef, enabled]);
+
+	return useMemo(() => ({
+		stats,
+		comparison,
+	}), [stats, comparison]);
+}
@@ -0,0 +1,417 @@
+"use client";
+
+// =============================================================================
+// useInputReplay - Records the field's inputs and replays them deterministically
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DEBUG_EVENTS } from '@/lib/storage';
+import { type PointerTracker } from '../pointer';
+import { type OrbFieldScene, type SceneLoadResult } from '../scene';
+import {
+	InputPlayer,
+	InputRecorder,
+	RecordingSerializer,
+	ReplayPointerTracker,
+	type InputEvent,
+	type InputRecording,
+	type InputReplayControls,
+	type InputReplayMode,
+	type InputReplayStatus,
+	type RecordingParseResult,
+	type ReplayInputs,
+} from '../replay';
+import { type DebugOptionRefs } from './useDebugOptionRefs';
+import { type LoopFrame } from './types';
+
+/** Interval for refreshing the playback status while recording or replaying. */
+const STATUS_REFRESH_MS = 100;
+
+/** Status before anything has been recorded. */
+const IDLE_STATUS: InputReplayStatus = {
+	mode: 'idle',
+	hasRecording: false,
+	isPlaying: false,
+	speed: 1,
+	positionMs: 0,
+	durationMs: 0,
+	eventCount: 0,
+	error: null,
+};
+
+/** Debug options captured with a recording and restored on replay. */
+const REPLAYED_TOGGLES = [
+	'showGrid',
+	'showCollisionArea',
+	'showAvoidanceArea',
+	'showGraphics',
+	'enableOrbSpawning',
+	'enableOrbDespawning',
+	'enableSpawnOnClick',
+	'pausePhysics',
+	'showArrowVector',
+	'showTruePosition',
+	'showForceFields',
+] as const;
+
+type ReplayedToggle = typeof REPLAYED_TOGGLES[number];
+
+function isReplayedToggle(key: string): key is ReplayedToggle {
+	return (REPLAYED_TOGGLES as readonly string[]).includes(key);
+}
+
+/**
+ * Reads the replayed debug options from their refs.
+ */
+function readToggles(refs: DebugOptionRefs): Record<string, boolean> {
+	const toggles: Record<string, boolean> = {};
+	for (const key of REPLAYED_TOGGLES) {
+		toggles[key] = refs[`${key}Ref`].current;
+	}
+	return toggles;
+}
+
+/**
+ * Sets debug options through the same event the debug menu dispatches,
+ * so side effects such as pause time tracking run as usual.
+ */
+function dispatchToggles(toggles: Record<string, boolean>, current: Record<string, boolean>): void {
+	for (const [key, value] of Object.entries(toggles)) {
+		if (!isReplayedToggle(key) || current[key] === value) continue;
+		window.dispatchEvent(new CustomEvent(DEBUG_EVENTS.OPTION_CHANGED, { detail: { key, value } }));
+	}
+}
+
+function isSameSize(a: ReplayInputs['windowSize'], b: ReplayInputs['windowSize']): boolean {
+	return a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Options for the input replay hook.
+ */
+interface UseInputReplayOptions {
+	/** Tracker fed by DOM pointer events (see useEventHandlers). */
+	livePointerTrackerRef: React.RefObject<PointerTracker>;
+	/** Live scroll, tilt and window size (see useReplayedInputs). */
+	liveInputs: ReplayInputs;
+	/** Overrides the field's scroll, tilt and window size (null for live). */
+	setReplayedInputs: (inputs: ReplayInputs | null) => void;
+	/** Effective window size, replayed or live. */
+	windowSize: ReplayInputs['windowSize'];
+	/** Debug option refs (toggles are recorded and replayed). */
+	debugOptionRefs: DebugOptionRefs;
+	/** Seed of the running simulation. */
+	seed: number;
+	/** Physics step length in milliseconds for replay. */
+	stepMs: number;
+	/** Captures the field as a scene (see useSceneTransfer). */
+	captureScene: (debugToggles: Record<string, boolean>) => OrbFieldScene | null;
+	/** Loads a scene (see useSceneTransfer). */
+	loadScene: (scene: OrbFieldScene) => SceneLoadResult;
+	/** Switches the simulation clock to fixed steps and back (see useSimulationSeed). */
+	setSteppedClock: (stepped: boolean, startTime?: number) => void;
+}
+
+/**
+ * Return values from the input replay hook.
+ */
+export interface UseInputReplayReturn {
+	/** Whether a replay is active (physics must run inline). */
+	isReplaying: boolean;
+	/** Recorder and player state, polled while active. */
+	status: InputReplayStatus;
+	/** Recorder and playback controls. Stable. */
+	controls: InputReplayControls;
+	/** Tracker the physics loop should read: live, or fed from the recording. */
+	pointerTrackerRef: React.RefObject<PointerTracker>;
+	/** Feeds due recorded inputs before each physics step (see usePhysicsLoop). */
+	onBeforeStep: () => void;
+	/** Replaces the animation loop's step plan while replaying. */
+	planFrame: (deltaTime: number, stepCount: number) => LoopFrame;
+}
+
+/**
+ * Hook for recording the orb field's inputs and replaying them.
+ *
+ * A recording starts from a captured scene and logs pointer samples, scroll
+ * progress, device tilt, window resizes and debug toggle changes with their
+ * time. Replay restores the scene, swaps the physics loop onto a tracker fed
+ * from the log and runs fixed steps on a stepped clock, so every replay of a
+ * recording produces the same field regardless of frame rate or speed.
+ *
+ * Scroll, tilt and resize reach the field through React props, as they do
+ * live; after a replayed resize, stepping waits until the rebuilt grid is in
+ * place. Parallax easing still runs once per rendered frame, so replays that
+ * scroll can differ slightly in orb positions. Physics runs inline while
+ * replaying; a worker would keep its own random source.
+ *
+ * Single Responsibility: Input recording and replay orchestration only.
+ */
+export function useInputReplay(options: UseInputReplayOptions): UseInputReplayReturn {
+	const {
+		livePointerTrackerRef,
+		liveInputs,
+		setReplayedInputs,
+		windowSize,
+		debugOptionRefs,
+		seed,
+		stepMs,
+		captureScene,
+		loadScene,
+		setSteppedClock,
+	} = options;
+
+	const [recorder] = useState(() => new InputRecorder());
+	const [replayTracker] = useState(() => new ReplayPointerTracker());
+	const [mode, setMode] = useState<InputReplayMode>('idle');
+
+	const modeRef = useRef<InputReplayMode>('idle');
+	const recordingRef = useRef<InputRecording | null>(null);
+	const playerRef = useRef<InputPlayer | null>(null);
+	const activeTrackerRef = useRef<PointerTracker>(replayTracker);
+	const errorRef = useRef<string | null>(null);
+
+	// Replay bookkeeping (loop only)
+	const replayInputsRef = useRef<ReplayInputs | null>(null);
+	const windowSizeRef = useRef(windowSize);
+	const awaitingStartRef = useRef(false);
+	const preReplayTogglesRef = useRef<Record<string, boolean>>({});
+
+	// Latest debug refs for stable callbacks (the object itself is rebuilt every render)
+	const debugOptionRefsRef = useRef(debugOptionRefs);
+	useEffect(() => { debugOptionRefsRef.current = debugOptionRefs; }, [debugOptionRefs]);
+
+	const readStatus = useCallback((): InputReplayStatus => {
+		const player = playerRef.current;
+		const recording = recordingRef.current;
+		const currentMode = modeRef.current;
+		return {
+			mode: currentMode,
+			hasRecording: recording !== null,
+			isPlaying: player?.isPlaying ?? false,
+			speed: player?.speed ?? 1,
+			positionMs: currentMode === 'recording' ? recorder.elapsedMs : player?.positionMs ?? 0,
+			durationMs: currentMode === 'recording' ? recorder.elapsedMs : recording?.durationMs ?? 0,
+			eventCount: currentMode === 'recording' ? recorder.eventCount : recording?.events.length ?? 0,
+			error: errorRef.current,
+		};
+	}, [recorder]);
+
+	const [status, setStatus] = useState<InputReplayStatus>(IDLE_STATUS);
+	const refreshStatus = useCallback(() => setStatus(readStatus()), [readStatus]);
+
+	const changeMode = useCallback((next: InputReplayMode) => {
+		modeRef.current = next;
+		setMode(next);
+	}, []);
+
+	// Physics reads the live tracker until a replay swaps it
+	useEffect(() => {
+		if (modeRef.current !== 'replaying') activeTrackerRef.current = livePointerTrackerRef.current;
+	}, [livePointerTrackerRef]);
+
+	useEffect(() => {
+		windowSizeRef.current = windowSize;
+	}, [windowSize]);
+
+	useEffect(() => {
+		if (mode === 'idle') return;
+		const interval = window.setInterval(refreshStatus, STATUS_REFRESH_MS);
+		return () => window.clearInterval(interval);
+	}, [mode, refreshStatus]);
+
+	// Recording: pointer samples via the tracker observer, toggles via the debug menu event
+	useEffect(() => {
+		if (mode !== 'recording') return;
+		const tracker = livePointerTrackerRef.current;
+		tracker.setObserver(recorder);
+
+		const handleDebugOptionChange = (e: CustomEvent<{ key: string; value: boolean }>) => {
+			const { key, value } = e.detail;
+			if (isReplayedToggle(key)) recorder.recordToggle(key, value);
+		};
+		window.addEventListener(DEBUG_EVENTS.OPTION_CHANGED, handleDebugOptionChange as EventListener);
+
+		return () => {
+			tracker.setObserver(null);
+			window.removeEventListener(DEBUG_EVENTS.OPTION_CHANGED, handleDebugOptionChange as EventListener);
+		};
+	}, [mode, recorder, livePointerTrackerRef]);
+
+	// Recording: React-driven inputs (the recorder ignores them while idle)
+	const { scrollProgress, deviceTiltX, deviceTiltY } = liveInputs;
+	const { width: liveWidth, height: liveHeight } = liveInputs.windowSize;
+	useEffect(() => { recorder.recordScroll(scrollProgress); }, [recorder, scrollProgress]);
+	useEffect(() => { recorder.recordTilt(deviceTiltX, deviceTiltY); }, [recorder, deviceTiltX, deviceTiltY]);
+	useEffect(() => { recorder.recordResize(liveWidth, liveHeight); }, [recorder, liveWidth, liveHeight]);
+
+	const updateReplayedInputs = useCallback((change: Partial<ReplayInputs>) => {
+		const current = replayInputsRef.current;
+		if (!current) return;
+		const next = { ...current, ...change };
+		replayInputsRef.current = next;
+		setReplayedInputs(next);
+	}, [setReplayedInputs]);
+
+	const applyEvent = useCallback((event: InputEvent) => {
+		switch (event.type) {
+			case 'pointerMove':
+				replayTracker.move(event.id, event.x, event.y, event.t, event.pressed);
+				break;
+			case 'pointerPressed':
+				replayTracker.setPressed(event.id, event.pressed);
+				break;
+			case 'pointerRemove':
+				replayTracker.remove(event.id);
+				break;
+			case 'scroll':
+				updateReplayedInputs({ scrollProgress: event.progress });
+				break;
+			case 'tilt':
+				updateReplayedInputs({ deviceTiltX: event.x, deviceTiltY: event.y });
+				break;
+			case 'resize':
+				updateReplayedInputs({ windowSize: { width: event.width, height: event.height } });
+				break;
+			case 'debugToggle':
+				dispatchToggles({ [event.key]: event.value }, readToggles(debugOptionRefsRef.current));
+				break;
+		}
+	}, [replayTracker, updateReplayedInputs]);
+
+	const exitReplay = useCallback(() => {
+		if (modeRef.current !== 'replaying') return;
+		changeMode('idle');
+		dispatchToggles(preReplayTogglesRef.current, readToggles(debugOptionRefsRef.current));
+		setSteppedClock(false);
+		setReplayedInputs(null);
+		replayInputsRef.current = null;
+		replayTracker.clear();
+		activeTrackerRef.current = livePointerTrackerRef.current;
+		playerRef.current = null;
+		awaitingStartRef.current = false;
+		refreshStatus();
+	}, [changeMode, setSteppedClock, setReplayedInputs, replayTracker, livePointerTrackerRef, refreshStatus]);
+
+	const onBeforeStep = useCallback(() => {
+		if (modeRef.current !== 'replaying') return;
+		const player = playerRef.current;
+		if (!player) return;
+		replayTracker.setClock(player.beforeStep(applyEvent));
+	}, [replayTracker, applyEvent]);
+
+	const planFrame = useCallback((deltaTime: number, stepCount: number): LoopFrame => {
+		const player = playerRef.current;
+		if (modeRef.current !== 'replaying' || !player) return { deltaTime, stepCount };
+
+		const { recording } = player;
+		const hold: LoopFrame = { deltaTime: recording.stepMs / 1000, stepCount: 0 };
+
+		if (player.takeRestart()) {
+			replayTracker.clear();
+			replayTracker.setClock(0);
+			replayInputsRef.current = recording.inputs;
+			setReplayedInputs(recording.inputs);
+			awaitingStartRef.current = true;
+		}
+
+		// The start scene and resized grids must be in place before stepping
+		const target = replayInputsRef.current?.windowSize;
+		if (target && !isSameSize(target, windowSizeRef.current)) return hold;
+
+		if (awaitingStartRef.current) {
+			awaitingStartRef.current = false;
+			const { startScene } = recording;
+			setSteppedClock(true, startScene.time);
+			const loaded = loadScene(startScene);
+			if (!loaded.ok) {
+				errorRef.current = `Replay stopped: ${loaded.error}`;
+				exitReplay();
+				return hold;
+			}
+			dispatchToggles(startScene.debugToggles, readToggles(debugOptionRefsRef.current));
+		}
+
+		return { ...hold, stepCount: player.planSteps(deltaTime * stepCount * 1000) };
+	}, [replayTracker, setReplayedInputs, setSteppedClock, loadScene, exitReplay]);
+
+	const startRecording = useCallback((): boolean => {
+		if (modeRef.current !== 'idle') return false;
+		const startScene = captureScene(readToggles(debugOptionRefsRef.current));
+		if (!startScene) return false;
+
+		recorder.begin({ seed, stepMs, inputs: liveInputs, startScene });
+		errorRef.current = null;
+		changeMode('recording');
+		refreshStatus();
+		return true;
+	}, [captureScene, recorder, seed, stepMs, liveInputs, changeMode, refreshStatus]);
+
+	const stopRecording = useCallback(() => {
+		if (modeRef.current !== 'recording') return;
+		const recording = recorder.finish();
+		if (recording) recordingRef.current = recording;
+		changeMode('idle');
+		refreshStatus();
+	}, [recorder, changeMode, refreshStatus]);
+
+	const startReplay = useCallback(() => {
+		const recording = recordingRef.current;
+		if (modeRef.current !== 'idle' || !recording) return;
+
+		preReplayTogglesRef.current = readToggles(debugOptionRefsRef.current);
+		playerRef.current = new InputPlayer(recording);
+		activeTrackerRef.current = replayTracker;
+		errorRef.current = null;
+		changeMode('replaying');
+		refreshStatus();
+	}, [replayTracker, changeMode, refreshStatus]);
+
+	// Player controls act on the next frame; the status refresh shows them immediately
+	const withPlayer = useCallback((action: (player: InputPlayer) => void) => {
+		const player = playerRef.current;
+		if (!player) return;
+		action(player);
+		refreshStatus();
+	}, [refreshStatus]);
+
+	const exportRecording = useCallback((): string | null => {
+		const recording = recordingRef.current;
+		return recording ? RecordingSerializer.stringify(recording) : null;
+	}, []);
+
+	const importRecording = useCallback((json: string): RecordingParseResult => {
+		const parsed = RecordingSerializer.parse(json);
+		if (!parsed.ok) return parsed;
+
+		stopRecording();
+		exitReplay();
+		recordingRef.current = parsed.recording;
+		errorRef.current = null;
+		refreshStatus();
+		return parsed;
+	}, [stopRecording, exitReplay, refreshStatus]);
+
+	const controls = useMemo((): InputReplayControls => ({
+		startRecording,
+		stopRecording,
+		startReplay,
+		exitReplay,
+		play: () => withPlayer((player) => player.play()),
+		pause: () => withPlayer((player) => player.pause()),
+		stepFrame: () => withPlayer((player) => player.stepFrame()),
+		setSpeed: (speed) => withPlayer((player) => player.setSpeed(speed)),
+		seek: (ms) => withPlayer((player) => player.seek(ms)),
+		exportRecording,
+		importRecording,
+	}), [startRecording, stopRecording, startReplay, exitReplay, withPlayer, exportRecording, importRecording]);
+
+	return useMemo(() => ({
+		isReplaying: mode === 'replaying',
+		status,
+		controls,
+		pointerTrackerRef: activeTrackerRef,
+		onBeforeStep,
+		planFrame,
+	}), [mode, status, controls, onBeforeStep, planFrame]);
+}
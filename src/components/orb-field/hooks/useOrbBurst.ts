@@ -15,8 +15,8 @@ import { type WindowSize } from '../shared/types';
 interface UseOrbBurstParams {
 	/** When true, triggers the orb burst explosion. */
 	triggerBurst: boolean;
-	/** Function to spawn burst of orbs. */
-	spawnOrbBurst: (centerX: number, centerY: number, grid: SpatialGrid, vpc: ViewportCells) => void;
+	/** Function to spawn burst of orbs (into the grid the refs below point to). */
+	spawnOrbBurst: (centerX: number, centerY: number) => void;
 	/** Current window dimensions. */
 	windowSize: WindowSize;
 	/** Ref to current scroll offset. */
@@ -25,6 +25,8 @@ interface UseOrbBurstParams {
 	gridRef: React.RefObject<SpatialGrid | null>;
 	/** Ref to viewport cells. */
 	viewportCellsRef: React.RefObject<ViewportCells | null>;
+	/** Returns the timestamp recorded as the burst time (same clock as the physics loop). */
+	getTime: () => number;
 }
 
 /**
@@ -48,6 +50,7 @@ export function useOrbBurst(params: UseOrbBurstParams): UseOrbBurstReturn {
 		currentScrollOffsetRef,
 		gridRef,
 		viewportCellsRef,
+		getTime,
 	} = params;
 
 	const burstTimeRef = useRef<number | null>(null);
@@ -56,6 +59,7 @@ export function useOrbBurst(params: UseOrbBurstParams): UseOrbBurstReturn {
 	// Use refs for potentially unstable dependencies to prevent effect re-runs
 	const spawnOrbBurstRef = useRef(spawnOrbBurst);
 	const windowSizeRef = useRef(windowSize);
+	const getTimeRef = useRef(getTime);
 
 	// Keep refs up to date
 	useEffect(() => {
@@ -66,6 +70,10 @@ export function useOrbBurst(params: UseOrbBurstParams): UseOrbBurstReturn {
 		windowSizeRef.current = windowSize;
 	}, [windowSize]);
 
+	useEffect(() => {
+		getTimeRef.current = getTime;
+	}, [getTime]);
+
 	useEffect(() => {
 		if (!triggerBurst || hasBurstRef.current) return;
 
@@ -80,8 +88,8 @@ export function useOrbBurst(params: UseOrbBurstParams): UseOrbBurstReturn {
 				hasBurstRef.current = true;
 				const centerX = (ws.width / 2) - currentScrollOffsetRef.current!.x;
 				const centerY = (ws.height / 2) - currentScrollOffsetRef.current!.y;
-				spawnOrbBurstRef.current(centerX, centerY, grid, vpc);
-				burstTimeRef.current = performance.now();
+				spawnOrbBurstRef.current(centerX, centerY);
+				burstTimeRef.current = getTimeRef.current();
 			} else {
 				requestAnimationFrame(checkAndBurst);
 			}
@@ -7,6 +7,7 @@
 import { useCallback, useState, useRef } from 'react';
 import { type GridConfig, type ViewportCells } from '../grid/types';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type PointerMode } from '../pointer';
 
 /**
  * Parameters for the interaction handlers hook.
@@ -22,6 +23,10 @@ interface UseOrbFieldInteractionsParams {
 	enableSpawnOnClickRef: React.RefObject<boolean>;
 	createOrb: (pxX: number, pxY: number, layer: number, size: number, grid: SpatialGrid, vpc: ViewportCells) => void;
 	deleteOrb: (id: string, grid: SpatialGrid, vpc: ViewportCells) => void;
+	/** Places an armed force field; returns false when no placement is armed. */
+	placeForceField?: (pxX: number, pxY: number) => boolean;
+	/** Active pointer mode; grab mode presses pick up orbs instead of spawning. */
+	pointerModeRef?: React.RefObject<PointerMode>;
 }
 
 /**
@@ -56,6 +61,8 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 		enableSpawnOnClickRef,
 		createOrb,
 		deleteOrb,
+		placeForceField,
+		pointerModeRef,
 	} = params;
 
 	const [hoveredCell, setHoveredCell] = useState<{ x: number; y: number; worldX: number; worldY: number } | null>(null);
@@ -85,12 +92,17 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 	const handleClick = useCallback((e: React.MouseEvent) => {
 		const vpc = viewportCellsRef.current;
 		const grid = gridRef.current;
-		if (!grid || !vpc || !isDebugMode || !enableSpawnOnClickRef.current) return;
+		if (!grid || !vpc || !isDebugMode) return;
 
 		const adjustedX = e.clientX - currentScrollOffsetRef.current.x;
 		const adjustedY = e.clientY - currentScrollOffsetRef.current.y;
+
+		// An armed force field placement consumes the click
+		if (placeForceField?.(adjustedX, adjustedY)) return;
+		if (!enableSpawnOnClickRef.current || pointerModeRef?.current === 'grab') return;
+
 		createOrb(adjustedX, adjustedY, currentLayerRef.current, orbSize, grid, vpc);
-	}, [orbSize, createOrb, isDebugMode, currentScrollOffsetRef, enableSpawnOnClickRef, viewportCellsRef, gridRef, currentLayerRef]);
+	}, [orbSize, createOrb, placeForceField, isDebugMode, currentScrollOffsetRef, enableSpawnOnClickRef, pointerModeRef, viewportCellsRef, gridRef, currentLayerRef]);
 
 	const handleDeleteOrb = useCallback((id: string) => {
 		const grid = gridRef.current;
@@ -127,11 +139,14 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 				setHoveredCell(cellInfo);
 			}
 
-			if (enableSpawnOnClickRef.current) {
+			if (placeForceField?.(adjustedX, adjustedY)) return;
+
+			// Only a single finger spawns; extra fingers are pointers for the interaction modes
+			if (enableSpawnOnClickRef.current && e.touches.length === 1 && pointerModeRef?.current !== 'grab') {
 				createOrb(adjustedX, adjustedY, currentLayerRef.current, orbSize, grid, vpc);
 			}
 		}
-	}, [orbSize, createOrb, isDebugMode, gridConfig, currentScrollOffsetRef, enableSpawnOnClickRef, viewportCellsRef, gridRef, currentLayerRef]);
+	}, [orbSize, createOrb, placeForceField, isDebugMode, gridConfig, currentScrollOffsetRef, enableSpawnOnClickRef, pointerModeRef, viewportCellsRef, gridRef, currentLayerRef]);
 
 	const handleTouchMove = useCallback((e: React.TouchEvent) => {
 		const vpc = viewportCellsRef.current;
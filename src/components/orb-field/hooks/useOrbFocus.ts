@@ -0,0 +1,62 @@
+"use client";
+
+// =============================================================================
+// useOrbFocus - Animated depth-of-field focal plane
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { OrbFocusAnimator } from '../orb/visuals/OrbFocusAnimator';
+import { type OrbFocalPlane } from '../orb/visuals/types';
+
+/**
+ * Return values from the orb focus hook.
+ */
+export interface UseOrbFocusReturn {
+	/** Layer the focus is on or moving to (React state for the debug menu). */
+	focusLayer: number;
+	/** Moves the focus to a layer at once (debug scrubbing). */
+	setFocusLayer: (layer: number) => void;
+	/** Ref to the animator the render loop samples each frame. */
+	focusAnimatorRef: React.RefObject<OrbFocusAnimator>;
+}
+
+/**
+ * Hook owning the focal plane animator.
+ *
+ * A new focalPlane prop starts a focus pull from wherever the focus is;
+ * a layer scrubbed in the debug menu applies immediately and holds until
+ * the prop next changes. Both run on the performance.now() clock the render
+ * loop samples with.
+ *
+ * Single Responsibility: Focal plane state only.
+ *
+ * @param focalPlane - Requested focal plane.
+ */
+export function useOrbFocus(focalPlane: OrbFocalPlane): UseOrbFocusReturn {
+	const { focusLayer: requestedLayer, aperture } = focalPlane;
+	const [animator] = useState(() => new OrbFocusAnimator(focalPlane));
+	const focusAnimatorRef = useRef(animator);
+	const [requested, setRequested] = useState(requestedLayer);
+	const [focusLayer, setFocusLayerState] = useState(requestedLayer);
+
+	// Adopt prop changes during render so the slider shows the new target
+	if (requestedLayer !== requested) {
+		setRequested(requestedLayer);
+		setFocusLayerState(requestedLayer);
+	}
+
+	useEffect(() => {
+		animator.setTarget({ focusLayer: requestedLayer, aperture }, performance.now());
+	}, [animator, requestedLayer, aperture]);
+
+	const setFocusLayer = useCallback((layer: number) => {
+		animator.setTarget({ focusLayer: layer, aperture: animator.target.aperture }, performance.now(), 0);
+		setFocusLayerState(layer);
+	}, [animator]);
+
+	return useMemo(() => ({
+		focusLayer,
+		setFocusLayer,
+		focusAnimatorRef,
+	}), [focusLayer, setFocusLayer]);
+}
@@ -0,0 +1,86 @@
+"use client";
+
+// =============================================================================
+// useOrbInspector - Live editing, history and follow state for the selected orb
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type OrbEdit } from '../orb/types';
+import { type OrbSimulation } from '../simulation';
+import { DEFAULT_ORB_INSPECTOR_CONFIG, OrbHistory, type OrbHistorySamples } from '../inspector';
+
+/**
+ * Options for the orb inspector hook.
+ */
+interface UseOrbInspectorOptions {
+	/** Simulation owning the orbs (edits go through it so the worker sees them). */
+	simulation: OrbSimulation;
+	/** Currently selected orb ID. */
+	selectedOrbId: string | null;
+	/** Whether the debug UI is shown (history is only sampled then). */
+	isDebugMode: boolean;
+}
+
+/**
+ * Return values from the orb inspector hook.
+ */
+export interface UseOrbInspectorReturn {
+	/** Speed and layer history of the selected orb, or null before the first sample. */
+	history: OrbHistorySamples | null;
+	/** Whether the follow marker is drawn around the selected orb. */
+	isFollowing: boolean;
+	/** Turns the follow marker on or off. */
+	setFollowing: (following: boolean) => void;
+	/** Ref mirroring isFollowing for render loop access. */
+	followSelectedOrbRef: React.RefObject<boolean>;
+	/** Applies an edit to the selected orb. */
+	editOrb: (edit: OrbEdit) => void;
+}
+
+/**
+ * Hook backing the orb inspector in the debug menu.
+ *
+ * History is sampled on a timer from the simulation's orbs rather than from
+ * React state, so the graph keeps its pace regardless of how often the
+ * selected orb snapshot re-renders.
+ *
+ * Single Responsibility: Inspector state and edit forwarding only.
+ */
+export function useOrbInspector(options: UseOrbInspectorOptions): UseOrbInspectorReturn {
+	const { simulation, selectedOrbId, isDebugMode } = options;
+
+	const [history, setHistory] = useState<OrbHistorySamples | null>(null);
+	const [isFollowing, setFollowing] = useState(false);
+	const [orbHistory] = useState(() => new OrbHistory(DEFAULT_ORB_INSPECTOR_CONFIG.historyLength));
+	const followSelectedOrbRef = useRef(isFollowing);
+
+	useEffect(() => {
+		followSelectedOrbRef.current = isFollowing;
+	}, [isFollowing]);
+
+	useEffect(() => {
+		if (!isDebugMode || !selectedOrbId) return;
+		const interval = window.setInterval(() => {
+			const orb = simulation.orbs.find((o) => o.id === selectedOrbId);
+			if (!orb) return;
+			orbHistory.record(orb.id, Math.hypot(orb.vx, orb.vy), orb.z);
+			setHistory(orbHistory.toSamples());
+		}, DEFAULT_ORB_INSPECTOR_CONFIG.sampleIntervalMs);
+		return () => window.clearInterval(interval);
+	}, [simulation, orbHistory, selectedOrbId, isDebugMode]);
+
+	const editOrb = useCallback((edit: OrbEdit) => {
+		if (selectedOrbId) simulation.editOrb(selectedOrbId, edit);
+	}, [simulation, selectedOrbId]);
+
+	// Samples recorded for a previous selection are hidden until the new orb's first sample
+	const selectedHistory = history && history.orbId === selectedOrbId ? history : null;
+
+	return useMemo(() => ({
+		history: selectedHistory,
+		isFollowing,
+		setFollowing,
+		followSelectedOrbRef,
+		editOrb,
+	}), [selectedHistory, isFollowing, editOrb]);
+}
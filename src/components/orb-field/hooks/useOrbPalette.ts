@@ -0,0 +1,51 @@
+"use client";
+
+// =============================================================================
+// useOrbPalette - Active orb palette with prop and debug menu control
+// =============================================================================
+
+import { useEffect, useMemo, useState } from 'react';
+import { type OrbSimulation } from '../simulation';
+import { ORB_PALETTES, type OrbPaletteId } from '../palette';
+
+/**
+ * Return values from the orb palette hook.
+ */
+export interface UseOrbPaletteReturn {
+	/** Active palette (React state for the debug menu). */
+	paletteId: OrbPaletteId;
+	/** Switches palette until the prop changes again. */
+	setPaletteId: (id: OrbPaletteId) => void;
+}
+
+/**
+ * Hook keeping the simulation's palette in sync with the component.
+ *
+ * The palette follows the prop (e.g. the active card); a palette picked in
+ * the debug menu holds until the prop next changes. The simulation
+ * cross-fades existing orbs, so switching is just a setPalette call.
+ *
+ * Single Responsibility: Palette selection only.
+ *
+ * @param simulation - Simulation whose palette is driven.
+ * @param palette - Requested palette.
+ */
+export function useOrbPalette(simulation: OrbSimulation, palette: OrbPaletteId): UseOrbPaletteReturn {
+	const [requested, setRequested] = useState<OrbPaletteId>(palette);
+	const [paletteId, setPaletteId] = useState<OrbPaletteId>(palette);
+
+	// Adopt prop changes during render (avoids a frame with the old palette)
+	if (palette !== requested) {
+		setRequested(palette);
+		setPaletteId(palette);
+	}
+
+	useEffect(() => {
+		simulation.setPalette(ORB_PALETTES[paletteId]);
+	}, [simulation, paletteId]);
+
+	return useMemo(() => ({
+		paletteId,
+		setPaletteId,
+	}), [paletteId]);
+}
@@ -0,0 +1,126 @@
+"use client";
+
+// =============================================================================
+// useOrbRenderer - Runtime choice between Canvas 2D and WebGL orb rendering
+// =============================================================================
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { OrbWebGLRenderer } from '../orb/visuals/OrbWebGLRenderer';
+import { OrbSpriteCache, type OrbSpriteCacheStats } from '../orb/visuals/OrbSpriteCache';
+import { type OrbRendererKind } from '../orb/visuals/types';
+
+/** Interval for refreshing sprite cache stats while they are displayed. */
+const STATS_REFRESH_MS = 500;
+
+/**
+ * Return values from the orb renderer hook.
+ */
+export interface UseOrbRendererReturn {
+	/** Requested renderer (React state for the debug menu). */
+	kind: OrbRendererKind;
+	/** Renderer actually drawing (canvas2d when WebGL is unavailable). Use as the visual canvas key. */
+	activeKind: OrbRendererKind;
+	/** Ref to the active renderer for render loop access. */
+	activeKindRef: React.RefObject<OrbRendererKind>;
+	/** Whether WebGL2 failed or is missing on this device. */
+	isWebGLUnavailable: boolean;
+	/** Why orbs fell back to Canvas 2D (for the debug menu), or null while WebGL is usable. */
+	webGLFallbackReason: string | null;
+	/** Switches renderer. */
+	setKind: (kind: OrbRendererKind) => void;
+	/** Returns the WebGL renderer bound to the canvas, or null after falling back to Canvas 2D. */
+	getWebGLRenderer: (canvas: HTMLCanvasElement) => OrbWebGLRenderer | null;
+	/** Ref to the glow sprite atlas used by the Canvas 2D path. */
+	spriteCacheRef: React.RefObject<OrbSpriteCache>;
+	/** Latest sprite cache hit rate and memory (refreshed while stats are shown). */
+	spriteCacheStats: OrbSpriteCacheStats;
+	/** Clears the sprite cache hit/miss counters. */
+	resetSpriteCacheStats: () => void;
+}
+
+/**
+ * Hook owning the orb renderer selection, the WebGL renderer instance and
+ * the Canvas 2D sprite atlas.
+ *
+ * The visual canvas must be remounted (keyed by activeKind) on every switch,
+ * because a canvas that handed out a 2D context can never hand out a WebGL
+ * one and vice versa. The WebGL renderer is created lazily on the first
+ * frame; if that fails or the context is lost, the hook falls back to
+ * Canvas 2D for the rest of the session. The Canvas 2D path draws from a
+ * sprite atlas that lives as long as the component.
+ *
+ * Single Responsibility: Renderer selection and renderer resource lifetime only.
+ *
+ * @param initialKind - Renderer on mount.
+ * @param showStats - Whether to refresh sprite cache stats periodically.
+ */
+export function useOrbRenderer(initialKind: OrbRendererKind, showStats: boolean): UseOrbRendererReturn {
+	const [kind, setKind] = useState<OrbRendererKind>(initialKind);
+	const [webGLFallbackReason, setWebGLFallbackReason] = useState<string | null>(
+		() => OrbWebGLRenderer.isSupported() ? null : 'WebGL2 not supported'
+	);
+	const isWebGLUnavailable = webGLFallbackReason !== null;
+	const activeKind: OrbRendererKind = kind === 'webgl' && !isWebGLUnavailable ? 'webgl' : 'canvas2d';
+	const activeKindRef = useRef<OrbRendererKind>(activeKind);
+	const rendererRef = useRef<OrbWebGLRenderer | null>(null);
+	const [spriteCache] = useState(() => new OrbSpriteCache());
+	const spriteCacheRef = useRef(spriteCache);
+	const [spriteCacheStats, setSpriteCacheStats] = useState<OrbSpriteCacheStats>(() => spriteCache.getStats());
+
+	// Layout effect so no frame draws the freshly keyed canvas with the old renderer
+	useLayoutEffect(() => {
+		activeKindRef.current = activeKind;
+	}, [activeKind]);
+
+	// Runs after the old canvas left the document, so its context is released too
+	useEffect(() => {
+		return () => {
+			rendererRef.current?.dispose();
+			rendererRef.current = null;
+		};
+	}, [activeKind]);
+
+	useEffect(() => {
+		if (!showStats) return;
+		const interval = window.setInterval(() => setSpriteCacheStats(spriteCache.getStats()), STATS_REFRESH_MS);
+		return () => window.clearInterval(interval);
+	}, [spriteCache, showStats]);
+
+	const resetSpriteCacheStats = useCallback(() => {
+		spriteCache.resetStats();
+		setSpriteCacheStats(spriteCache.getStats());
+	}, [spriteCache]);
+
+	const getWebGLRenderer = useCallback((canvas: HTMLCanvasElement): OrbWebGLRenderer | null => {
+		let renderer = rendererRef.current;
+		if (renderer && renderer.canvas !== canvas) {
+			renderer.dispose();
+			renderer = null;
+		}
+		renderer ??= OrbWebGLRenderer.create(canvas);
+
+		if (!renderer || renderer.isContextLost) {
+			setWebGLFallbackReason(renderer ? 'context lost' : OrbWebGLRenderer.failureReason ?? 'renderer creation failed');
+			renderer?.dispose();
+			rendererRef.current = null;
+			activeKindRef.current = 'canvas2d';
+			return null;
+		}
+
+		rendererRef.current = renderer;
+		return renderer;
+	}, []);
+
+	return useMemo(() => ({
+		kind,
+		activeKind,
+		activeKindRef,
+		isWebGLUnavailable,
+		webGLFallbackReason,
+		setKind,
+		getWebGLRenderer,
+		spriteCacheRef,
+		spriteCacheStats,
+		resetSpriteCacheStats,
+	}), [kind, activeKind, isWebGLUnavailable, webGLFallbackReason, getWebGLRenderer, spriteCacheStats, resetSpriteCacheStats]);
+}
@@ -0,0 +1,24 @@
+"use client";
+
+// =============================================================================
+// useOrbSimulation - Creates the OrbSimulation behind an OrbField
+// =============================================================================
+
+import { useState } from 'react';
+import { OrbSimulation, type OrbSimulationOptions } from '../simulation';
+
+/**
+ * Creates one OrbSimulation for the component lifetime.
+ *
+ * Options are read once on mount; the grid is attached later by
+ * useGridInitialization and the roster callback by useOrbManager.
+ *
+ * Single Responsibility: Simulation instance ownership only.
+ *
+ * @param options - Random source and spawn configuration.
+ * @returns The stable simulation instance.
+ */
+export function useOrbSimulation(options: OrbSimulationOptions = {}): OrbSimulation {
+	const [simulation] = useState(() => new OrbSimulation(options));
+	return simulation;
+}
@@ -0,0 +1,47 @@
+"use client";
+
+// =============================================================================
+// useOrbTrails - Orb trail mode and trail history lifetime
+// =============================================================================
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { OrbTrails } from '../orb/visuals/OrbTrails';
+import { type OrbTrailMode } from '../orb/visuals/types';
+
+/**
+ * Return values from the orb trails hook.
+ */
+export interface UseOrbTrailsReturn {
+	/** Active trail mode (React state for the debug menu). */
+	mode: OrbTrailMode;
+	/** Switches trail mode. */
+	setMode: (mode: OrbTrailMode) => void;
+	/** Ref to the trail generator for render loop access. */
+	trailsRef: React.RefObject<OrbTrails>;
+}
+
+/**
+ * Hook owning the trail generator of the Canvas 2D renderer.
+ *
+ * The generator keeps per-orb position history across frames, so it lives
+ * as long as the component; the mode is pushed into it on change.
+ *
+ * Single Responsibility: Trail mode state only.
+ *
+ * @param initialMode - Trail mode on mount.
+ */
+export function useOrbTrails(initialMode: OrbTrailMode): UseOrbTrailsReturn {
+	const [mode, setMode] = useState<OrbTrailMode>(initialMode);
+	const [trails] = useState(() => new OrbTrails());
+	const trailsRef = useRef(trails);
+
+	useEffect(() => {
+		trails.setMode(mode);
+	}, [trails, mode]);
+
+	return useMemo(() => ({
+		mode,
+		setMode,
+		trailsRef,
+	}), [mode]);
+}
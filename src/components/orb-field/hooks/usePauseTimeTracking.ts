@@ -1,7 +1,7 @@
 "use client";
 
 // =============================================================================
-// usePauseTimeTracking - Tracks pause/resume time offsets
+// usePauseTimeTracking - Tracks pause/resume time offsets and the time scale
 // =============================================================================
 
 import { useRef, useCallback } from 'react';
@@ -14,22 +14,43 @@ export interface PauseTimeRefs {
 	pausedTimeOffsetRef: React.RefObject<number>;
 }
 
+/**
+ * Time scale refs. The effective clock runs at timeScale times the unpaused
+ * clock since the anchor, plus the drift accumulated under earlier scales.
+ */
+export interface TimeScaleRefs {
+	/** Speed of the effective clock relative to real time (1 = real time). */
+	timeScaleRef: React.RefObject<number>;
+	/** Unpaused clock time when the current scale took effect. */
+	timeScaleAnchorRef: React.RefObject<number>;
+	/** Effective minus unpaused clock time at the anchor. */
+	timeScaleDriftRef: React.RefObject<number>;
+}
+
 /**
  * Return values from the pause time tracking hook.
  */
-export interface UsePauseTimeTrackingReturn extends PauseTimeRefs {
+export interface UsePauseTimeTrackingReturn extends PauseTimeRefs, TimeScaleRefs {
 	/** Handles pause state change. */
 	handlePauseChange: (wasPaused: boolean, isPaused: boolean) => void;
+	/** Changes the speed of the effective clock without making it jump. */
+	setTimeScale: (scale: number) => void;
+	/** Moves the frozen clock forward while paused (single stepping). */
+	advancePausedTime: (ms: number) => void;
 }
 
 /**
- * Tracks pause time offset for animation freezing.
+ * Tracks pause time offset for animation freezing, and the time scale for
+ * slow motion and fast forward.
  * 
- * Single Responsibility: Pause time tracking only.
+ * Single Responsibility: Pause and time scale tracking only.
  */
 export function usePauseTimeTracking(): UsePauseTimeTrackingReturn {
 	const pausedAtTimeRef = useRef<number | null>(null);
 	const pausedTimeOffsetRef = useRef(0);
+	const timeScaleRef = useRef(1);
+	const timeScaleAnchorRef = useRef(0);
+	const timeScaleDriftRef = useRef(0);
 
 	/**
 	 * Handles pause state changes, updating time offsets.
@@ -45,26 +66,59 @@ export function usePauseTimeTracking(): UsePauseTimeTrackingReturn {
 		}
 	}, []);
 
+	const setTimeScale = useCallback((scale: number): void => {
+		const unpaused = (pausedAtTimeRef.current ?? performance.now()) - pausedTimeOffsetRef.current;
+		const effective = applyTimeScale(unpaused, timeScaleRef, timeScaleAnchorRef, timeScaleDriftRef);
+		timeScaleAnchorRef.current = unpaused;
+		timeScaleDriftRef.current = effective - unpaused;
+		timeScaleRef.current = scale;
+	}, []);
+
+	const advancePausedTime = useCallback((ms: number): void => {
+		// The frozen clock is unscaled, so move it by the unscaled equivalent
+		if (pausedAtTimeRef.current !== null) pausedAtTimeRef.current += ms / timeScaleRef.current;
+	}, []);
+
 	return {
 		pausedAtTimeRef,
 		pausedTimeOffsetRef,
+		timeScaleRef,
+		timeScaleAnchorRef,
+		timeScaleDriftRef,
 		handlePauseChange,
+		setTimeScale,
+		advancePausedTime,
 	};
 }
 
+/**
+ * Maps unpaused clock time to scaled effective time.
+ */
+function applyTimeScale(
+	unpaused: number,
+	timeScaleRef: React.RefObject<number>,
+	timeScaleAnchorRef: React.RefObject<number>,
+	timeScaleDriftRef: React.RefObject<number>
+): number {
+	return unpaused + timeScaleDriftRef.current + (unpaused - timeScaleAnchorRef.current) * (timeScaleRef.current - 1);
+}
+
 /**
  * Get the effective time for animations.
  * When paused, returns the frozen time (time at pause).
- * When not paused, returns current time minus accumulated pause duration.
+ * When not paused, returns current time minus accumulated pause duration,
+ * running at the time scale when scale refs are given.
  */
 export function getEffectiveTime(
 	pausePhysicsRef: React.RefObject<boolean>,
 	pausedAtTimeRef: React.RefObject<number | null>,
-	pausedTimeOffsetRef: React.RefObject<number>
+	pausedTimeOffsetRef: React.RefObject<number>,
+	timeScale?: TimeScaleRefs
 ): number {
 	const now = performance.now();
-	if (pausePhysicsRef.current && pausedAtTimeRef.current !== null) {
-		return pausedAtTimeRef.current - pausedTimeOffsetRef.current;
-	}
-	return now - pausedTimeOffsetRef.current;
+	const unpaused = pausePhysicsRef.current && pausedAtTimeRef.current !== null
+		? pausedAtTimeRef.current - pausedTimeOffsetRef.current
+		: now - pausedTimeOffsetRef.current;
+	if (!timeScale) return unpaused;
+	return applyTimeScale(unpaused, timeScale.timeScaleRef, timeScale.timeScaleAnchorRef, timeScale.timeScaleDriftRef);
 }
@@ -6,30 +6,25 @@
 
 import { useCallback } from 'react';
 import { type PhysicsContext } from './types';
-import { SpatialGrid } from '../grid/core/SpatialGrid';
-import { type ViewportCells } from '../grid/types';
-import {
-	PhaseGridMarking,
-	PhaseMouseRepulsion,
-	PhaseSpeedLimit,
-	PhaseWander,
-	PhaseLayerAttraction,
-	PhaseOrbInteraction,
-	PhaseWallCollision,
-	PhaseExpiration,
-	PhaseContinuousSpawn,
-} from '../physics';
+import { type OrbSimulation } from '../simulation';
 
 /**
  * Options for the physics loop hook.
  */
 interface UsePhysicsLoopOptions {
+	/** Simulation that owns the orbs and grid. */
+	simulation: OrbSimulation;
 	/** Returns the current effective time (for pause/resume). */
 	getEffectiveTime: () => number;
-	/** Spawns random orbs at random positions. */
-	spawnRandomOrbs: (count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells) => number;
-	/** Syncs React state with orbsRef. */
-	syncOrbsState: () => void;
+	/** Advances the simulation clock after each unpaused step (see useSimulationSeed). */
+	advanceTime?: (deltaTime: number) => void;
+	/**
+	 * Optional off-main-thread runner (see usePhysicsWorker).
+	 * When it returns false the phases run inline instead.
+	 */
+	runWorkerPhysics?: (context: PhysicsContext) => boolean;
+	/** Called before each step once the reveal has finished (input replay feeds recorded input here). */
+	onBeforeStep?: () => void;
 }
 
 /**
@@ -42,88 +37,54 @@ export interface UsePhysicsLoopReturn {
 
 /**
  * Hook for orchestrating orb physics simulation phases.
- * 
+ * Reads the per-frame input from refs and hands it to OrbSimulation.step.
+ *
  * Single Responsibility: Physics phase orchestration only.
  */
 export function usePhysicsLoop(options: UsePhysicsLoopOptions): UsePhysicsLoopReturn {
-	const { getEffectiveTime, spawnRandomOrbs, syncOrbsState } = options;
+	const { simulation, getEffectiveTime, advanceTime, runWorkerPhysics, onBeforeStep } = options;
 
-	const runPhysics = useCallback((context: PhysicsContext) => {
+	const runInline = useCallback((context: PhysicsContext) => {
 		const {
 			easedProgress,
 			deltaTime,
-			orbsRef,
-			grid,
-			vpc,
 			windowSize,
-			mousePosRef,
+			pointerTrackerRef,
 			isPageVisibleRef,
 			burstTimeRef,
 			pausePhysicsRef,
-			disableCollisionsRef,
-			disableAvoidanceRef,
 			enableOrbSpawningRef,
 			enableOrbDespawningRef,
 			currentScrollOffsetRef,
 		} = context;
 
-		if (easedProgress >= 1 && !pausePhysicsRef.current) {
-			const currentOrbs = orbsRef.current;
-
-			// Phase 1: Mark all orbs at current positions
-			PhaseGridMarking.markInitial(currentOrbs, grid, vpc);
-
-			// Phase 2: Apply mouse repulsion (adjust mouse position for parallax offset)
-			const scrollOffset = currentScrollOffsetRef.current;
-			PhaseMouseRepulsion.execute(currentOrbs, mousePosRef.current, deltaTime, disableAvoidanceRef.current, scrollOffset);
-
-			// Phase 3: Apply speed limits
-			PhaseSpeedLimit.execute(currentOrbs, deltaTime);
-
-			// Phase 4: Apply wander behavior
-			PhaseWander.execute(currentOrbs, deltaTime);
+		if (easedProgress < 1) return;
 
-			// Phase 5: Apply layer attraction
-			PhaseLayerAttraction.execute(currentOrbs, grid.config.layers, deltaTime);
-
-			// Phase 5.5-5.6: Apply orb-orb interactions
-			PhaseOrbInteraction.execute(currentOrbs, vpc, deltaTime, disableAvoidanceRef.current, disableCollisionsRef.current);
-
-			// Phase 6-6.5: Check wall collisions and unstick
-			PhaseWallCollision.execute(currentOrbs, grid, vpc, deltaTime);
+		simulation.step(deltaTime, {
+			windowSize,
+			now: getEffectiveTime(),
+			pointers: pointerTrackerRef.current.read(performance.now()),
+			scrollOffset: currentScrollOffsetRef.current,
+			isPageVisible: isPageVisibleRef.current,
+			burstTime: burstTimeRef.current,
+			pausePhysics: pausePhysicsRef.current,
+			enableOrbSpawning: enableOrbSpawningRef.current,
+			enableOrbDespawning: enableOrbDespawningRef.current,
+		});
+	}, [simulation, getEffectiveTime]);
 
-			// Phase 8: Re-mark at new positions
-			PhaseGridMarking.markFinal(currentOrbs, grid, vpc);
+	const runPhysics = useCallback((context: PhysicsContext) => {
+		if (onBeforeStep && context.easedProgress >= 1) onBeforeStep();
 
-			// Phase 9: Remove expired orbs
-			const now = getEffectiveTime();
-			PhaseExpiration.execute(
-				orbsRef,
-				grid,
-				vpc,
-				now,
-				enableOrbDespawningRef.current,
-				syncOrbsState
-			);
+		// Worker mode handles the frame itself; fall through to inline when unavailable
+		if (!runWorkerPhysics || !runWorkerPhysics(context)) {
+			runInline(context);
+		}
 
-			// Phase 10: Continuous spawning
-			PhaseContinuousSpawn.execute(
-				orbsRef,
-				grid,
-				vpc,
-				windowSize,
-				now,
-				burstTimeRef.current,
-				isPageVisibleRef.current,
-				enableOrbSpawningRef.current,
-				spawnRandomOrbs,
-				deltaTime
-			);
-		} else if (easedProgress >= 1 && pausePhysicsRef.current) {
-			// When paused, still mark orbs for rendering
-			PhaseGridMarking.markInitial(orbsRef.current, grid, vpc);
+		if (advanceTime && context.easedProgress >= 1 && !context.pausePhysicsRef.current) {
+			advanceTime(context.deltaTime);
 		}
-	}, [getEffectiveTime, spawnRandomOrbs, syncOrbsState]);
+	}, [runInline, runWorkerPhysics, advanceTime, onBeforeStep]);
 
 	return {
 		runPhysics,
@@ -0,0 +1,55 @@
+"use client";
+
+// =============================================================================
+// usePhysicsPipeline - Mirrors a PhysicsPipeline into React state
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { type PhysicsPipeline, type PhysicsPhaseInfo } from '../physics';
+
+/** Interval for refreshing phase timings while they are displayed. */
+const TIMING_REFRESH_MS = 500;
+
+/**
+ * Return values from the physics pipeline hook.
+ */
+export interface UsePhysicsPipelineReturn {
+	/** Registered phases in execution order, with flags and timings. */
+	phases: PhysicsPhaseInfo[];
+	/** Enables or disables a phase by ID. */
+	setPhaseEnabled: (id: string, enabled: boolean) => void;
+}
+
+/**
+ * Hook exposing a pipeline's phases for the debug menu.
+ *
+ * Registration and toggles update immediately; timings are polled only while
+ * showTimings is true so the hook costs nothing outside debug mode.
+ *
+ * Single Responsibility: Pipeline to UI state sync only.
+ *
+ * @param pipeline - Pipeline to mirror (usually simulation.pipeline).
+ * @param showTimings - Whether to refresh phase timings periodically.
+ */
+export function usePhysicsPipeline(pipeline: PhysicsPipeline, showTimings: boolean): UsePhysicsPipelineReturn {
+	const [phases, setPhases] = useState<PhysicsPhaseInfo[]>(() => pipeline.getPhases());
+
+	useEffect(() => {
+		return pipeline.subscribe(() => setPhases(pipeline.getPhases()));
+	}, [pipeline]);
+
+	useEffect(() => {
+		if (!showTimings) return;
+		const interval = window.setInterval(() => setPhases(pipeline.getPhases()), TIMING_REFRESH_MS);
+		return () => window.clearInterval(interval);
+	}, [pipeline, showTimings]);
+
+	const setPhaseEnabled = useCallback((id: string, enabled: boolean) => {
+		pipeline.setEnabled(id, enabled);
+	}, [pipeline]);
+
+	return useMemo(() => ({
+		phases,
+		setPhaseEnabled,
+	}), [phases, setPhaseEnabled]);
+}
@@ -0,0 +1,300 @@
+"use client";
+
+// =============================================================================
+// usePhysicsWorker - Runs the physics simulation in a Web Worker
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type PhysicsContext } from './types';
+import { type Orb } from '../orb/types';
+import { type GridConfig, type ViewportCells } from '../grid/types';
+import { PhaseGridMarking } from '../physics';
+import { type OrbSimulation } from '../simulation';
+import {
+	OrbSnapshot,
+	type PhysicsWorkerRequest,
+	type PhysicsWorkerResponse,
+	type PhysicsWorkerSnapshotMessage,
+	type PhysicsWorkerStatus,
+} from '../worker';
+
+/**
+ * Options for the physics worker hook.
+ */
+interface UsePhysicsWorkerOptions {
+	/** Whether worker mode is requested (feature flag). */
+	enabled: boolean;
+	/** Current grid configuration (worker grid is rebuilt when it changes). */
+	gridConfig: GridConfig | null;
+	/** Current viewport cell metrics. */
+	viewportCells: ViewportCells | null;
+	/** Returns the current effective time (for pause/resume). */
+	getEffectiveTime: () => number;
+	/** Seed for the worker's random source. */
+	seed: number;
+	/** Main thread simulation whose phase toggles, force fields, obstacles and shapes are mirrored into the worker. */
+	simulation: OrbSimulation;
+	/** Syncs React state with orbsRef. */
+	syncOrbsState: () => void;
+}
+
+/**
+ * Return values from the physics worker hook.
+ */
+export interface UsePhysicsWorkerReturn {
+	/**
+	 * Runs one frame through the worker.
+	 * Returns false when the worker is disabled, not ready or has failed,
+	 * in which case the caller should run the inline physics loop instead.
+	 */
+	runWorkerPhysics: (context: PhysicsContext) => boolean;
+	/** Whether the worker is currently driving the simulation. */
+	isWorkerActiveRef: React.RefObject<boolean>;
+	/** Worker state and fallback reason for the debug menu. */
+	status: PhysicsWorkerStatus;
+}
+
+/**
+ * Hook for running orb physics off the main thread.
+ *
+ * The worker owns the authoritative orb array and SpatialGrid. Each frame the
+ * latest snapshot is applied to orbsRef (which becomes a render mirror), orbs
+ * added, removed or edited on the main thread are forwarded, and the next step is
+ * posted with mouse and parallax input. Only one step is in flight at a time;
+ * frame time accumulates until the worker replies.
+ *
+ * Single Responsibility: Worker lifecycle and main thread synchronization only.
+ */
+export function usePhysicsWorker(options: UsePhysicsWorkerOptions): UsePhysicsWorkerReturn {
+	const { enabled, gridConfig, viewportCells, getEffectiveTime, seed, simulation, syncOrbsState } = options;
+
+	const workerRef = useRef<Worker | null>(null);
+	const isWorkerActiveRef = useRef(false);
+	const isGridReadyRef = useRef(false);
+
+	// Step bookkeeping
+	const seqRef = useRef(0);
+	const inFlightRef = useRef(false);
+	const pendingDeltaRef = useRef(0);
+	const latestSnapshotRef = useRef<PhysicsWorkerSnapshotMessage | null>(null);
+	const spareBufferRef = useRef<ArrayBuffer | null>(null);
+
+	// Mirror bookkeeping for forwarding main thread edits
+	const mirrorRef = useRef<Orb[]>([]);
+	const mirrorLengthRef = useRef(0);
+	const minAcceptedSeqRef = useRef(0);
+	const needsIdsRef = useRef(true);
+	const reportedCustomPhasesRef = useRef(false);
+
+	const [active, setActive] = useState(false);
+	const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+	const [skipsCustomPhases, setSkipsCustomPhases] = useState(false);
+
+	// Worker lifecycle
+	useEffect(() => {
+		if (!enabled || typeof Worker === 'undefined') return;
+
+		let worker: Worker;
+		try {
+			worker = new Worker(new URL('../worker/orbPhysics.worker.ts', import.meta.url), { type: 'module' });
+		} catch (error) {
+			// Status updates are deferred out of the effect body; the inline loop runs meanwhile
+			const reason = error instanceof Error ? error.message : String(error);
+			const timeout = window.setTimeout(() => setFallbackReason(`unavailable: ${reason}`));
+			return () => window.clearTimeout(timeout);
+		}
+
+		const stopWorker = (reason: string) => {
+			worker.terminate();
+			if (workerRef.current === worker) {
+				workerRef.current = null;
+				isWorkerActiveRef.current = false;
+				setActive(false);
+				setFallbackReason(`failed: ${reason}`);
+			}
+		};
+
+		worker.onmessage = (event: MessageEvent<PhysicsWorkerResponse>) => {
+			const message = event.data;
+			if (message.type === 'error') {
+				stopWorker(message.message);
+				return;
+			}
+			latestSnapshotRef.current = message;
+			inFlightRef.current = false;
+		};
+		worker.onerror = (event) => stopWorker(event.message || 'script error');
+		worker.onmessageerror = () => stopWorker('message deserialization failed');
+
+		workerRef.current = worker;
+		isWorkerActiveRef.current = true;
+		// Deferred like the failure report above
+		const timeout = window.setTimeout(() => {
+			if (workerRef.current !== worker) return;
+			setActive(true);
+			setFallbackReason(null);
+		});
+
+		// Fresh worker starts empty - every orb on the main thread must be forwarded
+		mirrorRef.current = [];
+		mirrorLengthRef.current = 0;
+		needsIdsRef.current = true;
+
+		return () => {
+			window.clearTimeout(timeout);
+			worker.terminate();
+			workerRef.current = null;
+			isWorkerActiveRef.current = false;
+			setActive(false);
+			isGridReadyRef.current = false;
+			inFlightRef.current = false;
+			pendingDeltaRef.current = 0;
+			latestSnapshotRef.current = null;
+			spareBufferRef.current = null;
+		};
+	}, [enabled]);
+
+	// Rebuild the worker grid whenever the main thread grid changes
+	useEffect(() => {
+		const worker = workerRef.current;
+		if (!worker || !gridConfig || !viewportCells) return;
+
+		const message: PhysicsWorkerRequest = {
+			type: 'init',
+			gridConfig,
+			vpc: viewportCells,
+			seed,
+		};
+		worker.postMessage(message);
+		isGridReadyRef.current = true;
+	}, [enabled, gridConfig, viewportCells, seed]);
+
+	/**
+	 * Forwards orbs added, removed or edited on the main thread (click spawn,
+	 * burst, delete, inspector). Snapshots from steps posted before the edit
+	 * are then ignored so they cannot overwrite the edit with stale state.
+	 */
+	const forwardMainThreadEdits = useCallback((worker: Worker, orbs: Orb[]) => {
+		const mirror = mirrorRef.current;
+		if (orbs !== mirror || orbs.length !== mirrorLengthRef.current) {
+			// Compared by object, so an orb replaced under the same ID (scene load) is resent
+			const mirrorById = new Map(mirror.map((orb) => [orb.id, orb]));
+			const currentById = new Map(orbs.map((orb) => [orb.id, orb]));
+			const added = orbs.filter((orb) => mirrorById.get(orb.id) !== orb);
+			const removedIds = mirror.filter((orb) => currentById.get(orb.id) !== orb).map((orb) => orb.id);
+
+			if (removedIds.length > 0) {
+				const message: PhysicsWorkerRequest = { type: 'removeOrbs', ids: removedIds };
+				worker.postMessage(message);
+			}
+			if (added.length > 0) {
+				const message: PhysicsWorkerRequest = { type: 'addOrbs', orbs: added };
+				worker.postMessage(message);
+			}
+
+			mirrorRef.current = orbs;
+			mirrorLengthRef.current = orbs.length;
+			minAcceptedSeqRef.current = seqRef.current + 1;
+		}
+
+		// After additions, so edits to a just-created orb find it in the worker
+		const edits = simulation.takeOrbEdits();
+		if (edits) {
+			const message: PhysicsWorkerRequest = { type: 'editOrbs', edits };
+			worker.postMessage(message);
+			minAcceptedSeqRef.current = seqRef.current + 1;
+		}
+	}, [simulation]);
+
+	const runWorkerPhysics = useCallback((context: PhysicsContext): boolean => {
+		const worker = workerRef.current;
+		if (!worker || !isWorkerActiveRef.current || !isGridReadyRef.current) return false;
+
+		const { easedProgress, deltaTime, orbsRef, grid, vpc } = context;
+		if (easedProgress < 1) return true;
+
+		// Apply the latest snapshot to the render mirror
+		const snapshot = latestSnapshotRef.current;
+		if (snapshot) {
+			latestSnapshotRef.current = null;
+			simulation.collisionCounters.merge(snapshot.collisionCounters);
+			if (snapshot.seq < minAcceptedSeqRef.current) {
+				// Stale snapshot - a roster change it carried must be resent
+				if (snapshot.ids) needsIdsRef.current = true;
+			} else if (!snapshot.ids && snapshot.count !== orbsRef.current.length) {
+				needsIdsRef.current = true;
+			} else {
+				const previous = orbsRef.current;
+				orbsRef.current = OrbSnapshot.apply(snapshot.buffer, snapshot.count, snapshot.ids, previous);
+				mirrorRef.current = orbsRef.current;
+				mirrorLengthRef.current = orbsRef.current.length;
+				if (orbsRef.current !== previous) {
+					syncOrbsState();
+				}
+			}
+			spareBufferRef.current = snapshot.buffer;
+		}
+
+		forwardMainThreadEdits(worker, orbsRef.current);
+
+		// Main thread grid is only needed for debug cell overlays and click spawn validation
+		if (context.isDebugModeRef.current) {
+			simulation.syncObstacles(context.currentScrollOffsetRef.current);
+			PhaseGridMarking.markInitial(orbsRef.current, grid, vpc);
+		}
+
+		pendingDeltaRef.current += deltaTime;
+		if (inFlightRef.current) return true;
+
+		// Custom phases are main thread closures; the worker only knows the built-in ones
+		if (!reportedCustomPhasesRef.current && simulation.pipeline.hasCustomPhases()) {
+			reportedCustomPhasesRef.current = true;
+			setSkipsCustomPhases(true);
+		}
+
+		seqRef.current += 1;
+		const buffer = spareBufferRef.current;
+		spareBufferRef.current = null;
+
+		const message: PhysicsWorkerRequest = {
+			type: 'step',
+			seq: seqRef.current,
+			buffer,
+			includeIds: needsIdsRef.current,
+			disabledPhases: simulation.pipeline.getDisabledIds(),
+			frame: {
+				windowSize: context.windowSize,
+				deltaTime: pendingDeltaRef.current,
+				now: getEffectiveTime(),
+				pointers: context.pointerTrackerRef.current.read(performance.now()),
+				pointerMode: simulation.pointer.mode,
+				pointerConfig: simulation.pointer.config,
+				scrollOffset: context.currentScrollOffsetRef.current,
+				forceFields: simulation.forceFields.list,
+				obstacles: simulation.obstacles,
+				shapes: simulation.shapeMasks,
+				isPageVisible: context.isPageVisibleRef.current,
+				burstTime: context.burstTimeRef.current,
+				pausePhysics: context.pausePhysicsRef.current,
+				enableOrbSpawning: context.enableOrbSpawningRef.current,
+				enableOrbDespawning: context.enableOrbDespawningRef.current,
+				orbCountScale: simulation.orbCountScale,
+				palette: simulation.palette,
+			},
+		};
+		worker.postMessage(message, buffer ? [buffer] : []);
+
+		inFlightRef.current = true;
+		pendingDeltaRef.current = 0;
+		needsIdsRef.current = false;
+		return true;
+	}, [getEffectiveTime, simulation, syncOrbsState, forwardMainThreadEdits]);
+
+	const status = useMemo(() => ({ active, fallbackReason, skipsCustomPhases }), [active, fallbackReason, skipsCustomPhases]);
+
+	return {
+		runWorkerPhysics,
+		isWorkerActiveRef,
+		status,
+	};
+}
@@ -0,0 +1,66 @@
+"use client";
+
+// =============================================================================
+// usePointerInteraction - Pointer mode and per-mode parameter state
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+	type PointerInteraction,
+	type PointerInteractionConfig,
+	type PointerMode,
+} from '../pointer';
+
+/**
+ * Return values from the pointer interaction hook.
+ */
+export interface UsePointerInteractionReturn {
+	/** Active mode (React state for the debug menu). */
+	mode: PointerMode;
+	/** Ref to the active mode for event handler access. */
+	modeRef: React.RefObject<PointerMode>;
+	/** Switches mode. */
+	setMode: (mode: PointerMode) => void;
+	/** Parameters for every mode. */
+	config: PointerInteractionConfig;
+	/** Overwrites parameters of one mode. */
+	updateModeConfig: <M extends PointerMode>(mode: M, changes: Partial<PointerInteractionConfig[M]>) => void;
+}
+
+/**
+ * Hook owning the pointer mode and parameters of a simulation.
+ *
+ * Changes are pushed into the simulation's PointerInteraction, which the
+ * inline loop reads directly and the worker receives with every frame.
+ *
+ * Single Responsibility: Pointer mode UI state only.
+ *
+ * @param pointer - Interaction owned by the simulation.
+ * @param initialMode - Mode on mount.
+ */
+export function usePointerInteraction(pointer: PointerInteraction, initialMode: PointerMode): UsePointerInteractionReturn {
+	const [mode, setMode] = useState<PointerMode>(initialMode);
+	const [config, setConfig] = useState<PointerInteractionConfig>(() => pointer.config);
+	const modeRef = useRef<PointerMode>(initialMode);
+
+	useEffect(() => {
+		modeRef.current = mode;
+		pointer.setMode(mode);
+	}, [pointer, mode]);
+
+	useEffect(() => {
+		pointer.setConfig(config);
+	}, [pointer, config]);
+
+	const updateModeConfig = useCallback(<M extends PointerMode>(target: M, changes: Partial<PointerInteractionConfig[M]>) => {
+		setConfig((prev) => ({ ...prev, [target]: { ...prev[target], ...changes } }));
+	}, []);
+
+	return useMemo(() => ({
+		mode,
+		modeRef,
+		setMode,
+		config,
+		updateModeConfig,
+	}), [mode, config, updateModeConfig]);
+}
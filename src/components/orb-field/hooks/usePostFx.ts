@@ -0,0 +1,65 @@
+"use client";
+
+// =============================================================================
+// usePostFx - Post-processing stage state and renderer lifetime
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePrefersReducedMotion } from '@/hooks';
+import { PostFxRenderer } from '../postfx/PostFxRenderer';
+import { DEFAULT_POSTFX_CONFIG, type PostFxConfig } from '../postfx/PostFxConfig';
+import { type PostFxEffect } from '../postfx/types';
+
+/**
+ * Return values from the post-processing hook.
+ */
+export interface UsePostFxReturn {
+	/** Effect settings (React state for the debug menu). */
+	config: PostFxConfig;
+	/** Turns one effect on or off. */
+	toggleEffect: (effect: PostFxEffect) => void;
+	/** Whether the user asked for reduced motion (the stage stays off). */
+	isReducedMotion: boolean;
+	/** Ref to the renderer for render loop access. */
+	postFxRef: React.RefObject<PostFxRenderer>;
+}
+
+/**
+ * Hook owning the post-processing renderer.
+ *
+ * The stage runs only when requested and the user has not asked for
+ * reduced motion; the render loop additionally skips it on quality tiers
+ * without post-processing.
+ *
+ * Single Responsibility: Post-processing settings only.
+ *
+ * @param enabled - Whether the stage is requested.
+ */
+export function usePostFx(enabled: boolean): UsePostFxReturn {
+	const [config, setConfig] = useState<PostFxConfig>(DEFAULT_POSTFX_CONFIG);
+	const [renderer] = useState(() => new PostFxRenderer(config));
+	const postFxRef = useRef(renderer);
+	const isReducedMotion = usePrefersReducedMotion();
+
+	useEffect(() => {
+		renderer.setEnabled(enabled && !isReducedMotion);
+	}, [renderer, enabled, isReducedMotion]);
+
+	useEffect(() => {
+		renderer.setConfig(config);
+	}, [renderer, config]);
+
+	const toggleEffect = useCallback((effect: PostFxEffect) => {
+		setConfig((previous) => ({
+			...previous,
+			[effect]: { ...previous[effect], enabled: !previous[effect].enabled },
+		}));
+	}, []);
+
+	return useMemo(() => ({
+		config,
+		toggleEffect,
+		isReducedMotion,
+		postFxRef,
+	}), [config, toggleEffect, isReducedMotion]);
+}
@@ -0,0 +1,97 @@
+"use client";
+
+// =============================================================================
+// useQualityGovernor - Adaptive quality tiers for the orb field
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type OrbSimulation } from '../simulation';
+import { PHYSICS_PHASE_IDS } from '../physics';
+import { QualityGovernor, type FrameTimeStats, type QualityTier } from '../quality';
+
+/** Interval for refreshing the frame time histogram while it is displayed. */
+const STATS_REFRESH_MS = 500;
+
+/**
+ * Return values from the quality governor hook.
+ */
+export interface UseQualityGovernorReturn {
+	/** Active tier (React state for the debug menu). */
+	tier: QualityTier;
+	/** Index of the active tier (0 is full quality). */
+	tierIndex: number;
+	/** Number of tiers on the ladder. */
+	tierCount: number;
+	/** Ref to the active tier for render loop access. */
+	tierRef: React.RefObject<QualityTier>;
+	/** Latest frame time distribution (refreshed while stats are shown). */
+	stats: FrameTimeStats;
+	/** Feeds one frame into the governor (pass as useAnimationLoop's onFrameTiming). */
+	recordFrame: (frameMs: number, workMs: number) => void;
+	/** Clears the frame time histogram. */
+	resetStats: () => void;
+}
+
+/**
+ * Hook running a QualityGovernor over the animation loop's frame times.
+ *
+ * Tier changes are applied to the simulation (spawn target, Orb Avoidance
+ * phase) here; gradient stops and canvas resolution are read from tierRef by
+ * the render loop. Avoidance is only switched when a tier change crosses its
+ * setting, so a manual toggle in the debug menu holds until then.
+ *
+ * Single Responsibility: Quality tier state and application only.
+ *
+ * @param simulation - Simulation whose spawn target and pipeline follow the tier.
+ * @param enabled - Whether frame times drive the tier (disabled returns to full quality).
+ * @param showStats - Whether to refresh the histogram periodically.
+ */
+export function useQualityGovernor(simulation: OrbSimulation, enabled: boolean, showStats: boolean): UseQualityGovernorReturn {
+	const [governor] = useState(() => new QualityGovernor());
+	const [tierIndex, setTierIndex] = useState(0);
+	const [stats, setStats] = useState<FrameTimeStats>(() => governor.getStats());
+	const tierRef = useRef<QualityTier>(governor.tier);
+	const enabledRef = useRef(enabled);
+
+	const applyTier = useCallback((previous: QualityTier) => {
+		const tier = governor.tier;
+		tierRef.current = tier;
+		simulation.setOrbCountScale(tier.orbCountScale);
+		if (tier.enableAvoidance !== previous.enableAvoidance) {
+			simulation.pipeline.setEnabled(PHYSICS_PHASE_IDS.ORB_AVOIDANCE, tier.enableAvoidance);
+		}
+		setTierIndex(governor.index);
+	}, [governor, simulation]);
+
+	useEffect(() => {
+		enabledRef.current = enabled;
+	}, [enabled]);
+
+	useEffect(() => {
+		if (!showStats) return;
+		const interval = window.setInterval(() => setStats(governor.getStats()), STATS_REFRESH_MS);
+		return () => window.clearInterval(interval);
+	}, [governor, showStats]);
+
+	const recordFrame = useCallback((frameMs: number, workMs: number) => {
+		const previous = governor.tier;
+		// Disabling returns to full quality on the next frame
+		const changed = enabledRef.current ? governor.recordFrame(frameMs, workMs) : governor.setTier(0);
+		if (changed) applyTier(previous);
+	}, [governor, applyTier]);
+
+	const resetStats = useCallback(() => {
+		governor.resetStats();
+		setStats(governor.getStats());
+	}, [governor]);
+
+	return useMemo(() => ({
+		tier: governor.tiers[tierIndex],
+		tierIndex,
+		tierCount: governor.tiers.length,
+		tierRef,
+		stats,
+		recordFrame,
+		resetStats,
+	}), [governor, tierIndex, stats, recordFrame, resetStats]);
+}
@@ -10,9 +10,36 @@ import { type WindowSize } from '../shared/types';
 import { type GridRevealConfig, type GridStyleConfig } from '../shared/config';
 import { GridRenderer } from '../grid/visuals/GridRenderer';
 import { OrbVisualRenderer } from '../orb/visuals/OrbVisualRenderer';
+import { DEFAULT_ORB_VISUAL_CONFIG, type OrbVisualConfig } from '../orb/visuals/OrbVisualConfig';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
-import { type ViewportCells } from '../grid/types';
+import { type GridRevealFrame, type ViewportCells } from '../grid/types';
 import { type Orb } from '../orb/types';
+import { ForceFieldDebugOverlay, type ForceField } from '../forces';
+import { type PointerTracker } from '../pointer';
+import { type QualityTier } from '../quality';
+import { type OrbWebGLRenderer } from '../orb/visuals/OrbWebGLRenderer';
+import { type OrbSpriteCache } from '../orb/visuals/OrbSpriteCache';
+import { type OrbRendererKind } from '../orb/visuals/types';
+import { type OrbFocusAnimator } from '../orb/visuals/OrbFocusAnimator';
+import { type OrbTrails } from '../orb/visuals/OrbTrails';
+import { type PostFxRenderer } from '../postfx/PostFxRenderer';
+import { OrbFollowOverlay } from '../inspector';
+
+/** Visual configs per gradient stop count, so quality tiers do not allocate every frame. */
+const visualConfigByStopCount = new Map<number, OrbVisualConfig>();
+
+/**
+ * Returns the default visual config with the given number of gradient stops.
+ */
+function getVisualConfig(gradientStopCount: number): OrbVisualConfig {
+	if (gradientStopCount === DEFAULT_ORB_VISUAL_CONFIG.gradientStopCount) return DEFAULT_ORB_VISUAL_CONFIG;
+	let config = visualConfigByStopCount.get(gradientStopCount);
+	if (!config) {
+		config = { ...DEFAULT_ORB_VISUAL_CONFIG, gradientStopCount };
+		visualConfigByStopCount.set(gradientStopCount, config);
+	}
+	return config;
+}
 
 /**
  * Refs for render loop - all values accessed via refs for stable callback.
@@ -20,15 +47,18 @@ import { type Orb } from '../orb/types';
 interface UseRenderLoopRefs {
 	canvasRef: React.RefObject<HTMLCanvasElement | null>;
 	visualCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+	postFxCanvasRef: React.RefObject<HTMLCanvasElement | null>;
 	gridRef: React.RefObject<SpatialGrid | null>;
 	viewportCellsRef: React.RefObject<ViewportCells | null>;
+	/** Cell metrics the grid lines are drawn with (eases to a new spacing after a resize). */
+	lineCellsRef: React.RefObject<ViewportCells | null>;
 	hoveredCellRef: React.RefObject<{ x: number; y: number; worldX: number; worldY: number } | null>;
 	windowSizeRef: React.RefObject<WindowSize>;
 	orbsRef: React.RefObject<Orb[]>;
 	selectedOrbIdRef: React.RefObject<string | null>;
 	currentLayerRef: React.RefObject<number>;
 	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
-	mousePosRef: React.RefObject<{ x: number; y: number } | null>;
+	pointerTrackerRef: React.RefObject<PointerTracker>;
 	isPageVisibleRef: React.RefObject<boolean>;
 	burstTimeRef: React.RefObject<number | null>;
 	showGridRef: React.RefObject<boolean>;
@@ -37,9 +67,16 @@ interface UseRenderLoopRefs {
 	showGraphicsRef: React.RefObject<boolean>;
 	showArrowVectorRef: React.RefObject<boolean>;
 	showTruePositionRef: React.RefObject<boolean>;
+	showForceFieldsRef: React.RefObject<boolean>;
+	forceFieldsRef: React.RefObject<readonly ForceField[]>;
+	qualityTierRef: React.RefObject<QualityTier>;
+	orbRendererRef: React.RefObject<OrbRendererKind>;
+	spriteCacheRef: React.RefObject<OrbSpriteCache>;
+	focusAnimatorRef: React.RefObject<OrbFocusAnimator>;
+	trailsRef: React.RefObject<OrbTrails>;
+	postFxRef: React.RefObject<PostFxRenderer>;
+	followSelectedOrbRef: React.RefObject<boolean>;
 	pausePhysicsRef: React.RefObject<boolean>;
-	disableCollisionsRef: React.RefObject<boolean>;
-	disableAvoidanceRef: React.RefObject<boolean>;
 	enableOrbSpawningRef: React.RefObject<boolean>;
 	enableOrbDespawningRef: React.RefObject<boolean>;
 	enableSpawnOnClickRef: React.RefObject<boolean>;
@@ -56,7 +93,7 @@ interface UseRenderLoopCallbacks {
 	/** Function to run physics simulation. */
 	runPhysics: (context: PhysicsContext) => void;
 	/** Function to sync canvas dimensions. */
-	syncCanvasDimensions: (canvas: HTMLCanvasElement | null, visualCanvas: HTMLCanvasElement | null, windowSize: WindowSize) => void;
+	syncCanvasDimensions: (canvas: HTMLCanvasElement | null, visualCanvas: HTMLCanvasElement | null, windowSize: WindowSize, visualScale?: number) => void;
 	/** Function to calculate opacity. */
 	calculateOpacity: (params: { baseOpacity: number; easedProgress: number; isDebugMode: boolean }) => number;
 	/** Function to update canvas opacity. */
@@ -67,14 +104,18 @@ interface UseRenderLoopCallbacks {
 	updateSelectedOrbData: () => void;
 	/** Function to update parallax offset. */
 	updateParallaxOffset: () => void;
+	/** Function to get the WebGL orb renderer for the visual canvas (null after fallback). */
+	getWebGLRenderer: (canvas: HTMLCanvasElement) => OrbWebGLRenderer | null;
+	/** Function to get the reveal preset and progress the grid lines follow. */
+	getRevealFrame: (easedProgress: number) => GridRevealFrame;
 }
 
 /**
  * Return values from render loop hook.
  */
 export interface UseRenderLoopReturn {
-	/** Callback for each frame of the render loop. */
-	runLoop: (easedProgress: number, deltaTime: number) => void;
+	/** Callback for each frame of the render loop (runs physics stepCount times, then renders once). */
+	runLoop: (easedProgress: number, deltaTime: number, stepCount?: number) => void;
 }
 
 /**
@@ -92,15 +133,17 @@ export function useRenderLoop(
 	const {
 		canvasRef,
 		visualCanvasRef,
+		postFxCanvasRef,
 		gridRef,
 		viewportCellsRef,
+		lineCellsRef,
 		hoveredCellRef,
 		windowSizeRef,
 		orbsRef,
 		selectedOrbIdRef,
 		currentLayerRef,
 		currentScrollOffsetRef,
-		mousePosRef,
+		pointerTrackerRef,
 		isPageVisibleRef,
 		burstTimeRef,
 		showGridRef,
@@ -109,9 +152,16 @@ export function useRenderLoop(
 		showGraphicsRef,
 		showArrowVectorRef,
 		showTruePositionRef,
+		showForceFieldsRef,
+		forceFieldsRef,
+		qualityTierRef,
+		orbRendererRef,
+		spriteCacheRef,
+		focusAnimatorRef,
+		trailsRef,
+		postFxRef,
+		followSelectedOrbRef,
 		pausePhysicsRef,
-		disableCollisionsRef,
-		disableAvoidanceRef,
 		enableOrbSpawningRef,
 		enableOrbDespawningRef,
 		enableSpawnOnClickRef,
@@ -129,9 +179,11 @@ export function useRenderLoop(
 		getEffectiveTime,
 		updateSelectedOrbData,
 		updateParallaxOffset,
+		getWebGLRenderer,
+		getRevealFrame,
 	} = callbacks;
 
-	const runLoop = useCallback((easedProgress: number, deltaTime: number) => {
+	const runLoop = useCallback((easedProgress: number, deltaTime: number, stepCount: number = 1) => {
 		const canvas = canvasRef.current;
 		const visualCanvas = visualCanvasRef.current;
 		const grid = gridRef.current;
@@ -147,27 +199,29 @@ export function useRenderLoop(
 		// Update parallax offset (was separate RAF loop, now inline)
 		updateParallaxOffset();
 
-		// Run physics simulation
-		runPhysics({
-			easedProgress,
-			deltaTime,
-			orbsRef,
-			grid,
-			vpc,
-			windowSize,
-			mousePosRef,
-			isPageVisibleRef,
-			burstTimeRef,
-			pausePhysicsRef,
-			disableCollisionsRef,
-			disableAvoidanceRef,
-			enableOrbSpawningRef,
-			enableOrbDespawningRef,
-			currentScrollOffsetRef,
-		});
+		// Run physics simulation (several fixed steps per frame in fixed-timestep mode)
+		for (let step = 0; step < stepCount; step++) {
+			runPhysics({
+				easedProgress,
+				deltaTime,
+				orbsRef,
+				grid,
+				vpc,
+				windowSize,
+				pointerTrackerRef,
+				isPageVisibleRef,
+				burstTimeRef,
+				pausePhysicsRef,
+				enableOrbSpawningRef,
+				enableOrbDespawningRef,
+				currentScrollOffsetRef,
+				isDebugModeRef,
+			});
+		}
 
-		// Sync canvas dimensions
-		syncCanvasDimensions(canvas, visualCanvas, windowSize);
+		// Sync canvas dimensions (the visual canvas may render below full resolution)
+		const qualityTier = qualityTierRef.current;
+		syncCanvasDimensions(canvas, visualCanvas, windowSize, qualityTier.visualResolutionScale);
 
 		// Calculate and apply opacity
 		const opacity = calculateOpacity({
@@ -197,33 +251,108 @@ export function useRenderLoop(
 			showCollisionAreaRef.current,
 			showAvoidanceAreaRef.current,
 			showArrowVectorRef.current,
-			showTruePositionRef.current
+			showTruePositionRef.current,
+			lineCellsRef.current ?? vpc,
+			getRevealFrame(easedProgress)
 		);
 
+		// Render force field shapes over the grid
+		if (isDebugMode && showForceFieldsRef.current) {
+			ForceFieldDebugOverlay.draw(
+				ctx,
+				forceFieldsRef.current,
+				currentScrollOffsetRef.current.x,
+				currentScrollOffsetRef.current.y
+			);
+		}
+
+		// Mark the inspected orb
+		const selectedOrbId = selectedOrbIdRef.current;
+		if (isDebugMode && followSelectedOrbRef.current && selectedOrbId) {
+			const followed = orbsRef.current.find((orb) => orb.id === selectedOrbId);
+			if (followed) {
+				OrbFollowOverlay.draw(
+					ctx,
+					followed,
+					vpc,
+					windowSize,
+					currentScrollOffsetRef.current.x,
+					currentScrollOffsetRef.current.y,
+					performance.now()
+				);
+			}
+		}
+
 		// Render visual orbs
 		if (visualCanvas && easedProgress >= 1) {
-			const visualCtx = visualCanvas.getContext('2d');
-			if (visualCtx) {
-				if (showGraphicsRef.current) {
-					const now = getEffectiveTime();
-					OrbVisualRenderer.draw(
-						visualCtx,
+			const visualScale = qualityTier.visualResolutionScale;
+			const showGraphics = showGraphicsRef.current;
+			const offset = currentScrollOffsetRef.current;
+			const focalPlane = focusAnimatorRef.current.sample(performance.now());
+
+			if (orbRendererRef.current === 'webgl') {
+				const renderer = getWebGLRenderer(visualCanvas);
+				if (renderer && showGraphics) {
+					renderer.draw(
 						windowSize,
 						orbsRef.current,
 						grid.config.layers,
-						undefined,
-						now,
-						currentScrollOffsetRef.current.x,
-						currentScrollOffsetRef.current.y
+						DEFAULT_ORB_VISUAL_CONFIG,
+						getEffectiveTime(),
+						offset.x,
+						offset.y,
+						focalPlane
+					);
+				} else {
+					renderer?.clear();
+				}
+			} else {
+				const visualCtx = visualCanvas.getContext('2d');
+				if (visualCtx) {
+					visualCtx.setTransform(visualScale, 0, 0, visualScale, 0, 0);
+					if (showGraphics) {
+						OrbVisualRenderer.draw(
+							visualCtx,
+							windowSize,
+							orbsRef.current,
+							grid.config.layers,
+							getVisualConfig(qualityTier.gradientStopCount),
+							getEffectiveTime(),
+							offset.x,
+							offset.y,
+							spriteCacheRef.current,
+							focalPlane,
+							trailsRef.current
+						);
+					} else {
+						visualCtx.clearRect(0, 0, windowSize.width, windowSize.height);
+					}
+				}
+			}
+
+			// Post-process onto the overlay canvas, which replaces the visual canvas while active
+			const postFxCanvas = postFxCanvasRef.current;
+			const postFx = postFxRef.current;
+			if (postFxCanvas) {
+				const usePostFx = showGraphics && postFx.isEnabled && qualityTier.enablePostFx && postFx.hasActiveEffects();
+				if (usePostFx) {
+					const burstTime = burstTimeRef.current;
+					postFx.render(
+						postFxCanvas,
+						visualCanvas,
+						visualScale,
+						performance.now(),
+						burstTime === null ? null : getEffectiveTime() - burstTime
 					);
 				} else {
-					visualCtx.clearRect(0, 0, windowSize.width, windowSize.height);
+					postFx.clear(postFxCanvas);
 				}
+				visualCanvas.style.visibility = usePostFx ? 'hidden' : 'visible';
 			}
 		}
 
 		// Sync debug panel
-		if (isDebugMode && selectedOrbIdRef.current) {
+		if (isDebugMode && selectedOrbId) {
 			updateSelectedOrbData();
 		}
 	}, [
@@ -235,19 +364,23 @@ export function useRenderLoop(
 		getEffectiveTime,
 		updateSelectedOrbData,
 		updateParallaxOffset,
+		getWebGLRenderer,
+		getRevealFrame,
 		// Refs are stable and don't need to be in dependencies, but including them
 		// doesn't hurt and satisfies exhaustive-deps lint rule
 		canvasRef,
 		visualCanvasRef,
+		postFxCanvasRef,
 		gridRef,
 		viewportCellsRef,
+		lineCellsRef,
 		hoveredCellRef,
 		windowSizeRef,
 		orbsRef,
 		selectedOrbIdRef,
 		currentLayerRef,
 		currentScrollOffsetRef,
-		mousePosRef,
+		pointerTrackerRef,
 		isPageVisibleRef,
 		burstTimeRef,
 		showGridRef,
@@ -256,9 +389,16 @@ export function useRenderLoop(
 		showGraphicsRef,
 		showArrowVectorRef,
 		showTruePositionRef,
+		showForceFieldsRef,
+		forceFieldsRef,
+		qualityTierRef,
+		orbRendererRef,
+		spriteCacheRef,
+		focusAnimatorRef,
+		trailsRef,
+		postFxRef,
+		followSelectedOrbRef,
 		pausePhysicsRef,
-		disableCollisionsRef,
-		disableAvoidanceRef,
 		enableOrbSpawningRef,
 		enableOrbDespawningRef,
 		enableSpawnOnClickRef,
@@ -0,0 +1,54 @@
+"use client";
+
+// =============================================================================
+// useReplayedInputs - Switches scroll, tilt and window size to replayed values
+// =============================================================================
+
+import { useMemo, useState } from 'react';
+import { type WindowSize } from '../shared/types';
+import { type ReplayInputs } from '../replay';
+
+/**
+ * Return values from the replayed inputs hook.
+ */
+export interface UseReplayedInputsReturn {
+	/** Inputs the field should use: replayed while a replay runs, live otherwise. */
+	inputs: ReplayInputs;
+	/** Live inputs (what the recorder captures). */
+	liveInputs: ReplayInputs;
+	/** Overrides the live inputs (null returns to them). */
+	setReplayedInputs: (inputs: ReplayInputs | null) => void;
+}
+
+/**
+ * Hook choosing between live and replayed React-driven inputs.
+ *
+ * Sits before the grid and parallax hooks so a replayed resize or scroll
+ * goes through the same code path as a real one.
+ *
+ * Single Responsibility: Input source selection only.
+ *
+ * @param windowSize - Live window dimensions.
+ * @param scrollProgress - Live scroll/swipe progress.
+ * @param deviceTiltX - Live device tilt X (0-1).
+ * @param deviceTiltY - Live device tilt Y (0-1).
+ */
+export function useReplayedInputs(
+	windowSize: WindowSize,
+	scrollProgress: number,
+	deviceTiltX: number,
+	deviceTiltY: number
+): UseReplayedInputsReturn {
+	const [replayedInputs, setReplayedInputs] = useState<ReplayInputs | null>(null);
+
+	const liveInputs = useMemo(
+		() => ({ windowSize, scrollProgress, deviceTiltX, deviceTiltY }),
+		[windowSize, scrollProgress, deviceTiltX, deviceTiltY]
+	);
+
+	return useMemo(() => ({
+		inputs: replayedInputs ?? liveInputs,
+		liveInputs,
+		setReplayedInputs,
+	}), [replayedInputs, liveInputs]);
+}
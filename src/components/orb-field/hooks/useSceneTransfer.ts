@@ -0,0 +1,145 @@
+"use client";
+
+// =============================================================================
+// useSceneTransfer - Exports and imports the orb field as scene JSON
+// =============================================================================
+
+import { useCallback, useMemo } from 'react';
+import { type Orb } from '../orb/types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { GridRemapper } from '../grid/core/GridRemapper';
+import { type ViewportCells } from '../grid/types';
+import { type OrbSimulation } from '../simulation';
+import { type SeededRandom } from '../shared/random';
+import { SceneSerializer, type OrbFieldScene, type SceneLoadResult } from '../scene';
+
+/**
+ * Options for the scene transfer hook.
+ */
+interface UseSceneTransferOptions {
+	/** Simulation whose orbs are captured. */
+	simulation: OrbSimulation;
+	/** The simulation's random source (its state is saved and restored). */
+	random: SeededRandom;
+	/** Ref to the current spatial grid. */
+	gridRef: React.RefObject<SpatialGrid | null>;
+	/** Ref to the current viewport cell metrics. */
+	viewportCellsRef: React.RefObject<ViewportCells | null>;
+	/** Seed of the running simulation. */
+	seed: number;
+	/** Reseeds the random source with a saved seed. */
+	setSeed: (seed: number) => void;
+	/** Returns the current simulation time. */
+	getSimulationTime: () => number;
+	/** Moves the simulation clock to a saved time. */
+	setSimulationTime: (time: number) => void;
+	/** Ref to the time of the opening burst (gates continuous spawning). */
+	burstTimeRef: React.RefObject<number | null>;
+	/** Replaces every orb (see useOrbManager). */
+	replaceOrbs: (orbs: Orb[], grid: SpatialGrid, vpc: ViewportCells) => void;
+}
+
+/**
+ * Return values from the scene transfer hook.
+ */
+export interface UseSceneTransferReturn {
+	/** Captures the current field, including the given debug toggles (null before the grid exists). */
+	captureScene: (debugToggles: Record<string, boolean>) => OrbFieldScene | null;
+	/** Loads an already validated scene, or reports why it does not fit this grid. */
+	loadScene: (scene: OrbFieldScene) => SceneLoadResult;
+	/** Serializes the current field, including the given debug toggles. */
+	exportScene: (debugToggles: Record<string, boolean>) => string | null;
+	/** Validates scene JSON and loads it, or reports why it was rejected. */
+	importScene: (json: string) => SceneLoadResult;
+}
+
+/**
+ * Hook for saving and restoring the whole orb field.
+ *
+ * Loading restores the scene exactly: the clock, burst time, seed and
+ * random generator state are set back to the saved values, so orb ages and
+ * spawning continue where they were and inline physics replays the same
+ * sequence (a physics worker keeps its own generator). A scene saved on
+ * another viewport size has its orbs remapped into the current grid.
+ *
+ * Single Responsibility: Scene capture and restore only.
+ */
+export function useSceneTransfer(options: UseSceneTransferOptions): UseSceneTransferReturn {
+	const {
+		simulation,
+		random,
+		gridRef,
+		viewportCellsRef,
+		seed,
+		setSeed,
+		getSimulationTime,
+		setSimulationTime,
+		burstTimeRef,
+		replaceOrbs,
+	} = options;
+
+	const captureScene = useCallback((debugToggles: Record<string, boolean>): OrbFieldScene | null => {
+		const grid = gridRef.current;
+		if (!grid) return null;
+
+		return SceneSerializer.capture({
+			orbs: simulation.orbs,
+			gridConfig: grid.config,
+			seed,
+			randomState: random.getState(),
+			time: getSimulationTime(),
+			burstTime: burstTimeRef.current,
+			debugToggles,
+		});
+	}, [simulation, random, gridRef, seed, getSimulationTime, burstTimeRef]);
+
+	const exportScene = useCallback((debugToggles: Record<string, boolean>): string | null => {
+		const scene = captureScene(debugToggles);
+		return scene ? SceneSerializer.stringify(scene) : null;
+	}, [captureScene]);
+
+	const loadScene = useCallback((scene: OrbFieldScene): SceneLoadResult => {
+		const grid = gridRef.current;
+		const vpc = viewportCellsRef.current;
+		if (!grid || !vpc) return { ok: false, error: 'The grid is not ready yet' };
+
+		const saved = scene.gridConfig;
+		if (saved.layers !== grid.config.layers) {
+			return {
+				ok: false,
+				error: `Scene has ${saved.layers} depth layers but this grid has ${grid.config.layers}`,
+			};
+		}
+
+		setSimulationTime(scene.time);
+		burstTimeRef.current = scene.burstTime;
+		replaceOrbs(SceneSerializer.restoreOrbs(scene, grid.config), grid, vpc);
+		if (scene.seed !== seed) {
+			setSeed(scene.seed);
+		}
+		if (scene.randomState !== null) {
+			random.setState(scene.randomState);
+		}
+
+		const isSameViewport = GridRemapper.sameGeometry(saved, grid.config);
+		return {
+			ok: true,
+			scene,
+			warning: isSameViewport ? null : 'Saved on a different viewport size; orbs were moved proportionally into this one',
+		};
+	}, [random, gridRef, viewportCellsRef, seed, setSeed, setSimulationTime, burstTimeRef, replaceOrbs]);
+
+	const importScene = useCallback((json: string): SceneLoadResult => {
+		if (!gridRef.current) return { ok: false, error: 'The grid is not ready yet' };
+
+		const parsed = SceneSerializer.parse(json);
+		return parsed.ok ? loadScene(parsed.scene) : parsed;
+	}, [gridRef, loadScene]);
+
+	return useMemo(() => ({
+		captureScene,
+		loadScene,
+		exportScene,
+		importScene,
+	}), [captureScene, loadScene, exportScene, importScene]);
+}
@@ -0,0 +1,116 @@
+"use client";
+
+// =============================================================================
+// useSimulationSeed - Seeded random source and simulation clock
+// =============================================================================
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { getSeedFromDebugUrl } from '@/components/debug';
+import { SeededRandom, createRandomSeed } from '../shared/random';
+
+/**
+ * Options for the simulation seed hook.
+ */
+interface UseSimulationSeedOptions {
+	/** Seed to pin. Falls back to /debug?seed=, then to a random seed. */
+	seed?: number;
+	/** Physics step length in milliseconds used when the seed is pinned. */
+	fixedTimestepMs: number;
+	/** Returns the pause-adjusted wall clock time (used when the seed is not pinned). */
+	getEffectiveTime: () => number;
+}
+
+/**
+ * Return values from the simulation seed hook.
+ */
+export interface UseSimulationSeedReturn {
+	/** Seed of the random source. */
+	seed: number;
+	/** Random source for spawning and physics. Stable for the component lifetime. */
+	random: SeededRandom;
+	/** Fixed physics step in milliseconds, or null when stepping with frame time. */
+	fixedTimestepMs: number | null;
+	/** Returns the time physics, spawning and rendering should use. */
+	getSimulationTime: () => number;
+	/** Advances the simulation clock by one physics step (no-op with variable stepping). */
+	advanceSimulationTime: (deltaTime: number) => void;
+	/**
+	 * Switches an unpinned run to the stepped clock and back (input replay).
+	 * Time continues from its current value unless a start time is given.
+	 */
+	setSteppedClock: (stepped: boolean, startTime?: number) => void;
+	/** Moves the clock to the given time without changing how it advances (scene load). */
+	setSimulationTime: (time: number) => void;
+	/** Reseeds the random source (scene load); restore a saved generator state afterwards. */
+	setSeed: (seed: number) => void;
+}
+
+/**
+ * Provides the random source and clock for the orb simulation.
+ *
+ * Every run is seeded so the seed can be shown in the debug menu. When a seed
+ * is pinned (prop or URL) the run is also made deterministic: physics advances
+ * in fixed steps and time is counted in steps rather than read from the wall
+ * clock, so the same seed and input produce the same orb state.
+ *
+ * Single Responsibility: Simulation reproducibility only.
+ */
+export function useSimulationSeed(options: UseSimulationSeedOptions): UseSimulationSeedReturn {
+	const { seed: pinnedSeed, fixedTimestepMs, getEffectiveTime } = options;
+
+	const [{ seed, isPinned }, setSeedState] = useState(() => {
+		const requested = pinnedSeed ?? getSeedFromDebugUrl();
+		return requested !== null
+			? { seed: requested, isPinned: true }
+			: { seed: createRandomSeed(), isPinned: false };
+	});
+	const [random] = useState(() => new SeededRandom(seed));
+
+	const simulationTimeRef = useRef(0);
+	const isSteppedRef = useRef(isPinned);
+	// Keeps wall clock time continuous after leaving the stepped clock
+	const wallClockOffsetRef = useRef(0);
+
+	const getSimulationTime = useCallback(() => {
+		return isSteppedRef.current ? simulationTimeRef.current : getEffectiveTime() + wallClockOffsetRef.current;
+	}, [getEffectiveTime]);
+
+	const advanceSimulationTime = useCallback((deltaTime: number) => {
+		if (isSteppedRef.current) simulationTimeRef.current += deltaTime * 1000;
+	}, []);
+
+	const setSteppedClock = useCallback((stepped: boolean, startTime?: number) => {
+		const now = getSimulationTime();
+		if (stepped || isPinned) {
+			simulationTimeRef.current = startTime ?? now;
+			isSteppedRef.current = true;
+		} else {
+			wallClockOffsetRef.current = (startTime ?? now) - getEffectiveTime();
+			isSteppedRef.current = false;
+		}
+	}, [isPinned, getSimulationTime, getEffectiveTime]);
+
+	const setSimulationTime = useCallback((time: number) => {
+		if (isSteppedRef.current) {
+			simulationTimeRef.current = time;
+		} else {
+			wallClockOffsetRef.current = time - getEffectiveTime();
+		}
+	}, [getEffectiveTime]);
+
+	const setSeed = useCallback((nextSeed: number) => {
+		random.reset(nextSeed);
+		setSeedState((state) => ({ ...state, seed: random.seed }));
+	}, [random]);
+
+	return useMemo(() => ({
+		seed,
+		random,
+		fixedTimestepMs: isPinned ? fixedTimestepMs : null,
+		getSimulationTime,
+		advanceSimulationTime,
+		setSteppedClock,
+		setSimulationTime,
+		setSeed,
+	}), [seed, random, isPinned, fixedTimestepMs, getSimulationTime, advanceSimulationTime, setSteppedClock, setSimulationTime, setSeed]);
+}
@@ -0,0 +1,120 @@
+"use client";
+
+// =============================================================================
+// useTimeControls - Slow motion, fast forward and single stepping for physics
+// =============================================================================
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { DEFAULT_TIME_SCALE_CONFIG, type TimeScaleConfig } from '../shared/config';
+import { type LoopFrame } from './types';
+
+/**
+ * Options for the time controls hook.
+ */
+interface UseTimeControlsOptions {
+	/** The debug menu's pause toggle. */
+	pausePhysicsRef: React.RefObject<boolean>;
+	/** Changes the speed of the effective clock (see usePauseTimeTracking). */
+	setClockScale: (scale: number) => void;
+	/** Moves the frozen clock forward while paused (see usePauseTimeTracking). */
+	advancePausedTime: (ms: number) => void;
+	/** Range, presets and single-step length. */
+	config?: TimeScaleConfig;
+}
+
+/**
+ * Return values from the time controls hook.
+ */
+export interface UseTimeControlsReturn {
+	/** Current time scale (1 = real time). */
+	timeScale: number;
+	/** Sets the time scale, clamped to the configured range. */
+	setTimeScale: (scale: number) => void;
+	/** Queues one physics step; only runs while physics is paused. */
+	stepFrame: () => void;
+	/**
+	 * Pause flag the physics loop should read: the menu toggle, except during
+	 * a single-stepped frame.
+	 */
+	physicsPausedRef: React.RefObject<boolean>;
+	/** Scales the frame's steps by the time scale, or replaces the frame with a queued single step. */
+	planFrame: (deltaTime: number, stepCount: number) => LoopFrame;
+	/** Refreshes physicsPausedRef before each step (the toggle can change mid-frame during a replay). */
+	onBeforeStep: () => void;
+}
+
+/**
+ * Hook for debugging physics in slow motion, fast forward or frame by frame.
+ *
+ * The time scale changes the speed of the effective clock and how much
+ * physics time a frame covers, so expiration, spawn animations and physics
+ * agree on how much time passed. Fast forward runs more steps of the same
+ * length (at most maxStepsPerFrame, fractions carried to the next frame), so
+ * fixed steps stay fixed and no step outgrows what continuous collision can
+ * sub-step; slow motion shortens the steps, which is always safe. A single
+ * step covers stepMs × time scale with the pause lifted for that frame only,
+ * and moves the frozen clock forward by the same amount.
+ *
+ * Single Responsibility: Physics time scaling and stepping only.
+ */
+export function useTimeControls(options: UseTimeControlsOptions): UseTimeControlsReturn {
+	const { pausePhysicsRef, setClockScale, advancePausedTime, config = DEFAULT_TIME_SCALE_CONFIG } = options;
+
+	const [timeScale, setTimeScaleState] = useState(1);
+	const timeScaleRef = useRef(1);
+	const pendingStepsRef = useRef(0);
+	const stepBudgetRef = useRef(0);
+	const isSteppingRef = useRef(false);
+	const physicsPausedRef = useRef(false);
+
+	const setTimeScale = useCallback((scale: number) => {
+		const clamped = Math.min(config.max, Math.max(config.min, scale));
+		timeScaleRef.current = clamped;
+		setClockScale(clamped);
+		setTimeScaleState(clamped);
+	}, [config, setClockScale]);
+
+	const stepFrame = useCallback(() => {
+		pendingStepsRef.current += 1;
+	}, []);
+
+	const planFrame = useCallback((deltaTime: number, stepCount: number): LoopFrame => {
+		const paused = pausePhysicsRef.current;
+		const scale = timeScaleRef.current;
+
+		const scaleSteps = (stepSeconds: number, steps: number): LoopFrame => {
+			if (scale <= 1) return { deltaTime: stepSeconds * scale, stepCount: steps };
+			stepBudgetRef.current += steps * scale;
+			const whole = Math.floor(stepBudgetRef.current);
+			stepBudgetRef.current -= whole;
+			return { deltaTime: stepSeconds, stepCount: Math.min(whole, config.maxStepsPerFrame) };
+		};
+
+		if (paused && pendingStepsRef.current > 0) {
+			pendingStepsRef.current -= 1;
+			advancePausedTime(config.stepMs * scale);
+			isSteppingRef.current = true;
+			physicsPausedRef.current = false;
+			return scaleSteps(config.stepMs / 1000, 1);
+		}
+
+		// Steps queued while running would fire on the next pause
+		if (!paused) pendingStepsRef.current = 0;
+		isSteppingRef.current = false;
+		physicsPausedRef.current = paused;
+		return scaleSteps(deltaTime, stepCount);
+	}, [pausePhysicsRef, advancePausedTime, config]);
+
+	const onBeforeStep = useCallback(() => {
+		physicsPausedRef.current = pausePhysicsRef.current && !isSteppingRef.current;
+	}, [pausePhysicsRef]);
+
+	return useMemo(() => ({
+		timeScale,
+		setTimeScale,
+		stepFrame,
+		physicsPausedRef,
+		planFrame,
+		onBeforeStep,
+	}), [timeScale, setTimeScale, stepFrame, planFrame, onBeforeStep]);
+}
@@ -14,11 +14,25 @@ export { OrbField } from './OrbField';
 export { SpatialGrid } from './grid/core/SpatialGrid';
 export { GridConfigFactory } from './grid/core/GridConfigFactory';
 export { ViewportCellsFactory } from './grid/core/ViewportCellsFactory';
-export { type GridConfig, type ViewportCells } from './grid/types';
+export { GridRemapper } from './grid/core/GridRemapper';
+export { GridStorageBenchmark } from './grid/core/GridStorageBenchmark';
+export {
+	type GridConfig,
+	type GridStorageStats,
+	type GridAccessTimings,
+	type GridStorageComparison,
+	type ViewportCells,
+	type GridRevealPresetId,
+	type GridRevealPattern,
+	type GridRevealPreset,
+	type GridRevealFrame,
+} from './grid/types';
 
 // Grid Visualization
 export { GridRenderer } from './grid/visuals/GridRenderer';
 export { GridAnimator } from './grid/visuals/GridAnimator';
+export { GridRevealRenderer } from './grid/visuals/GridRevealRenderer';
+export { GRID_REVEAL_PRESETS } from './grid/visuals/GridRevealPresets';
 export { OrbDebugOverlay } from './grid/visuals/OrbDebugOverlay';
 
 // ============================================================================= 
@@ -26,13 +40,25 @@ export { OrbDebugOverlay } from './grid/visuals/OrbDebugOverlay';
 // =============================================================================
 export { OrbMovement, OrbGridMarking, OrbBehaviors } from './orb/core';
 export { useOrbManager } from './orb/hooks/useOrbManager';
-export { type Orb } from './orb/types';
+export { type Orb, type OrbEdit } from './orb/types';
 
 // Orb Visualization
 export {
 	OrbVisualRenderer,
+	OrbWebGLRenderer,
+	OrbFocusAnimator,
+	OrbTrails,
 	DEFAULT_ORB_VISUAL_CONFIG,
+	DEFAULT_ORB_FOCUS_CONFIG,
+	DEFAULT_ORB_FOCAL_PLANE,
+	ORB_FOCAL_PLANES,
+	DEFAULT_ORB_TRAIL_CONFIG,
 	type OrbVisualConfig,
+	type OrbRendererKind,
+	type OrbFocalPlane,
+	type OrbFocusConfig,
+	type OrbTrailMode,
+	type OrbTrailConfig,
 } from './orb/visuals';
 
 // Orb Utilities
@@ -40,6 +66,9 @@ export {
 	generateAnimationDurations,
 	generateWanderParams,
 	getRandomSize,
+	OrbSpawner,
+	OrbLifecycle,
+	OrbEditor,
 } from './orb/utils';
 
 // =============================================================================
@@ -49,11 +78,206 @@ export {
 	WallCollision,
 	OrbOrbCollision,
 	OrbAvoidance,
+	OrbBroadPhase,
 	MouseRepulsion,
 	SpawnValidation,
+	OrbMass,
 	type CollisionResult,
+	type OrbPairList,
 } from './collision';
 
+// =============================================================================
+// Simulation
+// =============================================================================
+export {
+	OrbSimulation,
+	DEFAULT_SIMULATION_SETTINGS,
+	type OrbSimulationSettings,
+	type OrbSimulationOptions,
+	type OrbSimulationFrame,
+	type OrbSimulationSnapshot,
+} from './simulation';
+
+// =============================================================================
+// Physics Pipeline
+// =============================================================================
+export {
+	PhysicsStep,
+	PhysicsPipeline,
+	PHYSICS_PHASE_IDS,
+	DEFAULT_PHYSICS_PHASES,
+	type PhysicsStepInput,
+	type PhysicsPhase,
+	type PhysicsPhaseContext,
+	type PhysicsPhasePlacement,
+	type PhysicsPhaseInfo,
+} from './physics';
+
+// =============================================================================
+// Force Fields
+// =============================================================================
+export {
+	ForceFieldSet,
+	ForceFieldSolver,
+	ForceFieldDebugOverlay,
+	FORCE_FIELD_PRESETS,
+	CARD_ANCHOR_FORCE_FIELD,
+	DEFAULT_FORCE_FIELD_DEBUG_CONFIG,
+	type ForceField,
+	type ForceFieldInput,
+	type ForceFieldChanges,
+	type ForceFieldKind,
+	type ForceFieldFalloff,
+	type ForceFieldZRange,
+	type PointForceField,
+	type LineForceField,
+	type RingForceField,
+	type WindForceField,
+	type ForceFieldDebugVisualConfig,
+} from './forces';
+
+// =============================================================================
+// Obstacles
+// =============================================================================
+export {
+	GridObstacleRegistry,
+	gridObstacleRegistry,
+	ObstacleRasterizer,
+	ShapeRasterizer,
+	DEFAULT_GRID_OBSTACLE_CONFIG,
+	type GridObstacle,
+	type GridObstacleLayers,
+	type GridObstacleOptions,
+	type GridObstacleConfig,
+	DEFAULT_GRID_SHAPE_CONFIG,
+	type GridShape,
+	type GridShapeMask,
+	type GridShapeMode,
+	type GridShapeSource,
+	type GridShapeConfig,
+} from './obstacles';
+
+// =============================================================================
+// Pointer Interaction
+// =============================================================================
+export {
+	PointerInteraction,
+	PointerTracker,
+	DEFAULT_POINTER_INTERACTION_CONFIG,
+	DEFAULT_POINTER_MODE,
+	MOUSE_POINTER_ID,
+	type PointerMode,
+	type PointerInput,
+	type PointerTrackerObserver,
+	type PointerInteractionConfig,
+	type PointerRadialConfig,
+	type PointerSwirlConfig,
+	type PointerGrabConfig,
+	type PointerWakeConfig,
+} from './pointer';
+
+// =============================================================================
+// Adaptive Quality
+// =============================================================================
+export {
+	QualityGovernor,
+	FrameTimeHistogram,
+	QUALITY_TIERS,
+	DEFAULT_QUALITY_GOVERNOR_CONFIG,
+	type QualityTier,
+	type QualityGovernorConfig,
+	type FrameTimeStats,
+} from './quality';
+
+// =============================================================================
+// Orb Palettes
+// =============================================================================
+export {
+	ORB_PALETTES,
+	DEFAULT_ORB_PALETTE,
+	DEFAULT_ORB_COLOR_CONFIG,
+	OrbPaletteSampler,
+	OrbColorBlend,
+	type OrbColor,
+	type PaletteColor,
+	type OrbPalette,
+	type OrbPaletteId,
+	type OrbColorConfig,
+} from './palette';
+
+// =============================================================================
+// Post-Processing
+// =============================================================================
+export {
+	PostFxRenderer,
+	DEFAULT_POSTFX_CONFIG,
+	type PostFxEffect,
+	type PostFxConfig,
+	type BloomConfig,
+	type VignetteConfig,
+	type ChromaticAberrationConfig,
+	type FilmGrainConfig,
+} from './postfx';
+
+// =============================================================================
+// Orb Inspector
+// =============================================================================
+export {
+	OrbHistory,
+	OrbFollowOverlay,
+	DEFAULT_ORB_INSPECTOR_CONFIG,
+	DEFAULT_ORB_FOLLOW_VISUAL_CONFIG,
+	type OrbHistorySamples,
+	type OrbInspectorConfig,
+	type OrbFollowVisualConfig,
+} from './inspector';
+
+// =============================================================================
+// Scene Save/Load
+// =============================================================================
+export {
+	SceneSerializer,
+	ORB_FIELD_SCENE_VERSION,
+	orbFieldSceneSchema,
+	type OrbFieldScene,
+	type SceneCaptureInput,
+	type SceneParseResult,
+	type SceneLoadResult,
+} from './scene';
+
+// =============================================================================
+// Input Replay
+// =============================================================================
+export {
+	InputRecorder,
+	InputPlayer,
+	ReplayPointerTracker,
+	RecordingSerializer,
+	INPUT_RECORDING_VERSION,
+	inputRecordingSchema,
+	DEFAULT_INPUT_REPLAY_CONFIG,
+	type InputEvent,
+	type InputRecording,
+	type InputRecordingHeader,
+	type ReplayInputs,
+	type InputReplayConfig,
+	type InputReplayStatus,
+	type InputReplayControls,
+	type RecordingParseResult,
+} from './replay';
+
+// =============================================================================
+// Physics Worker
+// =============================================================================
+export {
+	OrbSnapshot,
+	PhysicsWorkerSimulation,
+	type PhysicsFrameInput,
+	type PhysicsWorkerRequest,
+	type PhysicsWorkerResponse,
+	type PhysicsWorkerStatus,
+} from './worker';
+
 // =============================================================================
 // Custom Hooks
 // =============================================================================
@@ -62,8 +286,11 @@ export {
 	useAnimationLoop,
 	useDebugStateSync,
 	useEventHandlers,
+	useGridObstacle,
+	useGridShapes,
 	type LoopCallback,
 	type DebugOptionRefs,
+	type ForceFieldAnchor,
 } from './hooks';
 
 // =============================================================================
@@ -73,31 +300,47 @@ export {
 	CELL_EMPTY,
 	CELL_PROXIMITY,
 	CELL_FILLED,
+	CELL_OBSTACLE,
 	type CellState,
 	type WindowSize,
 } from './shared/types';
+export {
+	SeededRandom,
+	DEFAULT_RANDOM,
+	createRandomSeed,
+	parseSeed,
+	type RandomSource,
+} from './shared/random';
 
 // =============================================================================
 // Configuration
 // =============================================================================
 export {
 	DEFAULT_GRID_CONFIG,
+	DEFAULT_GRID_STORAGE_CONFIG,
+	DEFAULT_GRID_RESIZE_CONFIG,
 	DEFAULT_REVEAL_CONFIG,
 	DEFAULT_STYLE_CONFIG,
 	DEFAULT_ORBFIELD_CONFIG,
 	DEFAULT_PARALLAX_CONFIG,
+	DEFAULT_TIME_SCALE_CONFIG,
 	type GridSystemConfig,
+	type GridStorageConfig,
+	type GridResizeConfig,
 	type GridRevealConfig,
 	type GridStyleConfig,
 	type OrbFieldConfig,
 	type ParallaxConfig,
+	type TimeScaleConfig,
 } from './shared/config';
 
 export {
 	DEFAULT_ORB_SPAWN_CONFIG,
 	DEFAULT_ORB_DEBUG_CONFIG,
+	DEFAULT_LIFECYCLE_CONFIG,
 	type OrbSpawnConfig,
 	type OrbDebugVisualConfig,
+	type OrbLifecycleConfig,
 } from './orb/config';
 
 // =============================================================================
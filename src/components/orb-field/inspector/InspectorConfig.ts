@@ -0,0 +1,78 @@
+// =============================================================================
+// Inspector Configuration - History sampling, edit ranges and follow marker
+// =============================================================================
+
+import { DEFAULT_WANDER_CONFIG } from '../orb/config';
+
+/**
+ * Configuration for the orb inspector.
+ */
+export interface OrbInspectorConfig {
+	/** Samples kept for the history graph. */
+	historyLength: number;
+	/** Time between history samples in milliseconds. */
+	sampleIntervalMs: number;
+	/** Velocity slider range (± pixels per second). */
+	maxVelocityPx: number;
+	/** Z velocity slider range (± layers per second). */
+	maxVelocityZ: number;
+	/** Lifetime slider maximum in seconds (the orb can also live forever). */
+	maxLifetimeSeconds: number;
+	/** Wander strength slider maximum (radians/second). */
+	maxWanderStrength: number;
+	/** Wander speed slider maximum (radians/second). */
+	maxWanderSpeed: number;
+	/** Wander modulation speed slider maximum. */
+	maxModulationSpeed: number;
+}
+
+/**
+ * Default inspector configuration.
+ * Ten seconds of history; wander sliders reach four times the spawn maximum.
+ */
+export const DEFAULT_ORB_INSPECTOR_CONFIG: OrbInspectorConfig = {
+	historyLength: 100,
+	sampleIntervalMs: 100,
+	maxVelocityPx: 400,
+	maxVelocityZ: 2,
+	maxLifetimeSeconds: 120,
+	maxWanderStrength: DEFAULT_WANDER_CONFIG.maxWanderStrength * 4,
+	maxWanderSpeed: DEFAULT_WANDER_CONFIG.maxWanderSpeed * 4,
+	maxModulationSpeed: DEFAULT_WANDER_CONFIG.maxModulationSpeed * 4,
+};
+
+/**
+ * Appearance of the follow marker on the debug canvas.
+ */
+export interface OrbFollowVisualConfig {
+	/** Marker color. */
+	color: string;
+	/** Marker color while the orb is pinned. */
+	pinnedColor: string;
+	/** Line width in pixels. */
+	lineWidth: number;
+	/** Gap between the orb's collision radius and the ring in pixels. */
+	ringPaddingPx: number;
+	/** Length of the crosshair ticks outside the ring in pixels. */
+	tickLengthPx: number;
+	/** Distance of the off-screen arrow from the viewport edge in pixels. */
+	edgeMarginPx: number;
+	/** Size of the off-screen arrow in pixels. */
+	arrowSizePx: number;
+	/** Period of the ring's pulse in milliseconds. */
+	pulsePeriodMs: number;
+}
+
+/**
+ * Default follow marker appearance.
+ */
+export const DEFAULT_ORB_FOLLOW_VISUAL_CONFIG: OrbFollowVisualConfig = {
+	color: 'rgba(255, 220, 90, 0.95)',
+	pinnedColor: 'rgba(255, 120, 200, 0.95)',
+	lineWidth: 1.5,
+	ringPaddingPx: 6,
+	tickLengthPx: 8,
+	edgeMarginPx: 18,
+	arrowSizePx: 10,
+	pulsePeriodMs: 1200,
+};
@@ -0,0 +1,99 @@
+// =============================================================================
+// OrbFollowOverlay - Marks the inspected orb on the debug canvas
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type ViewportCells } from '../grid/types';
+import { type WindowSize } from '../shared/types';
+import { DEFAULT_ORB_FOLLOW_VISUAL_CONFIG, type OrbFollowVisualConfig } from './InspectorConfig';
+
+/**
+ * Keeps the followed orb easy to find while it moves across the field.
+ *
+ * On screen it gets a pulsing ring with crosshair ticks; once it leaves the
+ * viewport an arrow on the nearest edge points toward it.
+ *
+ * Single Responsibility: Follow marker drawing only.
+ */
+export class OrbFollowOverlay {
+	/**
+	 * Draws the marker.
+	 *
+	 * @param ctx - The 2D canvas rendering context (untransformed, screen pixels).
+	 * @param orb - Followed orb.
+	 * @param vpc - Viewport cell metrics (for the orb's radius).
+	 * @param windowSize - Current window dimensions.
+	 * @param offsetX - Parallax offset applied to the orb.
+	 * @param offsetY - Parallax offset applied to the orb.
+	 * @param now - Current time in milliseconds (drives the pulse).
+	 * @param config - Marker appearance.
+	 */
+	static draw(
+		ctx: CanvasRenderingContext2D,
+		orb: Orb,
+		vpc: ViewportCells,
+		windowSize: WindowSize,
+		offsetX: number,
+		offsetY: number,
+		now: number,
+		config: OrbFollowVisualConfig = DEFAULT_ORB_FOLLOW_VISUAL_CONFIG
+	): void {
+		const x = orb.pxX + offsetX;
+		const y = orb.pxY + offsetY;
+		if (!isFinite(x) || !isFinite(y)) return;
+
+		ctx.save();
+		ctx.lineWidth = config.lineWidth;
+		ctx.strokeStyle = orb.pinned ? config.pinnedColor : config.color;
+		ctx.fillStyle = ctx.strokeStyle;
+
+		const { width, height } = windowSize;
+		if (x >= 0 && x <= width && y >= 0 && y <= height) {
+			const pulse = 0.5 + 0.5 * Math.sin((now / config.pulsePeriodMs) * Math.PI * 2);
+			const radius = Math.max(0.5, orb.size - 0.5) * vpc.cellSizeXPx + config.ringPaddingPx * (1 + pulse * 0.5);
+			this.drawRing(ctx, x, y, radius, config.tickLengthPx);
+		} else {
+			this.drawEdgeArrow(ctx, x, y, width, height, config);
+		}
+
+		ctx.restore();
+	}
+
+	private static drawRing(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, tick: number): void {
+		ctx.beginPath();
+		ctx.arc(x, y, radius, 0, Math.PI * 2);
+		ctx.moveTo(x - radius - tick, y);
+		ctx.lineTo(x - radius, y);
+		ctx.moveTo(x + radius, y);
+		ctx.lineTo(x + radius + tick, y);
+		ctx.moveTo(x, y - radius - tick);
+		ctx.lineTo(x, y - radius);
+		ctx.moveTo(x, y + radius);
+		ctx.lineTo(x, y + radius + tick);
+		ctx.stroke();
+	}
+
+	private static drawEdgeArrow(
+		ctx: CanvasRenderingContext2D,
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		config: OrbFollowVisualConfig
+	): void {
+		const margin = config.edgeMarginPx;
+		const tipX = Math.min(width - margin, Math.max(margin, x));
+		const tipY = Math.min(height - margin, Math.max(margin, y));
+		const angle = Math.atan2(y - tipY, x - tipX);
+		const size = config.arrowSizePx;
+
+		ctx.translate(tipX, tipY);
+		ctx.rotate(angle);
+		ctx.beginPath();
+		ctx.moveTo(0, 0);
+		ctx.lineTo(-size, -size * 0.6);
+		ctx.lineTo(-size, size * 0.6);
+		ctx.closePath();
+		ctx.fill();
+	}
+}
@@ -0,0 +1,70 @@
+// =============================================================================
+// OrbHistory - Ring buffer of the inspected orb's speed and layer
+// =============================================================================
+
+import { DEFAULT_ORB_INSPECTOR_CONFIG } from './InspectorConfig';
+import { type OrbHistorySamples } from './types';
+
+/**
+ * Records speed and z of one orb at a fixed interval for the history graph.
+ * Recording a different orb starts over.
+ *
+ * Single Responsibility: History sample storage only.
+ */
+export class OrbHistory {
+	private readonly speed: Float32Array;
+	private readonly z: Float32Array;
+	private head = 0;
+	private count = 0;
+	private orbId: string | null = null;
+
+	constructor(private readonly capacity = DEFAULT_ORB_INSPECTOR_CONFIG.historyLength) {
+		this.speed = new Float32Array(capacity);
+		this.z = new Float32Array(capacity);
+	}
+
+	/**
+	 * Adds a sample, dropping the oldest when full.
+	 *
+	 * @param orbId - Orb the sample belongs to.
+	 * @param speed - XY speed in pixels per second.
+	 * @param z - Z position in layers.
+	 */
+	record(orbId: string, speed: number, z: number): void {
+		if (orbId !== this.orbId) {
+			this.reset();
+			this.orbId = orbId;
+		}
+		this.speed[this.head] = speed;
+		this.z[this.head] = z;
+		this.head = (this.head + 1) % this.capacity;
+		this.count = Math.min(this.count + 1, this.capacity);
+	}
+
+	/**
+	 * Drops all samples.
+	 */
+	reset(): void {
+		this.head = 0;
+		this.count = 0;
+		this.orbId = null;
+	}
+
+	/**
+	 * Copies the samples out, oldest first.
+	 *
+	 * @returns Samples for React state, or null before the first sample.
+	 */
+	toSamples(): OrbHistorySamples | null {
+		if (this.orbId === null) return null;
+		const speed: number[] = [];
+		const z: number[] = [];
+		const start = (this.head - this.count + this.capacity) % this.capacity;
+		for (let i = 0; i < this.count; i++) {
+			const index = (start + i) % this.capacity;
+			speed.push(this.speed[index]);
+			z.push(this.z[index]);
+		}
+		return { orbId: this.orbId, speed, z };
+	}
+}
@@ -0,0 +1,13 @@
+// =============================================================================
+// Inspector - Exports for the orb inspector (history and follow marker)
+// =============================================================================
+
+export { type OrbHistorySamples } from './types';
+export {
+	DEFAULT_ORB_INSPECTOR_CONFIG,
+	DEFAULT_ORB_FOLLOW_VISUAL_CONFIG,
+	type OrbInspectorConfig,
+	type OrbFollowVisualConfig,
+} from './InspectorConfig';
+export { OrbHistory } from './OrbHistory';
+export { OrbFollowOverlay } from './OrbFollowOverlay';
@@ -0,0 +1,15 @@
+// =============================================================================
+// Inspector Types - Recorded orb history
+// =============================================================================
+
+/**
+ * Recent speed and layer of the inspected orb, oldest first.
+ */
+export interface OrbHistorySamples {
+	/** ID of the orb the samples belong to. */
+	orbId: string;
+	/** XY speed in pixels per second. */
+	speed: number[];
+	/** Z position in layers. */
+	z: number[];
+}
@@ -0,0 +1,103 @@
+// =============================================================================
+// GridObstacleRegistry - DOM elements that block orbs
+// =============================================================================
+
+import { DEFAULT_GRID_OBSTACLE_CONFIG, type GridObstacleConfig } from './ObstacleConfig';
+import { type GridObstacle, type GridObstacleLayers } from './types';
+
+/**
+ * A registered element and how it blocks orbs.
+ */
+interface ObstacleEntry {
+	ref: React.RefObject<Element | null>;
+	layers?: GridObstacleLayers;
+	paddingPx?: number;
+}
+
+/**
+ * Elements registered as grid obstacles by any component (see useGridObstacle).
+ *
+ * Components and the orb field are siblings in the page, so registrations go
+ * through a shared registry rather than props. Refs are stored rather than
+ * elements, so an element that mounts or unmounts later is picked up on the
+ * next measurement.
+ *
+ * Single Responsibility: Obstacle registration and measurement only.
+ */
+export class GridObstacleRegistry {
+	private entries = new Map<string, ObstacleEntry>();
+	private listeners = new Set<() => void>();
+
+	/**
+	 * @param config - Default layers and padding for registrations.
+	 */
+	constructor(private readonly config: GridObstacleConfig = DEFAULT_GRID_OBSTACLE_CONFIG) {}
+
+	/**
+	 * Registers an element.
+	 *
+	 * @param id - Unique identifier (a later registration with the same ID replaces it).
+	 * @param ref - Ref to the element whose bounding rect blocks orbs.
+	 * @param options - Layers and padding.
+	 * @returns Unregister function.
+	 */
+	register(id: string, ref: React.RefObject<Element | null>, options: Omit<ObstacleEntry, 'ref'> = {}): () => void {
+		const entry: ObstacleEntry = { ref, ...options };
+		this.entries.set(id, entry);
+		this.notify();
+
+		return () => {
+			if (this.entries.get(id) !== entry) return;
+			this.entries.delete(id);
+			this.notify();
+		};
+	}
+
+	/**
+	 * Subscribes to registrations and removals.
+	 *
+	 * @param listener - Called after every change.
+	 * @returns Unsubscribe function.
+	 */
+	subscribe(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Measures every mounted, non-empty registered element.
+	 *
+	 * @returns Obstacles in screen pixels.
+	 */
+	measure(): GridObstacle[] {
+		const obstacles: GridObstacle[] = [];
+		for (const [id, entry] of this.entries) {
+			const rect = entry.ref.current?.getBoundingClientRect();
+			if (!rect || rect.width === 0 || rect.height === 0) continue;
+
+			const padding = entry.paddingPx ?? this.config.paddingPx;
+			obstacles.push({
+				id,
+				x: rect.left - padding,
+				y: rect.top - padding,
+				width: rect.width + padding * 2,
+				height: rect.height + padding * 2,
+				layers: entry.layers ?? this.config.layers,
+			});
+		}
+		return obstacles;
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
+
+/**
+ * Registry shared by the page's components and the orb field.
+ */
+export const gridObstacleRegistry = new GridObstacleRegistry();
@@ -0,0 +1,60 @@
+// =============================================================================
+// Obstacle Configuration
+// =============================================================================
+
+import { type GridObstacleLayers } from './types';
+
+/**
+ * Configuration for DOM-derived grid obstacles.
+ */
+export interface GridObstacleConfig {
+	/** Layers blocked when a registration does not choose its own. */
+	layers: GridObstacleLayers;
+	/** Padding when a registration does not choose its own, in pixels. */
+	paddingPx: number;
+	/** How often registered elements are re-measured, in milliseconds (also on resize and scroll). */
+	measureIntervalMs: number;
+	/** Fill color for obstacle cells in the debug grid. */
+	debugColor: string;
+}
+
+/**
+ * Default obstacle configuration.
+ * The front layers block, so orbs that would visibly cross a card bounce off
+ * it while orbs further back still drift behind it.
+ */
+export const DEFAULT_GRID_OBSTACLE_CONFIG: GridObstacleConfig = {
+	layers: { min: 0, max: 9 },
+	paddingPx: 0,
+	measureIntervalMs: 200,
+	debugColor: 'rgba(120, 200, 255, 0.35)',
+};
+
+/**
+ * Configuration for rasterising and revealing arbitrary shapes.
+ */
+export interface GridShapeConfig {
+	/** Alpha (0-255) from which a cell counts as inside the shape (128 = half covered). */
+	alphaThreshold: number;
+	/** Font family for text shapes that do not choose their own. */
+	fontFamily: string;
+	/** Font weight for text shapes that do not choose their own. */
+	fontWeight: string;
+	/** Duration of the grow-in and shrink-out animation, in milliseconds. */
+	revealMs: number;
+	/** Distinct sizes a shape passes through while animating (each one is rasterised). */
+	revealSteps: number;
+}
+
+/**
+ * Default shape configuration.
+ * Bold type keeps letter strokes several cells wide at typical heading sizes,
+ * so contained orbs have room to move inside them.
+ */
+export const DEFAULT_GRID_SHAPE_CONFIG: GridShapeConfig = {
+	alphaThreshold: 128,
+	fontFamily: 'sans-serif',
+	fontWeight: '800',
+	revealMs: 600,
+	revealSteps: 12,
+};
@@ -0,0 +1,106 @@
+// =============================================================================
+// ObstacleRasterizer - Screen rectangles and shape masks to CELL_OBSTACLE cells
+// =============================================================================
+
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type GridConfig, type ViewportCells } from '../grid/types';
+import { CELL_OBSTACLE } from '../shared/types';
+import { type GridObstacle, type GridShapeMask } from './types';
+
+/** Ints per obstacle in a bounds array: minX, maxX, minY, maxY, minLayer, maxLayer. */
+const BOUNDS_STRIDE = 6;
+
+/**
+ * Converts obstacles to inclusive cell bounds and marks them in the grid.
+ *
+ * Obstacle cells are saved as the grid's clean state, so clearDynamic()
+ * keeps them and orb marking never has to repeat the rasterisation.
+ *
+ * Single Responsibility: Obstacle rasterisation only.
+ */
+export class ObstacleRasterizer {
+	/**
+	 * Computes the cells each obstacle covers, clamped to the grid.
+	 *
+	 * @param obstacles - Obstacles in screen pixels.
+	 * @param config - Grid dimensions.
+	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 * @param scrollOffset - Parallax offset mapping screen pixels into physics space.
+	 * @returns Packed bounds (see BOUNDS_STRIDE); empty ranges have min > max.
+	 */
+	static toCellBounds(
+		obstacles: readonly GridObstacle[],
+		config: GridConfig,
+		vpc: ViewportCells,
+		scrollOffset: { x: number; y: number }
+	): Int32Array {
+		const bounds = new Int32Array(obstacles.length * BOUNDS_STRIDE);
+
+		obstacles.forEach((obstacle, i) => {
+			const left = obstacle.x - scrollOffset.x;
+			const top = obstacle.y - scrollOffset.y;
+			const o = i * BOUNDS_STRIDE;
+			bounds[o] = Math.max(0, Math.floor(left * vpc.invCellSizeXPx) + vpc.startCellX);
+			bounds[o + 1] = Math.min(config.cellsX - 1, Math.ceil((left + obstacle.width) * vpc.invCellSizeXPx) - 1 + vpc.startCellX);
+			bounds[o + 2] = Math.max(0, Math.floor(top * vpc.invCellSizeYPx) + vpc.startCellY);
+			bounds[o + 3] = Math.min(config.cellsY - 1, Math.ceil((top + obstacle.height) * vpc.invCellSizeYPx) - 1 + vpc.startCellY);
+			bounds[o + 4] = Math.max(0, Math.round(obstacle.layers.min));
+			bounds[o + 5] = Math.min(config.layers - 1, Math.round(obstacle.layers.max));
+		});
+
+		return bounds;
+	}
+
+	/**
+	 * Checks whether two bounds arrays cover the same cells.
+	 */
+	static boundsEqual(a: Int32Array, b: Int32Array): boolean {
+		if (a.length !== b.length) return false;
+		for (let i = 0; i < a.length; i++) {
+			if (a[i] !== b[i]) return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Replaces the grid's obstacle cells and saves them as its clean state.
+	 * Dynamic cells are cleared; the next grid marking phase restores them.
+	 *
+	 * @param grid - Spatial grid to mark.
+	 * @param bounds - Packed bounds from toCellBounds().
+	 * @param masks - Rasterised shapes (see ShapeRasterizer), clipped to the grid.
+	 */
+	static apply(grid: SpatialGrid, bounds: Int32Array, masks: readonly GridShapeMask[] = []): void {
+		grid.clearDynamic();
+		grid.resetCleanState();
+
+		for (let o = 0; o < bounds.length; o += BOUNDS_STRIDE) {
+			for (let layer = bounds[o + 4]; layer <= bounds[o + 5]; layer++) {
+				for (let cellY = bounds[o + 2]; cellY <= bounds[o + 3]; cellY++) {
+					for (let cellX = bounds[o]; cellX <= bounds[o + 1]; cellX++) {
+						grid.addCellFlag(cellX, cellY, layer, CELL_OBSTACLE);
+					}
+				}
+			}
+		}
+
+		const { cellsX, cellsY, layers } = grid.config;
+		for (const mask of masks) {
+			const minLayer = Math.max(0, Math.round(mask.layers.min));
+			const maxLayer = Math.min(layers - 1, Math.round(mask.layers.max));
+			for (let row = 0; row < mask.rows; row++) {
+				const cellY = mask.cellY + row;
+				if (cellY < 0 || cellY >= cellsY) continue;
+				for (let col = 0; col < mask.cols; col++) {
+					const cellX = mask.cellX + col;
+					if (cellX < 0 || cellX >= cellsX || !mask.cells[row * mask.cols + col]) continue;
+					for (let layer = minLayer; layer <= maxLayer; layer++) {
+						grid.addCellFlag(cellX, cellY, layer, CELL_OBSTACLE);
+					}
+				}
+			}
+		}
+
+		grid.saveCleanState();
+	}
+}
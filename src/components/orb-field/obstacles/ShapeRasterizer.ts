@@ -0,0 +1,170 @@
+// =============================================================================
+// ShapeRasterizer - SVG paths, text and image alpha to grid cell masks
+// =============================================================================
+
+import { type GridConfig } from '../grid/types';
+import { DEFAULT_GRID_OBSTACLE_CONFIG, DEFAULT_GRID_SHAPE_CONFIG, type GridShapeConfig } from './ObstacleConfig';
+import { type GridShape, type GridShapeMask, type GridShapeSource } from './types';
+
+type ShapeContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Rasterises shapes into cell masks by drawing them on a canvas with one
+ * pixel per cell and thresholding the alpha channel.
+ *
+ * Needs a canvas (OffscreenCanvas or the DOM), so masks are made on the main
+ * thread and passed to the simulation as plain data.
+ *
+ * Single Responsibility: Shape to cell mask conversion only.
+ */
+export class ShapeRasterizer {
+	/** Last revision handed out (see GridShapeMask.revision). */
+	private static revision = 0;
+
+	/**
+	 * Rasterises a shape for the given grid.
+	 *
+	 * @param shape - Shape in world centimeters.
+	 * @param config - Grid the mask's cells refer to.
+	 * @param reveal - Size of the shape from 0 (hidden) to 1 (full size), scaled about its center.
+	 * @param shapeConfig - Threshold and font defaults.
+	 * @returns The mask, or null when the shape is hidden, empty or no canvas is available.
+	 */
+	static rasterize(
+		shape: GridShape,
+		config: GridConfig,
+		reveal = 1,
+		shapeConfig: GridShapeConfig = DEFAULT_GRID_SHAPE_CONFIG
+	): GridShapeMask | null {
+		if (reveal <= 0 || shape.widthCm <= 0 || shape.heightCm <= 0) return null;
+
+		// The outline of a containing shape lies one cell outside it
+		const pad = shape.mode === 'contain' ? 1 : 0;
+		const cellX = Math.floor((shape.xCm - config.minXCm) / config.cellSizeXCm) - pad;
+		const cellY = Math.floor((shape.yCm - config.minYCm) / config.cellSizeYCm) - pad;
+		const cols = Math.ceil((shape.xCm + shape.widthCm - config.minXCm) / config.cellSizeXCm) + pad - cellX;
+		const rows = Math.ceil((shape.yCm + shape.heightCm - config.minYCm) / config.cellSizeYCm) + pad - cellY;
+
+		const ctx = ShapeRasterizer.createContext(cols, rows);
+		if (!ctx) return null;
+
+		// Work in world centimeters; each canvas pixel is one cell
+		ctx.scale(1 / config.cellSizeXCm, 1 / config.cellSizeYCm);
+		ctx.translate(-(config.minXCm + cellX * config.cellSizeXCm), -(config.minYCm + cellY * config.cellSizeYCm));
+		ctx.translate(shape.xCm + shape.widthCm / 2, shape.yCm + shape.heightCm / 2);
+		ShapeRasterizer.drawSource(ctx, shape.source, shape.widthCm, shape.heightCm, reveal, shapeConfig);
+
+		const alpha = ctx.getImageData(0, 0, cols, rows).data;
+		const inside = new Uint8Array(cols * rows);
+		for (let i = 0; i < inside.length; i++) {
+			inside[i] = alpha[i * 4 + 3] >= shapeConfig.alphaThreshold ? 1 : 0;
+		}
+
+		const cells = shape.mode === 'contain' ? ShapeRasterizer.outline(inside, cols, rows) : inside;
+		if (!cells.includes(1)) return null;
+
+		return {
+			id: shape.id,
+			revision: ++ShapeRasterizer.revision,
+			cellX,
+			cellY,
+			cols,
+			rows,
+			cells,
+			layers: shape.layers ?? DEFAULT_GRID_OBSTACLE_CONFIG.layers,
+		};
+	}
+
+	/**
+	 * Checks whether two mask lists are the same rasterisations.
+	 */
+	static sameMasks(a: readonly GridShapeMask[], b: readonly GridShapeMask[]): boolean {
+		return a.length === b.length && a.every((mask, i) => mask.revision === b[i].revision);
+	}
+
+	/**
+	 * Creates a 2D context sized in cells, preferring OffscreenCanvas.
+	 */
+	private static createContext(cols: number, rows: number): ShapeContext | null {
+		if (cols <= 0 || rows <= 0) return null;
+		if (typeof OffscreenCanvas !== 'undefined') {
+			return new OffscreenCanvas(cols, rows).getContext('2d', { willReadFrequently: true });
+		}
+		if (typeof document === 'undefined') return null;
+
+		const canvas = document.createElement('canvas');
+		canvas.width = cols;
+		canvas.height = rows;
+		return canvas.getContext('2d', { willReadFrequently: true });
+	}
+
+	/**
+	 * Draws the source fitted into a box centered on the current origin.
+	 */
+	private static drawSource(
+		ctx: ShapeContext,
+		source: GridShapeSource,
+		boxWidth: number,
+		boxHeight: number,
+		reveal: number,
+		shapeConfig: GridShapeConfig
+	): void {
+		const fit = (width: number, height: number) => {
+			const scale = Math.min(boxWidth / width, boxHeight / height) * reveal;
+			ctx.scale(scale, scale);
+		};
+
+		switch (source.kind) {
+			case 'path': {
+				const { viewBox } = source;
+				fit(viewBox.width, viewBox.height);
+				ctx.translate(-(viewBox.x + viewBox.width / 2), -(viewBox.y + viewBox.height / 2));
+				ctx.fill(new Path2D(source.d), source.fillRule ?? 'nonzero');
+				break;
+			}
+			case 'text': {
+				// Measured at a large size for precise ink bounds, then scaled to fit
+				const weight = source.fontWeight ?? shapeConfig.fontWeight;
+				const family = source.fontFamily ?? shapeConfig.fontFamily;
+				ctx.font = `${weight} 100px ${family}`;
+				const metrics = ctx.measureText(source.text);
+				const left = metrics.actualBoundingBoxLeft;
+				const right = metrics.actualBoundingBoxRight;
+				const ascent = metrics.actualBoundingBoxAscent;
+				const descent = metrics.actualBoundingBoxDescent;
+				if (left + right <= 0 || ascent + descent <= 0) return;
+
+				fit(left + right, ascent + descent);
+				ctx.fillText(source.text, (left - right) / 2, (ascent - descent) / 2);
+				break;
+			}
+			case 'image':
+				fit(source.width, source.height);
+				ctx.drawImage(source.image, -source.width / 2, -source.height / 2, source.width, source.height);
+				break;
+		}
+	}
+
+	/**
+	 * Returns the cells just outside the shape: empty cells with a
+	 * 4-connected neighbour inside it.
+	 */
+	private static outline(inside: Uint8Array, cols: number, rows: number): Uint8Array {
+		const ring = new Uint8Array(cols * rows);
+		for (let y = 0; y < rows; y++) {
+			for (let x = 0; x < cols; x++) {
+				const i = y * cols + x;
+				if (inside[i]) continue;
+				if (
+					(x > 0 && inside[i - 1]) ||
+					(x < cols - 1 && inside[i + 1]) ||
+					(y > 0 && inside[i - cols]) ||
+					(y < rows - 1 && inside[i + cols])
+				) {
+					ring[i] = 1;
+				}
+			}
+		}
+		return ring;
+	}
+}
@@ -0,0 +1,22 @@
+// =============================================================================
+// Obstacles - Exports for static geometry (DOM elements and shapes) in the spatial grid
+// =============================================================================
+
+export {
+	type GridObstacle,
+	type GridObstacleLayers,
+	type GridObstacleOptions,
+	type GridShape,
+	type GridShapeMask,
+	type GridShapeMode,
+	type GridShapeSource,
+} from './types';
+export {
+	DEFAULT_GRID_OBSTACLE_CONFIG,
+	DEFAULT_GRID_SHAPE_CONFIG,
+	type GridObstacleConfig,
+	type GridShapeConfig,
+} from './ObstacleConfig';
+export { GridObstacleRegistry, gridObstacleRegistry } from './GridObstacleRegistry';
+export { ObstacleRasterizer } from './ObstacleRasterizer';
+export { ShapeRasterizer } from './ShapeRasterizer';
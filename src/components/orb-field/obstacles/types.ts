@@ -0,0 +1,128 @@
+// =============================================================================
+// Obstacle Types - Static DOM-derived geometry in the spatial grid
+// =============================================================================
+
+/**
+ * Depth range (in layers) an obstacle occupies. Inclusive on both ends.
+ */
+export interface GridObstacleLayers {
+	min: number;
+	max: number;
+}
+
+/**
+ * A screen-space rectangle rasterised into the grid as CELL_OBSTACLE.
+ * Plain values, so obstacles can be posted to the physics worker.
+ */
+export interface GridObstacle {
+	/** Unique identifier of the registration. */
+	id: string;
+	/** Left edge in screen pixels. */
+	x: number;
+	/** Top edge in screen pixels. */
+	y: number;
+	/** Width in screen pixels. */
+	width: number;
+	/** Height in screen pixels. */
+	height: number;
+	/** Layers the obstacle blocks. */
+	layers: GridObstacleLayers;
+}
+
+/**
+ * How a registered element becomes an obstacle.
+ */
+export interface GridObstacleOptions {
+	/** Whether the element currently blocks orbs (e.g. only while a card is shown). */
+	enabled?: boolean;
+	/** Layers the element blocks (defaults to DEFAULT_GRID_OBSTACLE_CONFIG.layers). */
+	layers?: GridObstacleLayers;
+	/** Pixels added around the element's bounding rect (negative shrinks it). */
+	paddingPx?: number;
+}
+
+/**
+ * Drawing that defines a shape's cells. Sources are fitted into the shape's
+ * box keeping their aspect ratio, centered (like SVG's xMidYMid meet).
+ */
+export type GridShapeSource =
+	| {
+		kind: 'path';
+		/** SVG path data, e.g. the `d` attribute of a logo's path. */
+		d: string;
+		/** Coordinate box the path was drawn in. */
+		viewBox: { x: number; y: number; width: number; height: number };
+		/** Fill rule for overlapping subpaths (defaults to 'nonzero'). */
+		fillRule?: CanvasFillRule;
+	}
+	| {
+		kind: 'text';
+		/** Text to rasterise, e.g. the greeting. */
+		text: string;
+		/** CSS font family (defaults to DEFAULT_GRID_SHAPE_CONFIG.fontFamily). */
+		fontFamily?: string;
+		/** CSS font weight (defaults to DEFAULT_GRID_SHAPE_CONFIG.fontWeight). */
+		fontWeight?: string;
+	}
+	| {
+		kind: 'image';
+		/** Loaded image whose alpha channel is the mask. */
+		image: CanvasImageSource;
+		/** Natural width of the image in pixels. */
+		width: number;
+		/** Natural height of the image in pixels. */
+		height: number;
+	};
+
+/**
+ * How a shape's cells affect orbs.
+ * - wall: the shape is solid, orbs flow around it
+ * - contain: only the outline is solid, so orbs inside stay inside
+ */
+export type GridShapeMode = 'wall' | 'contain';
+
+/**
+ * An arbitrary shape placed in grid world space (centimeters, the space
+ * GridConfigFactory lays the grid out in; 0,0 is the viewport's top left).
+ */
+export interface GridShape {
+	/** Unique identifier; reveal animations are tracked per id. */
+	id: string;
+	/** Path, text or image defining the shape. */
+	source: GridShapeSource;
+	/** Left edge of the shape's box in centimeters. */
+	xCm: number;
+	/** Top edge of the shape's box in centimeters. */
+	yCm: number;
+	/** Width of the shape's box in centimeters. */
+	widthCm: number;
+	/** Height of the shape's box in centimeters. */
+	heightCm: number;
+	/** Whether the shape blocks orbs or contains them. */
+	mode: GridShapeMode;
+	/** Layers the shape occupies (defaults to DEFAULT_GRID_OBSTACLE_CONFIG.layers). */
+	layers?: GridObstacleLayers;
+}
+
+/**
+ * A rasterised shape: the cells it marks as CELL_OBSTACLE.
+ * Plain values, so masks can be posted to the physics worker.
+ */
+export interface GridShapeMask {
+	/** Id of the shape the mask was made from. */
+	id: string;
+	/** Increases with every rasterisation, so unchanged masks are cheap to detect. */
+	revision: number;
+	/** Grid X-index of the mask's first column. */
+	cellX: number;
+	/** Grid Y-index of the mask's first row. */
+	cellY: number;
+	/** Mask width in cells. */
+	cols: number;
+	/** Mask height in cells. */
+	rows: number;
+	/** One byte per cell, row by row; non-zero cells are marked. */
+	cells: Uint8Array;
+	/** Layers the mask is marked on. */
+	layers: GridObstacleLayers;
+}
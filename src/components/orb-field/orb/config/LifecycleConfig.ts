@@ -0,0 +1,48 @@
+// =============================================================================
+// Lifecycle Configuration
+// =============================================================================
+
+import { DEFAULT_ORB_SPAWN_CONFIG } from './SpawnConfig';
+
+/**
+ * Configuration for orb merging and splitting (lifecycle mode).
+ *
+ * Impact energy is measured along the contact normal with size as mass:
+ * 0.5 * (sizeA * sizeB / (sizeA + sizeB)) * approachSpeed², in size·px²/s².
+ */
+export interface OrbLifecycleConfig {
+	/** Largest orb that may take part in a merge. */
+	mergeMaxSourceSize: number;
+	/** Largest orb a merge may produce (merges that would exceed it bounce instead). */
+	mergeMaxResultSize: number;
+	/** Contacts at or below this energy merge. */
+	mergeMaxEnergy: number;
+	/** Smallest orb that can split. */
+	splitMinSize: number;
+	/** Contacts at or above this energy split the larger orb. */
+	splitMinEnergy: number;
+	/** Maximum number of pieces per split. */
+	splitMaxPieces: number;
+	/** Outward speed added to split pieces (pixels/second, scaled by mass so momentum is kept). */
+	splitKickSpeed: number;
+	/** Time after a merge before the merged orb can merge or split again (milliseconds). */
+	mergeCooldownMs: number;
+	/** Time after a split before the pieces can merge or split again (milliseconds). */
+	splitCooldownMs: number;
+}
+
+/**
+ * Default lifecycle configuration.
+ * Orbs drift at 50-150 px/s, so only gentle grazes merge while burst-speed hits split.
+ */
+export const DEFAULT_LIFECYCLE_CONFIG: OrbLifecycleConfig = {
+	mergeMaxSourceSize: 4,
+	mergeMaxResultSize: DEFAULT_ORB_SPAWN_CONFIG.maxSize,
+	mergeMaxEnergy: 1000,      // Two size 1 orbs closing at ~60 px/s
+	splitMinSize: 4,
+	splitMinEnergy: 100000,    // A size 1 orb hitting a size 6 orb at ~500 px/s
+	splitMaxPieces: 3,
+	splitKickSpeed: 80,
+	mergeCooldownMs: 1500,
+	splitCooldownMs: 3000,     // Longer so pieces drift apart before they can re-merge
+};
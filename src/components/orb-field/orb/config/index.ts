@@ -9,3 +9,5 @@ export { type OrbWanderConfig, DEFAULT_WANDER_CONFIG } from './WanderConfig';
 export { type OrbBurstConfig, DEFAULT_ORB_BURST_CONFIG } from './BurstConfig';
 export { type ContinuousSpawnConfig, DEFAULT_CONTINUOUS_SPAWN_CONFIG } from './ContinuousSpawnConfig';
 export { type OrbDebugVisualConfig, DEFAULT_ORB_DEBUG_CONFIG } from './DebugVisualConfig';
+export { type OrbContinuousCollisionConfig, DEFAULT_CONTINUOUS_COLLISION_CONFIG } from './ContinuousCollisionConfig';
+export { type OrbLifecycleConfig, DEFAULT_LIFECYCLE_CONFIG } from './LifecycleConfig';
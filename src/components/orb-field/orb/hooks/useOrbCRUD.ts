@@ -12,6 +12,8 @@ import { type ViewportCells } from '../../grid/types';
 import { DEFAULT_ORB_SPAWN_CONFIG, type OrbSpawnConfig } from '../config';
 import { SpawnValidation } from '../../collision';
 import { OrbFactory } from '../utils';
+import { DEFAULT_RANDOM, type RandomSource } from '../../shared/random';
+import { DEFAULT_ORB_PALETTE, type OrbPalette } from '../../palette';
 
 /**
  * Options for the CRUD hook.
@@ -19,6 +21,12 @@ import { OrbFactory } from '../utils';
 interface UseOrbCRUDOptions {
 	/** Configuration for orb spawning. */
 	spawnConfig?: Partial<OrbSpawnConfig>;
+	/** Random source for created orbs (defaults to Math.random). */
+	random?: RandomSource;
+	/** Returns the creation timestamp for new orbs (defaults to performance.now()). */
+	getTime?: () => number;
+	/** Returns the palette new orbs are coloured from (defaults to DEFAULT_ORB_PALETTE). */
+	getPalette?: () => OrbPalette;
 }
 
 /**
@@ -29,20 +37,31 @@ export interface UseOrbCRUDReturn {
 	createOrb: (pxX: number, pxY: number, z: number, size: number, grid: SpatialGrid, vpc: ViewportCells, orbsRef: React.RefObject<Orb[]>, setOrbs: (orbs: Orb[]) => void, setSelectedOrbId: (id: string) => void, selectedOrbIdRef: React.RefObject<string | null>) => void;
 	/** Deletes an orb by ID. */
 	deleteOrb: (id: string, grid: SpatialGrid, vpc: ViewportCells, orbsRef: React.RefObject<Orb[]>, setOrbs: (orbs: Orb[]) => void, setSelectedOrbId: (id: string | null) => void, setSelectedOrbData: (data: Orb | null) => void, selectedOrbIdRef: React.RefObject<string | null>) => void;
+	/** Replaces every orb (scene load), re-marking the grid. */
+	replaceOrbs: (orbs: Orb[], grid: SpatialGrid, vpc: ViewportCells, orbsRef: React.RefObject<Orb[]>, setOrbs: (orbs: Orb[]) => void) => void;
 	/** Syncs React state with orbsRef. */
 	syncOrbsState: (orbsRef: React.RefObject<Orb[]>, setOrbs: (orbs: Orb[]) => void) => void;
 }
 
+/** Default creation clock when no simulation clock is supplied. */
+const defaultGetTime = () => performance.now();
+
+/** Default palette when no simulation palette is supplied. */
+const defaultGetPalette = () => DEFAULT_ORB_PALETTE;
+
 /**
  * Hook for orb CRUD operations.
  * 
- * Single Responsibility: Orb create/delete operations only.
+ * Single Responsibility: Orb create/delete/replace operations only.
  */
 export function useOrbCRUD(options: UseOrbCRUDOptions = {}): UseOrbCRUDReturn {
 	const spawnConfig = useMemo(
 		() => ({ ...DEFAULT_ORB_SPAWN_CONFIG, ...options.spawnConfig }),
 		[options.spawnConfig]
 	);
+	const random = options.random ?? DEFAULT_RANDOM;
+	const getTime = options.getTime ?? defaultGetTime;
+	const getPalette = options.getPalette ?? defaultGetPalette;
 
 	const createOrb = useCallback((
 		pxX: number,
@@ -62,10 +81,10 @@ export function useOrbCRUD(options: UseOrbCRUDOptions = {}): UseOrbCRUDReturn {
 		}
 
 		// Random 3D direction
-		const theta = Math.random() * Math.PI * 2;
-		const phi = (Math.random() - 0.5) * Math.PI * 0.5;
+		const theta = random.next() * Math.PI * 2;
+		const phi = (random.next() - 0.5) * Math.PI * 0.5;
 		const speedRange = spawnConfig.maxSpeed - spawnConfig.minSpeed;
-		const speed = spawnConfig.minSpeed + Math.random() * speedRange;
+		const speed = spawnConfig.minSpeed + random.next() * speedRange;
 
 		const cosTheta = Math.cos(theta);
 		const sinTheta = Math.sin(theta);
@@ -83,7 +102,7 @@ export function useOrbCRUD(options: UseOrbCRUDOptions = {}): UseOrbCRUDReturn {
 			angle: theta,
 			size,
 			lifetimeMs: Infinity,
-		});
+		}, random, getTime(), getPalette());
 
 		orbsRef.current.push(newOrb);
 		setOrbs([...orbsRef.current]);
@@ -91,7 +110,7 @@ export function useOrbCRUD(options: UseOrbCRUDOptions = {}): UseOrbCRUDReturn {
 		selectedOrbIdRef.current = newOrb.id;
 
 		OrbGridMarking.markOrbCircular(grid, newOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
-	}, [spawnConfig.minSpeed, spawnConfig.maxSpeed]);
+	}, [spawnConfig.minSpeed, spawnConfig.maxSpeed, random, getTime, getPalette]);
 
 	const deleteOrb = useCallback((
 		id: string,
@@ -117,6 +136,24 @@ export function useOrbCRUD(options: UseOrbCRUDOptions = {}): UseOrbCRUDReturn {
 		}
 	}, []);
 
+	const replaceOrbs = useCallback((
+		orbs: Orb[],
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		orbsRef: React.RefObject<Orb[]>,
+		setOrbs: (orbs: Orb[]) => void
+	) => {
+		for (const orb of orbsRef.current) {
+			OrbGridMarking.clearOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+		}
+		// Fresh objects, so the physics worker sees every orb as replaced even when IDs repeat
+		orbsRef.current = orbs.map((orb) => ({ ...orb }));
+		for (const orb of orbsRef.current) {
+			OrbGridMarking.markOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+		}
+		setOrbs([...orbsRef.current]);
+	}, []);
+
 	const syncOrbsState = useCallback((
 		orbsRef: React.RefObject<Orb[]>,
 		setOrbs: (orbs: Orb[]) => void
@@ -127,6 +164,7 @@ export function useOrbCRUD(options: UseOrbCRUDOptions = {}): UseOrbCRUDReturn {
 	return useMemo(() => ({
 		createOrb,
 		deleteOrb,
+		replaceOrbs,
 		syncOrbsState,
-	}), [createOrb, deleteOrb, syncOrbsState]);
+	}), [createOrb, deleteOrb, replaceOrbs, syncOrbsState]);
 }
@@ -4,25 +4,26 @@
 // useOrbManager - Orchestrates orb management sub-hooks
 // =============================================================================
 
-import { useRef, useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { type Orb } from '../types';
 import { SpatialGrid } from '../../grid/core/SpatialGrid';
 import { type ViewportCells } from '../../grid/types';
-import { type OrbSpawnConfig, type OrbBurstConfig, type ContinuousSpawnConfig } from '../config';
+import { type OrbSpawnConfig } from '../config';
 import { useOrbSelection } from './useOrbSelection';
 import { useOrbSpawning } from './useOrbSpawning';
 import { useOrbCRUD } from './useOrbCRUD';
+import { type OrbSimulation } from '../../simulation';
 
 /**
  * Options for the orb manager hook.
  */
 interface UseOrbManagerOptions {
-	/** Configuration for orb spawning. */
+	/** Simulation that owns the orbs (burst and continuous spawn configs live there). */
+	simulation: OrbSimulation;
+	/** Configuration for click-created orbs. */
 	spawnConfig?: Partial<OrbSpawnConfig>;
-	/** Configuration for burst spawning. */
-	burstConfig?: Partial<OrbBurstConfig>;
-	/** Configuration for continuous spawning. */
-	continuousConfig?: Partial<ContinuousSpawnConfig>;
+	/** Returns the creation timestamp for new orbs (defaults to performance.now()). */
+	getTime?: () => number;
 }
 
 /**
@@ -42,9 +43,11 @@ interface UseOrbManagerReturn {
 	/** Creates a new orb at the specified position. */
 	createOrb: (pxX: number, pxY: number, layer: number, size: number, grid: SpatialGrid, vpc: ViewportCells) => void;
 	/** Spawns a burst of orbs from a center point. */
-	spawnOrbBurst: (centerX: number, centerY: number, grid: SpatialGrid, vpc: ViewportCells) => void;
+	spawnOrbBurst: (centerX: number, centerY: number) => void;
 	/** Deletes an orb by ID. */
 	deleteOrb: (id: string, grid: SpatialGrid, vpc: ViewportCells) => void;
+	/** Replaces every orb (scene load) and clears the selection. */
+	replaceOrbs: (orbs: Orb[], grid: SpatialGrid, vpc: ViewportCells) => void;
 	/** Selects an orb by ID. */
 	selectOrb: (id: string | null) => void;
 	/** Updates the selected orb data (for real-time debug display). */
@@ -52,19 +55,26 @@ interface UseOrbManagerReturn {
 	/** Syncs React state with orbsRef (for UI updates after direct ref modifications). */
 	syncOrbsState: () => void;
 	/** Spawns random orbs at random positions across the viewport. */
-	spawnRandomOrbs: (count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells) => number;
+	spawnRandomOrbs: (count: number) => number;
 }
 
 /**
  * Orchestrates all orb management operations by composing focused sub-hooks.
+ * The orbs themselves live in the OrbSimulation; this hook mirrors them into
+ * React state for the debug UI.
  * 
  * Single Responsibility: Composes sub-hooks into unified API.
  */
-export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManagerReturn {
+export function useOrbManager(options: UseOrbManagerOptions): UseOrbManagerReturn {
+	const { simulation } = options;
+
 	// Shared state
-	const orbsRef = useRef<Orb[]>([]);
+	const orbsRef = simulation.orbsRef;
 	const [orbs, setOrbs] = useState<Orb[]>([]);
 
+	// Click-spawned orbs follow the simulation's current palette
+	const getPalette = useCallback(() => simulation.palette, [simulation]);
+
 	// Sub-hooks - destructure to get stable references
 	const {
 		selectedOrbId,
@@ -78,16 +88,20 @@ export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManager
 		spawnOrbBurst: spawningSpawnOrbBurst,
 		spawnRandomOrbs: spawningSpawnRandomOrbs,
 	} = useOrbSpawning({
-		burstConfig: options.burstConfig,
-		continuousConfig: options.continuousConfig,
+		simulation,
+		getTime: options.getTime,
 	});
 
 	const {
 		createOrb: crudCreateOrb,
 		deleteOrb: crudDeleteOrb,
+		replaceOrbs: crudReplaceOrbs,
 		syncOrbsState: crudSyncOrbsState,
 	} = useOrbCRUD({
 		spawnConfig: options.spawnConfig,
+		random: simulation.random,
+		getTime: options.getTime,
+		getPalette,
 	});
 
 	// Wrapper functions that pass shared state to sub-hooks
@@ -96,7 +110,7 @@ export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManager
 			selectionSelectOrb(id, orbsRef);
 		};
 		crudCreateOrb(pxX, pxY, z, size, grid, vpc, orbsRef, setOrbs, setSelectedOrbId, selectedOrbIdRef);
-	}, [crudCreateOrb, selectionSelectOrb, selectedOrbIdRef]);
+	}, [crudCreateOrb, selectionSelectOrb, selectedOrbIdRef, orbsRef]);
 
 	const deleteOrb = useCallback((id: string, grid: SpatialGrid, vpc: ViewportCells) => {
 		const setSelectedOrbIdWrapper = (id: string | null) => {
@@ -106,27 +120,40 @@ export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManager
 			// Data is already set by selectOrb
 		};
 		crudDeleteOrb(id, grid, vpc, orbsRef, setOrbs, setSelectedOrbIdWrapper, setSelectedOrbDataWrapper, selectedOrbIdRef);
-	}, [crudDeleteOrb, selectionSelectOrb, selectedOrbIdRef]);
+	}, [crudDeleteOrb, selectionSelectOrb, selectedOrbIdRef, orbsRef]);
+
+	const replaceOrbs = useCallback((orbs: Orb[], grid: SpatialGrid, vpc: ViewportCells) => {
+		crudReplaceOrbs(orbs, grid, vpc, orbsRef, setOrbs);
+		selectionSelectOrb(null, orbsRef);
+	}, [crudReplaceOrbs, selectionSelectOrb, orbsRef]);
 
-	const spawnOrbBurst = useCallback((centerX: number, centerY: number, grid: SpatialGrid, vpc: ViewportCells) => {
-		spawningSpawnOrbBurst(centerX, centerY, grid, vpc, orbsRef, setOrbs);
+	const spawnOrbBurst = useCallback((centerX: number, centerY: number) => {
+		spawningSpawnOrbBurst(centerX, centerY);
 	}, [spawningSpawnOrbBurst]);
 
-	const spawnRandomOrbs = useCallback((count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells): number => {
-		return spawningSpawnRandomOrbs(count, screenWidth, screenHeight, grid, vpc, orbsRef, setOrbs);
+	const spawnRandomOrbs = useCallback((count: number): number => {
+		return spawningSpawnRandomOrbs(count);
 	}, [spawningSpawnRandomOrbs]);
 
 	const selectOrb = useCallback((id: string | null) => {
 		selectionSelectOrb(id, orbsRef);
-	}, [selectionSelectOrb]);
+	}, [selectionSelectOrb, orbsRef]);
 
 	const updateSelectedOrbData = useCallback(() => {
 		selectionUpdateSelectedOrbData(orbsRef);
-	}, [selectionUpdateSelectedOrbData]);
+	}, [selectionUpdateSelectedOrbData, orbsRef]);
 
 	const syncOrbsState = useCallback(() => {
 		crudSyncOrbsState(orbsRef, setOrbs);
-	}, [crudSyncOrbsState]);
+	}, [crudSyncOrbsState, orbsRef]);
+
+	// Follow orbs added or removed inside the simulation (spawning, expiration)
+	useEffect(() => {
+		simulation.setRosterChangeHandler(syncOrbsState);
+		return () => {
+			simulation.setRosterChangeHandler(null);
+		};
+	}, [simulation, syncOrbsState]);
 
 	// Memoize return object to prevent unnecessary re-renders in consumers
 	return useMemo(() => ({
@@ -139,10 +166,12 @@ export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManager
 		spawnOrbBurst,
 		spawnRandomOrbs,
 		deleteOrb,
+		replaceOrbs,
 		selectOrb,
 		updateSelectedOrbData,
 		syncOrbsState,
 	}), [
+		orbsRef,
 		orbs,
 		selectedOrbId,
 		selectedOrbData,
@@ -151,6 +180,7 @@ export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManager
 		spawnOrbBurst,
 		spawnRandomOrbs,
 		deleteOrb,
+		replaceOrbs,
 		selectOrb,
 		updateSelectedOrbData,
 		syncOrbsState,
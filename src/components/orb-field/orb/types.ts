@@ -51,6 +51,34 @@ export interface Orb {
 	/** Despawn/fade-out animation duration for this specific orb (milliseconds). */
 	despawnAnimDurationMs: number;
 
+	/**
+	 * Time (milliseconds) before which the orb cannot merge or split.
+	 * Infinity while the orb dissolves after a merge or split.
+	 */
+	lifecycleCooldownUntil: number;
+
+	/**
+	 * Whether the orb is held in place with infinite mass (debug inspector).
+	 * Packed into worker snapshots as 0/1; changes reach the worker as edits.
+	 */
+	pinned?: boolean;
+
+	// =========================================================================
+	// Colour (HSL, eased toward the active palette by the Orb Colour phase)
+	// =========================================================================
+
+	/** Random value (0-1) choosing this orb's palette entry and jitter. */
+	colorSeed: number;
+
+	/** Current hue in degrees (0-360). */
+	hue: number;
+
+	/** Current saturation percentage (0-100). */
+	saturation: number;
+
+	/** Current lightness percentage (0-100). */
+	lightness: number;
+
 	// =========================================================================
 	// Wander Behavior (organic velocity drift)
 	// =========================================================================
@@ -86,3 +114,12 @@ export interface Orb {
 	 */
 	wanderModulationPhase: number;
 }
+
+/**
+ * Live changes to one orb from the debug inspector.
+ * Velocity changes also update speed and angle; pinning zeroes velocity.
+ */
+export type OrbEdit = Partial<Pick<
+	Orb,
+	'vx' | 'vy' | 'vz' | 'size' | 'z' | 'lifetimeMs' | 'wanderStrength' | 'wanderSpeed' | 'wanderModulationSpeed' | 'pinned'
+>>;
@@ -0,0 +1,57 @@
+// =============================================================================
+// OrbEditor - Applies inspector edits to an orb
+// =============================================================================
+
+import { type Orb, type OrbEdit } from '../types';
+import { DEFAULT_ORB_SPAWN_CONFIG } from '../config';
+
+/**
+ * Applies live edits from the debug inspector.
+ *
+ * Keeps derived fields consistent: speed and angle follow the edited
+ * velocity, size stays within the spawn range and a pinned orb stops dead.
+ *
+ * Single Responsibility: Orb field edits only.
+ */
+export class OrbEditor {
+	/**
+	 * Applies an edit in place.
+	 *
+	 * @param orb - Orb to change.
+	 * @param edit - Fields to overwrite.
+	 * @param totalLayers - Number of z-layers (z is clamped to the grid depth).
+	 */
+	static apply(orb: Orb, edit: OrbEdit, totalLayers: number): void {
+		if (edit.vx !== undefined) orb.vx = edit.vx;
+		if (edit.vy !== undefined) orb.vy = edit.vy;
+		if (edit.vz !== undefined) orb.vz = edit.vz;
+		if (edit.size !== undefined) {
+			const { minSize, maxSize } = DEFAULT_ORB_SPAWN_CONFIG;
+			orb.size = Math.round(Math.min(maxSize, Math.max(minSize, edit.size)));
+		}
+		if (edit.z !== undefined) orb.z = Math.min(totalLayers - 1, Math.max(0, edit.z));
+		if (edit.lifetimeMs !== undefined) orb.lifetimeMs = Math.max(0, edit.lifetimeMs);
+		if (edit.wanderStrength !== undefined) orb.wanderStrength = edit.wanderStrength;
+		if (edit.wanderSpeed !== undefined) orb.wanderSpeed = edit.wanderSpeed;
+		if (edit.wanderModulationSpeed !== undefined) orb.wanderModulationSpeed = edit.wanderModulationSpeed;
+		if (edit.pinned !== undefined) orb.pinned = edit.pinned;
+
+		if (orb.pinned) {
+			orb.vx = 0;
+			orb.vy = 0;
+			orb.vz = 0;
+		}
+		this.syncHeading(orb);
+	}
+
+	/**
+	 * Recomputes speed and angle from the XY velocity.
+	 *
+	 * @param orb - Orb whose velocity changed.
+	 */
+	static syncHeading(orb: Orb): void {
+		orb.speed = Math.sqrt(orb.vx * orb.vx + orb.vy * orb.vy);
+		// Keep the last heading while stopped so wander resumes smoothly
+		if (orb.speed > 0) orb.angle = Math.atan2(orb.vy, orb.vx);
+	}
+}
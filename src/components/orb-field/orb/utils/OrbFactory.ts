@@ -4,6 +4,8 @@
 
 import { type Orb } from '../types';
 import { generateAnimationDurations, generateWanderParams } from './OrbSpawnUtils';
+import { DEFAULT_RANDOM, type RandomSource } from '../../shared/random';
+import { DEFAULT_ORB_PALETTE, OrbPaletteSampler, type OrbColor, type OrbPalette } from '../../palette';
 
 /**
  * Parameters for creating an orb.
@@ -31,6 +33,10 @@ export interface CreateOrbParams {
 	lifetimeMs: number;
 	/** Optional spawn delay for staggered appearance (milliseconds). */
 	spawnDelay?: number;
+	/** Colour seed to keep (e.g. from a parent orb); drawn from the random source if omitted. */
+	colorSeed?: number;
+	/** Starting colour (e.g. blended from merging orbs); sampled from the palette if omitted. */
+	color?: OrbColor;
 }
 
 /**
@@ -41,12 +47,20 @@ export interface CreateOrbParams {
 export class OrbFactory {
 	/**
 	 * Creates a new orb with the specified parameters.
-	 * Automatically generates animation durations and wander parameters.
+	 * Automatically generates animation durations, wander parameters and colour.
 	 * 
 	 * @param params - Orb creation parameters.
+	 * @param random - Random source for the ID and per-orb parameters (defaults to Math.random).
+	 * @param now - Creation timestamp in milliseconds (defaults to performance.now()).
+	 * @param palette - Palette the starting colour is sampled from.
 	 * @returns A fully initialized Orb object.
 	 */
-	static create(params: CreateOrbParams): Orb {
+	static create(
+		params: CreateOrbParams,
+		random: RandomSource = DEFAULT_RANDOM,
+		now: number = performance.now(),
+		palette: OrbPalette = DEFAULT_ORB_PALETTE
+	): Orb {
 		const {
 			pxX,
 			pxY,
@@ -61,12 +75,13 @@ export class OrbFactory {
 			spawnDelay = 0,
 		} = params;
 
-		const animDurations = generateAnimationDurations();
-		const wanderParams = generateWanderParams();
-		const now = performance.now();
+		const animDurations = generateAnimationDurations(random);
+		const wanderParams = generateWanderParams(random);
+		const colorSeed = params.colorSeed ?? random.next();
+		const color = params.color ?? OrbPaletteSampler.sample(palette, colorSeed);
 
 		return {
-			id: crypto.randomUUID(),
+			id: random.uuid(),
 			pxX,
 			pxY,
 			z,
@@ -80,6 +95,11 @@ export class OrbFactory {
 			lifetimeMs,
 			spawnAnimDurationMs: animDurations.spawnAnimDurationMs,
 			despawnAnimDurationMs: animDurations.despawnAnimDurationMs,
+			lifecycleCooldownUntil: 0,
+			colorSeed,
+			hue: color.hue,
+			saturation: color.saturation,
+			lightness: color.lightness,
 			...wanderParams,
 		};
 	}
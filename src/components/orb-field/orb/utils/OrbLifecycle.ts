@@ -0,0 +1,189 @@
+// =============================================================================
+// OrbLifecycle - Merging and splitting of orbs
+// =============================================================================
+
+import { type Orb } from '../types';
+import { OrbBehaviors } from '../core';
+import { type ViewportCells } from '../../grid/types';
+import { DEFAULT_ORB_SPAWN_CONFIG, DEFAULT_LIFECYCLE_CONFIG, type OrbLifecycleConfig } from '../config';
+import { OrbFactory } from './OrbFactory';
+import { DEFAULT_RANDOM, type RandomSource } from '../../shared/random';
+import { OrbColorBlend } from '../../palette';
+
+/** Maximum Z drift speed toward a new preferred layer (matches OrbBehaviors.applyLayerAttraction). */
+const MAX_LAYER_DRIFT_SPEED = 0.5;
+
+/**
+ * Creates the orbs that replace merging or splitting orbs.
+ *
+ * Source orbs are not removed here: dissolve() shortens their lifetime so
+ * the renderer plays their despawn animation and PhaseExpiration removes
+ * them afterwards, while the new orbs play their spawn animation.
+ *
+ * Single Responsibility: Merge and split orb creation only.
+ */
+export class OrbLifecycle {
+	/**
+	 * Whether the orb is fading out after a merge or split.
+	 * Dissolving orbs are ignored by avoidance and collisions.
+	 *
+	 * @param orb - The orb to check.
+	 */
+	static isDissolving(orb: Orb): boolean {
+		return orb.lifecycleCooldownUntil === Infinity;
+	}
+
+	/**
+	 * Whether the orb may merge or split at the given time.
+	 *
+	 * @param orb - The orb to check.
+	 * @param now - Current time in milliseconds.
+	 */
+	static isReady(orb: Orb, now: number): boolean {
+		return !orb.pinned && now >= orb.lifecycleCooldownUntil;
+	}
+
+	/**
+	 * Starts the despawn animation of an orb that was merged or split.
+	 *
+	 * @param orb - The orb to dissolve.
+	 * @param now - Current time in milliseconds.
+	 */
+	static dissolve(orb: Orb, now: number): void {
+		orb.lifetimeMs = Math.min(orb.lifetimeMs, now - orb.createdAt + orb.despawnAnimDurationMs);
+		orb.lifecycleCooldownUntil = Infinity;
+	}
+
+	/**
+	 * Creates the orb formed by two merging orbs and dissolves both.
+	 * Position, velocity and colour are mass-weighted (size is mass), so
+	 * momentum is conserved. The larger orb's colour seed carries over.
+	 *
+	 * @param orbA - First orb.
+	 * @param orbB - Second orb.
+	 * @param now - Current time in milliseconds.
+	 * @param totalLayers - Total number of Z-layers (for the new preferred layer).
+	 * @param random - Random source for the new orb's ID and parameters.
+	 * @param config - Lifecycle configuration.
+	 * @returns The merged orb.
+	 */
+	static merge(
+		orbA: Orb,
+		orbB: Orb,
+		now: number,
+		totalLayers: number,
+		random: RandomSource = DEFAULT_RANDOM,
+		config: OrbLifecycleConfig = DEFAULT_LIFECYCLE_CONFIG
+	): Orb {
+		const size = orbA.size + orbB.size;
+		const weightA = orbA.size / size;
+		const weightB = orbB.size / size;
+
+		const vx = orbA.vx * weightA + orbB.vx * weightB;
+		const vy = orbA.vy * weightA + orbB.vy * weightB;
+		const z = orbA.z * weightA + orbB.z * weightB;
+
+		const merged = OrbFactory.create({
+			pxX: orbA.pxX * weightA + orbB.pxX * weightB,
+			pxY: orbA.pxY * weightA + orbB.pxY * weightB,
+			z,
+			vx,
+			vy,
+			vz: this.getLayerDrift(size, z, totalLayers),
+			speed: Math.sqrt(vx * vx + vy * vy),
+			angle: Math.atan2(vy, vx),
+			size,
+			lifetimeMs: Math.max(this.getRemainingLifetime(orbA, now), this.getRemainingLifetime(orbB, now)),
+			colorSeed: orbA.size >= orbB.size ? orbA.colorSeed : orbB.colorSeed,
+			color: OrbColorBlend.weighted(orbA, orbA.size, orbB, orbB.size),
+		}, random, now);
+		merged.lifecycleCooldownUntil = now + config.mergeCooldownMs;
+
+		this.dissolve(orbA, now);
+		this.dissolve(orbB, now);
+		return merged;
+	}
+
+	/**
+	 * Creates the pieces of a splitting orb and dissolves it.
+	 *
+	 * Pieces are spread evenly around the impact direction inside the orb's
+	 * footprint and pushed outward. Each push is scaled by the piece's inverse
+	 * mass so the pushes cancel and the orb's momentum is kept. Pieces start
+	 * in the parent's colour.
+	 *
+	 * @param orb - The orb to split (size must be at least 2).
+	 * @param impactAngle - Direction of the hit in the XY plane (radians).
+	 * @param now - Current time in milliseconds.
+	 * @param vpc - Viewport cell metrics for cell to pixel conversion.
+	 * @param totalLayers - Total number of Z-layers (for the new preferred layers).
+	 * @param random - Random source for the pieces' IDs and parameters.
+	 * @param config - Lifecycle configuration.
+	 * @returns The pieces.
+	 */
+	static split(
+		orb: Orb,
+		impactAngle: number,
+		now: number,
+		vpc: ViewportCells,
+		totalLayers: number,
+		random: RandomSource = DEFAULT_RANDOM,
+		config: OrbLifecycleConfig = DEFAULT_LIFECYCLE_CONFIG
+	): Orb[] {
+		const count = Math.max(2, Math.min(config.splitMaxPieces, orb.size));
+		const baseSize = Math.floor(orb.size / count);
+		const remainder = orb.size - baseSize * count;
+		const meanSize = orb.size / count;
+
+		// Pieces sit halfway out from the center so they start inside the parent
+		const offsetCells = (orb.size - 1) * 0.5;
+		const lifetimeMs = this.getRemainingLifetime(orb, now);
+		const pieces: Orb[] = [];
+
+		for (let i = 0; i < count; i++) {
+			const size = baseSize + (i < remainder ? 1 : 0);
+			const direction = impactAngle + (i / count) * Math.PI * 2;
+			const dirX = Math.cos(direction);
+			const dirY = Math.sin(direction);
+
+			const kick = config.splitKickSpeed * (meanSize / size);
+			const vx = orb.vx + dirX * kick;
+			const vy = orb.vy + dirY * kick;
+
+			const piece = OrbFactory.create({
+				pxX: orb.pxX + dirX * offsetCells * vpc.cellSizeXPx,
+				pxY: orb.pxY + dirY * offsetCells * vpc.cellSizeYPx,
+				z: orb.z,
+				vx,
+				vy,
+				vz: this.getLayerDrift(size, orb.z, totalLayers),
+				speed: Math.sqrt(vx * vx + vy * vy),
+				angle: Math.atan2(vy, vx),
+				size,
+				lifetimeMs,
+				colorSeed: orb.colorSeed,
+				color: OrbColorBlend.copy(orb),
+			}, random, now);
+			piece.lifecycleCooldownUntil = now + config.splitCooldownMs;
+			pieces.push(piece);
+		}
+
+		this.dissolve(orb, now);
+		return pieces;
+	}
+
+	/**
+	 * Z velocity that starts a new orb drifting toward the preferred layer of its size.
+	 */
+	private static getLayerDrift(size: number, z: number, totalLayers: number): number {
+		const preferredLayer = OrbBehaviors.getPreferredLayer(size, DEFAULT_ORB_SPAWN_CONFIG.maxSize, totalLayers);
+		return Math.max(-MAX_LAYER_DRIFT_SPEED, Math.min(MAX_LAYER_DRIFT_SPEED, preferredLayer - z));
+	}
+
+	/**
+	 * Lifetime left for an orb (Infinity for permanent orbs).
+	 */
+	private static getRemainingLifetime(orb: Orb, now: number): number {
+		return Math.max(0, orb.lifetimeMs - (now - orb.createdAt));
+	}
+}
@@ -4,27 +4,32 @@
 
 import { DEFAULT_ORB_VISUAL_CONFIG } from '../visuals/OrbVisualConfig';
 import { DEFAULT_WANDER_CONFIG } from '../config';
+import { DEFAULT_RANDOM, type RandomSource } from '../../shared/random';
 
 /**
  * Generates random animation durations for an orb.
  * Each orb gets unique spawn and despawn durations within the configured range.
+ * 
+ * @param random - Random source (defaults to Math.random).
  */
-export function generateAnimationDurations(): {
+export function generateAnimationDurations(random: RandomSource = DEFAULT_RANDOM): {
 	spawnAnimDurationMs: number;
 	despawnAnimDurationMs: number;
 } {
 	const { spawnDurationMinMs, spawnDurationMaxMs, despawnDurationMinMs, despawnDurationMaxMs } = DEFAULT_ORB_VISUAL_CONFIG;
 	return {
-		spawnAnimDurationMs: spawnDurationMinMs + Math.random() * (spawnDurationMaxMs - spawnDurationMinMs),
-		despawnAnimDurationMs: despawnDurationMinMs + Math.random() * (despawnDurationMaxMs - despawnDurationMinMs),
+		spawnAnimDurationMs: spawnDurationMinMs + random.next() * (spawnDurationMaxMs - spawnDurationMinMs),
+		despawnAnimDurationMs: despawnDurationMinMs + random.next() * (despawnDurationMaxMs - despawnDurationMinMs),
 	};
 }
 
 /**
  * Generates random wander parameters for an orb.
  * Each orb gets unique wander characteristics for organic movement.
+ * 
+ * @param random - Random source (defaults to Math.random).
  */
-export function generateWanderParams(): {
+export function generateWanderParams(random: RandomSource = DEFAULT_RANDOM): {
 	wanderStrength: number;
 	wanderPhase: number;
 	wanderSpeed: number;
@@ -33,11 +38,11 @@ export function generateWanderParams(): {
 } {
 	const { minWanderStrength, maxWanderStrength, minWanderSpeed, maxWanderSpeed, minModulationSpeed, maxModulationSpeed } = DEFAULT_WANDER_CONFIG;
 	return {
-		wanderStrength: minWanderStrength + Math.random() * (maxWanderStrength - minWanderStrength),
-		wanderPhase: Math.random() * Math.PI * 2, // Start at random phase
-		wanderSpeed: minWanderSpeed + Math.random() * (maxWanderSpeed - minWanderSpeed),
-		wanderModulationSpeed: minModulationSpeed + Math.random() * (maxModulationSpeed - minModulationSpeed),
-		wanderModulationPhase: Math.random() * Math.PI * 2,
+		wanderStrength: minWanderStrength + random.next() * (maxWanderStrength - minWanderStrength),
+		wanderPhase: random.next() * Math.PI * 2, // Start at random phase
+		wanderSpeed: minWanderSpeed + random.next() * (maxWanderSpeed - minWanderSpeed),
+		wanderModulationSpeed: minModulationSpeed + random.next() * (maxModulationSpeed - minModulationSpeed),
+		wanderModulationPhase: random.next() * Math.PI * 2,
 	};
 }
 
@@ -46,9 +51,10 @@ export function generateWanderParams(): {
  * Uses 1/(size^1.3) instead of 1/(size^2) for more balanced distribution.
  * 
  * @param maxSize - Maximum allowed orb size.
+ * @param random - Random source (defaults to Math.random).
  * @returns A random size between 1 and maxSize.
  */
-export function getRandomSize(maxSize: number): number {
+export function getRandomSize(maxSize: number, random: RandomSource = DEFAULT_RANDOM): number {
 	// Build cumulative weights: 1/(1^1.3), 1/(2^1.3), 1/(3^1.3), etc.
 	const weights: number[] = [];
 	let sum = 0;
@@ -59,7 +65,7 @@ export function getRandomSize(maxSize: number): number {
 	}
 
 	// Random selection
-	const rand = Math.random() * sum;
+	const rand = random.next() * sum;
 	for (let i = 0; i < weights.length; i++) {
 		if (rand <= weights[i]) {
 			return i + 1;
@@ -0,0 +1,219 @@
+// =============================================================================
+// OrbSpawner - Framework-free burst and random orb spawning
+// =============================================================================
+
+import { type Orb } from '../types';
+import { OrbGridMarking, OrbBehaviors } from '../core';
+import { SpatialGrid } from '../../grid/core/SpatialGrid';
+import { type ViewportCells } from '../../grid/types';
+import { type OrbBurstConfig, type ContinuousSpawnConfig } from '../config';
+import { SpawnValidation } from '../../collision';
+import { OrbFactory } from './OrbFactory';
+import { getRandomSize } from './OrbSpawnUtils';
+import { DEFAULT_RANDOM, type RandomSource } from '../../shared/random';
+import { DEFAULT_ORB_PALETTE, type OrbPalette } from '../../palette';
+
+/**
+ * Creates batches of orbs at validated positions and marks them in the grid.
+ *
+ * Has no React dependencies so the same spawning rules can run inside
+ * useOrbSpawning on the main thread and inside the physics worker.
+ *
+ * Single Responsibility: Spawn position and initial velocity selection only.
+ */
+export class OrbSpawner {
+	/**
+	 * Creates a burst of orbs from a center point with size-based distribution.
+	 *
+	 * Implements:
+	 * - Weighted size selection (power law with exponent 1.3 for balanced distribution)
+	 * - Size-based layer assignment (larger orbs on back layers)
+	 * - Size-scaled velocity (smaller orbs faster, larger orbs slower)
+	 * - Collision-safe positioning with retries
+	 * - Outward velocity from center point
+	 * - Staggered spawn timing for organic appearance
+	 * - Position jitter for non-circular explosion pattern
+	 *
+	 * @param centerX - Burst center X in pixels.
+	 * @param centerY - Burst center Y in pixels.
+	 * @param grid - Spatial grid for spawn validation and marking.
+	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 * @param burstConfig - Burst spawning configuration.
+	 * @param random - Random source (defaults to Math.random).
+	 * @param now - Creation timestamp in milliseconds (defaults to performance.now()).
+	 * @param palette - Palette the orbs' colours are sampled from.
+	 * @returns The newly created orbs (already marked in the grid).
+	 */
+	static createBurst(
+		centerX: number,
+		centerY: number,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		burstConfig: OrbBurstConfig,
+		random: RandomSource = DEFAULT_RANDOM,
+		now: number = performance.now(),
+		palette: OrbPalette = DEFAULT_ORB_PALETTE
+	): Orb[] {
+		const { targetCount, maxSize, spawnRadiusPx, maxRetries, minSpeed, maxSpeed, minLifetimeMs, maxLifetimeMs, spawnDelayMaxMs, positionJitterPx } = burstConfig;
+		const totalLayers = grid.config.layers;
+		const newOrbs: Orb[] = [];
+
+		// Helper: Get random position near center with organic distribution
+		const getRandomPosition = (): { x: number; y: number } => {
+			const angle = random.next() * Math.PI * 2;
+			const normalizedDistance = Math.pow(random.next(), 0.6);
+			const distance = normalizedDistance * spawnRadiusPx;
+
+			const baseX = centerX + Math.cos(angle) * distance;
+			const baseY = centerY + Math.sin(angle) * distance;
+
+			const jitterX = (random.next() - 0.5) * 2 * positionJitterPx;
+			const jitterY = (random.next() - 0.5) * 2 * positionJitterPx;
+
+			return {
+				x: baseX + jitterX,
+				y: baseY + jitterY,
+			};
+		};
+
+		// Spawn each orb
+		for (let i = 0; i < targetCount; i++) {
+			const size = getRandomSize(maxSize, random);
+			const layer = OrbBehaviors.getPreferredLayer(size, maxSize, totalLayers);
+
+			const spawnPos = this.findSpawnPosition(getRandomPosition, layer, size, maxRetries, grid, vpc);
+			if (!spawnPos) continue;
+
+			const dx = spawnPos.x - centerX;
+			const dy = spawnPos.y - centerY;
+			const angle = Math.atan2(dy, dx);
+
+			const sizeSpeedFactor = 1 / Math.sqrt(size);
+			const speedRandomness = Math.pow(random.next(), 0.6);
+
+			const scaledMinSpeed = minSpeed * sizeSpeedFactor;
+			const scaledMaxSpeed = maxSpeed * sizeSpeedFactor;
+			const speed = scaledMinSpeed + speedRandomness * (scaledMaxSpeed - scaledMinSpeed);
+
+			const lifetimeMs = minLifetimeMs + random.next() * (maxLifetimeMs - minLifetimeMs);
+			const spawnDelay = random.next() * spawnDelayMaxMs;
+
+			const newOrb: Orb = OrbFactory.create({
+				pxX: spawnPos.x,
+				pxY: spawnPos.y,
+				z: layer,
+				vx: Math.cos(angle) * speed,
+				vy: Math.sin(angle) * speed,
+				vz: 0,
+				speed,
+				angle,
+				size,
+				lifetimeMs,
+				spawnDelay,
+			}, random, now, palette);
+
+			OrbGridMarking.markOrbCircular(grid, newOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+			newOrbs.push(newOrb);
+		}
+
+		return newOrbs;
+	}
+
+	/**
+	 * Creates orbs at random positions across the viewport.
+	 * Uses the same size distribution and lifetime as burst spawning.
+	 *
+	 * @param count - Number of orbs to attempt to spawn.
+	 * @param screenWidth - Viewport width in pixels.
+	 * @param screenHeight - Viewport height in pixels.
+	 * @param grid - Spatial grid for spawn validation and marking.
+	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 * @param burstConfig - Burst configuration (size, speed and lifetime ranges).
+	 * @param continuousConfig - Continuous spawn configuration (edge margin).
+	 * @param random - Random source (defaults to Math.random).
+	 * @param now - Creation timestamp in milliseconds (defaults to performance.now()).
+	 * @param palette - Palette the orbs' colours are sampled from.
+	 * @returns The newly created orbs (may be fewer than count if positions were blocked).
+	 */
+	static createRandom(
+		count: number,
+		screenWidth: number,
+		screenHeight: number,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		burstConfig: OrbBurstConfig,
+		continuousConfig: ContinuousSpawnConfig,
+		random: RandomSource = DEFAULT_RANDOM,
+		now: number = performance.now(),
+		palette: OrbPalette = DEFAULT_ORB_PALETTE
+	): Orb[] {
+		const { maxSize, maxRetries, minSpeed, maxSpeed, minLifetimeMs, maxLifetimeMs } = burstConfig;
+		const { edgeMarginPx } = continuousConfig;
+		const totalLayers = grid.config.layers;
+		const newOrbs: Orb[] = [];
+
+		const getRandomPosition = (): { x: number; y: number } => {
+			return {
+				x: edgeMarginPx + random.next() * (screenWidth - 2 * edgeMarginPx),
+				y: edgeMarginPx + random.next() * (screenHeight - 2 * edgeMarginPx),
+			};
+		};
+
+		for (let i = 0; i < count; i++) {
+			const size = getRandomSize(maxSize, random);
+			const layer = OrbBehaviors.getPreferredLayer(size, maxSize, totalLayers);
+
+			const spawnPos = this.findSpawnPosition(getRandomPosition, layer, size, maxRetries, grid, vpc);
+			if (!spawnPos) continue;
+
+			const angle = random.next() * Math.PI * 2;
+
+			const sizeSpeedFactor = 1 / Math.sqrt(size);
+			const scaledMinSpeed = minSpeed * sizeSpeedFactor;
+			const scaledMaxSpeed = maxSpeed * sizeSpeedFactor;
+			const speed = scaledMinSpeed + random.next() * (scaledMaxSpeed - scaledMinSpeed);
+
+			const lifetimeMs = minLifetimeMs + random.next() * (maxLifetimeMs - minLifetimeMs);
+
+			const newOrb: Orb = OrbFactory.create({
+				pxX: spawnPos.x,
+				pxY: spawnPos.y,
+				z: layer,
+				vx: Math.cos(angle) * speed,
+				vy: Math.sin(angle) * speed,
+				vz: 0,
+				speed,
+				angle,
+				size,
+				lifetimeMs,
+			}, random, now, palette);
+
+			OrbGridMarking.markOrbCircular(grid, newOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+			newOrbs.push(newOrb);
+		}
+
+		return newOrbs;
+	}
+
+	/**
+	 * Tries random candidate positions until one passes spawn validation.
+	 *
+	 * @returns A valid position, or null if all retries were blocked.
+	 */
+	private static findSpawnPosition(
+		getRandomPosition: () => { x: number; y: number },
+		layer: number,
+		size: number,
+		maxRetries: number,
+		grid: SpatialGrid,
+		vpc: ViewportCells
+	): { x: number; y: number } | null {
+		for (let attempts = 0; attempts < maxRetries; attempts++) {
+			const pos = getRandomPosition();
+			if (SpawnValidation.canSpawn(pos.x, pos.y, layer, size, grid, vpc)) {
+				return pos;
+			}
+		}
+		return null;
+	}
+}
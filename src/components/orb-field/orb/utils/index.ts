@@ -8,3 +8,6 @@ export {
 	getRandomSize,
 } from './OrbSpawnUtils';
 export { OrbFactory, type CreateOrbParams } from './OrbFactory';
+export { OrbSpawner } from './OrbSpawner';
+export { OrbLifecycle } from './OrbLifecycle';
+export { OrbEditor } from './OrbEditor';
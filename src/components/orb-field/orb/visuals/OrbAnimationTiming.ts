@@ -4,6 +4,7 @@
 
 import { type Orb } from '../types';
 import { type OrbVisualConfig } from './OrbVisualConfig';
+import { type OrbFocalPlane } from './types';
 
 /**
  * Handles animation timing calculations for spawn/despawn effects.
@@ -77,4 +78,25 @@ export class OrbAnimationTiming {
 	static calculateDepthFactor(z: number, totalLayers: number): number {
 		return Math.max(0, Math.min(1, z / totalLayers));
 	}
+
+	/**
+	 * Calculates how far an orb is out of focus.
+	 * Returns 0 inside the focal plane's sharp band, rising to 1 at the
+	 * nearest layer in front of it and at the furthest layer behind it.
+	 * With the focus at layer 0 and no aperture this equals the depth factor.
+	 *
+	 * @param z - Current z-position of the orb.
+	 * @param totalLayers - Total number of z-layers.
+	 * @param focalPlane - Focus layer and aperture.
+	 * @returns Blur factor from 0 (sharp) to 1 (most blurred).
+	 */
+	static calculateBlurFactor(z: number, totalLayers: number, focalPlane: OrbFocalPlane): number {
+		const { focusLayer, aperture } = focalPlane;
+		const distance = Math.abs(z - focusLayer) - aperture;
+		if (distance <= 0) return 0;
+
+		// Each side of the plane blurs over its own depth, so both ends reach full blur
+		const range = z < focusLayer ? focusLayer - aperture : totalLayers - focusLayer - aperture;
+		return Math.min(1, distance / Math.max(1, range));
+	}
 }
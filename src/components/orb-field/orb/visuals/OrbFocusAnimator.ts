@@ -0,0 +1,75 @@
+// =============================================================================
+// OrbFocusAnimator - Animated focal plane for depth of field
+// =============================================================================
+
+import { DEFAULT_ORB_FOCAL_PLANE, DEFAULT_ORB_FOCUS_CONFIG, type OrbFocusConfig } from './OrbFocusConfig';
+import { type OrbFocalPlane } from './types';
+
+/**
+ * Eases the focal plane between targets.
+ *
+ * The render loop samples it once per frame; a new target starts from
+ * wherever the current pull has reached, so retargeting mid-transition
+ * does not jump.
+ *
+ * Single Responsibility: Focal plane interpolation only.
+ */
+export class OrbFocusAnimator {
+	private from: OrbFocalPlane;
+	private to: OrbFocalPlane;
+	private startTime = 0;
+	private durationMs = 0;
+
+	/** Reused sample result (read it before the next sample call). */
+	private readonly current: OrbFocalPlane;
+
+	constructor(
+		initial: OrbFocalPlane = DEFAULT_ORB_FOCAL_PLANE,
+		private readonly config: OrbFocusConfig = DEFAULT_ORB_FOCUS_CONFIG
+	) {
+		this.from = { ...initial };
+		this.to = { ...initial };
+		this.current = { ...initial };
+	}
+
+	/** Plane the animator is moving toward. */
+	get target(): OrbFocalPlane {
+		return this.to;
+	}
+
+	/**
+	 * Starts a focus pull toward a plane.
+	 *
+	 * @param plane - Target focal plane.
+	 * @param now - Current time in milliseconds (same clock as sample).
+	 * @param durationMs - Pull duration; 0 jumps straight to the plane.
+	 */
+	setTarget(plane: OrbFocalPlane, now: number, durationMs: number = this.config.transitionMs): void {
+		const start = this.sample(now);
+		this.from = { focusLayer: start.focusLayer, aperture: start.aperture };
+		this.to = { focusLayer: plane.focusLayer, aperture: plane.aperture };
+		this.startTime = now;
+		this.durationMs = durationMs;
+	}
+
+	/**
+	 * Focal plane at a point in time.
+	 *
+	 * @param now - Current time in milliseconds.
+	 * @returns The interpolated plane (a shared object, overwritten by the next call).
+	 */
+	sample(now: number): OrbFocalPlane {
+		const t = this.durationMs > 0 ? Math.max(0, Math.min(1, (now - this.startTime) / this.durationMs)) : 1;
+		const eased = this.easeInOut(t);
+		this.current.focusLayer = this.from.focusLayer + (this.to.focusLayer - this.from.focusLayer) * eased;
+		this.current.aperture = this.from.aperture + (this.to.aperture - this.from.aperture) * eased;
+		return this.current;
+	}
+
+	private easeInOut(t: number): number {
+		const power = this.config.easePower;
+		return t < 0.5
+			? Math.pow(2 * t, power) / 2
+			: 1 - Math.pow(2 * (1 - t), power) / 2;
+	}
+}
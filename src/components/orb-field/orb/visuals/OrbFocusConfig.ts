@@ -0,0 +1,44 @@
+// =============================================================================
+// Orb Focus Configuration - Depth-of-field focal planes and transitions
+// =============================================================================
+
+import { type OrbFocalPlane } from './types';
+
+/**
+ * Configuration for focal plane transitions.
+ */
+export interface OrbFocusConfig {
+	/** Duration of a focus pull between planes in milliseconds. */
+	transitionMs: number;
+
+	/** Ease-in-out power for focus pulls (1 is linear). */
+	easePower: number;
+}
+
+/**
+ * Default focus transition settings.
+ */
+export const DEFAULT_ORB_FOCUS_CONFIG: OrbFocusConfig = {
+	transitionMs: 1200,
+	easePower: 3,
+};
+
+/**
+ * Focal plane at the front with no sharp band.
+ * Blur grows linearly with depth, the look before depth of field existed.
+ */
+export const DEFAULT_ORB_FOCAL_PLANE: OrbFocalPlane = {
+	focusLayer: 0,
+	aperture: 0,
+};
+
+/**
+ * Named focal planes for the homepage stages.
+ *
+ * - greeting: Focus pulled to the front for the burst
+ * - card: Focus pushed back behind the card, blurring orbs that pass in front of it
+ */
+export const ORB_FOCAL_PLANES: Record<'greeting' | 'card', OrbFocalPlane> = {
+	greeting: { focusLayer: 0, aperture: 8 },
+	card: { focusLayer: 65, aperture: 12 },
+};
@@ -6,6 +6,10 @@ import { type Orb } from '../types';
 import { type OrbVisualConfig } from './OrbVisualConfig';
 import { OrbGradientFactory } from './OrbGradientFactory';
 import { OrbAnimationTiming } from './OrbAnimationTiming';
+import { type OrbSpriteCache } from './OrbSpriteCache';
+import { DEFAULT_ORB_FOCAL_PLANE } from './OrbFocusConfig';
+import { type OrbFocalPlane } from './types';
+import { type OrbTrailSamples } from './OrbTrails';
 
 /**
  * Handles rendering of individual orbs with glow effects.
@@ -18,18 +22,32 @@ export class OrbGlowRenderer {
 	 * Uses Gaussian-like exponential decay for soft, natural-looking edges.
 	 * Applies spawn/despawn animation for smooth fade-in/out and scale effects.
 	 *
+	 * Depth sets opacity; distance from the focal plane sets blur. Trail
+	 * ghosts reuse the orb's sprite or gradient at lower opacity, so they
+	 * follow the same depth opacity and blend mode as the orb itself.
+	 *
+	 * With a sprite cache the glow is blitted from a pre-rendered mask tinted
+	 * with the orb's colour (blur quantised to the cache's buckets) instead
+	 * of a fresh gradient.
+	 *
 	 * @param ctx - The 2D canvas rendering context.
 	 * @param orb - The orb to render.
 	 * @param totalLayers - Total number of z-layers.
 	 * @param config - Visual configuration.
 	 * @param currentTime - Current timestamp for animation calculations.
+	 * @param spriteCache - Optional sprite atlas (falls back to gradients when it cannot render).
+	 * @param focalPlane - Depth-of-field focus layer and aperture.
+	 * @param trail - Optional ghosts drawn behind the orb.
 	 */
 	static draw(
 		ctx: CanvasRenderingContext2D,
 		orb: Orb,
 		totalLayers: number,
 		config: OrbVisualConfig,
-		currentTime: number
+		currentTime: number,
+		spriteCache?: OrbSpriteCache,
+		focalPlane: OrbFocalPlane = DEFAULT_ORB_FOCAL_PLANE,
+		trail?: OrbTrailSamples | null
 	): void {
 		const { pxX, pxY, z, size } = orb;
 
@@ -44,17 +62,12 @@ export class OrbGlowRenderer {
 		// Skip if fully invisible or invalid
 		if (animationFactor <= 0 || !isFinite(animationFactor)) return;
 
-		// Calculate depth factor
+		// Calculate depth and defocus factors
 		const depthFactor = OrbAnimationTiming.calculateDepthFactor(z, totalLayers);
-
-		// Calculate orb visual radius
-		const baseRadius = config.baseRadiusPx * Math.pow(size, config.sizeExponent);
-
-		// Calculate blur width
-		const blurWidth = baseRadius * (config.blurWidthBase + depthFactor * config.blurWidthDepthScale);
+		const blurFactor = OrbAnimationTiming.calculateBlurFactor(z, totalLayers, focalPlane);
 
 		// Total glow radius with animation scale
-		let glowRadius = (baseRadius * config.coreRatio + blurWidth) * config.glowSpread;
+		let glowRadius = this.calculateGlowRadius(size, blurFactor, config);
 		const scaleFactor = this.lerp(config.animationMinScale, 1, animationFactor);
 		glowRadius *= scaleFactor;
 
@@ -65,8 +78,44 @@ export class OrbGlowRenderer {
 		const baseOpacity = this.lerp(config.maxOpacity, config.minOpacity, depthFactor);
 		const opacity = baseOpacity * animationFactor;
 
-		// Calculate depth-based falloff exponent
-		const falloffExponent = config.falloffExponentBase * (1 - depthFactor * config.falloffDepthScale);
+		// Blit the cached sprite when available
+		const sprite = spriteCache?.getSprite(size, blurFactor, config, orb);
+		if (sprite) {
+			const destSpan = sprite.span * (glowRadius / sprite.radius);
+			if (trail) {
+				for (let i = 0; i < trail.count; i++) {
+					ctx.globalAlpha = opacity * trail.alphas[i];
+					ctx.drawImage(
+						sprite.source,
+						sprite.sx,
+						sprite.sy,
+						sprite.span,
+						sprite.span,
+						pxX + trail.offsets[i * 2] - destSpan / 2,
+						pxY + trail.offsets[i * 2 + 1] - destSpan / 2,
+						destSpan,
+						destSpan
+					);
+				}
+			}
+			ctx.globalAlpha = opacity;
+			ctx.drawImage(
+				sprite.source,
+				sprite.sx,
+				sprite.sy,
+				sprite.span,
+				sprite.span,
+				pxX - destSpan / 2,
+				pxY - destSpan / 2,
+				destSpan,
+				destSpan
+			);
+			ctx.globalAlpha = 1;
+			return;
+		}
+
+		// Calculate defocus-based falloff exponent
+		const falloffExponent = this.calculateFalloffExponent(blurFactor, config);
 
 		// Create and apply gradient
 		const gradient = OrbGradientFactory.createGaussian(
@@ -76,16 +125,56 @@ export class OrbGlowRenderer {
 			glowRadius,
 			falloffExponent,
 			opacity,
-			config
+			config,
+			orb
 		);
 
+		ctx.fillStyle = gradient;
+
+		// Ghosts shift the same gradient (it is fixed in canvas space)
+		if (trail) {
+			for (let i = 0; i < trail.count; i++) {
+				const dx = trail.offsets[i * 2];
+				const dy = trail.offsets[i * 2 + 1];
+				ctx.globalAlpha = trail.alphas[i];
+				ctx.translate(dx, dy);
+				ctx.beginPath();
+				ctx.arc(pxX, pxY, glowRadius, 0, Math.PI * 2);
+				ctx.fill();
+				ctx.translate(-dx, -dy);
+			}
+			ctx.globalAlpha = 1;
+		}
+
 		// Draw the orb
 		ctx.beginPath();
 		ctx.arc(pxX, pxY, glowRadius, 0, Math.PI * 2);
-		ctx.fillStyle = gradient;
 		ctx.fill();
 	}
 
+	/**
+	 * Glow radius in pixels at full animation scale.
+	 *
+	 * @param size - Orb size.
+	 * @param blurFactor - Defocus from 0 (sharp) to 1 (most blurred).
+	 * @param config - Visual configuration.
+	 */
+	static calculateGlowRadius(size: number, blurFactor: number, config: OrbVisualConfig): number {
+		const baseRadius = config.baseRadiusPx * Math.pow(size, config.sizeExponent);
+		const blurWidth = baseRadius * (config.blurWidthBase + blurFactor * config.blurWidthDepthScale);
+		return (baseRadius * config.coreRatio + blurWidth) * config.glowSpread;
+	}
+
+	/**
+	 * Gaussian falloff exponent for a defocus (lower is softer, for blurred orbs).
+	 *
+	 * @param blurFactor - Defocus from 0 (sharp) to 1 (most blurred).
+	 * @param config - Visual configuration.
+	 */
+	static calculateFalloffExponent(blurFactor: number, config: OrbVisualConfig): number {
+		return config.falloffExponentBase * (1 - blurFactor * config.falloffDepthScale);
+	}
+
 	/**
 	 * Linear interpolation between two values.
 	 */
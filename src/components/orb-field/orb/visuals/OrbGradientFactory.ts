@@ -3,6 +3,7 @@
 // =============================================================================
 
 import { type OrbVisualConfig } from './OrbVisualConfig';
+import { type OrbColor } from '../../palette/types';
 
 /**
  * Factory for creating orb visual gradients.
@@ -16,32 +17,37 @@ export class OrbGradientFactory {
 	 * Uses the formula: opacity = e^(-(t/sigma)^exponent)
 	 * Where t is the normalized distance from center (0-1).
 	 * 
-	 * @param ctx - The 2D canvas rendering context.
+	 * @param ctx - The 2D canvas rendering context (onscreen or offscreen).
 	 * @param x - Center X position.
 	 * @param y - Center Y position.
 	 * @param glowRadius - The total radius including glow.
 	 * @param falloffExponent - Controls curve steepness (higher = sharper).
 	 * @param opacity - Overall opacity of the orb.
 	 * @param config - Visual configuration.
+	 * @param color - Orb colour (defaults to the config's base colour).
 	 * @returns A radial gradient for filling the orb.
 	 */
 	static createGaussian(
-		ctx: CanvasRenderingContext2D,
+		ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
 		x: number,
 		y: number,
 		glowRadius: number,
 		falloffExponent: number,
 		opacity: number,
-		config: OrbVisualConfig
+		config: OrbVisualConfig,
+		color?: OrbColor
 	): CanvasGradient {
-		const { baseHue, baseSaturation, baseLightness, glowIntensity, gradientStopCount, coreRatio } = config;
+		const { glowIntensity, gradientStopCount, coreRatio } = config;
+		const baseHue = color ? color.hue : config.baseHue;
+		const baseSaturation = color ? color.saturation : config.baseSaturation;
+		const baseLightness = color ? color.lightness : config.baseLightness;
 
 		const gradient = ctx.createRadialGradient(x, y, 0, x, y, glowRadius);
 
 		// Sigma controls the width of the Gaussian curve
 		const sigma = 0.4;
 
-		const coreLightness = Math.min(baseLightness + 35, 55);
+		const coreLightness = this.calculateCoreLightness(baseLightness);
 		const glowLightness = baseLightness;
 
 		// Generate gradient stops using Gaussian-like falloff
@@ -63,6 +69,79 @@ export class OrbGradientFactory {
 		return gradient;
 	}
 
+	/**
+	 * Creates the Gaussian glow of createGaussian as a white alpha mask, for
+	 * sprites that are tinted when drawn. Alpha matches createGaussian at full
+	 * opacity; the lightness ramp is left to createCoreMask.
+	 *
+	 * @param ctx - The 2D canvas rendering context (onscreen or offscreen).
+	 * @param x - Center X position.
+	 * @param y - Center Y position.
+	 * @param glowRadius - The total radius including glow.
+	 * @param falloffExponent - Controls curve steepness (higher = sharper).
+	 * @param config - Visual configuration.
+	 * @returns A white radial gradient with the glow's alpha.
+	 */
+	static createGaussianMask(
+		ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+		x: number,
+		y: number,
+		glowRadius: number,
+		falloffExponent: number,
+		config: OrbVisualConfig
+	): CanvasGradient {
+		const { glowIntensity, gradientStopCount } = config;
+		const gradient = ctx.createRadialGradient(x, y, 0, x, y, glowRadius);
+		const sigma = 0.4;
+
+		for (let i = 0; i <= gradientStopCount; i++) {
+			const t = i / gradientStopCount;
+			const gaussianFactor = Math.exp(-Math.pow(t / sigma, falloffExponent));
+			gradient.addColorStop(t, `rgba(255, 255, 255, ${gaussianFactor * glowIntensity})`);
+		}
+
+		return gradient;
+	}
+
+	/**
+	 * Creates the weight of the core colour in createGaussian's lightness ramp
+	 * as a white alpha mask: 1 inside the core, fading to 0 at the rim.
+	 *
+	 * @param ctx - The 2D canvas rendering context (onscreen or offscreen).
+	 * @param x - Center X position.
+	 * @param y - Center Y position.
+	 * @param glowRadius - The total radius including glow.
+	 * @param config - Visual configuration.
+	 * @returns A white radial gradient with the core weight as alpha.
+	 */
+	static createCoreMask(
+		ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+		x: number,
+		y: number,
+		glowRadius: number,
+		config: OrbVisualConfig
+	): CanvasGradient {
+		const { gradientStopCount, coreRatio } = config;
+		const gradient = ctx.createRadialGradient(x, y, 0, x, y, glowRadius);
+
+		for (let i = 0; i <= gradientStopCount; i++) {
+			const t = i / gradientStopCount;
+			const lightnessT = Math.max(0, (t - coreRatio) / (1 - coreRatio));
+			gradient.addColorStop(t, `rgba(255, 255, 255, ${1 - Math.pow(lightnessT, 0.5)})`);
+		}
+
+		return gradient;
+	}
+
+	/**
+	 * Lightness at the centre of an orb's glow.
+	 *
+	 * @param baseLightness - The orb's lightness percentage.
+	 */
+	static calculateCoreLightness(baseLightness: number): number {
+		return Math.min(baseLightness + 35, 55);
+	}
+
 	/**
 	 * Linear interpolation between two values.
 	 */
@@ -0,0 +1,348 @@
+// =============================================================================
+// OrbSpriteCache - Pre-rendered orb glow sprites in an offscreen atlas
+// =============================================================================
+
+import { type OrbVisualConfig } from './OrbVisualConfig';
+import { DEFAULT_ORB_SPRITE_CACHE_CONFIG, type OrbSpriteCacheConfig } from './OrbSpriteCacheConfig';
+import { OrbGradientFactory } from './OrbGradientFactory';
+import { OrbGlowRenderer } from './OrbGlowRenderer';
+import { type OrbColor } from '../../palette/types';
+
+/** Transparent border around each sprite so bilinear sampling never reads a neighbour. */
+const SPRITE_PADDING_PX = 1;
+
+/** Atlas page surface (OffscreenCanvas where supported). */
+type AtlasCanvas = OffscreenCanvas | HTMLCanvasElement;
+type AtlasContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/**
+ * A tinted sprite ready to draw: a glow of `radius` pixels centred in a square.
+ */
+export interface OrbSprite {
+	/** Surface holding the sprite. */
+	source: AtlasCanvas;
+	/** Left edge of the square in the source. */
+	sx: number;
+	/** Top edge of the square in the source. */
+	sy: number;
+	/** Side length of the square (including padding). */
+	span: number;
+	/** Glow radius the sprite was rendered at. */
+	radius: number;
+}
+
+/**
+ * Hit rate and memory counters for the debug panel.
+ */
+export interface OrbSpriteCacheStats {
+	/** Lookups served from the atlas. */
+	hits: number;
+	/** Lookups that rendered a new sprite. */
+	misses: number;
+	/** Sprites currently in the atlas. */
+	spriteCount: number;
+	/** Atlas pages allocated. */
+	pageCount: number;
+	/** Approximate atlas memory (4 bytes per pixel). */
+	bytes: number;
+	/** Times the atlas was cleared (config change). */
+	invalidations: number;
+	/** Least recently used pages emptied to make room at the page limit. */
+	evictions: number;
+}
+
+/**
+ * Untinted masks in the atlas: the glow alpha in a square at (sx, sy) and
+ * the core weight in the square to its right.
+ */
+interface MaskSprite {
+	page: AtlasPage;
+	sx: number;
+	sy: number;
+	span: number;
+	radius: number;
+}
+
+/**
+ * Surface a mask is tinted on before it is drawn.
+ */
+interface TintSurface {
+	canvas: AtlasCanvas;
+	ctx: AtlasContext;
+}
+
+interface AtlasPage {
+	canvas: AtlasCanvas;
+	ctx: AtlasContext;
+	/** Shelf packing cursor. */
+	cursorX: number;
+	cursorY: number;
+	rowHeight: number;
+	/** Lookup count when one of the page's sprites was last used (for eviction). */
+	lastUsed: number;
+}
+
+/**
+ * Caches orb glow sprites so the Canvas 2D path blits instead of building a
+ * radial gradient per orb per frame.
+ *
+ * The atlas holds white masks keyed by resolution and blur bucket only,
+ * rendered at full opacity and full animation scale. The glow's shape does
+ * not depend on orb size, so sizes only pick the resolution: the glow radius
+ * rounded up to a power of two, capped at maxSpriteRadiusPx. Orb colours - which
+ * jitter per orb and blend on contact - never add sprites. Each lookup tints
+ * the masks with the orb's colour on a scratch surface: the glow colour fills
+ * the glow mask, and the core colour is laid over it through the core mask,
+ * which gives createGaussian's lightness ramp (interpolated in RGB rather
+ * than HSL). OrbGlowRenderer scales the result to the orb's exact glow radius
+ * and applies opacity with globalAlpha (gradient alpha is linear in opacity,
+ * so the result matches). Any change of the OrbVisualConfig object clears
+ * the atlas; at the page limit the least recently used page is emptied.
+ *
+ * Single Responsibility: Sprite atlas management only.
+ */
+export class OrbSpriteCache {
+	private readonly sprites = new Map<string, MaskSprite>();
+	private pages: AtlasPage[] = [];
+	private glowSurface: TintSurface | null = null;
+	private coreSurface: TintSurface | null = null;
+	private tinted: OrbSprite | null = null;
+	private visualConfig: OrbVisualConfig | null = null;
+	private hits = 0;
+	private misses = 0;
+	private invalidations = 0;
+	private evictions = 0;
+
+	constructor(private readonly cacheConfig: OrbSpriteCacheConfig = DEFAULT_ORB_SPRITE_CACHE_CONFIG) {}
+
+	/**
+	 * Whether sprites can be rendered here (false during server rendering).
+	 */
+	get isAvailable(): boolean {
+		return typeof OffscreenCanvas !== 'undefined' || typeof document !== 'undefined';
+	}
+
+	/**
+	 * Returns the sprite for an orb, rendering its masks on a miss and
+	 * tinting them with the orb's colour.
+	 *
+	 * The sprite lives on a shared scratch surface, so draw it before the
+	 * next call.
+	 *
+	 * @param size - Orb size (sets the sprite resolution).
+	 * @param blurFactor - Defocus from 0 (sharp) to 1 (most blurred).
+	 * @param config - Visual configuration the sprite is rendered with.
+	 * @param color - Orb colour.
+	 * @returns The sprite, or null if no atlas surface could be created.
+	 */
+	getSprite(size: number, blurFactor: number, config: OrbVisualConfig, color: OrbColor): OrbSprite | null {
+		if (config !== this.visualConfig) {
+			this.invalidate();
+			this.visualConfig = config;
+		}
+
+		const { blurBuckets, maxSpriteRadiusPx } = this.cacheConfig;
+		const glowRadius = OrbGlowRenderer.calculateGlowRadius(size, blurFactor, config);
+		const radius = Math.min(maxSpriteRadiusPx, 2 ** Math.ceil(Math.log2(Math.max(1, glowRadius))));
+		const blurBucket = Math.min(blurBuckets - 1, Math.floor(blurFactor * blurBuckets));
+		const key = `${radius}|${blurBucket}`;
+
+		let mask = this.sprites.get(key) ?? null;
+		if (mask) {
+			this.hits++;
+		} else {
+			this.misses++;
+			mask = this.renderMask(radius, (blurBucket + 0.5) / blurBuckets, config);
+			if (!mask) return null;
+			this.sprites.set(key, mask);
+		}
+		mask.page.lastUsed = this.hits + this.misses;
+
+		return this.tint(mask, color);
+	}
+
+	/**
+	 * Current counters and atlas size.
+	 */
+	getStats(): OrbSpriteCacheStats {
+		const { atlasSizePx } = this.cacheConfig;
+		return {
+			hits: this.hits,
+			misses: this.misses,
+			spriteCount: this.sprites.size,
+			pageCount: this.pages.length,
+			bytes: this.pages.length * atlasSizePx * atlasSizePx * 4,
+			invalidations: this.invalidations,
+			evictions: this.evictions,
+		};
+	}
+
+	/**
+	 * Clears hit/miss counters (the atlas is kept).
+	 */
+	resetStats(): void {
+		this.hits = 0;
+		this.misses = 0;
+		this.invalidations = 0;
+		this.evictions = 0;
+	}
+
+	/**
+	 * Drops all sprites and atlas pages.
+	 */
+	clear(): void {
+		this.invalidate();
+		this.visualConfig = null;
+	}
+
+	private invalidate(): void {
+		if (this.sprites.size > 0) this.invalidations++;
+		this.sprites.clear();
+		this.pages = [];
+	}
+
+	/**
+	 * Renders the glow and core masks at the centre of a blur bucket into the atlas.
+	 */
+	private renderMask(radius: number, blurFactor: number, config: OrbVisualConfig): MaskSprite | null {
+		const span = radius * 2 + SPRITE_PADDING_PX * 2;
+
+		const slot = this.allocate(span * 2, span);
+		if (!slot) return null;
+
+		const { page, sx, sy } = slot;
+		const cx = sx + span / 2;
+		const cy = sy + span / 2;
+		const falloffExponent = OrbGlowRenderer.calculateFalloffExponent(blurFactor, config);
+
+		page.ctx.beginPath();
+		page.ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+		page.ctx.fillStyle = OrbGradientFactory.createGaussianMask(page.ctx, cx, cy, radius, falloffExponent, config);
+		page.ctx.fill();
+
+		page.ctx.beginPath();
+		page.ctx.arc(cx + span, cy, radius, 0, Math.PI * 2);
+		page.ctx.fillStyle = OrbGradientFactory.createCoreMask(page.ctx, cx + span, cy, radius, config);
+		page.ctx.fill();
+
+		return { page, sx, sy, span, radius };
+	}
+
+	/**
+	 * Colours a mask on the scratch surfaces: the glow colour fills the glow
+	 * mask, then the core colour, cut to the core mask, is laid over it.
+	 */
+	private tint(mask: MaskSprite, color: OrbColor): OrbSprite | null {
+		const glow = this.glowSurface ??= this.createTintSurface();
+		const core = this.coreSurface ??= this.createTintSurface();
+		if (!glow || !core) return null;
+
+		const { page, sx, sy, span } = mask;
+		const { hue, saturation, lightness } = color;
+		const coreLightness = OrbGradientFactory.calculateCoreLightness(lightness);
+
+		// source-in clears everything outside the drawn square, so each colour gets its own surface
+		glow.ctx.clearRect(0, 0, span, span);
+		glow.ctx.drawImage(page.canvas, sx, sy, span, span, 0, 0, span, span);
+		glow.ctx.globalCompositeOperation = 'source-in';
+		glow.ctx.fillStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+		glow.ctx.fillRect(0, 0, span, span);
+
+		if (coreLightness !== lightness) {
+			core.ctx.clearRect(0, 0, span, span);
+			core.ctx.drawImage(page.canvas, sx + span, sy, span, span, 0, 0, span, span);
+			core.ctx.globalCompositeOperation = 'source-in';
+			core.ctx.fillStyle = `hsl(${hue}, ${saturation}%, ${coreLightness}%)`;
+			core.ctx.fillRect(0, 0, span, span);
+			core.ctx.globalCompositeOperation = 'source-over';
+
+			// source-atop keeps the glow's alpha and only shifts its colour
+			glow.ctx.globalCompositeOperation = 'source-atop';
+			glow.ctx.drawImage(core.canvas, 0, 0, span, span, 0, 0, span, span);
+		}
+		glow.ctx.globalCompositeOperation = 'source-over';
+
+		// One sprite object is reused, as only one tinted sprite exists at a time
+		const sprite = this.tinted ??= { source: glow.canvas, sx: 0, sy: 0, span, radius: mask.radius };
+		sprite.span = span;
+		sprite.radius = mask.radius;
+		return sprite;
+	}
+
+	/**
+	 * Finds room for a `width` x `height` rectangle, opening a page if needed.
+	 * At the page limit the least recently used page is emptied and reused.
+	 */
+	private allocate(width: number, height: number): { page: AtlasPage; sx: number; sy: number } | null {
+		const { atlasSizePx, maxPages } = this.cacheConfig;
+		let page = this.pages[this.pages.length - 1];
+
+		if (page && page.cursorX + width > atlasSizePx) {
+			page.cursorX = 0;
+			page.cursorY += page.rowHeight;
+			page.rowHeight = 0;
+		}
+		if (!page || page.cursorY + height > atlasSizePx) {
+			const next = this.pages.length >= maxPages ? this.evictLeastRecentlyUsed() : this.createPage();
+			if (!next) return null;
+			this.pages.push(next);
+			page = next;
+		}
+
+		const slot = { page, sx: page.cursorX, sy: page.cursorY };
+		page.cursorX += width;
+		page.rowHeight = Math.max(page.rowHeight, height);
+		return slot;
+	}
+
+	/**
+	 * Empties the page whose sprites were used longest ago and takes it out
+	 * of the page list, so the caller can fill it as the newest page.
+	 */
+	private evictLeastRecentlyUsed(): AtlasPage {
+		let oldest = 0;
+		for (let i = 1; i < this.pages.length; i++) {
+			if (this.pages[i].lastUsed < this.pages[oldest].lastUsed) oldest = i;
+		}
+		const [page] = this.pages.splice(oldest, 1);
+
+		for (const [key, sprite] of this.sprites) {
+			if (sprite.page === page) this.sprites.delete(key);
+		}
+		page.ctx.clearRect(0, 0, this.cacheConfig.atlasSizePx, this.cacheConfig.atlasSizePx);
+		page.cursorX = 0;
+		page.cursorY = 0;
+		page.rowHeight = 0;
+		this.evictions++;
+		return page;
+	}
+
+	private createPage(): AtlasPage | null {
+		const surface = this.createSurface(this.cacheConfig.atlasSizePx);
+		return surface && { ...surface, cursorX: 0, cursorY: 0, rowHeight: 0, lastUsed: 0 };
+	}
+
+	/**
+	 * Scratch surface large enough for the biggest sprite.
+	 */
+	private createTintSurface(): TintSurface | null {
+		return this.createSurface(this.cacheConfig.maxSpriteRadiusPx * 2 + SPRITE_PADDING_PX * 2);
+	}
+
+	private createSurface(size: number): TintSurface | null {
+		let canvas: AtlasCanvas;
+		if (typeof OffscreenCanvas !== 'undefined') {
+			canvas = new OffscreenCanvas(size, size);
+		} else if (typeof document !== 'undefined') {
+			canvas = document.createElement('canvas');
+			canvas.width = size;
+			canvas.height = size;
+		} else {
+			return null;
+		}
+
+		const ctx = canvas.getContext('2d') as AtlasContext | null;
+		if (!ctx) return null;
+		return { canvas, ctx };
+	}
+}
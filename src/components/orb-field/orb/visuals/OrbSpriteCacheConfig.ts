@@ -0,0 +1,44 @@
+// =============================================================================
+// Orb Sprite Cache Configuration
+// =============================================================================
+
+/**
+ * Configuration for the pre-rendered glow sprite atlas used by the Canvas 2D path.
+ */
+export interface OrbSpriteCacheConfig {
+	/**
+	 * Number of blur buckets sprites are rendered for.
+	 * Defocus changes blur width and falloff, so more buckets track it more
+	 * closely at the cost of more sprites.
+	 */
+	blurBuckets: number;
+
+	/**
+	 * Largest sprite radius in atlas pixels.
+	 * Smaller glows get the next power of two up; bigger glows are drawn
+	 * scaled up, which the Gaussian edge hides.
+	 */
+	maxSpriteRadiusPx: number;
+
+	/** Width and height of one atlas page in pixels. */
+	atlasSizePx: number;
+
+	/** Page limit; the least recently used page is emptied when a new sprite would exceed it. */
+	maxPages: number;
+}
+
+/**
+ * Default sprite cache configuration.
+ *
+ * With the default visual config even a size 1 orb glows about 67px wide,
+ * so every orb uses the 64px sprites: one 130px glow and core mask pair per
+ * blur bucket, 8 pairs on a single 1024px page (4 MB). Configs with smaller
+ * glows add lower resolutions, but all seven (1-64px) for every bucket still
+ * fit on one page, so the page limit leaves room for larger sprite radii.
+ */
+export const DEFAULT_ORB_SPRITE_CACHE_CONFIG: OrbSpriteCacheConfig = {
+	blurBuckets: 8,
+	maxSpriteRadiusPx: 64,
+	atlasSizePx: 1024,
+	maxPages: 4,
+};
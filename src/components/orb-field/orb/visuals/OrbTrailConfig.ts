@@ -0,0 +1,48 @@
+// =============================================================================
+// Orb Trail Configuration
+// =============================================================================
+
+/**
+ * Configuration for orb trails and motion blur.
+ */
+export interface OrbTrailConfig {
+	/** Positions kept per orb for history trails (frames). */
+	historyLength: number;
+
+	/** Ghosts drawn along the velocity in motion blur mode. */
+	motionBlurSamples: number;
+
+	/**
+	 * Exposure time for motion blur in seconds.
+	 * The blur spans speed * motionBlurSeconds pixels behind the orb.
+	 */
+	motionBlurSeconds: number;
+
+	/**
+	 * Opacity multiplier from one ghost to the next (0-1).
+	 * Lower values make trails fade faster.
+	 */
+	decay: number;
+
+	/** Orbs slower than this (pixels per second) get no trail. */
+	minSpeedPx: number;
+
+	/** Ghosts closer than this to the previous one are skipped, so slow orbs do not brighten. */
+	minSpacingPx: number;
+
+	/** Longest trail in pixels; history jumps beyond it (respawns, resizes) end the trail. */
+	maxLengthPx: number;
+}
+
+/**
+ * Default trail configuration.
+ */
+export const DEFAULT_ORB_TRAIL_CONFIG: OrbTrailConfig = {
+	historyLength: 8,
+	motionBlurSamples: 5,
+	motionBlurSeconds: 0.04,
+	decay: 0.65,
+	minSpeedPx: 120,
+	minSpacingPx: 3,
+	maxLengthPx: 160,
+};
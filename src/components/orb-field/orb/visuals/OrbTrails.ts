@@ -0,0 +1,190 @@
+// =============================================================================
+// OrbTrails - Per-orb position history and motion blur ghosts
+// =============================================================================
+
+import { type Orb } from '../types';
+import { DEFAULT_ORB_TRAIL_CONFIG, type OrbTrailConfig } from './OrbTrailConfig';
+import { type OrbTrailMode } from './types';
+
+/**
+ * Ghost copies to draw behind one orb.
+ */
+export interface OrbTrailSamples {
+	/** Ghost offsets from the orb in pixels, interleaved x, y. */
+	readonly offsets: Float32Array;
+	/** Opacity multiplier per ghost. */
+	readonly alphas: Float32Array;
+	/** Number of ghosts. */
+	count: number;
+}
+
+/**
+ * Ring buffer of one orb's recent positions (newest at head - 1).
+ */
+interface PositionRing {
+	positions: Float32Array;
+	head: number;
+	count: number;
+	lastSeenFrame: number;
+}
+
+/**
+ * Produces trail ghosts for the Canvas 2D renderer.
+ *
+ * Motion blur spreads ghosts along the current velocity, so the blur length
+ * follows speed directly. History trails replay the positions recorded over
+ * the last few frames, which also follows speed (fast orbs moved further)
+ * and shows curved paths. Either way ghosts fade by `decay` per step and
+ * slow orbs get none.
+ *
+ * Single Responsibility: Trail sample generation only.
+ */
+export class OrbTrails {
+	private trailMode: OrbTrailMode = 'off';
+	private readonly histories = new Map<string, PositionRing>();
+	private frame = 0;
+
+	/** Reused result (read it before the next getSamples call). */
+	private readonly samples: OrbTrailSamples;
+
+	constructor(private readonly config: OrbTrailConfig = DEFAULT_ORB_TRAIL_CONFIG) {
+		const capacity = Math.max(config.historyLength, config.motionBlurSamples);
+		this.samples = {
+			offsets: new Float32Array(capacity * 2),
+			alphas: new Float32Array(capacity),
+			count: 0,
+		};
+	}
+
+	/** Active trail mode. */
+	get mode(): OrbTrailMode {
+		return this.trailMode;
+	}
+
+	/**
+	 * Switches trail mode. Leaving history mode drops the recorded positions.
+	 *
+	 * @param mode - Mode to switch to.
+	 */
+	setMode(mode: OrbTrailMode): void {
+		if (mode !== 'history') this.histories.clear();
+		this.trailMode = mode;
+	}
+
+	/**
+	 * Ghosts for an orb in the current frame.
+	 *
+	 * @param orb - Orb being drawn.
+	 * @returns Shared samples, or null when the orb has no trail.
+	 */
+	getSamples(orb: Orb): OrbTrailSamples | null {
+		if (this.trailMode === 'off' || !(orb.speed >= this.config.minSpeedPx)) return null;
+
+		if (this.trailMode === 'motionBlur') {
+			this.fillMotionBlur(orb);
+		} else {
+			this.fillHistory(orb);
+		}
+		return this.samples.count > 0 ? this.samples : null;
+	}
+
+	/**
+	 * Records positions at the end of a frame (history mode only) and
+	 * forgets orbs that no longer exist.
+	 *
+	 * @param orbs - All orbs drawn this frame.
+	 */
+	record(orbs: readonly Orb[]): void {
+		if (this.trailMode !== 'history') return;
+		const frame = ++this.frame;
+		const { historyLength } = this.config;
+
+		for (const orb of orbs) {
+			let ring = this.histories.get(orb.id);
+			if (!ring) {
+				ring = { positions: new Float32Array(historyLength * 2), head: 0, count: 0, lastSeenFrame: frame };
+				this.histories.set(orb.id, ring);
+			}
+			ring.positions[ring.head * 2] = orb.pxX;
+			ring.positions[ring.head * 2 + 1] = orb.pxY;
+			ring.head = (ring.head + 1) % historyLength;
+			ring.count = Math.min(ring.count + 1, historyLength);
+			ring.lastSeenFrame = frame;
+		}
+
+		if (this.histories.size > orbs.length) {
+			for (const [id, ring] of this.histories) {
+				if (ring.lastSeenFrame !== frame) this.histories.delete(id);
+			}
+		}
+	}
+
+	/**
+	 * Drops all recorded positions.
+	 */
+	clear(): void {
+		this.histories.clear();
+	}
+
+	private fillMotionBlur(orb: Orb): void {
+		const { motionBlurSamples, motionBlurSeconds, decay, minSpacingPx, maxLengthPx } = this.config;
+		const { offsets, alphas } = this.samples;
+		const length = Math.min(maxLengthPx, orb.speed * motionBlurSeconds);
+		const count = Math.min(motionBlurSamples, Math.floor(length / minSpacingPx));
+
+		// Ghosts trail behind the direction of travel
+		const dirX = -orb.vx / orb.speed;
+		const dirY = -orb.vy / orb.speed;
+		let alpha = 1;
+		for (let i = 0; i < count; i++) {
+			const distance = (length * (i + 1)) / count;
+			alpha *= decay;
+			offsets[i * 2] = dirX * distance;
+			offsets[i * 2 + 1] = dirY * distance;
+			alphas[i] = alpha;
+		}
+		this.samples.count = count;
+	}
+
+	private fillHistory(orb: Orb): void {
+		const ring = this.histories.get(orb.id);
+		this.samples.count = 0;
+		if (!ring) return;
+
+		const { historyLength, decay, minSpacingPx, maxLengthPx } = this.config;
+		const { offsets, alphas } = this.samples;
+		const minSpacingSq = minSpacingPx * minSpacingPx;
+		let count = 0;
+		let alpha = 1;
+		let pathLength = 0;
+		let prevX = orb.pxX;
+		let prevY = orb.pxY;
+		let lastX = orb.pxX;
+		let lastY = orb.pxY;
+
+		// Newest to oldest; fade follows age, so skipped frames still dim older ghosts
+		for (let age = 0; age < ring.count; age++) {
+			const index = (ring.head - 1 - age + historyLength) % historyLength;
+			const x = ring.positions[index * 2];
+			const y = ring.positions[index * 2 + 1];
+			alpha *= decay;
+
+			pathLength += Math.hypot(x - prevX, y - prevY);
+			if (pathLength > maxLengthPx) break;
+			prevX = x;
+			prevY = y;
+
+			const dx = x - lastX;
+			const dy = y - lastY;
+			if (dx * dx + dy * dy < minSpacingSq) continue;
+
+			offsets[count * 2] = x - orb.pxX;
+			offsets[count * 2 + 1] = y - orb.pxY;
+			alphas[count] = alpha;
+			lastX = x;
+			lastY = y;
+			count++;
+		}
+		this.samples.count = count;
+	}
+}
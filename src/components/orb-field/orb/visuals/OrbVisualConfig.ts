@@ -58,8 +58,9 @@ export interface OrbVisualConfig {
 	blurWidthBase: number;
 
 	/**
-	 * How much depth increases blur width (0-1).
-	 * Far orbs (high depth) get additional blur width = radius * depthFactor * blurWidthDepthScale.
+	 * How much defocus increases blur width (0-1).
+	 * Out-of-focus orbs get additional blur width = radius * blurFactor * blurWidthDepthScale
+	 * (see OrbAnimationTiming.calculateBlurFactor; far orbs with the default focal plane).
 	 */
 	blurWidthDepthScale: number;
 
@@ -71,8 +72,8 @@ export interface OrbVisualConfig {
 	falloffExponentBase: number;
 
 	/**
-	 * How much depth reduces the falloff exponent (0-1).
-	 * Close orbs use falloffExponentBase, far orbs use falloffExponentBase * (1 - falloffDepthScale).
+	 * How much defocus reduces the falloff exponent (0-1).
+	 * In-focus orbs use falloffExponentBase, fully blurred orbs use falloffExponentBase * (1 - falloffDepthScale).
 	 */
 	falloffDepthScale: number;
 
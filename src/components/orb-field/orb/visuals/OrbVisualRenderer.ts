@@ -6,6 +6,10 @@ import { type Orb } from '../types';
 import { type OrbVisualConfig, DEFAULT_ORB_VISUAL_CONFIG } from './OrbVisualConfig';
 import { type WindowSize } from '../../shared/types';
 import { OrbGlowRenderer } from './OrbGlowRenderer';
+import { type OrbSpriteCache } from './OrbSpriteCache';
+import { DEFAULT_ORB_FOCAL_PLANE } from './OrbFocusConfig';
+import { type OrbFocalPlane } from './types';
+import { type OrbTrails } from './OrbTrails';
 
 /**
  * Orchestrates the visual rendering of orbs.
@@ -17,8 +21,10 @@ export class OrbVisualRenderer {
 	 * Renders all orbs to the canvas with visual effects.
 	 * 
 	 * All orbs across ALL z-layers are rendered, sorted back-to-front.
-	 * Depth affects opacity and blur but does not filter visibility.
+	 * Depth affects opacity and distance from the focal plane affects blur;
+	 * neither filters visibility.
 	 * Spawn/despawn animations affect opacity and scale.
+	 * With trails enabled, each orb's ghosts are drawn just before it.
 	 *
 	 * @param ctx - The 2D canvas rendering context.
 	 * @param windowSize - Current window dimensions.
@@ -28,6 +34,9 @@ export class OrbVisualRenderer {
 	 * @param currentTime - Current timestamp from performance.now() for animations.
 	 * @param offsetX - Horizontal offset in pixels for parallax scrolling.
 	 * @param offsetY - Vertical offset in pixels for parallax scrolling.
+	 * @param spriteCache - Optional glow sprite atlas (blits instead of per-orb gradients).
+	 * @param focalPlane - Depth-of-field focus layer and aperture.
+	 * @param trails - Optional trail generator (its mode decides whether ghosts are drawn).
 	 */
 	static draw(
 		ctx: CanvasRenderingContext2D,
@@ -37,7 +46,10 @@ export class OrbVisualRenderer {
 		config: OrbVisualConfig = DEFAULT_ORB_VISUAL_CONFIG,
 		currentTime: number = performance.now(),
 		offsetX: number = 0,
-		offsetY: number = 0
+		offsetY: number = 0,
+		spriteCache?: OrbSpriteCache,
+		focalPlane: OrbFocalPlane = DEFAULT_ORB_FOCAL_PLANE,
+		trails?: OrbTrails
 	): void {
 		const { width, height } = windowSize;
 
@@ -59,8 +71,10 @@ export class OrbVisualRenderer {
 
 		// Render all orbs
 		for (const orb of sortedOrbs) {
-			OrbGlowRenderer.draw(ctx, orb, totalLayers, config, currentTime);
+			const trail = trails?.getSamples(orb);
+			OrbGlowRenderer.draw(ctx, orb, totalLayers, config, currentTime, spriteCache, focalPlane, trail);
 		}
+		trails?.record(orbs);
 
 		// Reset composite operation
 		ctx.globalCompositeOperation = 'source-over';
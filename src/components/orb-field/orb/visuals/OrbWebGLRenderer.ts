@@ -0,0 +1,463 @@
+// =============================================================================
+// OrbWebGLRenderer - Draws all orbs in one instanced WebGL2 draw call
+// =============================================================================
+
+import { type Orb } from '../types';
+import { type OrbVisualConfig, DEFAULT_ORB_VISUAL_CONFIG } from './OrbVisualConfig';
+import { type WindowSize } from '../../shared/types';
+import { DEFAULT_ORB_FOCAL_PLANE } from './OrbFocusConfig';
+import { type OrbFocalPlane } from './types';
+
+/**
+ * Floats per orb instance: (pxX, pxY, z, size), (age, timeRemaining, spawnMs,
+ * despawnMs) and (hue, saturation, lightness, unused).
+ */
+const FLOATS_PER_INSTANCE = 12;
+
+/** Stand-in for an infinite remaining lifetime (float32 attributes). */
+const NO_DESPAWN_MS = 1e9;
+
+/** Vertex attribute locations (bound explicitly in the shader source). */
+const ATTRIB_CORNER = 0;
+const ATTRIB_BODY = 1;
+const ATTRIB_TIMING = 2;
+const ATTRIB_COLOR = 3;
+
+/**
+ * Computes each orb's glow radius and falloff (from defocus), depth opacity and
+ * spawn/despawn scale from OrbVisualConfig, matching OrbGlowRenderer, and expands
+ * a unit quad around it.
+ */
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 aCorner;
+layout(location = 1) in vec4 aBody;
+layout(location = 2) in vec4 aTiming;
+layout(location = 3) in vec4 aColor;
+
+uniform vec2 uResolution;
+uniform vec2 uOffset;
+uniform float uTotalLayers;
+uniform float uFocusLayer;
+uniform float uAperture;
+uniform float uBaseRadiusPx;
+uniform float uSizeExponent;
+uniform float uCoreRatio;
+uniform float uBlurWidthBase;
+uniform float uBlurWidthDepthScale;
+uniform float uGlowSpread;
+uniform float uMinOpacity;
+uniform float uMaxOpacity;
+uniform float uFalloffExponentBase;
+uniform float uFalloffDepthScale;
+uniform float uAnimationMinScale;
+uniform float uAnimationEasePower;
+
+out vec2 vLocal;
+flat out float vOpacity;
+flat out float vFalloff;
+flat out vec3 vHsl;
+
+float animationFactor(vec4 timing) {
+	float age = timing.x;
+	float remaining = timing.y;
+	if (age < timing.z) {
+		return 1.0 - pow(1.0 - age / timing.z, uAnimationEasePower);
+	}
+	if (remaining < timing.w) {
+		return pow(max(remaining, 0.0) / timing.w, uAnimationEasePower);
+	}
+	return 1.0;
+}
+
+// Same defocus as OrbAnimationTiming.calculateBlurFactor
+float blurFactor(float z) {
+	float distance = abs(z - uFocusLayer) - uAperture;
+	if (distance <= 0.0) return 0.0;
+	float range = z < uFocusLayer ? uFocusLayer - uAperture : uTotalLayers - uFocusLayer - uAperture;
+	return min(1.0, distance / max(1.0, range));
+}
+
+void main() {
+	float anim = animationFactor(aTiming);
+	float depth = clamp(aBody.z / uTotalLayers, 0.0, 1.0);
+	float blur = blurFactor(aBody.z);
+
+	float baseRadius = uBaseRadiusPx * pow(aBody.w, uSizeExponent);
+	float blurWidth = baseRadius * (uBlurWidthBase + blur * uBlurWidthDepthScale);
+	float glowRadius = (baseRadius * uCoreRatio + blurWidth) * uGlowSpread * mix(uAnimationMinScale, 1.0, anim);
+
+	vLocal = aCorner;
+	vOpacity = mix(uMaxOpacity, uMinOpacity, depth) * anim;
+	vFalloff = uFalloffExponentBase * (1.0 - blur * uFalloffDepthScale);
+	vHsl = aColor.xyz;
+
+	// Invisible or sub-pixel orbs collapse outside clip space
+	if (anim <= 0.0 || glowRadius < 0.5) {
+		gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+		return;
+	}
+
+	vec2 px = aBody.xy + uOffset + aCorner * glowRadius;
+	vec2 clip = px / uResolution * 2.0 - 1.0;
+	gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`;
+
+/**
+ * Evaluates the Gaussian falloff per pixel (the Canvas 2D path approximates
+ * it with gradient stops) and outputs premultiplied color for screen blending.
+ */
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+uniform float uCoreRatio;
+uniform float uGlowIntensity;
+
+in vec2 vLocal;
+flat in float vOpacity;
+flat in float vFalloff;
+flat in vec3 vHsl;
+
+out vec4 outColor;
+
+const float SIGMA = 0.4;
+
+vec3 hslToRgb(float h, float s, float l) {
+	vec3 k = mod(vec3(0.0, 8.0, 4.0) + h / 30.0, 12.0);
+	float a = s * min(l, 1.0 - l);
+	return l - a * max(min(min(k - 3.0, 9.0 - k), 1.0), -1.0);
+}
+
+void main() {
+	float t = length(vLocal);
+	if (t > 1.0) discard;
+
+	float alpha = vOpacity * exp(-pow(t / SIGMA, vFalloff)) * uGlowIntensity;
+	float lightnessT = max(0.0, (t - uCoreRatio) / (1.0 - uCoreRatio));
+	// Same core lightness as OrbGradientFactory
+	float coreLightness = min(vHsl.z + 0.35, 0.55);
+	float lightness = mix(coreLightness, vHsl.z, sqrt(lightnessT));
+	vec3 rgb = hslToRgb(vHsl.x, vHsl.y, lightness);
+
+	outColor = vec4(rgb * alpha, alpha);
+}
+`;
+
+/** Uniform names uploaded from OrbVisualConfig (in addition to per-draw uniforms). */
+const CONFIG_UNIFORMS = [
+	'uBaseRadiusPx',
+	'uSizeExponent',
+	'uCoreRatio',
+	'uBlurWidthBase',
+	'uBlurWidthDepthScale',
+	'uGlowSpread',
+	'uMinOpacity',
+	'uMaxOpacity',
+	'uFalloffExponentBase',
+	'uFalloffDepthScale',
+	'uAnimationMinScale',
+	'uAnimationEasePower',
+	'uGlowIntensity',
+] as const;
+
+const FRAME_UNIFORMS = ['uResolution', 'uOffset', 'uTotalLayers', 'uFocusLayer', 'uAperture'] as const;
+
+type UniformName = typeof CONFIG_UNIFORMS[number] | typeof FRAME_UNIFORMS[number];
+
+/**
+ * Renders orbs with WebGL2 instancing as an alternative to OrbVisualRenderer.
+ *
+ * Every orb is one instance of a shared quad, so a frame is a single buffer
+ * upload and a single draw call with no per-orb gradient allocation. 'screen'
+ * blending is order independent, so orbs are not sorted by depth.
+ * gradientStopCount is ignored because the falloff is exact per pixel.
+ *
+ * A canvas holds either a 2D or a WebGL context, so this renderer needs a
+ * canvas that has never been used for Canvas 2D drawing.
+ *
+ * Single Responsibility: GPU orb drawing only.
+ */
+export class OrbWebGLRenderer {
+	/** Why the last create() call returned null, or null if it succeeded. */
+	private static lastFailure: string | null = null;
+
+	private instanceData = new Float32Array(0);
+	private uploadedConfig: OrbVisualConfig | null = null;
+
+	private constructor(
+		/** Canvas the context belongs to. */
+		readonly canvas: HTMLCanvasElement,
+		private readonly gl: WebGL2RenderingContext,
+		private readonly program: WebGLProgram,
+		private readonly vertexArray: WebGLVertexArrayObject,
+		private readonly cornerBuffer: WebGLBuffer,
+		private readonly instanceBuffer: WebGLBuffer,
+		private readonly uniforms: Record<UniformName, WebGLUniformLocation | null>
+	) {}
+
+	/**
+	 * Whether this browser can create a WebGL2 context at all.
+	 * Checked on a throwaway canvas so the visual canvas stays unclaimed.
+	 */
+	static isSupported(): boolean {
+		if (typeof document === 'undefined') return false;
+		try {
+			const gl = document.createElement('canvas').getContext('webgl2');
+			gl?.getExtension('WEBGL_lose_context')?.loseContext();
+			return gl !== null;
+		} catch {
+			return false;
+		}
+	}
+
+	/** Why the last create() call returned null (for the debug menu), or null if it succeeded. */
+	static get failureReason(): string | null {
+		return this.lastFailure;
+	}
+
+	/**
+	 * Creates a renderer on the given canvas.
+	 *
+	 * @param canvas - A canvas without a 2D context.
+	 * @returns The renderer, or null if WebGL2 is unavailable or the shaders fail to build.
+	 */
+	static create(canvas: HTMLCanvasElement): OrbWebGLRenderer | null {
+		this.lastFailure = null;
+		const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, antialias: false });
+		if (!gl) {
+			this.lastFailure = 'no WebGL2 context';
+			return null;
+		}
+
+		const program = this.createProgram(gl);
+		const vertexArray = gl.createVertexArray();
+		const cornerBuffer = gl.createBuffer();
+		const instanceBuffer = gl.createBuffer();
+		if (!program || !vertexArray || !cornerBuffer || !instanceBuffer) {
+			this.lastFailure ??= 'buffer allocation failed';
+			return null;
+		}
+
+		gl.bindVertexArray(vertexArray);
+
+		// Unit quad as a triangle strip, shared by every instance
+		gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+		gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+		gl.enableVertexAttribArray(ATTRIB_CORNER);
+		gl.vertexAttribPointer(ATTRIB_CORNER, 2, gl.FLOAT, false, 0, 0);
+
+		const stride = FLOATS_PER_INSTANCE * Float32Array.BYTES_PER_ELEMENT;
+		gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+		gl.enableVertexAttribArray(ATTRIB_BODY);
+		gl.vertexAttribPointer(ATTRIB_BODY, 4, gl.FLOAT, false, stride, 0);
+		gl.vertexAttribDivisor(ATTRIB_BODY, 1);
+		gl.enableVertexAttribArray(ATTRIB_TIMING);
+		gl.vertexAttribPointer(ATTRIB_TIMING, 4, gl.FLOAT, false, stride, 4 * Float32Array.BYTES_PER_ELEMENT);
+		gl.vertexAttribDivisor(ATTRIB_TIMING, 1);
+		gl.enableVertexAttribArray(ATTRIB_COLOR);
+		gl.vertexAttribPointer(ATTRIB_COLOR, 4, gl.FLOAT, false, stride, 8 * Float32Array.BYTES_PER_ELEMENT);
+		gl.vertexAttribDivisor(ATTRIB_COLOR, 1);
+
+		gl.bindVertexArray(null);
+
+		const uniforms = {} as Record<UniformName, WebGLUniformLocation | null>;
+		for (const name of [...CONFIG_UNIFORMS, ...FRAME_UNIFORMS]) {
+			uniforms[name] = gl.getUniformLocation(program, name);
+		}
+
+		// Screen blend on premultiplied color: src + dst * (1 - src)
+		gl.enable(gl.BLEND);
+		gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_COLOR, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+		gl.clearColor(0, 0, 0, 0);
+
+		return new OrbWebGLRenderer(canvas, gl, program, vertexArray, cornerBuffer, instanceBuffer, uniforms);
+	}
+
+	/**
+	 * Whether the GPU context was lost (the caller should fall back to Canvas 2D).
+	 */
+	get isContextLost(): boolean {
+		return this.gl.isContextLost();
+	}
+
+	/**
+	 * Renders all orbs with visual effects.
+	 *
+	 * The viewport covers the canvas backing store, so a reduced visual
+	 * resolution needs no transform here: positions stay in CSS pixels.
+	 *
+	 * @param windowSize - Current window dimensions.
+	 * @param orbs - Array of orbs to render (from ALL layers).
+	 * @param totalLayers - Total number of z-layers in the system.
+	 * @param config - Visual configuration for orb appearance.
+	 * @param currentTime - Current timestamp for animations.
+	 * @param offsetX - Horizontal offset in pixels for parallax scrolling.
+	 * @param offsetY - Vertical offset in pixels for parallax scrolling.
+	 * @param focalPlane - Depth-of-field focus layer and aperture.
+	 */
+	draw(
+		windowSize: WindowSize,
+		orbs: Orb[],
+		totalLayers: number,
+		config: OrbVisualConfig = DEFAULT_ORB_VISUAL_CONFIG,
+		currentTime: number = performance.now(),
+		offsetX: number = 0,
+		offsetY: number = 0,
+		focalPlane: OrbFocalPlane = DEFAULT_ORB_FOCAL_PLANE
+	): void {
+		const { gl, uniforms } = this;
+		if (gl.isContextLost()) return;
+
+		gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+		gl.clear(gl.COLOR_BUFFER_BIT);
+
+		const count = this.fillInstanceData(orbs, currentTime);
+		if (count === 0) return;
+
+		gl.useProgram(this.program);
+		if (this.uploadedConfig !== config) {
+			this.uploadConfig(config);
+		}
+		gl.uniform2f(uniforms.uResolution, windowSize.width, windowSize.height);
+		gl.uniform2f(uniforms.uOffset, offsetX, offsetY);
+		gl.uniform1f(uniforms.uTotalLayers, totalLayers);
+		gl.uniform1f(uniforms.uFocusLayer, focalPlane.focusLayer);
+		gl.uniform1f(uniforms.uAperture, focalPlane.aperture);
+
+		gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+		gl.bufferData(gl.ARRAY_BUFFER, this.instanceData.subarray(0, count * FLOATS_PER_INSTANCE), gl.DYNAMIC_DRAW);
+
+		gl.bindVertexArray(this.vertexArray);
+		gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+		gl.bindVertexArray(null);
+	}
+
+	/**
+	 * Clears the canvas (graphics hidden).
+	 */
+	clear(): void {
+		if (this.gl.isContextLost()) return;
+		this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+		this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+	}
+
+	/**
+	 * Releases GPU resources. The context itself is only released once the
+	 * canvas has left the document, so a new renderer can reuse a canvas that
+	 * is still mounted (e.g. after a Strict Mode effect re-run).
+	 */
+	dispose(): void {
+		const { gl } = this;
+		if (!gl.isContextLost()) {
+			gl.deleteBuffer(this.cornerBuffer);
+			gl.deleteBuffer(this.instanceBuffer);
+			gl.deleteVertexArray(this.vertexArray);
+			gl.deleteProgram(this.program);
+		}
+		if (!this.canvas.isConnected) {
+			gl.getExtension('WEBGL_lose_context')?.loseContext();
+		}
+	}
+
+	/**
+	 * Packs drawable orbs into the instance buffer.
+	 *
+	 * @returns Number of instances written.
+	 */
+	private fillInstanceData(orbs: Orb[], currentTime: number): number {
+		const required = orbs.length * FLOATS_PER_INSTANCE;
+		if (this.instanceData.length < required) {
+			this.instanceData = new Float32Array(Math.max(required, this.instanceData.length * 2));
+		}
+
+		const data = this.instanceData;
+		let count = 0;
+		for (const orb of orbs) {
+			const { pxX, pxY, z, size } = orb;
+			// Skip orbs with invalid positions (as OrbGlowRenderer does)
+			if (!isFinite(pxX) || !isFinite(pxY) || !isFinite(z) || !isFinite(size) || size <= 0) continue;
+
+			const age = currentTime - orb.createdAt;
+			const offset = count * FLOATS_PER_INSTANCE;
+			data[offset] = pxX;
+			data[offset + 1] = pxY;
+			data[offset + 2] = z;
+			data[offset + 3] = size;
+			data[offset + 4] = age;
+			data[offset + 5] = isFinite(orb.lifetimeMs) ? orb.lifetimeMs - age : NO_DESPAWN_MS;
+			data[offset + 6] = orb.spawnAnimDurationMs;
+			data[offset + 7] = orb.despawnAnimDurationMs;
+			data[offset + 8] = orb.hue;
+			data[offset + 9] = orb.saturation / 100;
+			data[offset + 10] = orb.lightness / 100;
+			count++;
+		}
+		return count;
+	}
+
+	/**
+	 * Uploads visual config uniforms (only when the config object changes).
+	 */
+	private uploadConfig(config: OrbVisualConfig): void {
+		const { gl, uniforms } = this;
+		gl.uniform1f(uniforms.uBaseRadiusPx, config.baseRadiusPx);
+		gl.uniform1f(uniforms.uSizeExponent, config.sizeExponent);
+		gl.uniform1f(uniforms.uCoreRatio, config.coreRatio);
+		gl.uniform1f(uniforms.uBlurWidthBase, config.blurWidthBase);
+		gl.uniform1f(uniforms.uBlurWidthDepthScale, config.blurWidthDepthScale);
+		gl.uniform1f(uniforms.uGlowSpread, config.glowSpread);
+		gl.uniform1f(uniforms.uMinOpacity, config.minOpacity);
+		gl.uniform1f(uniforms.uMaxOpacity, config.maxOpacity);
+		gl.uniform1f(uniforms.uFalloffExponentBase, config.falloffExponentBase);
+		gl.uniform1f(uniforms.uFalloffDepthScale, config.falloffDepthScale);
+		gl.uniform1f(uniforms.uAnimationMinScale, config.animationMinScale);
+		gl.uniform1f(uniforms.uAnimationEasePower, config.animationEasePower);
+		gl.uniform1f(uniforms.uGlowIntensity, config.glowIntensity);
+		this.uploadedConfig = config;
+	}
+
+	/**
+	 * Compiles and links the orb shader program.
+	 */
+	private static createProgram(gl: WebGL2RenderingContext): WebGLProgram | null {
+		const vertexShader = this.compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+		const fragmentShader = this.compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+		const program = gl.createProgram();
+		if (!vertexShader || !fragmentShader || !program) {
+			this.lastFailure ??= 'program creation failed';
+			return null;
+		}
+
+		gl.attachShader(program, vertexShader);
+		gl.attachShader(program, fragmentShader);
+		gl.linkProgram(program);
+		gl.deleteShader(vertexShader);
+		gl.deleteShader(fragmentShader);
+
+		if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+			this.lastFailure = `program link failed: ${gl.getProgramInfoLog(program) || 'no log'}`;
+			gl.deleteProgram(program);
+			return null;
+		}
+		return program;
+	}
+
+	/**
+	 * Compiles one shader stage.
+	 */
+	private static compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader | null {
+		const shader = gl.createShader(type);
+		if (!shader) {
+			this.lastFailure ??= 'shader creation failed';
+			return null;
+		}
+		gl.shaderSource(shader, source);
+		gl.compileShader(shader);
+		if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+			this.lastFailure ??= `shader compile failed: ${gl.getShaderInfoLog(shader) || 'no log'}`;
+			gl.deleteShader(shader);
+			return null;
+		}
+		return shader;
+	}
+}
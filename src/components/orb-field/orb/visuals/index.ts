@@ -5,8 +5,27 @@
 export { OrbVisualRenderer } from './OrbVisualRenderer';
 export { OrbGlowRenderer } from './OrbGlowRenderer';
 export { OrbGradientFactory } from './OrbGradientFactory';
+export { OrbSpriteCache, type OrbSprite, type OrbSpriteCacheStats } from './OrbSpriteCache';
 export { OrbAnimationTiming } from './OrbAnimationTiming';
 export {
 	type OrbVisualConfig,
 	DEFAULT_ORB_VISUAL_CONFIG,
 } from './OrbVisualConfig';
+export { OrbWebGLRenderer } from './OrbWebGLRenderer';
+export { OrbFocusAnimator } from './OrbFocusAnimator';
+export { OrbTrails, type OrbTrailSamples } from './OrbTrails';
+export { type OrbRendererKind, type OrbFocalPlane, type OrbTrailMode } from './types';
+export {
+	type OrbSpriteCacheConfig,
+	DEFAULT_ORB_SPRITE_CACHE_CONFIG,
+} from './OrbSpriteCacheConfig';
+export {
+	type OrbFocusConfig,
+	DEFAULT_ORB_FOCUS_CONFIG,
+	DEFAULT_ORB_FOCAL_PLANE,
+	ORB_FOCAL_PLANES,
+} from './OrbFocusConfig';
+export {
+	type OrbTrailConfig,
+	DEFAULT_ORB_TRAIL_CONFIG,
+} from './OrbTrailConfig';
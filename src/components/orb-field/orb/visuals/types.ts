@@ -0,0 +1,33 @@
+// =============================================================================
+// Orb Visual Types - Type definitions for orb rendering
+// =============================================================================
+
+/**
+ * Backend used to draw orbs on the visual canvas.
+ *
+ * - canvas2d: One radial gradient per orb (OrbVisualRenderer)
+ * - webgl: All orbs in one instanced draw call (OrbWebGLRenderer)
+ */
+export type OrbRendererKind = 'canvas2d' | 'webgl';
+
+/**
+ * Depth-of-field focal plane in layer units.
+ *
+ * Orbs within `aperture` layers of `focusLayer` render sharp; blur grows
+ * with distance beyond that, in front of and behind the plane.
+ */
+export interface OrbFocalPlane {
+	/** Layer rendered sharpest (0 is nearest). */
+	focusLayer: number;
+	/** Half-width of the sharp band around focusLayer, in layers. */
+	aperture: number;
+}
+
+/**
+ * Trail rendering for moving orbs (Canvas 2D only).
+ *
+ * - off: Orbs are drawn once at their position
+ * - motionBlur: Ghosts spread along the velocity, length proportional to speed
+ * - history: Ghosts at the orb's positions in previous frames
+ */
+export type OrbTrailMode = 'off' | 'motionBlur' | 'history';
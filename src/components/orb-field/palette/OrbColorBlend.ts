@@ -0,0 +1,62 @@
+// =============================================================================
+// OrbColorBlend - Interpolation between HSL orb colours
+// =============================================================================
+
+import { type OrbColor } from './types';
+
+/**
+ * Blends HSL colours. Hue takes the shorter way around the colour wheel, so
+ * red (350°) and orange (20°) meet at 5° rather than passing through cyan.
+ *
+ * Single Responsibility: Colour interpolation only.
+ */
+export class OrbColorBlend {
+	/**
+	 * Moves a colour toward another in place.
+	 *
+	 * @param color - Colour to change (e.g. an orb).
+	 * @param toward - Colour to move toward.
+	 * @param t - Fraction of the difference to cover (0-1).
+	 */
+	static mixInto(color: OrbColor, toward: OrbColor, t: number): void {
+		color.hue = this.lerpHue(color.hue, toward.hue, t);
+		color.saturation += (toward.saturation - color.saturation) * t;
+		color.lightness += (toward.lightness - color.lightness) * t;
+	}
+
+	/**
+	 * Weighted average of two colours (e.g. mass-weighted for merging orbs).
+	 *
+	 * @param a - First colour.
+	 * @param weightA - Weight of the first colour.
+	 * @param b - Second colour.
+	 * @param weightB - Weight of the second colour.
+	 * @returns A new colour.
+	 */
+	static weighted(a: OrbColor, weightA: number, b: OrbColor, weightB: number): OrbColor {
+		const t = weightB / (weightA + weightB);
+		return {
+			hue: this.lerpHue(a.hue, b.hue, t),
+			saturation: a.saturation + (b.saturation - a.saturation) * t,
+			lightness: a.lightness + (b.lightness - a.lightness) * t,
+		};
+	}
+
+	/**
+	 * Copies the colour fields of an orb (or any colour) into a new object.
+	 *
+	 * @param color - Source colour.
+	 */
+	static copy(color: OrbColor): OrbColor {
+		return { hue: color.hue, saturation: color.saturation, lightness: color.lightness };
+	}
+
+	/**
+	 * Interpolates hue along the shorter arc, wrapped to 0-360.
+	 */
+	private static lerpHue(from: number, to: number, t: number): number {
+		const delta = ((to - from) % 360 + 540) % 360 - 180;
+		const hue = from + delta * t;
+		return (hue % 360 + 360) % 360;
+	}
+}
@@ -0,0 +1,66 @@
+// =============================================================================
+// OrbPaletteSampler - Picks an orb's colour from a palette
+// =============================================================================
+
+import { DEFAULT_ORB_COLOR_CONFIG, type OrbColorConfig } from './PaletteConfig';
+import { type OrbColor, type OrbPalette } from './types';
+
+/**
+ * Maps an orb's colour seed to a palette colour.
+ *
+ * The seed is drawn once per orb, so an orb keeps its relative place when
+ * the palette changes: the same seed picks the matching weighted entry of
+ * the new palette and gets the same hue/lightness jitter.
+ *
+ * Single Responsibility: Palette lookup only.
+ */
+export class OrbPaletteSampler {
+	/**
+	 * Returns the palette colour for a seed.
+	 *
+	 * @param palette - Palette to pick from.
+	 * @param seed - The orb's colour seed (0-1).
+	 * @param ageMs - Orb age in milliseconds (moves the pick through drifting palettes).
+	 * @param config - Jitter amounts.
+	 * @returns A new colour.
+	 */
+	static sample(
+		palette: OrbPalette,
+		seed: number,
+		ageMs: number = 0,
+		config: OrbColorConfig = DEFAULT_ORB_COLOR_CONFIG
+	): OrbColor {
+		const drift = palette.driftPeriodMs ? ageMs / palette.driftPeriodMs : 0;
+		const entry = this.pick(palette, this.fract(seed + drift));
+
+		// Jitter comes from other digits of the seed, so it is stable per orb
+		const hueJitter = (this.fract(seed * 7919) - 0.5) * 2 * config.hueJitterDeg;
+		const lightnessJitter = (this.fract(seed * 104729) - 0.5) * 2 * config.lightnessJitter;
+
+		return {
+			hue: (entry.hue + hueJitter + 360) % 360,
+			saturation: entry.saturation,
+			lightness: Math.max(0, Math.min(100, entry.lightness + lightnessJitter)),
+		};
+	}
+
+	/**
+	 * Weighted pick: the seed is a position along the cumulative weights.
+	 */
+	private static pick(palette: OrbPalette, position: number): OrbColor {
+		const { colors } = palette;
+		let total = 0;
+		for (const color of colors) total += color.weight;
+
+		let threshold = position * total;
+		for (const color of colors) {
+			threshold -= color.weight;
+			if (threshold < 0) return color;
+		}
+		return colors[colors.length - 1];
+	}
+
+	private static fract(value: number): number {
+		return value - Math.floor(value);
+	}
+}
@@ -0,0 +1,93 @@
+// =============================================================================
+// Palette Configuration - Built-in palettes and colour blending settings
+// =============================================================================
+
+import { DEFAULT_ORB_VISUAL_CONFIG } from '../orb/visuals/OrbVisualConfig';
+import { type OrbPalette, type OrbPaletteId } from './types';
+
+/**
+ * Built-in palettes.
+ *
+ * Cyan keeps the original look (its main colour is the OrbVisualConfig base
+ * colour). Aurora is the only one that drifts by default.
+ */
+export const ORB_PALETTES: Record<OrbPaletteId, OrbPalette> = {
+	cyan: {
+		id: 'cyan',
+		label: 'Cyan',
+		colors: [
+			{
+				hue: DEFAULT_ORB_VISUAL_CONFIG.baseHue,
+				saturation: DEFAULT_ORB_VISUAL_CONFIG.baseSaturation,
+				lightness: DEFAULT_ORB_VISUAL_CONFIG.baseLightness,
+				weight: 3,
+			},
+			{ hue: 212, saturation: 95, lightness: 52, weight: 1 },
+		],
+	},
+	maroon: {
+		id: 'maroon',
+		label: 'Maroon',
+		colors: [
+			{ hue: 355, saturation: 75, lightness: 32, weight: 2 },
+			{ hue: 8, saturation: 80, lightness: 38, weight: 1 },
+		],
+	},
+	aurora: {
+		id: 'aurora',
+		label: 'Aurora',
+		colors: [
+			{ hue: 168, saturation: 85, lightness: 48, weight: 2 },
+			{ hue: 138, saturation: 70, lightness: 50, weight: 1 },
+			{ hue: 265, saturation: 80, lightness: 62, weight: 1 },
+		],
+		driftPeriodMs: 40000,
+	},
+	ember: {
+		id: 'ember',
+		label: 'Ember',
+		colors: [
+			{ hue: 18, saturation: 95, lightness: 55, weight: 2 },
+			{ hue: 36, saturation: 100, lightness: 55, weight: 1 },
+			{ hue: 350, saturation: 85, lightness: 50, weight: 1 },
+		],
+	},
+	orchid: {
+		id: 'orchid',
+		label: 'Orchid',
+		colors: [
+			{ hue: 290, saturation: 75, lightness: 60, weight: 2 },
+			{ hue: 320, saturation: 80, lightness: 60, weight: 1 },
+			{ hue: 250, saturation: 80, lightness: 65, weight: 1 },
+		],
+	},
+};
+
+/**
+ * Palette used when none is selected.
+ */
+export const DEFAULT_ORB_PALETTE: OrbPalette = ORB_PALETTES.cyan;
+
+/**
+ * Configuration for per-orb colour variation and blending.
+ */
+export interface OrbColorConfig {
+	/** Time for orbs to settle on a new palette (about 95% of the way) in milliseconds. */
+	crossFadeMs: number;
+	/** Maximum per-orb hue offset from its palette colour in degrees. */
+	hueJitterDeg: number;
+	/** Maximum per-orb lightness offset from its palette colour in percentage points. */
+	lightnessJitter: number;
+	/** Rate at which touching orbs exchange colour (fraction of the difference per second). */
+	collisionBlendRate: number;
+}
+
+/**
+ * Default colour configuration.
+ */
+export const DEFAULT_ORB_COLOR_CONFIG: OrbColorConfig = {
+	crossFadeMs: 1500,
+	hueJitterDeg: 6,
+	lightnessJitter: 4,
+	collisionBlendRate: 1.5,
+};
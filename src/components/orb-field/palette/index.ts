@@ -0,0 +1,18 @@
+// =============================================================================
+// Palettes - Exports for orb colour palettes and blending
+// =============================================================================
+
+export {
+	type OrbColor,
+	type PaletteColor,
+	type OrbPalette,
+	type OrbPaletteId,
+} from './types';
+export {
+	ORB_PALETTES,
+	DEFAULT_ORB_PALETTE,
+	DEFAULT_ORB_COLOR_CONFIG,
+	type OrbColorConfig,
+} from './PaletteConfig';
+export { OrbPaletteSampler } from './OrbPaletteSampler';
+export { OrbColorBlend } from './OrbColorBlend';
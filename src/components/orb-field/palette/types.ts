@@ -0,0 +1,45 @@
+// =============================================================================
+// Palette Types - Orb colours and named palettes
+// =============================================================================
+
+/**
+ * An HSL colour, the form orbs carry and the renderers consume.
+ */
+export interface OrbColor {
+	/** Hue in degrees (0-360). */
+	hue: number;
+	/** Saturation percentage (0-100). */
+	saturation: number;
+	/** Lightness percentage (0-100). */
+	lightness: number;
+}
+
+/**
+ * One palette entry. Orbs pick entries with probability proportional to weight.
+ */
+export interface PaletteColor extends OrbColor {
+	/** Relative share of orbs using this colour. */
+	weight: number;
+}
+
+/**
+ * IDs of the built-in palettes (see PaletteConfig.ts).
+ */
+export type OrbPaletteId = 'cyan' | 'maroon' | 'aurora' | 'ember' | 'orchid';
+
+/**
+ * A named set of weighted colours.
+ */
+export interface OrbPalette {
+	/** Unique identifier. */
+	id: string;
+	/** Name shown in the debug menu. */
+	label: string;
+	/** Weighted colours (at least one). */
+	colors: readonly PaletteColor[];
+	/**
+	 * Time for an orb's colour to cycle once through the palette in
+	 * milliseconds, measured from its creation. Omit for fixed colours.
+	 */
+	driftPeriodMs?: number;
+}
@@ -0,0 +1,188 @@
+// =============================================================================
+// DefaultPhases - Built-in physics phases in their default order
+// =============================================================================
+
+import { OrbAvoidance, OrbOrbCollision, ContinuousCollision } from '../collision';
+import { ForceFieldSolver } from '../forces/ForceFieldSolver';
+import { PhaseGridMarking } from './PhaseGridMarking';
+import { PhasePointerInteraction } from './PhasePointerInteraction';
+import { PhaseSpeedLimit } from './PhaseSpeedLimit';
+import { PhaseWander } from './PhaseWander';
+import { PhaseLayerAttraction } from './PhaseLayerAttraction';
+import { PhaseWallCollision } from './PhaseWallCollision';
+import { PhaseOrbLifecycle } from './PhaseOrbLifecycle';
+import { PhaseOrbColor } from './PhaseOrbColor';
+import { PhasePinnedOrbs } from './PhasePinnedOrbs';
+import { PhaseExpiration } from './PhaseExpiration';
+import { PhaseContinuousSpawn } from './PhaseContinuousSpawn';
+import { type PhysicsPhase } from './types';
+
+/**
+ * IDs of the built-in phases, for placing custom phases relative to them.
+ */
+export const PHYSICS_PHASE_IDS = {
+	GRID_MARKING: 'grid-marking',
+	POINTER_INTERACTION: 'pointer-interaction',
+	FORCE_FIELDS: 'force-fields',
+	SPEED_LIMIT: 'speed-limit',
+	WANDER: 'wander',
+	LAYER_ATTRACTION: 'layer-attraction',
+	ORB_AVOIDANCE: 'orb-avoidance',
+	ORB_LIFECYCLE: 'orb-lifecycle',
+	ORB_COLLISION: 'orb-collision',
+	ORB_SWEEP: 'orb-sweep',
+	ORB_COLOR: 'orb-color',
+	PINNED_ORBS: 'pinned-orbs',
+	WALL_COLLISION: 'wall-collision',
+	GRID_REMARKING: 'grid-remarking',
+	EXPIRATION: 'expiration',
+	CONTINUOUS_SPAWN: 'continuous-spawn',
+} as const;
+
+/**
+ * Built-in phases in execution order.
+ * Each adapts one Phase* class to the common PhysicsPhase interface.
+ */
+export const DEFAULT_PHYSICS_PHASES: readonly PhysicsPhase[] = [
+	{
+		id: PHYSICS_PHASE_IDS.GRID_MARKING,
+		label: 'Grid Marking',
+		description: 'Mark orbs at current positions',
+		runWhenPaused: true,
+		execute: (ctx) => PhaseGridMarking.markInitial(ctx.orbsRef.current, ctx.grid, ctx.vpc),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.POINTER_INTERACTION,
+		label: 'Pointer Interaction',
+		description: 'Mouse and touch repel, attract, swirl, grab or wake',
+		execute: (ctx) => PhasePointerInteraction.execute(
+			ctx.orbsRef.current,
+			ctx.pointerInteraction,
+			ctx.pointers,
+			ctx.pointerMode,
+			ctx.pointerConfig,
+			ctx.deltaTime,
+			ctx.scrollOffset
+		),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.FORCE_FIELDS,
+		label: 'Force Fields',
+		description: 'Attractors, repellers, emitters and wind',
+		execute: (ctx) => ForceFieldSolver.apply(ctx.orbsRef.current, ctx.forceFields, ctx.deltaTime, ctx.scrollOffset),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.SPEED_LIMIT,
+		label: 'Speed Limit',
+		description: 'Decelerate orbs above their max speed',
+		execute: (ctx) => PhaseSpeedLimit.execute(ctx.orbsRef.current, ctx.deltaTime),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.WANDER,
+		label: 'Wander',
+		description: 'Organic heading drift',
+		execute: (ctx) => PhaseWander.execute(ctx.orbsRef.current, ctx.deltaTime),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.LAYER_ATTRACTION,
+		label: 'Layer Attraction',
+		description: 'Pull orbs toward their preferred layer',
+		execute: (ctx) => PhaseLayerAttraction.execute(ctx.orbsRef.current, ctx.grid.config.layers, ctx.deltaTime),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.ORB_AVOIDANCE,
+		label: 'Orb Avoidance',
+		description: 'Soft nudge (yellow zones)',
+		execute: (ctx) => OrbAvoidance.applyRepulsion(ctx.orbsRef.current, ctx.vpc, ctx.deltaTime, undefined, ctx.getPairList(), ctx.random),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.ORB_LIFECYCLE,
+		label: 'Orb Lifecycle',
+		description: 'Merge gentle contacts, split hard hits (opt-in)',
+		enabledByDefault: false,
+		execute: (ctx) => PhaseOrbLifecycle.execute(
+			ctx.orbsRef,
+			ctx.vpc,
+			ctx.getPairList(),
+			ctx.grid.config.layers,
+			ctx.now,
+			ctx.syncOrbsState,
+			ctx.random
+		),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.ORB_COLLISION,
+		label: 'Orb Collisions',
+		description: 'Hard bounce (red zones)',
+		execute: (ctx) => OrbOrbCollision.resolveCollisions(ctx.orbsRef.current, ctx.vpc, ctx.getPairList(), ctx.random),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.ORB_SWEEP,
+		label: 'Orb Sweep (CCD)',
+		description: 'Bounce fast orbs that would pass through each other',
+		execute: (ctx) => ContinuousCollision.sweepOrbPairs(ctx.orbsRef.current, ctx.vpc, ctx.deltaTime, ctx.collisionCounters),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.ORB_COLOR,
+		label: 'Orb Colour',
+		description: 'Cross-fade to the palette, blend touching orbs',
+		execute: (ctx) => PhaseOrbColor.execute(
+			ctx.orbsRef.current,
+			ctx.palette,
+			ctx.getPairList(),
+			ctx.vpc,
+			ctx.deltaTime,
+			ctx.now
+		),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.PINNED_ORBS,
+		label: 'Pinned Orbs',
+		description: 'Hold orbs pinned in the inspector still',
+		execute: (ctx) => PhasePinnedOrbs.execute(ctx.orbsRef.current),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.WALL_COLLISION,
+		label: 'Wall Collision',
+		description: 'Move orbs (sub-stepped when fast) and bounce off walls',
+		execute: (ctx) => PhaseWallCollision.execute(ctx.orbsRef.current, ctx.grid, ctx.vpc, ctx.deltaTime, ctx.random, ctx.collisionCounters),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.GRID_REMARKING,
+		label: 'Grid Re-marking',
+		description: 'Mark orbs at new positions',
+		execute: (ctx) => PhaseGridMarking.markFinal(ctx.orbsRef.current, ctx.grid, ctx.vpc),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.EXPIRATION,
+		label: 'Expiration',
+		description: 'Remove orbs past their lifetime',
+		execute: (ctx) => PhaseExpiration.execute(
+			ctx.orbsRef,
+			ctx.grid,
+			ctx.vpc,
+			ctx.now,
+			ctx.enableOrbDespawning,
+			ctx.syncOrbsState
+		),
+	},
+	{
+		id: PHYSICS_PHASE_IDS.CONTINUOUS_SPAWN,
+		label: 'Continuous Spawn',
+		description: 'Maintain the target orb count',
+		execute: (ctx) => PhaseContinuousSpawn.execute(
+			ctx.orbsRef,
+			ctx.grid,
+			ctx.vpc,
+			ctx.windowSize,
+			ctx.now,
+			ctx.burstTime,
+			ctx.isPageVisible,
+			ctx.enableOrbSpawning,
+			ctx.spawnRandomOrbs,
+			ctx.deltaTime,
+			ctx.random,
+			ctx.orbCountScale
+		),
+	},
+];
@@ -7,6 +7,7 @@ import { type WindowSize } from '../shared/types';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
 import { type Orb } from '../orb/types';
+import { DEFAULT_RANDOM, type RandomSource } from '../shared/random';
 
 /**
  * Phase 10: Continuous orb spawning to maintain target count.
@@ -27,6 +28,8 @@ export class PhaseContinuousSpawn {
 	 * @param enableOrbSpawning - Whether continuous spawning is enabled.
 	 * @param spawnRandomOrbs - Function to spawn random orbs.
 	 * @param deltaTime - Time since last frame in seconds.
+	 * @param random - Random source for the fractional spawn roll (defaults to Math.random).
+	 * @param orbCountScale - Multiplier on the target count (quality tiers lower it).
 	 */
 	static execute(
 		orbsRef: React.RefObject<Orb[]>,
@@ -38,18 +41,20 @@ export class PhaseContinuousSpawn {
 		isPageVisible: boolean,
 		enableOrbSpawning: boolean,
 		spawnRandomOrbs: (count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells) => number,
-		deltaTime: number
+		deltaTime: number,
+		random: RandomSource = DEFAULT_RANDOM,
+		orbCountScale: number = 1
 	): void {
 		const { delayAfterBurstMs, targetOrbCountAt4K, referenceScreenArea, minOrbCount, baseSpawnRateAt4K, maxSpawnsPerFrame } = DEFAULT_CONTINUOUS_SPAWN_CONFIG;
 
-		if (!burstTime || (currentTime - burstTime) <= delayAfterBurstMs || !isPageVisible || !enableOrbSpawning) {
+		if (burstTime === null || (currentTime - burstTime) <= delayAfterBurstMs || !isPageVisible || !enableOrbSpawning) {
 			return;
 		}
 
 		const screenArea = windowSize.width * windowSize.height;
 		const areaScale = screenArea / referenceScreenArea;
 		const scaledCount = Math.round(targetOrbCountAt4K * areaScale);
-		const targetCount = Math.max(minOrbCount, scaledCount);
+		const targetCount = Math.round(Math.max(minOrbCount, scaledCount) * orbCountScale);
 		const baseSpawnRate = baseSpawnRateAt4K * areaScale;
 
 		const currentCount = orbsRef.current.length;
@@ -63,7 +68,7 @@ export class PhaseContinuousSpawn {
 			const expectedSpawns = spawnRate * deltaTime;
 			const guaranteedSpawns = Math.floor(expectedSpawns);
 			const fractionalChance = expectedSpawns - guaranteedSpawns;
-			const extraSpawn = Math.random() < fractionalChance ? 1 : 0;
+			const extraSpawn = random.next() < fractionalChance ? 1 : 0;
 			const spawnsThisFrame = Math.min(guaranteedSpawns + extraSpawn, maxSpawnsPerFrame);
 
 			if (spawnsThisFrame > 0) {
@@ -4,6 +4,7 @@
 
 import { type Orb } from '../orb/types';
 import { OrbGridMarking } from '../orb/core';
+import { OrbLifecycle } from '../orb/utils';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
 
@@ -16,6 +17,9 @@ export class PhaseExpiration {
 	/**
 	 * Removes expired orbs from the simulation.
 	 * 
+	 * Orbs dissolving after a merge or split are removed once their despawn
+	 * animation ends, even while despawning is disabled.
+	 * 
 	 * @param orbsRef - Ref to orbs array (mutated in place).
 	 * @param grid - Spatial grid for clearing expired orbs.
 	 * @param vpc - Viewport cells for coordinate conversion.
@@ -31,16 +35,17 @@ export class PhaseExpiration {
 		enableOrbDespawning: boolean,
 		syncOrbsState: () => void
 	): void {
-		if (!enableOrbDespawning) return;
+		const isExpired = (orb: Orb) =>
+			(enableOrbDespawning || OrbLifecycle.isDissolving(orb)) && (currentTime - orb.createdAt) > orb.lifetimeMs;
 
 		const currentOrbs = orbsRef.current;
-		const expiredOrbs = currentOrbs.filter(orb => (currentTime - orb.createdAt) > orb.lifetimeMs);
+		const expiredOrbs = currentOrbs.filter(isExpired);
 
 		if (expiredOrbs.length > 0) {
 			for (const expiredOrb of expiredOrbs) {
 				OrbGridMarking.clearOrbCircular(grid, expiredOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
 			}
-			orbsRef.current = currentOrbs.filter(orb => (currentTime - orb.createdAt) <= orb.lifetimeMs);
+			orbsRef.current = currentOrbs.filter(orb => !isExpired(orb));
 			syncOrbsState();
 		}
 	}
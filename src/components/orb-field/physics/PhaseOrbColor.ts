@@ -0,0 +1,80 @@
+// =============================================================================
+// PhaseOrbColor - Phase 5.8: Ease orb colours toward the palette and blend on contact
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { OrbLifecycle } from '../orb/utils/OrbLifecycle';
+import { type OrbPairList } from '../collision';
+import { type ViewportCells } from '../grid/types';
+import { DEFAULT_ORB_COLOR_CONFIG, OrbColorBlend, OrbPaletteSampler, type OrbColorConfig, type OrbPalette } from '../palette';
+
+/**
+ * Phase 5.8: Orb colour.
+ *
+ * Every orb eases toward its entry in the active palette, so a palette
+ * switch cross-fades, drifting palettes move smoothly and colours mixed by
+ * contact or merging settle back over time. Touching orbs pull each
+ * other's colour closer while they are in contact.
+ *
+ * Single Responsibility: Orb colour updates only.
+ */
+export class PhaseOrbColor {
+	/**
+	 * Updates orb colours for one step.
+	 *
+	 * @param orbs - Array of orbs to update.
+	 * @param palette - Active palette.
+	 * @param pairList - Broad-phase candidate pairs (indices into orbs).
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param now - Current effective time in milliseconds.
+	 * @param config - Cross-fade, jitter and contact blending settings.
+	 */
+	static execute(
+		orbs: Orb[],
+		palette: OrbPalette,
+		pairList: OrbPairList,
+		vpc: ViewportCells,
+		deltaTime: number,
+		now: number,
+		config: OrbColorConfig = DEFAULT_ORB_COLOR_CONFIG
+	): void {
+		if (deltaTime <= 0) return;
+
+		// Exponential easing: 95% of the way after crossFadeMs (three time constants)
+		const fade = 1 - Math.exp(-deltaTime * 3000 / config.crossFadeMs);
+		for (const orb of orbs) {
+			const target = OrbPaletteSampler.sample(palette, orb.colorSeed, now - orb.createdAt, config);
+			OrbColorBlend.mixInto(orb, target, fade);
+		}
+
+		this.blendContacts(orbs, pairList, vpc, Math.min(1, deltaTime * config.collisionBlendRate));
+	}
+
+	/**
+	 * Moves the colours of touching orbs toward each other, the smaller orb
+	 * more than the larger (size is mass, as in the collision phases).
+	 */
+	private static blendContacts(orbs: Orb[], pairList: OrbPairList, vpc: ViewportCells, rate: number): void {
+		if (rate <= 0) return;
+		const { pairs, count } = pairList;
+
+		for (let p = 0; p < count; p++) {
+			const orbA = orbs[pairs[p * 2]];
+			const orbB = orbs[pairs[p * 2 + 1]];
+			if (!orbA || !orbB || OrbLifecycle.isDissolving(orbA) || OrbLifecycle.isDissolving(orbB)) continue;
+
+			// Same contact distance as OrbOrbCollision (in cells)
+			const dx = (orbB.pxX - orbA.pxX) * vpc.invCellSizeXPx;
+			const dy = (orbB.pxY - orbA.pxY) * vpc.invCellSizeYPx;
+			const dz = orbB.z - orbA.z;
+			const minDist = (orbA.size - 1) + (orbB.size - 1) + 1;
+			if (dx * dx + dy * dy + dz * dz >= minDist * minDist) continue;
+
+			const colorA = OrbColorBlend.copy(orbA);
+			const totalSize = orbA.size + orbB.size;
+			OrbColorBlend.mixInto(orbA, orbB, rate * (orbB.size / totalSize));
+			OrbColorBlend.mixInto(orbB, colorA, rate * (orbA.size / totalSize));
+		}
+	}
+}
@@ -0,0 +1,74 @@
+// =============================================================================
+// PhaseOrbInteraction Benchmark - Broad phase vs brute force orb interaction
+// =============================================================================
+
+import { bench, describe } from 'vitest';
+import { PhaseOrbInteraction } from './PhaseOrbInteraction';
+import { GridConfigFactory } from '../grid/core/GridConfigFactory';
+import { ViewportCellsFactory } from '../grid/core/ViewportCellsFactory';
+import { OrbFactory } from '../orb/utils/OrbFactory';
+import { getRandomSize } from '../orb/utils/OrbSpawnUtils';
+import { DEFAULT_GRID_CONFIG } from '../shared/config';
+import { type Orb } from '../orb/types';
+
+/** Orb counts to benchmark (typical, busy, stress). */
+const ORB_COUNTS = [100, 600, 2000];
+
+/** Simulated frame delta in seconds (60fps). */
+const FRAME_DT = 1 / 60;
+
+/** Headless 1080p viewport used to derive grid metrics. */
+const VIEWPORT = { innerWidth: 1920, innerHeight: 1080, devicePixelRatio: 1 } as Window;
+
+const vpc = ViewportCellsFactory.create(GridConfigFactory.create(VIEWPORT));
+
+/**
+ * Creates orbs scattered uniformly through the viewport and depth layers.
+ */
+function createOrbs(count: number): Orb[] {
+	const orbs: Orb[] = [];
+	for (let i = 0; i < count; i++) {
+		const angle = Math.random() * Math.PI * 2;
+		const speed = 20 + Math.random() * 40;
+		orbs.push(OrbFactory.create({
+			pxX: Math.random() * VIEWPORT.innerWidth,
+			pxY: Math.random() * VIEWPORT.innerHeight,
+			z: Math.random() * (DEFAULT_GRID_CONFIG.layers - 1),
+			vx: Math.cos(angle) * speed,
+			vy: Math.sin(angle) * speed,
+			vz: 0,
+			speed,
+			angle,
+			size: getRandomSize(8),
+			lifetimeMs: Infinity,
+		}));
+	}
+	return orbs;
+}
+
+/**
+ * Restores mutated orb state from the template so every iteration
+ * runs against the same starting layout.
+ */
+function resetOrbs(orbs: Orb[], template: Orb[]): void {
+	for (let i = 0; i < orbs.length; i++) {
+		Object.assign(orbs[i], template[i]);
+	}
+}
+
+for (const count of ORB_COUNTS) {
+	describe(`PhaseOrbInteraction.execute (${count} orbs)`, () => {
+		const template = createOrbs(count);
+		const orbs = template.map((orb) => ({ ...orb }));
+
+		bench('broad phase', () => {
+			resetOrbs(orbs, template);
+			PhaseOrbInteraction.execute(orbs, vpc, FRAME_DT, false, false, true);
+		});
+
+		bench('brute force', () => {
+			resetOrbs(orbs, template);
+			PhaseOrbInteraction.execute(orbs, vpc, FRAME_DT, false, false, false);
+		});
+	});
+}
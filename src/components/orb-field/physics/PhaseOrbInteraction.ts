@@ -3,8 +3,9 @@
 // =============================================================================
 
 import { type Orb } from '../orb/types';
-import { OrbAvoidance, OrbOrbCollision } from '../collision';
+import { OrbAvoidance, OrbBroadPhase, OrbOrbCollision, type OrbPairList } from '../collision';
 import { type ViewportCells } from '../grid/types';
+import { DEFAULT_RANDOM, type RandomSource } from '../shared/random';
 
 /**
  * Phase 5.5-5.6: Orb-orb interaction (avoidance and collision).
@@ -12,30 +13,61 @@ import { type ViewportCells } from '../grid/types';
  * Single Responsibility: Orb-to-orb interaction forces only.
  */
 export class PhaseOrbInteraction {
+	/** Shared spatial hash, rebuilt once per frame and reused by both sub-phases. */
+	private static broadPhase = new OrbBroadPhase();
+
+	/**
+	 * Rebuilds the shared spatial hash and returns the candidate pairs.
+	 * The list is owned by the broad phase and only valid until the next call.
+	 *
+	 * @param orbs - Array of orbs to hash.
+	 * @param vpc - Viewport cells for spatial queries.
+	 * @returns Candidate pairs whose avoidance zones may overlap.
+	 */
+	static buildPairList(orbs: Orb[], vpc: ViewportCells): OrbPairList {
+		this.broadPhase.build(orbs, vpc);
+		return this.broadPhase.getPairList();
+	}
+
 	/**
 	 * Applies orb-orb avoidance and resolves orb-orb collisions.
 	 * 
+	 * Candidate pairs are built once by the broad phase and shared between
+	 * avoidance and collision, so each frame costs roughly O(n) instead of O(n²).
+	 * 
 	 * @param orbs - Array of orbs to update.
 	 * @param vpc - Viewport cells for spatial queries.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
 	 * @param disableAvoidance - Whether avoidance is disabled.
 	 * @param disableCollisions - Whether collisions are disabled.
+	 * @param useBroadPhase - Whether to cull pairs with the spatial hash (default true).
+	 *                        Disabling falls back to brute-force all-pairs checks.
+	 * @param random - Random source for separating coincident orbs (defaults to Math.random).
 	 */
 	static execute(
 		orbs: Orb[],
 		vpc: ViewportCells,
 		deltaTime: number,
 		disableAvoidance: boolean,
-		disableCollisions: boolean
+		disableCollisions: boolean,
+		useBroadPhase: boolean = true,
+		random: RandomSource = DEFAULT_RANDOM
 	): void {
+		if (disableAvoidance && disableCollisions) return;
+
+		let pairList: OrbPairList | undefined;
+		if (useBroadPhase) {
+			pairList = this.buildPairList(orbs, vpc);
+		}
+
 		// Phase 5.5: Apply orb-orb avoidance
 		if (!disableAvoidance) {
-			OrbAvoidance.applyRepulsion(orbs, vpc, deltaTime);
+			OrbAvoidance.applyRepulsion(orbs, vpc, deltaTime, undefined, pairList, random);
 		}
 
 		// Phase 5.6: Resolve orb-orb collisions
 		if (!disableCollisions) {
-			OrbOrbCollision.resolveCollisions(orbs, vpc);
+			OrbOrbCollision.resolveCollisions(orbs, vpc, pairList, random);
 		}
 	}
 }
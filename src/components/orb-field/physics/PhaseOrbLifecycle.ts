@@ -0,0 +1,115 @@
+// =============================================================================
+// PhaseOrbLifecycle - Phase 5.55: Merge and split orbs on contact
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { OrbLifecycle } from '../orb/utils';
+import { DEFAULT_LIFECYCLE_CONFIG, type OrbLifecycleConfig } from '../orb/config';
+import { type OrbPairList } from '../collision';
+import { type ViewportCells } from '../grid/types';
+import { DEFAULT_RANDOM, type RandomSource } from '../shared/random';
+
+/**
+ * Phase 5.55: Orb lifecycle (merging and splitting).
+ *
+ * Runs before orb collisions so the approach speed of each contact is still
+ * known. Gentle contacts between small orbs merge them, hard hits split the
+ * larger orb. New orbs are appended, so broad-phase pair indices stay valid
+ * for the collision phases that follow.
+ *
+ * Single Responsibility: Deciding which contacts merge or split only.
+ */
+export class PhaseOrbLifecycle {
+	/**
+	 * Merges or splits touching orbs based on their impact energy.
+	 *
+	 * @param orbsRef - Ref to orbs array (new orbs are pushed onto it).
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param pairList - Broad-phase candidate pairs (indices into orbsRef.current).
+	 * @param totalLayers - Total number of z-layers.
+	 * @param currentTime - Current effective time.
+	 * @param syncOrbsState - Function to sync React state.
+	 * @param random - Random source for new orbs (defaults to Math.random).
+	 * @param config - Size, energy and cooldown limits.
+	 */
+	static execute(
+		orbsRef: React.RefObject<Orb[]>,
+		vpc: ViewportCells,
+		pairList: OrbPairList,
+		totalLayers: number,
+		currentTime: number,
+		syncOrbsState: () => void,
+		random: RandomSource = DEFAULT_RANDOM,
+		config: OrbLifecycleConfig = DEFAULT_LIFECYCLE_CONFIG
+	): void {
+		const orbs = orbsRef.current;
+		const { pairs, count } = pairList;
+		let created = 0;
+
+		for (let p = 0; p < count; p++) {
+			const orbA = orbs[pairs[p * 2]];
+			const orbB = orbs[pairs[p * 2 + 1]];
+			// Orbs merged or split earlier in this loop are dissolving and no longer ready
+			if (!OrbLifecycle.isReady(orbA, currentTime) || !OrbLifecycle.isReady(orbB, currentTime)) continue;
+
+			const impact = this.measureImpact(orbA, orbB, vpc);
+			if (impact === null) continue;
+
+			if (
+				impact.energy <= config.mergeMaxEnergy &&
+				orbA.size <= config.mergeMaxSourceSize &&
+				orbB.size <= config.mergeMaxSourceSize &&
+				orbA.size + orbB.size <= config.mergeMaxResultSize
+			) {
+				orbs.push(OrbLifecycle.merge(orbA, orbB, currentTime, totalLayers, random, config));
+				created++;
+				continue;
+			}
+
+			if (impact.energy >= config.splitMinEnergy) {
+				const larger = orbA.size >= orbB.size ? orbA : orbB;
+				if (larger.size < Math.max(2, config.splitMinSize)) continue;
+				// The first piece is knocked straight away from the other orb
+				const impactAngle = larger === orbA ? impact.angle + Math.PI : impact.angle;
+				const pieces = OrbLifecycle.split(larger, impactAngle, currentTime, vpc, totalLayers, random, config);
+				orbs.push(...pieces);
+				created += pieces.length;
+			}
+		}
+
+		if (created > 0) {
+			syncOrbsState();
+		}
+	}
+
+	/**
+	 * Measures a contact between two orbs.
+	 *
+	 * @returns Impact energy (size as mass, along the contact normal) and the
+	 *          XY direction from A to B, or null if the orbs are not touching
+	 *          or not approaching.
+	 */
+	private static measureImpact(orbA: Orb, orbB: Orb, vpc: ViewportCells): { energy: number; angle: number } | null {
+		// Same contact distance as OrbOrbCollision (in cells)
+		const dx = (orbB.pxX - orbA.pxX) * vpc.invCellSizeXPx;
+		const dy = (orbB.pxY - orbA.pxY) * vpc.invCellSizeYPx;
+		const dz = orbB.z - orbA.z;
+		const minDist = (orbA.size - 1) + (orbB.size - 1) + 1;
+		if (dx * dx + dy * dy + dz * dz >= minDist * minDist) return null;
+
+		// Contact normal in pixel space (Z stays in layers, as in OrbOrbCollision)
+		const nxPx = dx * vpc.cellSizeXPx;
+		const nyPx = dy * vpc.cellSizeYPx;
+		const lenPx = Math.sqrt(nxPx * nxPx + nyPx * nyPx + dz * dz);
+		if (!(lenPx > 0.001)) return null;
+
+		const dvn = ((orbA.vx - orbB.vx) * nxPx + (orbA.vy - orbB.vy) * nyPx + (orbA.vz - orbB.vz) * dz) / lenPx;
+		if (!(dvn > 0)) return null;
+
+		const reducedMass = (orbA.size * orbB.size) / (orbA.size + orbB.size);
+		return {
+			energy: 0.5 * reducedMass * dvn * dvn,
+			angle: Math.atan2(nyPx, nxPx),
+		};
+	}
+}
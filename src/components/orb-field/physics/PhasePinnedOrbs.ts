@@ -0,0 +1,29 @@
+// =============================================================================
+// PhasePinnedOrbs - Holds pinned orbs in place before movement
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+
+/**
+ * Cancels whatever velocity earlier phases gave pinned orbs (pointer, force
+ * fields, wander, layer attraction), so the movement in Wall Collision
+ * leaves them where they are. Collisions already treat them as immovable.
+ *
+ * Single Responsibility: Pinned orb velocity only.
+ */
+export class PhasePinnedOrbs {
+	/**
+	 * Zeroes the velocity of every pinned orb.
+	 *
+	 * @param orbs - Array of orbs to update.
+	 */
+	static execute(orbs: Orb[]): void {
+		for (const orb of orbs) {
+			if (!orb.pinned) continue;
+			orb.vx = 0;
+			orb.vy = 0;
+			orb.vz = 0;
+			orb.speed = 0;
+		}
+	}
+}
@@ -0,0 +1,44 @@
+// =============================================================================
+// PhasePointerInteraction - Phase 2: Apply mouse and touch interaction to orbs
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import {
+	type PointerInput,
+	type PointerInteraction,
+	type PointerInteractionConfig,
+	type PointerMode,
+} from '../pointer';
+
+/**
+ * Phase 2: Apply pointer interaction (repel, attract, swirl, grab or wake).
+ * 
+ * Single Responsibility: Pointer force application only.
+ */
+export class PhasePointerInteraction {
+	/**
+	 * Applies the active pointer mode to all orbs.
+	 * 
+	 * Pointer positions are in screen coordinates, but orbs are in physics space;
+	 * the interaction subtracts the parallax scroll offset to line them up.
+	 * 
+	 * @param orbs - Array of orbs to update.
+	 * @param interaction - Interaction state owned by the simulation (grab tracking).
+	 * @param pointers - Active pointers in screen coordinates.
+	 * @param mode - Active pointer mode.
+	 * @param config - Per-mode parameters.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param scrollOffset - Current parallax scroll offset for coordinate adjustment.
+	 */
+	static execute(
+		orbs: Orb[],
+		interaction: PointerInteraction,
+		pointers: readonly PointerInput[],
+		mode: PointerMode,
+		config: PointerInteractionConfig,
+		deltaTime: number,
+		scrollOffset: { x: number; y: number } = { x: 0, y: 0 }
+	): void {
+		interaction.apply(orbs, pointers, mode, config, deltaTime, scrollOffset);
+	}
+}
@@ -4,9 +4,11 @@
 
 import { type Orb } from '../orb/types';
 import { OrbGridMarking, OrbMovement } from '../orb/core';
-import { WallCollision } from '../collision';
+import { WallCollision, ContinuousCollision, type CollisionCounters } from '../collision';
+import { DEFAULT_CONTINUOUS_COLLISION_CONFIG } from '../orb/config';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
+import { DEFAULT_RANDOM, type RandomSource } from '../shared/random';
 
 /**
  * Phase 6-6.5: Wall collision detection and unsticking.
@@ -17,16 +19,25 @@ export class PhaseWallCollision {
 	/**
 	 * Checks for wall collisions, applies reflections, and unsticks orbs from walls.
 	 * 
+	 * Orbs moving further than their footprint radius in one step are moved in
+	 * sub-steps so they cannot skip over thin border cells.
+	 * 
 	 * @param orbs - Array of orbs to update.
 	 * @param grid - Spatial grid for collision detection.
 	 * @param vpc - Viewport cells for coordinate conversion.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param random - Random source for unsticking still orbs (defaults to Math.random).
+	 * @param counters - Optional counters for caught tunnelling and escaped orbs.
+	 * @param maxSubsteps - Upper bound on sub-steps per orb (1 disables sub-stepping).
 	 */
 	static execute(
 		orbs: Orb[],
 		grid: SpatialGrid,
 		vpc: ViewportCells,
-		deltaTime: number
+		deltaTime: number,
+		random: RandomSource = DEFAULT_RANDOM,
+		counters?: CollisionCounters,
+		maxSubsteps: number = DEFAULT_CONTINUOUS_COLLISION_CONFIG.maxSubsteps
 	): void {
 		// Phase 6: Check wall collisions and move
 		for (const orb of orbs) {
@@ -34,6 +45,12 @@ export class PhaseWallCollision {
 			const collision = WallCollision.checkMove(orb, deltaTime, grid, vpc);
 			OrbGridMarking.markOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
 
+			const substeps = ContinuousCollision.getSubstepCount(orb, deltaTime, vpc, maxSubsteps);
+			if (substeps > 1) {
+				this.moveInSubsteps(orb, grid, vpc, deltaTime, substeps, collision.blocked, counters);
+				continue;
+			}
+
 			if (collision.blocked) {
 				WallCollision.applyReflection(orb, collision.reflectX, collision.reflectY, collision.reflectZ);
 			}
@@ -41,10 +58,44 @@ export class PhaseWallCollision {
 		}
 
 		// Phase 6.5: Unstick orbs from walls
+		let escaped = 0;
 		for (const orb of orbs) {
 			OrbGridMarking.clearOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
-			WallCollision.unstickFromWall(orb, grid, vpc);
+			WallCollision.unstickFromWall(orb, grid, vpc, random);
 			OrbGridMarking.markOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+			if (counters && ContinuousCollision.isOutsideBorder(orb, grid, vpc)) escaped++;
+		}
+		if (counters) counters.escapedOrbs = escaped;
+	}
+
+	/**
+	 * Moves a fast orb in equal sub-steps, reflecting off walls along the way.
+	 * A hit the single end-of-step test did not see counts as a caught tunnel.
+	 */
+	private static moveInSubsteps(
+		orb: Orb,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		deltaTime: number,
+		substeps: number,
+		blockedAtEnd: boolean,
+		counters?: CollisionCounters
+	): void {
+		const subDeltaTime = deltaTime / substeps;
+		let hit = false;
+
+		for (let i = 0; i < substeps; i++) {
+			const collision = WallCollision.checkMove(orb, subDeltaTime, grid, vpc);
+			if (collision.blocked) {
+				WallCollision.applyReflection(orb, collision.reflectX, collision.reflectY, collision.reflectZ);
+				hit = true;
+			}
+			OrbMovement.updatePosition(orb, subDeltaTime);
+		}
+
+		if (counters) {
+			counters.substeps += substeps - 1;
+			if (hit && !blockedAtEnd) counters.wallTunnelsCaught++;
 		}
 	}
 }
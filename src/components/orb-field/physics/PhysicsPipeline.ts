@@ -0,0 +1,236 @@
+// =============================================================================
+// PhysicsPipeline - Ordered registry of physics phases
+// =============================================================================
+
+import { type OrbPairList } from '../collision';
+import { PhaseOrbInteraction } from './PhaseOrbInteraction';
+import { DEFAULT_PHYSICS_PHASES } from './DefaultPhases';
+import {
+	type PhysicsStepInput,
+	type PhysicsPhase,
+	type PhysicsPhaseContext,
+	type PhysicsPhasePlacement,
+	type PhysicsPhaseInfo,
+} from './types';
+
+/** Weight of the newest sample in the per-phase duration average. */
+const DURATION_SMOOTHING = 0.1;
+
+/**
+ * Registered phase plus its runtime flags and timings.
+ */
+interface PhaseEntry {
+	phase: PhysicsPhase;
+	enabled: boolean;
+	builtIn: boolean;
+	lastDurationMs: number;
+	averageDurationMs: number;
+}
+
+/**
+ * Holds named physics phases in an explicit order with enable flags and
+ * per-phase timing.
+ *
+ * Custom phases (a vortex, gravity well, wind field, ...) can be registered
+ * from outside orb-field relative to the built-in ones:
+ *
+ * ```ts
+ * simulation.pipeline.register(vortexPhase, { after: PHYSICS_PHASE_IDS.LAYER_ATTRACTION });
+ * ```
+ *
+ * Single Responsibility: Phase ordering, toggling and timing only.
+ */
+export class PhysicsPipeline {
+	private entries: PhaseEntry[] = [];
+	private listeners = new Set<() => void>();
+
+	/**
+	 * Creates a pipeline holding the built-in phases in their default order.
+	 *
+	 * @returns A new pipeline (each simulation owns its own).
+	 */
+	static createDefault(): PhysicsPipeline {
+		const pipeline = new PhysicsPipeline();
+		for (const phase of DEFAULT_PHYSICS_PHASES) {
+			pipeline.insert(phase, { enabled: phase.enabledByDefault }, true);
+		}
+		return pipeline;
+	}
+
+	/**
+	 * Registers a custom phase.
+	 *
+	 * @param phase - Phase to add (its ID must not be registered yet).
+	 * @param placement - Position relative to another phase and initial enabled flag.
+	 * @returns Function that unregisters the phase.
+	 */
+	register(phase: PhysicsPhase, placement: PhysicsPhasePlacement = {}): () => void {
+		this.insert(phase, placement, false);
+		this.notify();
+		return () => {
+			this.unregister(phase.id);
+		};
+	}
+
+	/**
+	 * Removes a phase.
+	 *
+	 * @param id - Phase ID.
+	 * @returns True if a phase was removed.
+	 */
+	unregister(id: string): boolean {
+		const index = this.indexOf(id);
+		if (index === -1) return false;
+		this.entries.splice(index, 1);
+		this.notify();
+		return true;
+	}
+
+	/** Whether a phase with this ID is registered. */
+	has(id: string): boolean {
+		return this.indexOf(id) !== -1;
+	}
+
+	/** Whether the phase runs (false for unknown IDs). */
+	isEnabled(id: string): boolean {
+		return this.entries[this.indexOf(id)]?.enabled ?? false;
+	}
+
+	/**
+	 * Enables or disables a phase. Unknown IDs are ignored.
+	 *
+	 * @param id - Phase ID.
+	 * @param enabled - Whether the phase should run.
+	 */
+	setEnabled(id: string, enabled: boolean): void {
+		const entry = this.entries[this.indexOf(id)];
+		if (!entry || entry.enabled === enabled) return;
+		entry.enabled = enabled;
+		this.notify();
+	}
+
+	/** IDs of disabled phases (posted to the physics worker each step). */
+	getDisabledIds(): string[] {
+		return this.entries.filter((entry) => !entry.enabled).map((entry) => entry.phase.id);
+	}
+
+	/**
+	 * Enables every phase except the given ones.
+	 *
+	 * @param ids - IDs of phases to disable.
+	 */
+	setDisabledIds(ids: readonly string[]): void {
+		let changed = false;
+		for (const entry of this.entries) {
+			const enabled = !ids.includes(entry.phase.id);
+			if (entry.enabled !== enabled) {
+				entry.enabled = enabled;
+				changed = true;
+			}
+		}
+		if (changed) this.notify();
+	}
+
+	/** Whether any enabled phase was registered from outside (and so cannot run in the worker). */
+	hasCustomPhases(): boolean {
+		return this.entries.some((entry) => entry.enabled && !entry.builtIn);
+	}
+
+	/**
+	 * Lists the registered phases in execution order.
+	 *
+	 * @returns Copies of the phase flags and timings.
+	 */
+	getPhases(): PhysicsPhaseInfo[] {
+		return this.entries.map((entry) => ({
+			id: entry.phase.id,
+			label: entry.phase.label,
+			description: entry.phase.description,
+			enabled: entry.enabled,
+			builtIn: entry.builtIn,
+			lastDurationMs: entry.lastDurationMs,
+			averageDurationMs: entry.averageDurationMs,
+		}));
+	}
+
+	/**
+	 * Subscribes to registration and enable flag changes (not to timings).
+	 *
+	 * @param listener - Called after every change.
+	 * @returns Unsubscribe function.
+	 */
+	subscribe(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Runs the enabled phases in order. While paused only phases marked
+	 * runWhenPaused execute.
+	 *
+	 * @param input - Orb state, grid, timing, input and toggles for this step.
+	 */
+	execute(input: PhysicsStepInput): void {
+		let pairList: OrbPairList | null = null;
+		const ctx: PhysicsPhaseContext = {
+			...input,
+			getPairList: () => {
+				pairList ??= PhaseOrbInteraction.buildPairList(input.orbsRef.current, input.vpc);
+				return pairList;
+			},
+		};
+
+		for (const entry of this.entries) {
+			if (!entry.enabled) continue;
+			if (input.pausePhysics && !entry.phase.runWhenPaused) continue;
+
+			const start = performance.now();
+			entry.phase.execute(ctx);
+			const duration = performance.now() - start;
+
+			entry.lastDurationMs = duration;
+			entry.averageDurationMs += (duration - entry.averageDurationMs) * DURATION_SMOOTHING;
+		}
+	}
+
+	/**
+	 * Inserts a phase at its requested position.
+	 */
+	private insert(phase: PhysicsPhase, placement: PhysicsPhasePlacement, builtIn: boolean): void {
+		if (this.has(phase.id)) {
+			throw new Error(`Physics phase "${phase.id}" is already registered`);
+		}
+
+		const entry: PhaseEntry = {
+			phase,
+			enabled: placement.enabled ?? true,
+			builtIn,
+			lastDurationMs: 0,
+			averageDurationMs: 0,
+		};
+
+		const anchorId = placement.before ?? placement.after;
+		if (anchorId === undefined) {
+			this.entries.push(entry);
+			return;
+		}
+
+		const anchor = this.indexOf(anchorId);
+		if (anchor === -1) {
+			throw new Error(`Cannot place physics phase "${phase.id}": no phase "${anchorId}"`);
+		}
+		this.entries.splice(placement.before !== undefined ? anchor : anchor + 1, 0, entry);
+	}
+
+	private indexOf(id: string): number {
+		return this.entries.findIndex((entry) => entry.phase.id === id);
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
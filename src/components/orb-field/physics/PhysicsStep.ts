@@ -0,0 +1,34 @@
+// =============================================================================
+// PhysicsStep - Runs all physics phases for one frame
+// =============================================================================
+
+import { PhysicsPipeline } from './PhysicsPipeline';
+import { type PhysicsStepInput } from './types';
+
+/**
+ * Runs a physics pipeline for one frame.
+ *
+ * Shared by the inline loop (usePhysicsLoop) and the physics worker
+ * so both execute exactly the same simulation.
+ *
+ * Single Responsibility: Physics step entry point only.
+ */
+export class PhysicsStep {
+	/** Built-in pipeline used when the caller does not own one. */
+	private static defaultPipeline: PhysicsPipeline | null = null;
+
+	/**
+	 * Advances the simulation by one frame.
+	 *
+	 * @param input - Orb state, grid, timing, input and toggles for this frame.
+	 * @param pipeline - Phases to run (defaults to a shared built-in pipeline).
+	 */
+	static execute(input: PhysicsStepInput, pipeline?: PhysicsPipeline): void {
+		(pipeline ?? this.getDefaultPipeline()).execute(input);
+	}
+
+	private static getDefaultPipeline(): PhysicsPipeline {
+		this.defaultPipeline ??= PhysicsPipeline.createDefault();
+		return this.defaultPipeline;
+	}
+}
@@ -2,12 +2,25 @@
 // Physics Phases - Exports for all physics phase modules
 // =============================================================================
 
-export { PhaseMouseRepulsion } from './PhaseMouseRepulsion';
+export { PhasePointerInteraction } from './PhasePointerInteraction';
 export { PhaseSpeedLimit } from './PhaseSpeedLimit';
 export { PhaseWander } from './PhaseWander';
 export { PhaseLayerAttraction } from './PhaseLayerAttraction';
 export { PhaseOrbInteraction } from './PhaseOrbInteraction';
+export { PhaseOrbLifecycle } from './PhaseOrbLifecycle';
+export { PhaseOrbColor } from './PhaseOrbColor';
+export { PhasePinnedOrbs } from './PhasePinnedOrbs';
 export { PhaseWallCollision } from './PhaseWallCollision';
 export { PhaseGridMarking } from './PhaseGridMarking';
 export { PhaseExpiration } from './PhaseExpiration';
 export { PhaseContinuousSpawn } from './PhaseContinuousSpawn';
+export { PhysicsStep } from './PhysicsStep';
+export { PhysicsPipeline } from './PhysicsPipeline';
+export { DEFAULT_PHYSICS_PHASES, PHYSICS_PHASE_IDS } from './DefaultPhases';
+export type {
+	PhysicsStepInput,
+	PhysicsPhase,
+	PhysicsPhaseContext,
+	PhysicsPhasePlacement,
+	PhysicsPhaseInfo,
+} from './types';
@@ -0,0 +1,133 @@
+// =============================================================================
+// Physics Types - Step input and pipeline phase definitions
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type ViewportCells } from '../grid/types';
+import { type OrbPairList, type CollisionCounters } from '../collision';
+import { type WindowSize } from '../shared/types';
+import { type RandomSource } from '../shared/random';
+import { type ForceField } from '../forces/types';
+import { type GridObstacle, type GridShapeMask } from '../obstacles/types';
+import { type PointerInput, type PointerInteraction, type PointerInteractionConfig, type PointerMode } from '../pointer';
+import { type OrbPalette } from '../palette';
+
+/**
+ * Plain-value inputs for a single physics step.
+ * Holds no React state; orbsRef is a plain { current } holder (a React ref
+ * fits it), so the input can be built on any thread.
+ */
+export interface PhysicsStepInput {
+	/** Holder of the orbs array (phases may replace the array on expiration). */
+	orbsRef: { current: Orb[] };
+	/** Spatial grid for collision detection. */
+	grid: SpatialGrid;
+	/** Viewport cells for coordinate conversion. */
+	vpc: ViewportCells;
+	/** Current window dimensions. */
+	windowSize: WindowSize;
+	/** Time elapsed since last frame in seconds. */
+	deltaTime: number;
+	/** Current effective time (pause-adjusted) in milliseconds. */
+	now: number;
+	/** Active mouse and touch pointers in screen pixels. */
+	pointers: readonly PointerInput[];
+	/** How pointers act on orbs. */
+	pointerMode: PointerMode;
+	/** Parameters for every pointer mode. */
+	pointerConfig: PointerInteractionConfig;
+	/** Pointer state that persists between steps (held orbs in grab mode). */
+	pointerInteraction: PointerInteraction;
+	/** Current scroll/parallax offset in pixels. */
+	scrollOffset: { x: number; y: number };
+	/** Attractors, repellers, emitters and wind regions acting this step. */
+	forceFields: readonly ForceField[];
+	/** Static obstacles in screen pixels (rasterised into the grid by OrbSimulation before the step). */
+	obstacles: readonly GridObstacle[];
+	/** Rasterised shapes in grid cells (marked alongside the obstacles). */
+	shapes: readonly GridShapeMask[];
+	/** Whether page is visible and focused. */
+	isPageVisible: boolean;
+	/** Time when burst occurred (or null). */
+	burstTime: number | null;
+	/** Whether physics is paused (only phases marked runWhenPaused execute). */
+	pausePhysics: boolean;
+	/** Whether continuous spawning is enabled. */
+	enableOrbSpawning: boolean;
+	/** Multiplier on the continuous spawn target (lowered by the quality governor). */
+	orbCountScale: number;
+	/** Whether expired orbs are removed. */
+	enableOrbDespawning: boolean;
+	/** Palette new orbs are coloured from and existing orbs ease toward. */
+	palette: OrbPalette;
+	/** Continuous collision diagnostics, updated in place by the collision phases. */
+	collisionCounters: CollisionCounters;
+	/** Random source for unsticking and spawn rolls (seeded for reproducible runs). */
+	random: RandomSource;
+	/** Spawns random orbs at random positions. */
+	spawnRandomOrbs: (count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells) => number;
+	/** Called after orbs were removed so UI state can follow. */
+	syncOrbsState: () => void;
+}
+
+/**
+ * Context handed to every pipeline phase.
+ */
+export interface PhysicsPhaseContext extends PhysicsStepInput {
+	/**
+	 * Candidate orb pairs from the broad phase.
+	 * Built on first call and reused by later phases of the same step.
+	 */
+	getPairList: () => OrbPairList;
+}
+
+/**
+ * A named step of the physics pipeline.
+ *
+ * Phases mutate orbs in place (or replace orbsRef.current) and must not keep
+ * references to the context between steps.
+ */
+export interface PhysicsPhase {
+	/** Unique identifier (used for ordering, toggling and worker sync). */
+	readonly id: string;
+	/** Human-readable name for the debug menu. */
+	readonly label: string;
+	/** Short description for the debug menu. */
+	readonly description?: string;
+	/** Whether the phase still runs while physics is paused (e.g. grid marking). */
+	readonly runWhenPaused?: boolean;
+	/** Whether the phase is enabled in a new default pipeline (default true, false for opt-in modes). */
+	readonly enabledByDefault?: boolean;
+	/** Runs the phase for one step. */
+	execute(ctx: PhysicsPhaseContext): void;
+}
+
+/**
+ * Where and how to register a phase. Without before/after the phase is appended.
+ */
+export interface PhysicsPhasePlacement {
+	/** Insert directly before the phase with this ID. */
+	before?: string;
+	/** Insert directly after the phase with this ID. */
+	after?: string;
+	/** Initial enabled flag (default true). */
+	enabled?: boolean;
+}
+
+/**
+ * Read-only view of a registered phase for UI and diagnostics.
+ */
+export interface PhysicsPhaseInfo {
+	id: string;
+	label: string;
+	description?: string;
+	/** Whether the phase runs. */
+	enabled: boolean;
+	/** Whether the phase ships with orb-field (custom phases cannot run in the worker). */
+	builtIn: boolean;
+	/** Duration of the most recent execution in milliseconds. */
+	lastDurationMs: number;
+	/** Exponential moving average of the duration in milliseconds. */
+	averageDurationMs: number;
+}
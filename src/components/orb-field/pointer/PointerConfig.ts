@@ -0,0 +1,100 @@
+// =============================================================================
+// Pointer Configuration - Per-mode parameters for pointer interaction
+// =============================================================================
+
+import { type PointerMode } from './types';
+
+/**
+ * Parameters for modes that push or pull within a radius (repel, attract).
+ */
+export interface PointerRadialConfig {
+	/** Radius in pixels within which orbs are affected. */
+	radius: number;
+	/** Acceleration at the pointer in pixels per second squared (quadratic falloff). */
+	strength: number;
+}
+
+/**
+ * Parameters for the swirl (vortex) mode.
+ */
+export interface PointerSwirlConfig extends PointerRadialConfig {
+	/** Fraction of the strength pulling orbs inward, keeping them in orbit (0-1). */
+	inwardPull: number;
+	/** Spin direction: 1 for clockwise on screen, -1 for counter-clockwise. */
+	direction: 1 | -1;
+}
+
+/**
+ * Parameters for the grab-and-fling mode.
+ */
+export interface PointerGrabConfig {
+	/** Maximum distance in pixels from the press to the orb that gets picked up. */
+	pickRadius: number;
+	/** How quickly a held orb closes the gap to the pointer (per second). */
+	followRate: number;
+	/** Multiplier applied to the pointer velocity on release. */
+	throwScale: number;
+	/** Cap on release speed in pixels per second. */
+	maxThrowSpeed: number;
+}
+
+/**
+ * Parameters for the wake mode.
+ */
+export interface PointerWakeConfig {
+	/** Radius in pixels within which orbs are affected. */
+	radius: number;
+	/** Share of the velocity difference transferred per second at the pointer. */
+	transfer: number;
+	/** Pointer speed in pixels per second below which no wake forms. */
+	minPointerSpeed: number;
+}
+
+/**
+ * Parameters for every pointer mode, so switching modes keeps tuned values.
+ */
+export interface PointerInteractionConfig {
+	repel: PointerRadialConfig;
+	attract: PointerRadialConfig;
+	swirl: PointerSwirlConfig;
+	grab: PointerGrabConfig;
+	wake: PointerWakeConfig;
+}
+
+/**
+ * Default pointer interaction parameters.
+ * Repel matches the previous fixed mouse repulsion.
+ */
+export const DEFAULT_POINTER_INTERACTION_CONFIG: PointerInteractionConfig = {
+	repel: {
+		radius: 150,
+		strength: 80,
+	},
+	attract: {
+		radius: 220,
+		strength: 60,
+	},
+	swirl: {
+		radius: 220,
+		strength: 90,
+		inwardPull: 0.25,
+		direction: 1,
+	},
+	grab: {
+		pickRadius: 80,
+		followRate: 12,
+		throwScale: 1,
+		maxThrowSpeed: 1500,
+	},
+	wake: {
+		radius: 160,
+		transfer: 4,
+		minPointerSpeed: 30,
+	},
+};
+
+/** Mode used when none is configured. */
+export const DEFAULT_POINTER_MODE: PointerMode = 'repel';
+
+/** Pointer ID used for the mouse (touch identifiers are non-negative). */
+export const MOUSE_POINTER_ID = -1;
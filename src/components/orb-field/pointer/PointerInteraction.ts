@@ -0,0 +1,306 @@
+// =============================================================================
+// PointerInteraction - Applies the active pointer mode to orbs
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { MouseRepulsion } from '../collision';
+import {
+	DEFAULT_POINTER_INTERACTION_CONFIG,
+	DEFAULT_POINTER_MODE,
+	type PointerGrabConfig,
+	type PointerInteractionConfig,
+	type PointerRadialConfig,
+	type PointerSwirlConfig,
+	type PointerWakeConfig,
+} from './PointerConfig';
+import { type PointerInput, type PointerMode } from './types';
+
+/**
+ * An orb held by a pressed pointer in grab mode.
+ */
+interface HeldOrb {
+	orbId: string;
+	/** Pointer velocity from the latest step, used as the release velocity. */
+	vx: number;
+	vy: number;
+}
+
+/**
+ * Applies mouse and touch interaction to orbs.
+ *
+ * Every pointer acts independently, so multi-touch works in all modes.
+ * Grab mode is the only stateful one: the orb picked up by each pointer is
+ * remembered between steps, which is why this is an instance per simulation.
+ * All forces act in the XY plane only.
+ *
+ * Single Responsibility: Pointer-to-orb forces only.
+ */
+export class PointerInteraction {
+	private currentMode: PointerMode = DEFAULT_POINTER_MODE;
+	private currentConfig: PointerInteractionConfig = DEFAULT_POINTER_INTERACTION_CONFIG;
+	/** Held orb per pressed pointer; null when the press found nothing to pick up. */
+	private held = new Map<number, HeldOrb | null>();
+
+	/** Active mode. */
+	get mode(): PointerMode {
+		return this.currentMode;
+	}
+
+	/** Parameters for every mode. */
+	get config(): PointerInteractionConfig {
+		return this.currentConfig;
+	}
+
+	/**
+	 * Switches mode. Held orbs are dropped without being flung.
+	 *
+	 * @param mode - New mode.
+	 */
+	setMode(mode: PointerMode): void {
+		this.currentMode = mode;
+		this.held.clear();
+	}
+
+	/**
+	 * Replaces the parameters (the object is treated as immutable).
+	 *
+	 * @param config - New parameters for every mode.
+	 */
+	setConfig(config: PointerInteractionConfig): void {
+		this.currentConfig = config;
+	}
+
+	/**
+	 * IDs of orbs currently held in grab mode.
+	 */
+	getHeldOrbIds(): string[] {
+		const ids: string[] = [];
+		for (const held of this.held.values()) {
+			if (held) ids.push(held.orbId);
+		}
+		return ids;
+	}
+
+	/**
+	 * Applies one step of pointer interaction.
+	 *
+	 * Pointer positions are in screen space; they are shifted into physics
+	 * space by subtracting the parallax offset that moves rendered orbs.
+	 *
+	 * @param orbs - Array of orbs to update.
+	 * @param pointers - Active pointers.
+	 * @param mode - Mode for this step.
+	 * @param config - Parameters for this step.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param scrollOffset - Current parallax scroll offset.
+	 */
+	apply(
+		orbs: Orb[],
+		pointers: readonly PointerInput[],
+		mode: PointerMode,
+		config: PointerInteractionConfig,
+		deltaTime: number,
+		scrollOffset: { x: number; y: number } = { x: 0, y: 0 }
+	): void {
+		if (mode === 'grab') {
+			this.applyGrab(orbs, pointers, config.grab, deltaTime, scrollOffset);
+			return;
+		}
+		if (this.held.size > 0) this.held.clear();
+
+		for (const pointer of pointers) {
+			const x = pointer.x - scrollOffset.x;
+			const y = pointer.y - scrollOffset.y;
+			if (!isFinite(x) || !isFinite(y)) continue;
+
+			switch (mode) {
+				case 'repel':
+					MouseRepulsion.applyRepulsion(orbs, x, y, deltaTime, config.repel.radius, config.repel.strength);
+					break;
+				case 'attract':
+					this.applyAttraction(orbs, x, y, config.attract, deltaTime);
+					break;
+				case 'swirl':
+					this.applySwirl(orbs, x, y, config.swirl, deltaTime);
+					break;
+				case 'wake':
+					this.applyWake(orbs, x, y, pointer, config.wake, deltaTime);
+					break;
+			}
+		}
+	}
+
+	/**
+	 * Pulls orbs toward the pointer. The pull fades out near the center so
+	 * orbs settle around the pointer instead of oscillating through it.
+	 */
+	private applyAttraction(orbs: Orb[], x: number, y: number, config: PointerRadialConfig, deltaTime: number): void {
+		const { radius, strength } = config;
+
+		for (const orb of orbs) {
+			const dx = x - orb.pxX;
+			const dy = y - orb.pxY;
+			const distSq = dx * dx + dy * dy;
+			if (distSq >= radius * radius || distSq < 1) continue;
+
+			const dist = Math.sqrt(distSq);
+			const t = dist / radius;
+			const acceleration = strength * (1 - t) * Math.min(1, t * 4);
+
+			orb.vx += acceleration * (dx / dist) * deltaTime;
+			orb.vy += acceleration * (dy / dist) * deltaTime;
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+
+	/**
+	 * Spins orbs around the pointer with a slight inward pull.
+	 */
+	private applySwirl(orbs: Orb[], x: number, y: number, config: PointerSwirlConfig, deltaTime: number): void {
+		const { radius, strength, inwardPull, direction } = config;
+
+		for (const orb of orbs) {
+			const dx = orb.pxX - x;
+			const dy = orb.pxY - y;
+			const distSq = dx * dx + dy * dy;
+			if (distSq >= radius * radius || distSq < 1) continue;
+
+			const dist = Math.sqrt(distSq);
+			const nx = dx / dist;
+			const ny = dy / dist;
+			const acceleration = strength * (1 - dist / radius);
+
+			// Tangent (-ny, nx) is clockwise in screen space (Y down)
+			const ax = (-ny * direction - nx * inwardPull) * acceleration;
+			const ay = (nx * direction - ny * inwardPull) * acceleration;
+
+			orb.vx += ax * deltaTime;
+			orb.vy += ay * deltaTime;
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+
+	/**
+	 * Blends nearby orb velocities toward the pointer's velocity.
+	 */
+	private applyWake(
+		orbs: Orb[],
+		x: number,
+		y: number,
+		pointer: PointerInput,
+		config: PointerWakeConfig,
+		deltaTime: number
+	): void {
+		const { radius, transfer, minPointerSpeed } = config;
+		const pointerSpeedSq = pointer.vx * pointer.vx + pointer.vy * pointer.vy;
+		if (pointerSpeedSq < minPointerSpeed * minPointerSpeed) return;
+
+		for (const orb of orbs) {
+			const dx = orb.pxX - x;
+			const dy = orb.pxY - y;
+			const distSq = dx * dx + dy * dy;
+			if (distSq >= radius * radius) continue;
+
+			const falloff = 1 - Math.sqrt(distSq) / radius;
+			const blend = Math.min(1, transfer * falloff * falloff * deltaTime);
+
+			orb.vx += (pointer.vx - orb.vx) * blend;
+			orb.vy += (pointer.vy - orb.vy) * blend;
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+
+	/**
+	 * Picks up the nearest orb on press, steers it to the pointer while held
+	 * and flings it with the pointer's velocity on release.
+	 */
+	private applyGrab(
+		orbs: Orb[],
+		pointers: readonly PointerInput[],
+		config: PointerGrabConfig,
+		deltaTime: number,
+		scrollOffset: { x: number; y: number }
+	): void {
+		// Release grabs whose pointer lifted or left
+		for (const [id, held] of this.held) {
+			const pointer = pointers.find((p) => p.id === id);
+			if (pointer?.pressed) continue;
+
+			this.held.delete(id);
+			if (!held) continue;
+			const orb = orbs.find((o) => o.id === held.orbId);
+			if (orb) this.fling(orb, held.vx, held.vy, config);
+		}
+
+		for (const pointer of pointers) {
+			if (!pointer.pressed) continue;
+
+			const x = pointer.x - scrollOffset.x;
+			const y = pointer.y - scrollOffset.y;
+
+			let held = this.held.get(pointer.id);
+			if (held === undefined) {
+				held = this.pick(orbs, x, y, config.pickRadius);
+				this.held.set(pointer.id, held);
+			}
+			if (!held) continue;
+
+			const orb = orbs.find((o) => o.id === held.orbId);
+			if (!orb) {
+				// Expired or deleted while held
+				this.held.set(pointer.id, null);
+				continue;
+			}
+
+			held.vx = pointer.vx;
+			held.vy = pointer.vy;
+
+			// Velocity that closes the gap at followRate, never overshooting in one step
+			const rate = Math.min(config.followRate, 1 / Math.max(deltaTime, 1e-3));
+			orb.vx = (x - orb.pxX) * rate;
+			orb.vy = (y - orb.pxY) * rate;
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+
+	/**
+	 * Finds the nearest orb within the pick radius that no other pointer holds.
+	 */
+	private pick(orbs: Orb[], x: number, y: number, pickRadius: number): HeldOrb | null {
+		const taken = new Set(this.getHeldOrbIds());
+		let nearest: Orb | null = null;
+		let nearestDistSq = pickRadius * pickRadius;
+
+		for (const orb of orbs) {
+			if (taken.has(orb.id)) continue;
+			const dx = orb.pxX - x;
+			const dy = orb.pxY - y;
+			const distSq = dx * dx + dy * dy;
+			if (distSq < nearestDistSq) {
+				nearest = orb;
+				nearestDistSq = distSq;
+			}
+		}
+
+		return nearest ? { orbId: nearest.id, vx: 0, vy: 0 } : null;
+	}
+
+	/**
+	 * Gives a released orb the pointer's velocity, capped to maxThrowSpeed.
+	 */
+	private fling(orb: Orb, vx: number, vy: number, config: PointerGrabConfig): void {
+		let throwX = vx * config.throwScale;
+		let throwY = vy * config.throwScale;
+		const speed = Math.sqrt(throwX * throwX + throwY * throwY);
+		if (speed > config.maxThrowSpeed) {
+			const scale = config.maxThrowSpeed / speed;
+			throwX *= scale;
+			throwY *= scale;
+		}
+		if (!isFinite(throwX) || !isFinite(throwY)) return;
+
+		orb.vx = throwX;
+		orb.vy = throwY;
+		orb.angle = Math.atan2(throwY, throwX);
+	}
+}
@@ -0,0 +1,138 @@
+// =============================================================================
+// PointerTracker - Positions and velocities of the mouse and touches
+// =============================================================================
+
+import { MOUSE_POINTER_ID } from './PointerConfig';
+import { type PointerInput } from './types';
+
+/** Pointers that have not moved for this long (ms) read as stationary. */
+const STALE_VELOCITY_MS = 80;
+
+/** Weight of the newest sample in the smoothed velocity (0-1). */
+const VELOCITY_SMOOTHING = 0.5;
+
+/**
+ * Receives every sample fed to a tracker (e.g. an input recorder).
+ */
+export interface PointerTrackerObserver {
+	/** A pointer moved or appeared. */
+	onPointerMove(id: number, x: number, y: number, pressed?: boolean): void;
+	/** A pointer's pressed state changed. */
+	onPointerPressed(id: number, pressed: boolean): void;
+	/** A pointer was forgotten. */
+	onPointerRemove(id: number): void;
+}
+
+/**
+ * A tracked pointer with the time of its last sample.
+ */
+interface TrackedPointer {
+	input: PointerInput;
+	time: number;
+}
+
+/**
+ * Collects pointer samples from DOM events and hands out per-step snapshots.
+ *
+ * Velocities are derived from consecutive samples and smoothed, since move
+ * events arrive at irregular intervals. Times are event timestamps, so they
+ * must share a clock with the `now` passed to read() (performance.now()).
+ *
+ * Single Responsibility: Pointer sampling only.
+ */
+export class PointerTracker {
+	private pointers = new Map<number, TrackedPointer>();
+	private observer: PointerTrackerObserver | null = null;
+
+	/**
+	 * Sets the observer notified of every sample (null to detach).
+	 *
+	 * @param observer - Observer to notify.
+	 */
+	setObserver(observer: PointerTrackerObserver | null): void {
+		this.observer = observer;
+	}
+
+	/**
+	 * Records a pointer position, creating the pointer if needed.
+	 *
+	 * @param id - Pointer ID (touch identifier or MOUSE_POINTER_ID).
+	 * @param x - Screen X in pixels.
+	 * @param y - Screen Y in pixels.
+	 * @param time - Sample time in milliseconds.
+	 * @param pressed - New pressed state (unchanged when omitted).
+	 */
+	move(id: number, x: number, y: number, time: number, pressed?: boolean): void {
+		this.observer?.onPointerMove(id, x, y, pressed);
+		const tracked = this.pointers.get(id);
+		if (!tracked) {
+			this.pointers.set(id, {
+				input: { id, x, y, vx: 0, vy: 0, pressed: pressed ?? id !== MOUSE_POINTER_ID },
+				time,
+			});
+			return;
+		}
+
+		const { input } = tracked;
+		const elapsed = time - tracked.time;
+		if (elapsed > STALE_VELOCITY_MS) {
+			input.vx = 0;
+			input.vy = 0;
+		} else if (elapsed > 0) {
+			const seconds = elapsed / 1000;
+			input.vx += ((x - input.x) / seconds - input.vx) * VELOCITY_SMOOTHING;
+			input.vy += ((y - input.y) / seconds - input.vy) * VELOCITY_SMOOTHING;
+		}
+
+		input.x = x;
+		input.y = y;
+		if (pressed !== undefined) input.pressed = pressed;
+		tracked.time = time;
+	}
+
+	/**
+	 * Updates the pressed state of an existing pointer.
+	 *
+	 * @param id - Pointer ID.
+	 * @param pressed - Whether the button is held.
+	 */
+	setPressed(id: number, pressed: boolean): void {
+		this.observer?.onPointerPressed(id, pressed);
+		const tracked = this.pointers.get(id);
+		if (tracked) tracked.input.pressed = pressed;
+	}
+
+	/**
+	 * Forgets a pointer (lifted touch or mouse leaving the page).
+	 *
+	 * @param id - Pointer ID.
+	 */
+	remove(id: number): void {
+		this.observer?.onPointerRemove(id);
+		this.pointers.delete(id);
+	}
+
+	/** Forgets every pointer. */
+	clear(): void {
+		this.pointers.clear();
+	}
+
+	/**
+	 * Returns copies of the active pointers for one physics step.
+	 *
+	 * @param now - Current time in milliseconds (same clock as the samples).
+	 * @returns Active pointers; stationary pointers report zero velocity.
+	 */
+	read(now: number): PointerInput[] {
+		const result: PointerInput[] = [];
+		for (const { input, time } of this.pointers.values()) {
+			const stale = now - time > STALE_VELOCITY_MS;
+			result.push({
+				...input,
+				vx: stale ? 0 : input.vx,
+				vy: stale ? 0 : input.vy,
+			});
+		}
+		return result;
+	}
+}
@@ -0,0 +1,17 @@
+// =============================================================================
+// Pointer Interaction - Exports for mouse and touch interaction modes
+// =============================================================================
+
+export { type PointerMode, type PointerInput } from './types';
+export {
+	DEFAULT_POINTER_INTERACTION_CONFIG,
+	DEFAULT_POINTER_MODE,
+	MOUSE_POINTER_ID,
+	type PointerInteractionConfig,
+	type PointerRadialConfig,
+	type PointerSwirlConfig,
+	type PointerGrabConfig,
+	type PointerWakeConfig,
+} from './PointerConfig';
+export { PointerTracker, type PointerTrackerObserver } from './PointerTracker';
+export { PointerInteraction } from './PointerInteraction';
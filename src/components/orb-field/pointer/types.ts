@@ -0,0 +1,29 @@
+// =============================================================================
+// Pointer Types - Interaction modes and per-pointer input
+// =============================================================================
+
+/**
+ * How the mouse and touches act on orbs.
+ * - repel: pushes orbs away (the original behaviour)
+ * - attract: pulls orbs in
+ * - swirl: spins orbs around the pointer like a vortex
+ * - grab: picks up the nearest orb while pressed and flings it on release
+ * - wake: drags orbs along with the pointer's own velocity
+ */
+export type PointerMode = 'repel' | 'attract' | 'swirl' | 'grab' | 'wake';
+
+/**
+ * One active pointer (the mouse or a single touch) for a physics step.
+ */
+export interface PointerInput {
+	/** Stable identifier (touch identifier, or MOUSE_POINTER_ID). */
+	id: number;
+	/** Position in screen pixels. */
+	x: number;
+	y: number;
+	/** Velocity in screen pixels per second. */
+	vx: number;
+	vy: number;
+	/** Whether the button is held (always true for touches). */
+	pressed: boolean;
+}
@@ -0,0 +1,100 @@
+// =============================================================================
+// Post-Processing Configuration - Per-effect settings
+// =============================================================================
+
+/**
+ * Bloom settings.
+ */
+export interface BloomConfig {
+	/** Whether the effect runs. */
+	enabled: boolean;
+	/** Opacity of the bloom layer (0-1). */
+	intensity: number;
+	/**
+	 * Soft threshold: the image is multiplied by itself this many times
+	 * before blurring, so dim glow contributes less than bright cores.
+	 */
+	thresholdPasses: number;
+	/** Resolution divisor of the bloom buffer (cheaper and blurrier when higher). */
+	downscale: number;
+	/** Blur radius in screen pixels (where the canvas filter is supported). */
+	blurRadiusPx: number;
+}
+
+/**
+ * Vignette settings.
+ */
+export interface VignetteConfig {
+	/** Whether the effect runs. */
+	enabled: boolean;
+	/** How much orbs fade at the corners (0-1). */
+	strength: number;
+	/** Radius where fading starts, as a fraction of the half-diagonal (0-1). */
+	innerRadius: number;
+}
+
+/**
+ * Chromatic aberration settings.
+ */
+export interface ChromaticAberrationConfig {
+	/** Whether the effect runs. */
+	enabled: boolean;
+	/** Fringe offset in screen pixels at the moment of the burst. */
+	maxOffsetPx: number;
+	/** Time for the fringes to fade out after the burst in milliseconds. */
+	durationMs: number;
+}
+
+/**
+ * Film grain settings.
+ */
+export interface FilmGrainConfig {
+	/** Whether the effect runs. */
+	enabled: boolean;
+	/** Opacity of the noise (0-1). */
+	intensity: number;
+	/** Side length of the repeating noise tile in pixels. */
+	tileSizePx: number;
+	/** How often the grain pattern moves per second. */
+	fps: number;
+}
+
+/**
+ * Configuration for the post-processing stage.
+ */
+export interface PostFxConfig {
+	bloom: BloomConfig;
+	vignette: VignetteConfig;
+	chromaticAberration: ChromaticAberrationConfig;
+	filmGrain: FilmGrainConfig;
+}
+
+/**
+ * Default post-processing configuration.
+ * Film grain is off; the other effects run whenever the stage is enabled.
+ */
+export const DEFAULT_POSTFX_CONFIG: PostFxConfig = {
+	bloom: {
+		enabled: true,
+		intensity: 0.6,
+		thresholdPasses: 1,
+		downscale: 4,
+		blurRadiusPx: 24,
+	},
+	vignette: {
+		enabled: true,
+		strength: 0.7,
+		innerRadius: 0.45,
+	},
+	chromaticAberration: {
+		enabled: true,
+		maxOffsetPx: 6,
+		durationMs: 1200,
+	},
+	filmGrain: {
+		enabled: false,
+		intensity: 0.06,
+		tileSizePx: 128,
+		fps: 24,
+	},
+};
@@ -0,0 +1,307 @@
+// =============================================================================
+// PostFxRenderer - Post-processing pass over the orb visual canvas
+// =============================================================================
+
+import { DEFAULT_POSTFX_CONFIG, type PostFxConfig } from './PostFxConfig';
+
+/** Scratch surface (OffscreenCanvas where supported). */
+type Surface = OffscreenCanvas | HTMLCanvasElement;
+type SurfaceContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/**
+ * Scratch canvas with its 2D context.
+ */
+interface ScratchBuffer {
+	canvas: Surface;
+	ctx: SurfaceContext;
+}
+
+/** Offsets below this many pixels are invisible, so the fringe pass is skipped. */
+const MIN_ABERRATION_OFFSET_PX = 0.5;
+
+/**
+ * Applies screen-space effects to the finished orb image.
+ *
+ * The orb renderer (Canvas 2D or WebGL) draws to the visual canvas as
+ * usual; this pass copies that image onto an overlay canvas with the
+ * enabled effects applied, so both renderers share one implementation.
+ * Order: chromatic aberration fringes, bloom, vignette, film grain.
+ *
+ * Single Responsibility: Post-processing composition only.
+ */
+export class PostFxRenderer {
+	private postFxConfig: PostFxConfig;
+	private active = true;
+	private redFringe: ScratchBuffer | null = null;
+	private blueFringe: ScratchBuffer | null = null;
+	private bloomSource: ScratchBuffer | null = null;
+	private bloomBlur: ScratchBuffer | null = null;
+	private grainTile: Surface | null = null;
+	private grainFrame = -1;
+	private grainOffsetX = 0;
+	private grainOffsetY = 0;
+
+	constructor(config: PostFxConfig = DEFAULT_POSTFX_CONFIG) {
+		this.postFxConfig = config;
+	}
+
+	/** Current configuration. */
+	get config(): PostFxConfig {
+		return this.postFxConfig;
+	}
+
+	/** Whether the stage is switched on (the render loop still checks the quality tier). */
+	get isEnabled(): boolean {
+		return this.active;
+	}
+
+	/**
+	 * Switches the whole stage on or off.
+	 *
+	 * @param enabled - Whether post-processing runs.
+	 */
+	setEnabled(enabled: boolean): void {
+		this.active = enabled;
+	}
+
+	/**
+	 * Replaces the configuration. A new grain tile size rebuilds the tile.
+	 *
+	 * @param config - New configuration.
+	 */
+	setConfig(config: PostFxConfig): void {
+		if (config.filmGrain.tileSizePx !== this.postFxConfig.filmGrain.tileSizePx) {
+			this.grainTile = null;
+		}
+		this.postFxConfig = config;
+	}
+
+	/**
+	 * Whether any effect is enabled in the configuration.
+	 */
+	hasActiveEffects(): boolean {
+		const { bloom, vignette, chromaticAberration, filmGrain } = this.postFxConfig;
+		return bloom.enabled || vignette.enabled || chromaticAberration.enabled || filmGrain.enabled;
+	}
+
+	/**
+	 * Draws the source image with effects onto the target canvas.
+	 *
+	 * @param target - Overlay canvas (resized to match the source).
+	 * @param source - Visual canvas the orb renderer drew this frame.
+	 * @param pixelScale - Backing-store pixels per CSS pixel of the source.
+	 * @param now - Current time in milliseconds (drives the grain).
+	 * @param burstAgeMs - Time since the burst, or null before it.
+	 */
+	render(
+		target: HTMLCanvasElement,
+		source: HTMLCanvasElement,
+		pixelScale: number,
+		now: number,
+		burstAgeMs: number | null
+	): void {
+		if (target.width !== source.width || target.height !== source.height) {
+			target.width = source.width;
+			target.height = source.height;
+		}
+		const ctx = target.getContext('2d');
+		if (!ctx) return;
+
+		const { width, height } = target;
+		const { bloom, vignette, chromaticAberration, filmGrain } = this.postFxConfig;
+
+		ctx.setTransform(1, 0, 0, 1, 0, 0);
+		ctx.globalCompositeOperation = 'source-over';
+		ctx.globalAlpha = 1;
+		ctx.clearRect(0, 0, width, height);
+		if (width === 0 || height === 0) return;
+		ctx.drawImage(source, 0, 0);
+
+		if (chromaticAberration.enabled && burstAgeMs !== null) {
+			const fade = 1 - burstAgeMs / chromaticAberration.durationMs;
+			const offset = chromaticAberration.maxOffsetPx * pixelScale * fade * fade;
+			if (fade > 0 && offset >= MIN_ABERRATION_OFFSET_PX) {
+				this.drawAberration(ctx, source, offset);
+			}
+		}
+		if (bloom.enabled) this.drawBloom(ctx, source, pixelScale);
+		if (vignette.enabled) this.drawVignette(ctx, width, height);
+		if (filmGrain.enabled) this.drawGrain(ctx, width, height, now);
+
+		ctx.globalCompositeOperation = 'source-over';
+		ctx.globalAlpha = 1;
+	}
+
+	/**
+	 * Clears the overlay canvas (when the stage is skipped for a frame).
+	 *
+	 * @param target - Overlay canvas.
+	 */
+	clear(target: HTMLCanvasElement): void {
+		target.getContext('2d')?.clearRect(0, 0, target.width, target.height);
+	}
+
+	/**
+	 * Screens red and blue copies of the image either side of it.
+	 */
+	private drawAberration(ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, offset: number): void {
+		const { width, height } = source;
+		this.redFringe = this.tint(this.redFringe, source, '#ff0000');
+		this.blueFringe = this.tint(this.blueFringe, source, '#0000ff');
+		if (!this.redFringe || !this.blueFringe) return;
+
+		ctx.globalCompositeOperation = 'screen';
+		ctx.drawImage(this.redFringe.canvas, 0, 0, width, height, -offset, 0, width, height);
+		ctx.drawImage(this.blueFringe.canvas, 0, 0, width, height, offset, 0, width, height);
+	}
+
+	/**
+	 * Copies the source into a buffer, keeping only the channels of a colour.
+	 */
+	private tint(buffer: ScratchBuffer | null, source: HTMLCanvasElement, color: string): ScratchBuffer | null {
+		const scratch = this.ensureBuffer(buffer, source.width, source.height);
+		if (!scratch) return null;
+		const { ctx } = scratch;
+
+		ctx.globalCompositeOperation = 'copy';
+		ctx.drawImage(source, 0, 0);
+		ctx.globalCompositeOperation = 'multiply';
+		ctx.fillStyle = color;
+		ctx.fillRect(0, 0, source.width, source.height);
+		// Multiply fills transparent pixels too; restore the source alpha
+		ctx.globalCompositeOperation = 'destination-in';
+		ctx.drawImage(source, 0, 0);
+		return scratch;
+	}
+
+	/**
+	 * Screens a thresholded, blurred, downscaled copy over the image.
+	 */
+	private drawBloom(ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, pixelScale: number): void {
+		const { intensity, thresholdPasses, downscale, blurRadiusPx } = this.postFxConfig.bloom;
+		const bloomWidth = Math.max(1, Math.ceil(source.width / downscale));
+		const bloomHeight = Math.max(1, Math.ceil(source.height / downscale));
+
+		this.bloomSource = this.ensureBuffer(this.bloomSource, bloomWidth, bloomHeight);
+		if (!this.bloomSource) return;
+		const bright = this.bloomSource;
+
+		bright.ctx.globalCompositeOperation = 'copy';
+		bright.ctx.imageSmoothingEnabled = true;
+		bright.ctx.drawImage(source, 0, 0, bloomWidth, bloomHeight);
+		// Multiplying the image by itself darkens dim glow far more than bright cores
+		bright.ctx.globalCompositeOperation = 'multiply';
+		for (let pass = 0; pass < thresholdPasses; pass++) {
+			bright.ctx.drawImage(bright.canvas, 0, 0);
+		}
+
+		let glow: Surface = bright.canvas;
+		if (typeof bright.ctx.filter === 'string') {
+			this.bloomBlur = this.ensureBuffer(this.bloomBlur, bloomWidth, bloomHeight);
+			if (this.bloomBlur) {
+				const blurPx = (blurRadiusPx * pixelScale) / downscale;
+				this.bloomBlur.ctx.globalCompositeOperation = 'copy';
+				this.bloomBlur.ctx.filter = `blur(${blurPx}px)`;
+				this.bloomBlur.ctx.drawImage(bright.canvas, 0, 0);
+				this.bloomBlur.ctx.filter = 'none';
+				glow = this.bloomBlur.canvas;
+			}
+		}
+
+		// Without canvas filters the bilinear upscale alone softens the glow
+		ctx.globalCompositeOperation = 'screen';
+		ctx.globalAlpha = intensity;
+		ctx.imageSmoothingEnabled = true;
+		ctx.drawImage(glow, 0, 0, source.width, source.height);
+		ctx.globalAlpha = 1;
+	}
+
+	/**
+	 * Fades the image toward the corners.
+	 */
+	private drawVignette(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+		const { strength, innerRadius } = this.postFxConfig.vignette;
+		const centerX = width / 2;
+		const centerY = height / 2;
+		const outerRadius = Math.hypot(centerX, centerY);
+
+		const gradient = ctx.createRadialGradient(centerX, centerY, outerRadius * innerRadius, centerX, centerY, outerRadius);
+		gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+		gradient.addColorStop(1, `rgba(0, 0, 0, ${strength})`);
+
+		ctx.globalCompositeOperation = 'destination-out';
+		ctx.fillStyle = gradient;
+		ctx.fillRect(0, 0, width, height);
+	}
+
+	/**
+	 * Mixes a shifting noise tile into the orbs (never into empty space).
+	 */
+	private drawGrain(ctx: CanvasRenderingContext2D, width: number, height: number, now: number): void {
+		const { intensity, tileSizePx, fps } = this.postFxConfig.filmGrain;
+		this.grainTile ??= this.createGrainTile(tileSizePx);
+		if (!this.grainTile) return;
+		const pattern = ctx.createPattern(this.grainTile, 'repeat');
+		if (!pattern) return;
+
+		// Jump the tile to a new random offset a few times per second
+		const frame = Math.floor((now / 1000) * fps);
+		if (frame !== this.grainFrame) {
+			this.grainFrame = frame;
+			this.grainOffsetX = Math.floor(Math.random() * tileSizePx);
+			this.grainOffsetY = Math.floor(Math.random() * tileSizePx);
+		}
+
+		ctx.globalCompositeOperation = 'source-atop';
+		ctx.globalAlpha = intensity;
+		ctx.fillStyle = pattern;
+		ctx.translate(-this.grainOffsetX, -this.grainOffsetY);
+		ctx.fillRect(this.grainOffsetX, this.grainOffsetY, width, height);
+		ctx.setTransform(1, 0, 0, 1, 0, 0);
+		ctx.globalAlpha = 1;
+	}
+
+	/**
+	 * Builds a tile of random black and white pixels.
+	 */
+	private createGrainTile(size: number): Surface | null {
+		const buffer = this.ensureBuffer(null, size, size);
+		if (!buffer) return null;
+
+		const image = buffer.ctx.createImageData(size, size);
+		const { data } = image;
+		for (let i = 0; i < data.length; i += 4) {
+			const value = Math.random() < 0.5 ? 0 : 255;
+			data[i] = value;
+			data[i + 1] = value;
+			data[i + 2] = value;
+			data[i + 3] = 255;
+		}
+		buffer.ctx.putImageData(image, 0, 0);
+		return buffer.canvas;
+	}
+
+	/**
+	 * Returns the buffer resized to the given size, creating it when missing.
+	 */
+	private ensureBuffer(buffer: ScratchBuffer | null, width: number, height: number): ScratchBuffer | null {
+		if (buffer) {
+			if (buffer.canvas.width !== width || buffer.canvas.height !== height) {
+				buffer.canvas.width = width;
+				buffer.canvas.height = height;
+			}
+			return buffer;
+		}
+
+		let canvas: Surface;
+		if (typeof OffscreenCanvas !== 'undefined') {
+			canvas = new OffscreenCanvas(width, height);
+		} else {
+			canvas = document.createElement('canvas');
+			canvas.width = width;
+			canvas.height = height;
+		}
+		const ctx = canvas.getContext('2d') as SurfaceContext | null;
+		return ctx ? { canvas, ctx } : null;
+	}
+}
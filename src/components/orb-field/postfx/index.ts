@@ -0,0 +1,14 @@
+// =============================================================================
+// Post-Processing - Exports for the visual canvas post-processing stage
+// =============================================================================
+
+export { type PostFxEffect } from './types';
+export {
+	DEFAULT_POSTFX_CONFIG,
+	type PostFxConfig,
+	type BloomConfig,
+	type VignetteConfig,
+	type ChromaticAberrationConfig,
+	type FilmGrainConfig,
+} from './PostFxConfig';
+export { PostFxRenderer } from './PostFxRenderer';
@@ -0,0 +1,13 @@
+// =============================================================================
+// Post-Processing Types - Effect identifiers
+// =============================================================================
+
+/**
+ * Post-processing effects applied to the visual canvas, in draw order.
+ *
+ * - chromaticAberration: Red/blue fringes that fade out after the burst
+ * - bloom: Blurred copy of the bright areas screened over the image
+ * - vignette: Orbs fade toward the screen edges
+ * - filmGrain: Animated noise on the orbs
+ */
+export type PostFxEffect = 'chromaticAberration' | 'bloom' | 'vignette' | 'filmGrain';
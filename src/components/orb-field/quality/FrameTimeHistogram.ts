@@ -0,0 +1,56 @@
+// =============================================================================
+// FrameTimeHistogram - Bucketed frame time counts
+// =============================================================================
+
+import { type FrameTimeStats } from './types';
+
+/**
+ * Counts frame times into fixed buckets for the debug menu.
+ *
+ * Single Responsibility: Frame time bookkeeping only.
+ */
+export class FrameTimeHistogram {
+	private readonly counts: number[];
+	private total = 0;
+
+	/**
+	 * @param bucketLimitsMs - Ascending upper bound of each bucket (end with Infinity).
+	 */
+	constructor(private readonly bucketLimitsMs: readonly number[]) {
+		this.counts = new Array<number>(bucketLimitsMs.length).fill(0);
+	}
+
+	/**
+	 * Counts one frame.
+	 *
+	 * @param frameMs - Frame time in milliseconds.
+	 */
+	record(frameMs: number): void {
+		let bucket = 0;
+		while (bucket < this.bucketLimitsMs.length - 1 && frameMs > this.bucketLimitsMs[bucket]) {
+			bucket++;
+		}
+		this.counts[bucket]++;
+		this.total++;
+	}
+
+	/** Clears all counts. */
+	reset(): void {
+		this.counts.fill(0);
+		this.total = 0;
+	}
+
+	/**
+	 * Copies the counts.
+	 *
+	 * @param recentMeanMs - Mean of the latest samples, reported alongside the buckets.
+	 */
+	toStats(recentMeanMs: number): FrameTimeStats {
+		return {
+			bucketLimitsMs: this.bucketLimitsMs,
+			counts: [...this.counts],
+			total: this.total,
+			recentMeanMs,
+		};
+	}
+}
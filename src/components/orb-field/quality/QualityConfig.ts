@@ -0,0 +1,87 @@
+// =============================================================================
+// Quality Configuration - Tiers and governor thresholds
+// =============================================================================
+
+import { DEFAULT_ORB_VISUAL_CONFIG } from '../orb/visuals/OrbVisualConfig';
+import { type QualityTier } from './types';
+
+/**
+ * Quality tiers from full quality to cheapest. Each tier keeps the savings
+ * of the tiers above it and adds one more.
+ */
+export const QUALITY_TIERS: readonly QualityTier[] = [
+	{
+		label: 'High',
+		orbCountScale: 1,
+		gradientStopCount: DEFAULT_ORB_VISUAL_CONFIG.gradientStopCount,
+		enableAvoidance: true,
+		visualResolutionScale: 1,
+		enablePostFx: true,
+	},
+	{
+		label: 'Medium',
+		orbCountScale: 0.7,
+		gradientStopCount: DEFAULT_ORB_VISUAL_CONFIG.gradientStopCount,
+		enableAvoidance: true,
+		visualResolutionScale: 1,
+		enablePostFx: true,
+	},
+	{
+		label: 'Low',
+		orbCountScale: 0.5,
+		gradientStopCount: 5,
+		enableAvoidance: true,
+		visualResolutionScale: 1,
+		enablePostFx: false,
+	},
+	{
+		label: 'Lower',
+		orbCountScale: 0.4,
+		gradientStopCount: 5,
+		enableAvoidance: false,
+		visualResolutionScale: 1,
+		enablePostFx: false,
+	},
+	{
+		label: 'Minimal',
+		orbCountScale: 0.3,
+		gradientStopCount: 4,
+		enableAvoidance: false,
+		visualResolutionScale: 0.5,
+		enablePostFx: false,
+	},
+];
+
+/**
+ * Thresholds for the adaptive quality governor.
+ */
+export interface QualityGovernorConfig {
+	/** Target frame time in milliseconds. */
+	frameBudgetMs: number;
+	/** Frames per evaluation window. */
+	windowFrames: number;
+	/** A window misses the budget when its mean frame time exceeds budget × this. */
+	missTolerance: number;
+	/** A window has headroom when its mean work time (inside the loop) is below budget × this. */
+	headroomRatio: number;
+	/** Consecutive windows with headroom before stepping back up. */
+	upgradeWindows: number;
+	/** Frames longer than this are ignored (tab switches, debugger pauses). */
+	maxSampleMs: number;
+	/** Upper bound of each histogram bucket in milliseconds. */
+	histogramBucketsMs: readonly number[];
+}
+
+/**
+ * Default governor configuration.
+ * Steps down below ~48 fps and back up once the loop uses under half the budget.
+ */
+export const DEFAULT_QUALITY_GOVERNOR_CONFIG: QualityGovernorConfig = {
+	frameBudgetMs: 1000 / 60,
+	windowFrames: 60,          // About one second at 60 fps
+	missTolerance: 1.25,
+	headroomRatio: 0.5,
+	upgradeWindows: 5,         // Slow to recover so tiers do not flap
+	maxSampleMs: 250,
+	histogramBucketsMs: [8, 12, 17, 20, 25, 33, 50, Infinity],
+};
@@ -0,0 +1,120 @@
+// =============================================================================
+// QualityGovernor - Adaptive quality tiers driven by frame time
+// =============================================================================
+
+import { FrameTimeHistogram } from './FrameTimeHistogram';
+import { DEFAULT_QUALITY_GOVERNOR_CONFIG, QUALITY_TIERS, type QualityGovernorConfig } from './QualityConfig';
+import { type FrameTimeStats, type QualityTier } from './types';
+
+/**
+ * Steps through quality tiers based on measured frame times.
+ *
+ * Frames are evaluated in windows. A window whose mean frame interval misses
+ * the budget steps one tier down. Stepping back up needs several windows in
+ * a row that hit the budget while the loop itself used only a fraction of
+ * it, since the frame interval alone cannot show headroom on a vsync-bound
+ * display.
+ *
+ * Single Responsibility: Tier selection from frame timing only.
+ */
+export class QualityGovernor {
+	private readonly histogram: FrameTimeHistogram;
+	private tierIndex = 0;
+
+	private windowCount = 0;
+	private windowFrameMs = 0;
+	private windowWorkMs = 0;
+	private headroomStreak = 0;
+	private recentMeanMs = 0;
+
+	/**
+	 * @param tiers - Tiers from best to cheapest.
+	 * @param config - Budget and hysteresis thresholds.
+	 */
+	constructor(
+		readonly tiers: readonly QualityTier[] = QUALITY_TIERS,
+		private readonly config: QualityGovernorConfig = DEFAULT_QUALITY_GOVERNOR_CONFIG
+	) {
+		this.histogram = new FrameTimeHistogram(config.histogramBucketsMs);
+	}
+
+	/** Index of the active tier (0 is full quality). */
+	get index(): number {
+		return this.tierIndex;
+	}
+
+	/** The active tier. */
+	get tier(): QualityTier {
+		return this.tiers[this.tierIndex];
+	}
+
+	/**
+	 * Records one frame and re-evaluates the tier at the end of each window.
+	 *
+	 * @param frameMs - Time since the previous frame in milliseconds.
+	 * @param workMs - Time spent in the loop callback this frame in milliseconds.
+	 * @returns True if the tier changed.
+	 */
+	recordFrame(frameMs: number, workMs: number): boolean {
+		if (!(frameMs > 0) || frameMs > this.config.maxSampleMs) return false;
+
+		this.histogram.record(frameMs);
+		this.windowCount++;
+		this.windowFrameMs += frameMs;
+		this.windowWorkMs += workMs;
+
+		if (this.windowCount < this.config.windowFrames) return false;
+
+		const meanFrameMs = this.windowFrameMs / this.windowCount;
+		const meanWorkMs = this.windowWorkMs / this.windowCount;
+		this.recentMeanMs = meanFrameMs;
+		this.windowCount = 0;
+		this.windowFrameMs = 0;
+		this.windowWorkMs = 0;
+
+		const { frameBudgetMs, missTolerance, headroomRatio, upgradeWindows } = this.config;
+
+		if (meanFrameMs > frameBudgetMs * missTolerance) {
+			this.headroomStreak = 0;
+			return this.setTier(this.tierIndex + 1);
+		}
+
+		if (meanWorkMs < frameBudgetMs * headroomRatio) {
+			this.headroomStreak++;
+			if (this.headroomStreak >= upgradeWindows) {
+				this.headroomStreak = 0;
+				return this.setTier(this.tierIndex - 1);
+			}
+		} else {
+			this.headroomStreak = 0;
+		}
+		return false;
+	}
+
+	/**
+	 * Switches to a tier directly (clamped to the ladder) and restarts evaluation.
+	 *
+	 * @param index - Tier index.
+	 * @returns True if the tier changed.
+	 */
+	setTier(index: number): boolean {
+		const clamped = Math.max(0, Math.min(this.tiers.length - 1, index));
+		this.windowCount = 0;
+		this.windowFrameMs = 0;
+		this.windowWorkMs = 0;
+		if (clamped === this.tierIndex) return false;
+		this.tierIndex = clamped;
+		this.headroomStreak = 0;
+		return true;
+	}
+
+	/** Frame time distribution since the last reset. */
+	getStats(): FrameTimeStats {
+		return this.histogram.toStats(this.recentMeanMs);
+	}
+
+	/** Clears the histogram (the tier is kept). */
+	resetStats(): void {
+		this.histogram.reset();
+	}
+}
@@ -0,0 +1,12 @@
+// =============================================================================
+// Quality - Exports for the adaptive quality governor
+// =============================================================================
+
+export { type QualityTier, type FrameTimeStats } from './types';
+export {
+	QUALITY_TIERS,
+	DEFAULT_QUALITY_GOVERNOR_CONFIG,
+	type QualityGovernorConfig,
+} from './QualityConfig';
+export { FrameTimeHistogram } from './FrameTimeHistogram';
+export { QualityGovernor } from './QualityGovernor';
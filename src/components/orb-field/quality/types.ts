@@ -0,0 +1,36 @@
+// =============================================================================
+// Quality Types - Quality tiers and frame time statistics
+// =============================================================================
+
+/**
+ * One step of the adaptive quality ladder. Tiers are ordered from best
+ * looking (index 0) to cheapest.
+ */
+export interface QualityTier {
+	/** Name shown in the debug menu. */
+	label: string;
+	/** Multiplier on the continuous spawn target (targetOrbCountAt4K, minOrbCount). */
+	orbCountScale: number;
+	/** Gradient stops per orb in OrbGradientFactory. */
+	gradientStopCount: number;
+	/** Whether the Orb Avoidance phase runs. */
+	enableAvoidance: boolean;
+	/** Backing-store scale of the visual canvas (0.5 renders at half resolution). */
+	visualResolutionScale: number;
+	/** Whether the post-processing stage (bloom, vignette, ...) may run. */
+	enablePostFx: boolean;
+}
+
+/**
+ * Frame time distribution for the debug menu.
+ */
+export interface FrameTimeStats {
+	/** Upper bound of each bucket in milliseconds (the last is Infinity). */
+	bucketLimitsMs: readonly number[];
+	/** Frames counted per bucket. */
+	counts: number[];
+	/** Frames counted in total. */
+	total: number;
+	/** Mean frame time over the recent sample window in milliseconds. */
+	recentMeanMs: number;
+}
@@ -0,0 +1,173 @@
+// =============================================================================
+// InputPlayer - Plays a recorded input stream back in fixed steps
+// =============================================================================
+
+import { DEFAULT_INPUT_REPLAY_CONFIG, type InputReplayConfig } from './ReplayConfig';
+import { type InputEvent, type InputRecording } from './ReplaySchema';
+
+/**
+ * Playback position and controls for one recording.
+ *
+ * The player never touches the field itself. Each frame the caller asks how
+ * many steps to run (planSteps), and before each step hands over a callback
+ * that receives the inputs due by then (beforeStep). Every step advances the
+ * replay clock by exactly the recording's step length, so playback speed and
+ * frame rate change how many steps run per frame, never what a step does.
+ *
+ * Seeking forward fast-forwards in steps; seeking backward restarts from the
+ * start scene (takeRestart) and fast-forwards from there. A step that applies
+ * a resize is the last one planned for its frame, since the grid it rebuilds
+ * only exists after the next render.
+ */
+export class InputPlayer {
+	private clockMs = 0;
+	private cursor = 0;
+	private accumulatorMs = 0;
+	private pendingSteps = 0;
+	private seekTargetMs: number | null = null;
+	private restartPending = true;
+	private playing = false;
+	private playbackSpeed = 1;
+
+	constructor(
+		readonly recording: InputRecording,
+		private readonly config: InputReplayConfig = DEFAULT_INPUT_REPLAY_CONFIG
+	) {}
+
+	/** Replay position in milliseconds. */
+	get positionMs(): number {
+		return Math.min(this.clockMs, this.recording.durationMs);
+	}
+
+	/** Whether playback is running. */
+	get isPlaying(): boolean {
+		return this.playing;
+	}
+
+	/** Playback speed multiplier. */
+	get speed(): number {
+		return this.playbackSpeed;
+	}
+
+	/** Whether every step of the recording has run. */
+	get isAtEnd(): boolean {
+		return this.remainingSteps() === 0;
+	}
+
+	/** Starts playback, rewinding first when at the end. */
+	play(): void {
+		if (this.isAtEnd) this.seek(0);
+		this.playing = true;
+		this.accumulatorMs = 0;
+	}
+
+	/** Stops playback at the current step. */
+	pause(): void {
+		this.playing = false;
+	}
+
+	/** Pauses and queues exactly one step. */
+	stepFrame(): void {
+		this.playing = false;
+		this.pendingSteps += 1;
+	}
+
+	/**
+	 * Sets the playback speed.
+	 *
+	 * @param speed - Multiplier of real time (positive).
+	 */
+	setSpeed(speed: number): void {
+		if (speed > 0) this.playbackSpeed = speed;
+	}
+
+	/**
+	 * Moves playback to a position, keeping the play/pause state.
+	 *
+	 * @param ms - Target position in milliseconds (clamped to the recording).
+	 */
+	seek(ms: number): void {
+		const target = Math.min(Math.max(0, ms), this.recording.durationMs);
+		if (target < this.clockMs) this.restartPending = true;
+		this.seekTargetMs = target;
+		this.pendingSteps = 0;
+	}
+
+	/**
+	 * Consumes a pending restart. When true the caller must restore the
+	 * start scene and inputs before running any step.
+	 */
+	takeRestart(): boolean {
+		if (!this.restartPending) return false;
+		this.restartPending = false;
+		this.clockMs = 0;
+		this.cursor = 0;
+		this.accumulatorMs = 0;
+		return true;
+	}
+
+	/**
+	 * Decides how many steps to run this frame.
+	 *
+	 * @param frameMs - Real time since the previous frame in milliseconds.
+	 * @returns Number of steps (0 when paused or finished).
+	 */
+	planSteps(frameMs: number): number {
+		const { stepMs } = this.recording;
+		let steps: number;
+
+		if (this.seekTargetMs !== null) {
+			const needed = Math.max(0, Math.ceil((this.seekTargetMs - this.clockMs) / stepMs - 1e-6));
+			steps = Math.min(needed, this.config.maxSeekStepsPerFrame);
+			if (steps === needed) this.seekTargetMs = null;
+		} else {
+			steps = this.pendingSteps;
+			this.pendingSteps = 0;
+			if (this.playing) {
+				this.accumulatorMs += frameMs * this.playbackSpeed;
+				const due = Math.floor(this.accumulatorMs / stepMs);
+				this.accumulatorMs -= due * stepMs;
+				// Drop time beyond the step cap instead of falling further behind
+				if (due > this.config.maxStepsPerFrame) this.accumulatorMs = 0;
+				steps += Math.min(due, this.config.maxStepsPerFrame);
+			}
+		}
+
+		steps = Math.min(steps, this.remainingSteps(), this.stepsThroughNextResize());
+		if (this.clockMs + steps * stepMs >= this.recording.durationMs) this.playing = false;
+		return steps;
+	}
+
+	/**
+	 * Hands the inputs due by the current step to the caller, then advances
+	 * the clock by one step.
+	 *
+	 * @param apply - Receives each due input in time order.
+	 * @returns Replay time of the step in milliseconds.
+	 */
+	beforeStep(apply: (event: InputEvent) => void): number {
+		const { events, stepMs } = this.recording;
+		const time = this.clockMs;
+		while (this.cursor < events.length && events[this.cursor].t <= time) {
+			apply(events[this.cursor]);
+			this.cursor += 1;
+		}
+		this.clockMs += stepMs;
+		return time;
+	}
+
+	private stepsThroughNextResize(): number {
+		const { events, stepMs } = this.recording;
+		for (let i = this.cursor; i < events.length; i++) {
+			if (events[i].type === 'resize') {
+				return Math.max(0, Math.ceil((events[i].t - this.clockMs) / stepMs - 1e-6)) + 1;
+			}
+		}
+		return Infinity;
+	}
+
+	private remainingSteps(): number {
+		const { durationMs, stepMs } = this.recording;
+		return Math.max(0, Math.ceil((durationMs - this.clockMs) / stepMs - 1e-6));
+	}
+}
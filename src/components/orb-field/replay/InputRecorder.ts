@@ -0,0 +1,133 @@
+// =============================================================================
+// InputRecorder - Captures a time-stamped stream of orb field inputs
+// =============================================================================
+
+import { type PointerTrackerObserver } from '../pointer/PointerTracker';
+import { INPUT_RECORDING_VERSION, type InputEvent, type InputRecording } from './ReplaySchema';
+import { type InputRecordingHeader } from './types';
+
+/**
+ * Records pointer samples, scroll, tilt, resize and debug toggle changes.
+ *
+ * Attach it to the live PointerTracker as an observer; everything else is
+ * reported by the caller. Times are measured from begin() on the given clock.
+ */
+export class InputRecorder implements PointerTrackerObserver {
+	private header: InputRecordingHeader | null = null;
+	private events: InputEvent[] = [];
+	private startTime = 0;
+	private toggles: Record<string, boolean> = {};
+
+	constructor(private readonly clock: () => number = () => performance.now()) {}
+
+	/** Whether a recording is in progress. */
+	get isRecording(): boolean {
+		return this.header !== null;
+	}
+
+	/** Number of inputs recorded so far. */
+	get eventCount(): number {
+		return this.events.length;
+	}
+
+	/** Milliseconds since begin(), or 0 when idle. */
+	get elapsedMs(): number {
+		return this.header ? this.clock() - this.startTime : 0;
+	}
+
+	/**
+	 * Starts a new recording, discarding any unfinished one.
+	 *
+	 * @param header - Start scene, inputs and step length of the recording.
+	 */
+	begin(header: InputRecordingHeader): void {
+		this.header = header;
+		this.events = [];
+		this.startTime = this.clock();
+		this.toggles = { ...header.startScene.debugToggles };
+	}
+
+	/**
+	 * Ends the recording.
+	 *
+	 * @returns The finished recording, or null when none was in progress.
+	 */
+	finish(): InputRecording | null {
+		const header = this.header;
+		if (!header) return null;
+
+		const recording: InputRecording = {
+			version: INPUT_RECORDING_VERSION,
+			...header,
+			durationMs: this.elapsedMs,
+			events: this.events,
+		};
+		this.header = null;
+		this.events = [];
+		return recording;
+	}
+
+	onPointerMove(id: number, x: number, y: number, pressed?: boolean): void {
+		this.push(pressed === undefined
+			? { type: 'pointerMove', t: this.now(), id, x, y }
+			: { type: 'pointerMove', t: this.now(), id, x, y, pressed });
+	}
+
+	onPointerPressed(id: number, pressed: boolean): void {
+		this.push({ type: 'pointerPressed', t: this.now(), id, pressed });
+	}
+
+	onPointerRemove(id: number): void {
+		this.push({ type: 'pointerRemove', t: this.now(), id });
+	}
+
+	/**
+	 * Records a scroll/swipe progress change.
+	 *
+	 * @param progress - New scroll progress.
+	 */
+	recordScroll(progress: number): void {
+		this.push({ type: 'scroll', t: this.now(), progress });
+	}
+
+	/**
+	 * Records a device tilt change.
+	 *
+	 * @param x - Tilt X (0-1).
+	 * @param y - Tilt Y (0-1).
+	 */
+	recordTilt(x: number, y: number): void {
+		this.push({ type: 'tilt', t: this.now(), x, y });
+	}
+
+	/**
+	 * Records a window resize.
+	 *
+	 * @param width - New width in pixels.
+	 * @param height - New height in pixels.
+	 */
+	recordResize(width: number, height: number): void {
+		if (width <= 0 || height <= 0) return;
+		this.push({ type: 'resize', t: this.now(), width, height });
+	}
+
+	/**
+	 * Records a debug toggle if it differs from the last recorded value.
+	 *
+	 * @param key - Debug option key.
+	 * @param value - New value.
+	 */
+	recordToggle(key: string, value: boolean): void {
+		if (!this.header || this.toggles[key] === value) return;
+		this.toggles[key] = value;
+		this.push({ type: 'debugToggle', t: this.now(), key, value });
+	}
+
+	private now(): number {
+		return this.clock() - this.startTime;
+	}
+
+	private push(event: InputEvent): void {
+		if (this.header) this.events.push(event);
+	}
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// RecordingSerializer - Converts input recordings to and from JSON
+// =============================================================================
+
+import { z } from 'zod';
+import { SCENE_INFINITY } from '../scene/SceneSchema';
+import { INPUT_RECORDING_VERSION, inputRecordingSchema, type InputRecording } from './ReplaySchema';
+import { type RecordingParseResult } from './types';
+
+/**
+ * Writes and validates input recording documents.
+ *
+ * The start scene is embedded, so Infinity is written the same way scene
+ * files write it. Parsed events are sorted by time, which lets a hand-edited
+ * file list them in any order.
+ *
+ * Single Responsibility: Recording document format only.
+ */
+export class RecordingSerializer {
+	/**
+	 * Serializes a recording to compact JSON.
+	 *
+	 * @param recording - Recording to serialize.
+	 * @returns JSON text (events are many, so it is not pretty-printed).
+	 */
+	static stringify(recording: InputRecording): string {
+		return JSON.stringify(recording, (_key, value: unknown) => (value === Infinity ? SCENE_INFINITY : value));
+	}
+
+	/**
+	 * Parses and validates recording JSON.
+	 *
+	 * @param json - Document text.
+	 * @returns The recording, or an error message describing why it was rejected.
+	 */
+	static parse(json: string): RecordingParseResult {
+		let data: unknown;
+		try {
+			data = JSON.parse(json);
+		} catch (error) {
+			return { ok: false, error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+		}
+
+		const version = typeof data === 'object' && data !== null ? (data as { version?: unknown }).version : undefined;
+		if (typeof version !== 'number') {
+			return { ok: false, error: 'Not an input recording (missing version)' };
+		}
+		if (version !== INPUT_RECORDING_VERSION) {
+			return {
+				ok: false,
+				error: `Recording version ${version} is not supported (this build reads version ${INPUT_RECORDING_VERSION})`,
+			};
+		}
+
+		const result = inputRecordingSchema.safeParse(data);
+		if (!result.success) {
+			return { ok: false, error: `Invalid recording:\n${z.prettifyError(result.error)}` };
+		}
+
+		const recording = result.data;
+		recording.events.sort((a, b) => a.t - b.t);
+		return { ok: true, recording };
+	}
+}
@@ -0,0 +1,25 @@
+// =============================================================================
+// Replay Configuration - Playback speeds and per-frame step budgets
+// =============================================================================
+
+/**
+ * Configuration for input replay.
+ */
+export interface InputReplayConfig {
+	/** Playback speeds offered in the debug menu. */
+	speeds: readonly number[];
+	/** Most physics steps run in one frame during playback (fast speeds drop time beyond it). */
+	maxStepsPerFrame: number;
+	/** Most physics steps run in one frame while scrubbing to a position. */
+	maxSeekStepsPerFrame: number;
+}
+
+/**
+ * Default replay configuration.
+ * Scrubbing fast-forwards about four seconds of a 60 Hz recording per frame.
+ */
+export const DEFAULT_INPUT_REPLAY_CONFIG: InputReplayConfig = {
+	speeds: [0.25, 0.5, 1, 2, 4],
+	maxStepsPerFrame: 8,
+	maxSeekStepsPerFrame: 240,
+};
@@ -0,0 +1,29 @@
+// =============================================================================
+// ReplayPointerTracker - Pointer tracker driven by the replay clock
+// =============================================================================
+
+import { PointerTracker } from '../pointer/PointerTracker';
+import { type PointerInput } from '../pointer/types';
+
+/**
+ * PointerTracker fed from a recording instead of DOM events.
+ *
+ * Samples are stamped with recording time, so read() ignores the wall clock
+ * and judges staleness against the replay position set before each step.
+ */
+export class ReplayPointerTracker extends PointerTracker {
+	private clockMs = 0;
+
+	/**
+	 * Sets the replay position used by read().
+	 *
+	 * @param ms - Milliseconds since the recording started.
+	 */
+	setClock(ms: number): void {
+		this.clockMs = ms;
+	}
+
+	override read(): PointerInput[] {
+		return super.read(this.clockMs);
+	}
+}
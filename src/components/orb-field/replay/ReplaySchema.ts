@@ -0,0 +1,74 @@
+// =============================================================================
+// Replay Schema - Versioned JSON format for recorded input streams
+// =============================================================================
+
+import { z } from 'zod';
+import { orbFieldSceneSchema } from '../scene/SceneSchema';
+
+/**
+ * Current recording document version.
+ */
+export const INPUT_RECORDING_VERSION = 1;
+
+/** Milliseconds since the recording started. */
+const time = z.number().nonnegative();
+
+/** Pointer ID (touch identifier or MOUSE_POINTER_ID). */
+const pointerId = z.number().int();
+
+/**
+ * One recorded input, tagged by type.
+ */
+export const inputEventSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('pointerMove'), t: time, id: pointerId, x: z.number(), y: z.number(), pressed: z.boolean().optional() }),
+	z.object({ type: z.literal('pointerPressed'), t: time, id: pointerId, pressed: z.boolean() }),
+	z.object({ type: z.literal('pointerRemove'), t: time, id: pointerId }),
+	z.object({ type: z.literal('scroll'), t: time, progress: z.number() }),
+	z.object({ type: z.literal('tilt'), t: time, x: z.number(), y: z.number() }),
+	z.object({ type: z.literal('debugToggle'), t: time, key: z.string(), value: z.boolean() }),
+	z.object({ type: z.literal('resize'), t: time, width: z.number().positive(), height: z.number().positive() }),
+]);
+
+/**
+ * Scroll, tilt and window size at a point in the recording.
+ */
+export const replayInputsSchema = z.object({
+	scrollProgress: z.number(),
+	deviceTiltX: z.number(),
+	deviceTiltY: z.number(),
+	windowSize: z.object({ width: z.number().nonnegative(), height: z.number().nonnegative() }),
+});
+
+/**
+ * A complete recording: the field at the start plus every input after it.
+ */
+export const inputRecordingSchema = z.object({
+	version: z.literal(INPUT_RECORDING_VERSION),
+	/** Seed of the recorded run (informational; the start scene carries the random state). */
+	seed: z.number().int(),
+	/** Physics step used on replay in milliseconds. */
+	stepMs: z.number().positive(),
+	/** Recording length in milliseconds. */
+	durationMs: z.number().nonnegative(),
+	/** Inputs when recording started. */
+	inputs: replayInputsSchema,
+	/** Field state when recording started. */
+	startScene: orbFieldSceneSchema,
+	/** Inputs in time order. */
+	events: z.array(inputEventSchema),
+});
+
+/**
+ * A recorded input.
+ */
+export type InputEvent = z.infer<typeof inputEventSchema>;
+
+/**
+ * Scroll, tilt and window size fed to the field.
+ */
+export type ReplayInputs = z.infer<typeof replayInputsSchema>;
+
+/**
+ * A parsed recording document.
+ */
+export type InputRecording = z.infer<typeof inputRecordingSchema>;
@@ -0,0 +1,23 @@
+// =============================================================================
+// Replay - Exports for input recording and playback
+// =============================================================================
+
+export {
+	INPUT_RECORDING_VERSION,
+	inputRecordingSchema,
+	type InputEvent,
+	type InputRecording,
+	type ReplayInputs,
+} from './ReplaySchema';
+export {
+	type InputRecordingHeader,
+	type RecordingParseResult,
+	type InputReplayMode,
+	type InputReplayStatus,
+	type InputReplayControls,
+} from './types';
+export { DEFAULT_INPUT_REPLAY_CONFIG, type InputReplayConfig } from './ReplayConfig';
+export { RecordingSerializer } from './RecordingSerializer';
+export { InputRecorder } from './InputRecorder';
+export { InputPlayer } from './InputPlayer';
+export { ReplayPointerTracker } from './ReplayPointerTracker';
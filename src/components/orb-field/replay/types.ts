@@ -0,0 +1,72 @@
+// =============================================================================
+// Replay Types - Recording headers, parse results, playback status and controls
+// =============================================================================
+
+import { type InputRecording } from './ReplaySchema';
+
+/**
+ * Everything a recording stores besides its events, fixed when recording starts.
+ */
+export type InputRecordingHeader = Pick<InputRecording, 'seed' | 'stepMs' | 'inputs' | 'startScene'>;
+
+/**
+ * Outcome of parsing a recording document.
+ */
+export type RecordingParseResult =
+	| { ok: true; recording: InputRecording }
+	| { ok: false; error: string };
+
+/**
+ * What the replay system is doing.
+ */
+export type InputReplayMode = 'idle' | 'recording' | 'replaying';
+
+/**
+ * Recorder and player state for the debug menu.
+ */
+export interface InputReplayStatus {
+	/** Current mode. */
+	mode: InputReplayMode;
+	/** Whether a recording is available to replay or export. */
+	hasRecording: boolean;
+	/** Whether playback is running (replaying only). */
+	isPlaying: boolean;
+	/** Playback speed multiplier. */
+	speed: number;
+	/** Position in milliseconds (recording length so far while recording). */
+	positionMs: number;
+	/** Length of the current recording in milliseconds. */
+	durationMs: number;
+	/** Number of recorded inputs. */
+	eventCount: number;
+	/** Why the last replay stopped on its own, if it did. */
+	error: string | null;
+}
+
+/**
+ * Recorder and playback controls for the debug menu.
+ */
+export interface InputReplayControls {
+	/** Starts recording from the current field state. Returns false before the grid exists. */
+	startRecording: () => boolean;
+	/** Stops recording and keeps the result for replay and export. */
+	stopRecording: () => void;
+	/** Enters replay mode, paused at the start of the recording. */
+	startReplay: () => void;
+	/** Leaves replay mode; the field continues live from where playback stopped. */
+	exitReplay: () => void;
+	/** Starts playback. */
+	play: () => void;
+	/** Pauses playback. */
+	pause: () => void;
+	/** Runs exactly one physics step, paused. */
+	stepFrame: () => void;
+	/** Sets the playback speed multiplier. */
+	setSpeed: (speed: number) => void;
+	/** Moves playback to a position in milliseconds. */
+	seek: (ms: number) => void;
+	/** Serializes the current recording, or null when there is none. */
+	exportRecording: () => string | null;
+	/** Validates and keeps a recording, or reports why it was rejected. */
+	importRecording: (json: string) => RecordingParseResult;
+}
@@ -0,0 +1,101 @@
+// =============================================================================
+// Scene Schema - Versioned JSON format for saved orb field scenes
+// =============================================================================
+
+import { z } from 'zod';
+import { type Orb } from '../orb/types';
+import { type GridConfig } from '../grid/types';
+
+/**
+ * Current scene document version.
+ * Bump when a field changes meaning or a required field is added.
+ */
+export const ORB_FIELD_SCENE_VERSION = 2;
+
+/** Placeholder for Infinity, which JSON cannot represent. */
+export const SCENE_INFINITY = 'Infinity';
+
+/**
+ * Number that may be infinite (immortal lifetimes, dissolving cooldowns).
+ * Written as the SCENE_INFINITY string and read back as Infinity.
+ */
+const maybeInfinite = z.union([
+	z.number(),
+	z.literal(SCENE_INFINITY).transform(() => Infinity),
+]);
+
+/**
+ * Every persisted orb field.
+ */
+export const sceneOrbSchema = z.object({
+	id: z.string().min(1),
+	pxX: z.number(),
+	pxY: z.number(),
+	z: z.number(),
+	vx: z.number(),
+	vy: z.number(),
+	vz: z.number(),
+	speed: z.number().nonnegative(),
+	angle: z.number(),
+	size: z.number().int().positive(),
+	createdAt: z.number(),
+	lifetimeMs: maybeInfinite,
+	spawnAnimDurationMs: z.number().nonnegative(),
+	despawnAnimDurationMs: z.number().nonnegative(),
+	lifecycleCooldownUntil: maybeInfinite,
+	pinned: z.boolean().optional(),
+	colorSeed: z.number(),
+	hue: z.number(),
+	saturation: z.number(),
+	lightness: z.number(),
+	wanderStrength: z.number(),
+	wanderPhase: z.number(),
+	wanderSpeed: z.number(),
+	wanderModulationSpeed: z.number(),
+	wanderModulationPhase: z.number(),
+}) satisfies z.ZodType<Orb, unknown>;
+
+/**
+ * Grid geometry the scene was captured on.
+ */
+export const sceneGridConfigSchema = z.object({
+	cellsX: z.number().int().positive(),
+	cellsY: z.number().int().positive(),
+	layers: z.number().int().positive(),
+	cellSizeXCm: z.number().positive(),
+	cellSizeYCm: z.number().positive(),
+	minXCm: z.number(),
+	minYCm: z.number(),
+	viewportMinXCm: z.number(),
+	viewportMaxXCm: z.number(),
+	viewportMinYCm: z.number(),
+	viewportMaxYCm: z.number(),
+	pixelsPerCm: z.number().positive(),
+	cmPerPixel: z.number().positive(),
+}) satisfies z.ZodType<GridConfig>;
+
+/**
+ * A complete saved scene.
+ */
+export const orbFieldSceneSchema = z.object({
+	version: z.literal(ORB_FIELD_SCENE_VERSION),
+	/** ISO timestamp of the export (informational). */
+	savedAt: z.string(),
+	/** Seed of the run the scene was captured from. */
+	seed: z.number().int(),
+	/** Random generator state, or null when it could not be captured. */
+	randomState: z.number().int().nullable(),
+	/** Simulation time at capture in milliseconds (restored on load). */
+	time: z.number(),
+	/** Time of the opening burst in milliseconds, or null before it (continuous spawning waits on it). */
+	burstTime: z.number().nullable(),
+	gridConfig: sceneGridConfigSchema,
+	/** Debug menu toggles by key (unknown keys are ignored on load). */
+	debugToggles: z.record(z.string(), z.boolean()),
+	orbs: z.array(sceneOrbSchema),
+});
+
+/**
+ * A parsed scene document.
+ */
+export type OrbFieldScene = z.infer<typeof orbFieldSceneSchema>;
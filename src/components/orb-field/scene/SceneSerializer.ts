@@ -0,0 +1,102 @@
+// =============================================================================
+// SceneSerializer - Converts orb field state to and from scene JSON
+// =============================================================================
+
+import { z } from 'zod';
+import { type Orb } from '../orb/types';
+import { type GridConfig } from '../grid/types';
+import { GridRemapper } from '../grid/core/GridRemapper';
+import {
+	ORB_FIELD_SCENE_VERSION,
+	SCENE_INFINITY,
+	orbFieldSceneSchema,
+	type OrbFieldScene,
+} from './SceneSchema';
+import { type SceneCaptureInput, type SceneParseResult } from './types';
+
+/**
+ * Writes and validates scene documents.
+ *
+ * Documents carry a version; anything else is rejected with a readable
+ * message before the orbs are touched, so a bad paste never half-loads.
+ *
+ * Single Responsibility: Scene document format only.
+ */
+export class SceneSerializer {
+	/**
+	 * Builds a scene document from live state.
+	 *
+	 * @param input - State to capture.
+	 * @returns Scene document (orbs are copies).
+	 */
+	static capture(input: SceneCaptureInput): OrbFieldScene {
+		return {
+			version: ORB_FIELD_SCENE_VERSION,
+			savedAt: new Date().toISOString(),
+			seed: input.seed,
+			randomState: input.randomState,
+			time: input.time,
+			burstTime: input.burstTime,
+			gridConfig: { ...input.gridConfig },
+			debugToggles: { ...input.debugToggles },
+			orbs: input.orbs.map((orb) => ({ ...orb })),
+		};
+	}
+
+	/**
+	 * Serializes a scene to JSON, writing Infinity as a string.
+	 *
+	 * @param scene - Scene to serialize.
+	 * @returns Pretty-printed JSON.
+	 */
+	static stringify(scene: OrbFieldScene): string {
+		return JSON.stringify(scene, (_key, value: unknown) => (value === Infinity ? SCENE_INFINITY : value), 2);
+	}
+
+	/**
+	 * Parses and validates scene JSON.
+	 *
+	 * @param json - Document text.
+	 * @returns The scene, or an error message describing why it was rejected.
+	 */
+	static parse(json: string): SceneParseResult {
+		let data: unknown;
+		try {
+			data = JSON.parse(json);
+		} catch (error) {
+			return { ok: false, error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+		}
+
+		const version = typeof data === 'object' && data !== null ? (data as { version?: unknown }).version : undefined;
+		if (typeof version !== 'number') {
+			return { ok: false, error: 'Not an orb field scene (missing version)' };
+		}
+		if (version !== ORB_FIELD_SCENE_VERSION) {
+			return {
+				ok: false,
+				error: `Scene version ${version} is not supported (this build reads version ${ORB_FIELD_SCENE_VERSION})`,
+			};
+		}
+
+		const result = orbFieldSceneSchema.safeParse(data);
+		if (!result.success) {
+			return { ok: false, error: `Invalid scene:\n${z.prettifyError(result.error)}` };
+		}
+		return { ok: true, scene: result.data };
+	}
+
+	/**
+	 * Copies the scene's orbs into a grid. Timestamps are kept as saved, since
+	 * loading restores the scene's clock; positions are remapped when the
+	 * scene was saved with another geometry (another viewport size).
+	 *
+	 * @param scene - Loaded scene.
+	 * @param gridConfig - Geometry of the grid the orbs go into.
+	 * @returns Orbs ready to replace the running field's.
+	 */
+	static restoreOrbs(scene: OrbFieldScene, gridConfig: GridConfig): Orb[] {
+		const orbs = scene.orbs.map((orb) => ({ ...orb }));
+		GridRemapper.remapOrbs(orbs, scene.gridConfig, gridConfig);
+		return orbs;
+	}
+}
@@ -0,0 +1,11 @@
+// =============================================================================
+// Scene - Exports for scene save/load
+// =============================================================================
+
+export {
+	ORB_FIELD_SCENE_VERSION,
+	orbFieldSceneSchema,
+	type OrbFieldScene,
+} from './SceneSchema';
+export { SceneSerializer } from './SceneSerializer';
+export { type SceneCaptureInput, type SceneParseResult, type SceneLoadResult } from './types';
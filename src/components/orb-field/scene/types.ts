@@ -0,0 +1,47 @@
+// =============================================================================
+// Scene Types - Inputs and results of scene save/load
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type GridConfig } from '../grid/types';
+import { type OrbFieldScene } from './SceneSchema';
+
+/**
+ * Live state captured into a scene document.
+ */
+export interface SceneCaptureInput {
+	/** Current orbs (copied). */
+	orbs: readonly Orb[];
+	/** Current grid geometry. */
+	gridConfig: GridConfig;
+	/** Seed of the running simulation. */
+	seed: number;
+	/** Random generator state, or null when unavailable. */
+	randomState: number | null;
+	/** Current simulation time in milliseconds. */
+	time: number;
+	/** Time of the opening burst, or null before it. */
+	burstTime: number | null;
+	/** Debug menu toggles by key. */
+	debugToggles: Record<string, boolean>;
+}
+
+/**
+ * Outcome of parsing a scene document.
+ */
+export type SceneParseResult =
+	| { ok: true; scene: OrbFieldScene }
+	| { ok: false; error: string };
+
+/**
+ * Outcome of loading a scene into the running field.
+ */
+export type SceneLoadResult =
+	| {
+		ok: true;
+		/** The loaded scene (debug toggles are applied by the caller). */
+		scene: OrbFieldScene;
+		/** Non-fatal difference from the current field, e.g. another viewport size. */
+		warning: string | null;
+	}
+	| { ok: false; error: string };
@@ -2,6 +2,11 @@
 // Grid System Configuration
 // =============================================================================
 
+import { type PointerMode } from '../pointer/types';
+import { type OrbRendererKind, type OrbTrailMode } from '../orb/visuals/types';
+import { type OrbPaletteId } from '../palette/types';
+import { type GridRevealPresetId } from '../grid/types';
+
 /**
  * Configuration for grid geometry calculations.
  */
@@ -16,6 +21,28 @@ export interface GridSystemConfig {
 	baseDpi: number;
 }
 
+/**
+ * Configuration for the spatial grid's chunked cell storage.
+ */
+export interface GridStorageConfig {
+	/** Chunk width in cells (rounded up to a power of two). */
+	chunkSizeX: number;
+	/** Chunk height in cells (rounded up to a power of two). */
+	chunkSizeY: number;
+	/** Chunk depth in layers, rounded up to a power of two (orbs mark a few layers around their own). */
+	chunkLayers: number;
+}
+
+/**
+ * Configuration for rebuilding the grid when the viewport is resized.
+ */
+export interface GridResizeConfig {
+	/** Quiet period after the last resize before the grid is rebuilt, in milliseconds. */
+	debounceMs: number;
+	/** Duration of the grid lines easing to their new spacing, in milliseconds (0 snaps). */
+	lineTransitionMs: number;
+}
+
 /**
  * Configuration for the grid reveal animation.
  */
@@ -66,6 +93,26 @@ export interface OrbFieldConfig {
 	canvasZIndex: number;
 	/** Z-index for the debug panel container. */
 	debugPanelZIndex: number;
+	/** Run physics in a Web Worker instead of the render loop (falls back to inline if unavailable). */
+	useWorkerPhysics: boolean;
+	/** Physics step length in milliseconds when a seed is pinned (deterministic runs). */
+	fixedTimestepMs: number;
+	/** How the mouse and touches act on orbs until changed in the debug menu. */
+	pointerMode: PointerMode;
+	/** Whether orbs merge and split on contact (the Orb Lifecycle phase). */
+	orbLifecycle: boolean;
+	/** Whether the quality governor may lower orb count and render quality (see quality/QualityConfig.ts). */
+	adaptiveQuality: boolean;
+	/** Orb drawing backend until changed in the debug menu (WebGL falls back to Canvas 2D). */
+	orbRenderer: OrbRendererKind;
+	/** Orb colour palette when the page does not pick one (see palette/PaletteConfig.ts). */
+	palette: OrbPaletteId;
+	/** Orb trails until changed in the debug menu (Canvas 2D only; see orb/visuals/OrbTrailConfig.ts). */
+	orbTrails: OrbTrailMode;
+	/** Whether the post-processing stage runs (see postfx/PostFxConfig.ts; off under reduced motion and low tiers). */
+	postFx: boolean;
+	/** Grid reveal preset until changed in the debug menu (see grid/visuals/GridRevealPresets.ts). */
+	revealPreset: GridRevealPresetId;
 }
 
 /**
@@ -78,6 +125,25 @@ export const DEFAULT_GRID_CONFIG: GridSystemConfig = {
 	baseDpi: 96,
 };
 
+/**
+ * Default configuration for chunked grid storage (1 KB per chunk).
+ */
+export const DEFAULT_GRID_STORAGE_CONFIG: GridStorageConfig = {
+	chunkSizeX: 16,
+	chunkSizeY: 16,
+	chunkLayers: 4,
+};
+
+/**
+ * Default resize configuration.
+ * Long enough to skip the intermediate sizes of a window drag or a tablet
+ * rotation, short enough that the grid follows before orbs reach the new edges.
+ */
+export const DEFAULT_GRID_RESIZE_CONFIG: GridResizeConfig = {
+	debounceMs: 150,
+	lineTransitionMs: 400,
+};
+
 /**
  * Default configuration for the reveal animation.
  */
@@ -111,6 +177,16 @@ export const DEFAULT_ORBFIELD_CONFIG: OrbFieldConfig = {
 	fadeOutStart: 0.8,
 	canvasZIndex: 2,      // Debug canvas above homepage content
 	debugPanelZIndex: 3,  // Debug panels above everything
+	useWorkerPhysics: false, // Opt-in until worker mode has wider device coverage
+	fixedTimestepMs: 1000 / 60, // One step per frame on a 60 Hz display
+	pointerMode: 'repel',
+	orbLifecycle: false,
+	adaptiveQuality: true,
+	orbRenderer: 'canvas2d', // WebGL is opt-in until it matches the gradient look on more GPUs
+	palette: 'cyan',
+	orbTrails: 'off',
+	postFx: true,
+	revealPreset: 'roll',
 };
 
 /**
@@ -136,3 +212,30 @@ export const DEFAULT_PARALLAX_CONFIG: ParallaxConfig = {
 	scrollOffsetSmoothing: 0.08,
 	deviceTiltOffsetPx: 30,
 };
+
+/**
+ * Configuration for the debug time scale (slow motion and fast forward).
+ */
+export interface TimeScaleConfig {
+	/** Slowest time scale. */
+	min: number;
+	/** Fastest time scale. */
+	max: number;
+	/** Speeds the slower/faster shortcuts step through, ascending. */
+	presets: readonly number[];
+	/** Length of a single-stepped frame in milliseconds at 1x (scaled with the time scale). */
+	stepMs: number;
+	/** Most physics steps one frame runs when fast forwarding (time beyond it is dropped). */
+	maxStepsPerFrame: number;
+}
+
+/**
+ * Default configuration for the debug time scale.
+ */
+export const DEFAULT_TIME_SCALE_CONFIG: TimeScaleConfig = {
+	min: 0.05,
+	max: 8,
+	presets: [0.05, 0.1, 0.25, 0.5, 1, 2, 4, 8],
+	stepMs: 1000 / 60,
+	maxStepsPerFrame: 24, // 8x of a 3-step fixed frame; keeps a slow frame from snowballing
+};
@@ -21,6 +21,9 @@ export const CELL_FILLED = 1 << 1;     // 0b00000010 = 2
 /** Cell is a permanent border wall that blocks movement. */
 export const CELL_BORDER = 1 << 2;     // 0b00000100 = 4
 
+/** Cell is covered by a static obstacle (a DOM element such as a glass card). */
+export const CELL_OBSTACLE = 1 << 3;   // 0b00001000 = 8
+
 /**
  * Checks if a cell has a specific flag set.
  * 
@@ -0,0 +1,167 @@
+// =============================================================================
+// OrbSimulation Tests - Headless regression checks for the physics step
+// =============================================================================
+
+import { describe, expect, it } from 'vitest';
+import { OrbSimulation } from './OrbSimulation';
+import { OrbMovement } from '../orb/core';
+import { PHYSICS_PHASE_IDS } from '../physics';
+import { DEFAULT_SPEED_LIMIT_CONFIG } from '../orb/config';
+import { SeededRandom } from '../shared/random';
+import { type Orb } from '../orb/types';
+
+/** Headless viewport the simulations run in. */
+const WINDOW_SIZE = { width: 1280, height: 720 };
+
+/** Simulated frame delta in seconds (60fps). */
+const FRAME_DT = 1 / 60;
+
+/** Timeout for tests stepping several simulated seconds. */
+const LONG_RUN_TIMEOUT_MS = 30_000;
+
+/** Largest relative energy gain allowed per step (float error in the resolvers). */
+const ENERGY_TOLERANCE = 1e-3;
+
+/**
+ * Creates a seeded simulation and bursts orbs from the viewport centre.
+ */
+function createBurstSimulation(seed: number, enableOrbSpawning = true): OrbSimulation {
+	const simulation = OrbSimulation.createHeadless(WINDOW_SIZE, {
+		random: new SeededRandom(seed),
+		settings: { enableOrbSpawning },
+	});
+	simulation.spawnBurst(WINDOW_SIZE.width / 2, WINDOW_SIZE.height / 2);
+	return simulation;
+}
+
+/**
+ * Steps a simulation for the given number of frames.
+ */
+function run(simulation: OrbSimulation, frames: number): void {
+	for (let i = 0; i < frames; i++) {
+		simulation.step(FRAME_DT);
+	}
+}
+
+/**
+ * Total kinetic energy in the screen plane, with size standing in for mass.
+ */
+function kineticEnergy(orbs: readonly Orb[]): number {
+	return orbs.reduce((sum, orb) => sum + orb.size * (orb.vx * orb.vx + orb.vy * orb.vy), 0);
+}
+
+/**
+ * Reduces orbs to the fields physics moves, for exact comparison.
+ */
+function kinematics(orbs: readonly Orb[]): number[][] {
+	return orbs.map((orb) => [orb.pxX, orb.pxY, orb.z, orb.vx, orb.vy, orb.vz, orb.size]);
+}
+
+describe('OrbSimulation (headless)', () => {
+	it('replays the same run for the same seed', () => {
+		const a = createBurstSimulation(1234);
+		const b = createBurstSimulation(1234);
+		run(a, 240);
+		run(b, 240);
+
+		expect(a.orbs.length).toBeGreaterThan(0);
+		expect(a.orbs.map((orb) => orb.id)).toEqual(b.orbs.map((orb) => orb.id));
+		expect(kinematics(a.orbs)).toEqual(kinematics(b.orbs));
+	}, LONG_RUN_TIMEOUT_MS);
+
+	it('diverges for different seeds', () => {
+		const a = createBurstSimulation(1);
+		const b = createBurstSimulation(2);
+		run(a, 60);
+		run(b, 60);
+
+		expect(kinematics(a.orbs)).not.toEqual(kinematics(b.orbs));
+	});
+
+	it('continues identically after restoring a snapshot', () => {
+		const simulation = createBurstSimulation(42);
+		run(simulation, 120);
+		const snapshot = simulation.snapshot();
+
+		run(simulation, 180);
+		const expectedIds = simulation.orbs.map((orb) => orb.id);
+		const expected = kinematics(simulation.orbs);
+		const expectedTime = simulation.time;
+
+		simulation.restore(snapshot);
+		expect(simulation.time).toBe(snapshot.time);
+		expect(kinematics(simulation.orbs)).toEqual(kinematics(snapshot.orbs));
+
+		run(simulation, 180);
+		expect(simulation.time).toBe(expectedTime);
+		expect(simulation.orbs.map((orb) => orb.id)).toEqual(expectedIds);
+		expect(kinematics(simulation.orbs)).toEqual(expected);
+	}, LONG_RUN_TIMEOUT_MS);
+
+	// Continuous spawning is off, so every orb has been slowing down since the burst
+	it('decelerates burst orbs to their speed limit', () => {
+		const simulation = createBurstSimulation(7, false);
+		const { baseMaxSpeed, minMaxSpeed } = DEFAULT_SPEED_LIMIT_CONFIG;
+		const initialFastest = Math.max(...simulation.orbs.map((orb) => Math.hypot(orb.vx, orb.vy)));
+		expect(initialFastest).toBeGreaterThan(baseMaxSpeed);
+
+		run(simulation, 240);
+
+		expect(simulation.orbs.length).toBeGreaterThan(0);
+		for (const orb of simulation.orbs) {
+			const maxSpeed = OrbMovement.getMaxSpeed(orb.size, baseMaxSpeed, minMaxSpeed);
+			expect(Math.hypot(orb.vx, orb.vy)).toBeLessThanOrEqual(maxSpeed * 1.05);
+		}
+	});
+
+	// Without the phases that push orbs, collisions and wall bounces can only lose energy
+	it('does not gain energy from collisions and wall bounces', () => {
+		const simulation = OrbSimulation.createHeadless(WINDOW_SIZE, { random: new SeededRandom(3) });
+		for (const id of [
+			PHYSICS_PHASE_IDS.WANDER,
+			PHYSICS_PHASE_IDS.POINTER_INTERACTION,
+			PHYSICS_PHASE_IDS.FORCE_FIELDS,
+			PHYSICS_PHASE_IDS.CONTINUOUS_SPAWN,
+		]) {
+			simulation.pipeline.setEnabled(id, false);
+		}
+		simulation.spawnBurst(WINDOW_SIZE.width / 2, WINDOW_SIZE.height / 2);
+
+		// Let the burst settle to cruising speed first
+		run(simulation, 120);
+		const initialEnergy = kineticEnergy(simulation.orbs);
+		expect(initialEnergy).toBeGreaterThan(0);
+
+		let previousEnergy = initialEnergy;
+		for (let frame = 0; frame < 480; frame++) {
+			simulation.step(FRAME_DT);
+			const energy = kineticEnergy(simulation.orbs);
+			expect(energy).toBeLessThanOrEqual(previousEnergy * (1 + ENERGY_TOLERANCE));
+			previousEnergy = energy;
+		}
+		expect(previousEnergy).toBeLessThanOrEqual(initialEnergy);
+	}, LONG_RUN_TIMEOUT_MS);
+
+	it('keeps every orb inside the walls', () => {
+		const simulation = createBurstSimulation(99);
+		const grid = simulation.getGrid()!;
+		const { minXCm, minYCm, cellsX, cellsY, cellSizeXCm, cellSizeYCm, pixelsPerCm, layers } = grid.config;
+		const minX = minXCm * pixelsPerCm;
+		const minY = minYCm * pixelsPerCm;
+		const maxX = (minXCm + cellsX * cellSizeXCm) * pixelsPerCm;
+		const maxY = (minYCm + cellsY * cellSizeYCm) * pixelsPerCm;
+
+		for (let frame = 0; frame < 480; frame++) {
+			simulation.step(FRAME_DT);
+			expect(simulation.collisionCounters.escapedOrbs).toBe(0);
+			for (const orb of simulation.orbs) {
+				expect(orb.pxX).toBeGreaterThanOrEqual(minX);
+				expect(orb.pxX).toBeLessThanOrEqual(maxX);
+				expect(orb.pxY).toBeGreaterThanOrEqual(minY);
+				expect(orb.pxY).toBeLessThanOrEqual(maxY);
+				expect(orb.z).toBeGreaterThanOrEqual(0);
+				expect(orb.z).toBeLessThanOrEqual(layers - 1);
+			}
+		}
+	}, LONG_RUN_TIMEOUT_MS);
+});
@@ -0,0 +1,502 @@
+// =============================================================================
+// OrbSimulation - Framework-free orb physics simulation
+// =============================================================================
+
+import { type Orb, type OrbEdit } from '../orb/types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { GridConfigFactory } from '../grid/core/GridConfigFactory';
+import { ViewportCellsFactory } from '../grid/core/ViewportCellsFactory';
+import { type GridConfig, type ViewportCells } from '../grid/types';
+import { type GridSystemConfig } from '../shared/config';
+import { type WindowSize } from '../shared/types';
+import { DEFAULT_RANDOM, SeededRandom, type RandomSource } from '../shared/random';
+import {
+	DEFAULT_ORB_BURST_CONFIG,
+	DEFAULT_CONTINUOUS_SPAWN_CONFIG,
+	type OrbBurstConfig,
+	type ContinuousSpawnConfig,
+} from '../orb/config';
+import { OrbSpawner, OrbEditor } from '../orb/utils';
+import { PhysicsStep, PhysicsPipeline } from '../physics';
+import { ForceFieldSet } from '../forces/ForceFieldSet';
+import { GridRemapper } from '../grid/core/GridRemapper';
+import { ObstacleRasterizer } from '../obstacles/ObstacleRasterizer';
+import { ShapeRasterizer } from '../obstacles/ShapeRasterizer';
+import { type GridObstacle, type GridShapeMask } from '../obstacles/types';
+import { PointerInteraction } from '../pointer/PointerInteraction';
+import { CollisionCounters } from '../collision/CollisionCounters';
+import { DEFAULT_ORB_PALETTE, type OrbPalette } from '../palette';
+import { DEFAULT_SIMULATION_SETTINGS, type OrbSimulationSettings } from './SimulationConfig';
+import {
+	type OrbSimulationOptions,
+	type OrbSimulationFrame,
+	type OrbSimulationSnapshot,
+} from './types';
+
+/**
+ * Owns the orbs, the SpatialGrid and the configuration of one orb field and
+ * advances them with PhysicsStep.
+ *
+ * Has no React, DOM or worker dependencies, so the same simulation runs
+ * behind the OrbField hooks, inside the physics worker and headless in
+ * Node (e.g. vitest).
+ *
+ * Single Responsibility: Simulation state ownership and stepping only.
+ */
+export class OrbSimulation {
+	/** Orb array (ref-shaped so physics phases and hooks can replace it). */
+	readonly orbsRef: { current: Orb[] } = { current: [] };
+
+	/** Phase toggles used when a step does not override them. */
+	readonly settings: OrbSimulationSettings;
+
+	/** Random source for spawning and physics. */
+	readonly random: RandomSource;
+
+	/** Ordered physics phases (register custom forces or toggle phases here). */
+	readonly pipeline: PhysicsPipeline;
+
+	/** Attractors, repellers, emitters and wind regions applied every step. */
+	readonly forceFields = new ForceFieldSet();
+
+	/** Mouse and touch interaction mode, parameters and held orbs. */
+	readonly pointer = new PointerInteraction();
+
+	/** Continuous collision diagnostics (tunnelling caught, escaped orbs). */
+	readonly collisionCounters = new CollisionCounters();
+
+	/** Time of the burst that starts continuous spawning (or null before it). */
+	burstTime: number | null = null;
+
+	/** Called whenever orbs are added or removed. */
+	private onRosterChange: (() => void) | null;
+
+	private grid: SpatialGrid | null = null;
+	private vpc: ViewportCells | null = null;
+	private windowSize: WindowSize = { width: 0, height: 0 };
+	private readonly burstConfig: OrbBurstConfig;
+	private readonly continuousConfig: ContinuousSpawnConfig;
+
+	/** Multiplier on the continuous spawn target. */
+	private targetScale = 1;
+
+	/** Palette for new orbs and colour easing. */
+	private activePalette: OrbPalette;
+
+	/** Palette of the step currently executing (colours orbs spawned during it). */
+	private stepPalette: OrbPalette;
+
+	/** Simulation clock in milliseconds, advanced by every unpaused step. */
+	private clock = 0;
+
+	/** Time passed to the step currently executing (stamps orbs spawned during it). */
+	private stepTime = 0;
+
+	/** Static obstacles used when a step does not override them. */
+	private obstacleList: readonly GridObstacle[] = [];
+
+	/** Rasterised shapes used when a step does not override them. */
+	private shapeMaskList: readonly GridShapeMask[] = [];
+
+	/** Cells marked for the current obstacles and shapes, and the grid they were marked in. */
+	private obstacleBounds: Int32Array | null = null;
+	private obstacleMasks: readonly GridShapeMask[] = [];
+	private obstacleScrollOffset = { x: 0, y: 0 };
+	private obstacleGrid: SpatialGrid | null = null;
+
+	/** Inspector edits since the last step, merged per orb (see takeOrbEdits). */
+	private readonly pendingEdits = new Map<string, OrbEdit>();
+
+	/**
+	 * @param options - Random source, pipeline, spawn configuration, settings and roster callback.
+	 */
+	constructor(options: OrbSimulationOptions = {}) {
+		this.random = options.random ?? DEFAULT_RANDOM;
+		this.burstConfig = { ...DEFAULT_ORB_BURST_CONFIG, ...options.burstConfig };
+		this.continuousConfig = { ...DEFAULT_CONTINUOUS_SPAWN_CONFIG, ...options.continuousConfig };
+		this.settings = { ...DEFAULT_SIMULATION_SETTINGS, ...options.settings };
+		this.pipeline = options.pipeline ?? PhysicsPipeline.createDefault();
+		this.onRosterChange = options.onRosterChange ?? null;
+		this.activePalette = options.palette ?? DEFAULT_ORB_PALETTE;
+		this.stepPalette = this.activePalette;
+	}
+
+	/**
+	 * Creates a simulation with its own grid for a viewport of the given size.
+	 * Intended for headless use where no browser window exists.
+	 *
+	 * @param windowSize - Viewport size in pixels.
+	 * @param options - Simulation options.
+	 * @param gridOptions - Overrides for grid geometry (cell size, layers, DPI).
+	 * @returns A simulation ready to spawn and step.
+	 */
+	static createHeadless(
+		windowSize: WindowSize,
+		options: OrbSimulationOptions = {},
+		gridOptions: Partial<GridSystemConfig> = {}
+	): OrbSimulation {
+		const viewport = { innerWidth: windowSize.width, innerHeight: windowSize.height, devicePixelRatio: 1 } as Window;
+		const gridConfig = GridConfigFactory.create(viewport, gridOptions);
+
+		const simulation = new OrbSimulation(options);
+		simulation.configureGrid(gridConfig, ViewportCellsFactory.create(gridConfig), windowSize);
+		return simulation;
+	}
+
+	/** Current orbs. */
+	get orbs(): Orb[] {
+		return this.orbsRef.current;
+	}
+
+	/** Simulation clock in milliseconds. */
+	get time(): number {
+		return this.clock;
+	}
+
+	/** Multiplier on the continuous spawn target used when a step does not override it. */
+	get orbCountScale(): number {
+		return this.targetScale;
+	}
+
+	/**
+	 * Scales the continuous spawn target, e.g. for a lower quality tier.
+	 * Surplus orbs are not removed; the population shrinks as they expire.
+	 *
+	 * @param scale - Multiplier on targetOrbCountAt4K and minOrbCount (1 is the full count).
+	 */
+	setOrbCountScale(scale: number): void {
+		this.targetScale = scale;
+	}
+
+	/** Palette used when a step does not override it. */
+	get palette(): OrbPalette {
+		return this.activePalette;
+	}
+
+	/**
+	 * Switches palette. New orbs use it at once; existing orbs cross-fade to
+	 * it over DEFAULT_ORB_COLOR_CONFIG.crossFadeMs (Orb Colour phase).
+	 *
+	 * @param palette - Palette to switch to.
+	 */
+	setPalette(palette: OrbPalette): void {
+		this.activePalette = palette;
+	}
+
+	/** Static obstacles used when a step does not override them. */
+	get obstacles(): readonly GridObstacle[] {
+		return this.obstacleList;
+	}
+
+	/**
+	 * Replaces the static obstacles, e.g. glass cards measured from the DOM.
+	 * They are rasterised into the grid at the start of the next step.
+	 *
+	 * @param obstacles - Obstacles in screen pixels.
+	 */
+	setObstacles(obstacles: readonly GridObstacle[]): void {
+		this.obstacleList = obstacles;
+	}
+
+	/** Rasterised shapes used when a step does not override them. */
+	get shapeMasks(): readonly GridShapeMask[] {
+		return this.shapeMaskList;
+	}
+
+	/**
+	 * Replaces the rasterised shapes (see ShapeRasterizer and useGridShapes).
+	 * They are marked into the grid at the start of the next step.
+	 *
+	 * @param masks - Masks made for the current grid.
+	 */
+	setShapeMasks(masks: readonly GridShapeMask[]): void {
+		this.shapeMaskList = masks;
+	}
+
+	/**
+	 * Rasterises obstacles and shapes into the grid when the cells they cover
+	 * changed (new obstacles, a moved element, parallax, a new mask or a new grid).
+	 * Called by step(); call it directly when the grid is used without stepping.
+	 *
+	 * @param scrollOffset - Parallax offset mapping screen pixels into physics space.
+	 * @param obstacles - Obstacles to mark (defaults to the simulation's own).
+	 * @param shapes - Shape masks to mark (defaults to the simulation's own).
+	 */
+	syncObstacles(
+		scrollOffset: { x: number; y: number } = { x: 0, y: 0 },
+		obstacles: readonly GridObstacle[] = this.obstacleList,
+		shapes: readonly GridShapeMask[] = this.shapeMaskList
+	): void {
+		const { grid, vpc } = this;
+		if (!grid || !vpc) return;
+
+		const bounds = ObstacleRasterizer.toCellBounds(obstacles, grid.config, vpc, scrollOffset);
+		if (
+			grid === this.obstacleGrid &&
+			this.obstacleBounds && ObstacleRasterizer.boundsEqual(bounds, this.obstacleBounds) &&
+			ShapeRasterizer.sameMasks(shapes, this.obstacleMasks)
+		) return;
+
+		ObstacleRasterizer.apply(grid, bounds, shapes);
+		this.obstacleScrollOffset = scrollOffset;
+		this.obstacleBounds = bounds;
+		this.obstacleMasks = shapes;
+		this.obstacleGrid = grid;
+	}
+
+	/** Spatial grid, or null before one is configured or attached. */
+	getGrid(): SpatialGrid | null {
+		return this.grid;
+	}
+
+	/** Viewport cell metrics, or null before a grid is configured or attached. */
+	getViewportCells(): ViewportCells | null {
+		return this.vpc;
+	}
+
+	/**
+	 * Replaces the roster callback (e.g. to mirror orbs into UI state).
+	 *
+	 * @param handler - Called whenever orbs are added or removed, or null to detach.
+	 */
+	setRosterChangeHandler(handler: (() => void) | null): void {
+		this.onRosterChange = handler;
+	}
+
+	/**
+	 * Builds a new grid for the given geometry. Existing orbs are kept
+	 * (remapped when the geometry changed, see attachGrid).
+	 *
+	 * @param gridConfig - Grid geometry.
+	 * @param vpc - Viewport cell metrics matching gridConfig.
+	 * @param windowSize - Viewport size in pixels (keeps the previous size if omitted).
+	 */
+	configureGrid(gridConfig: GridConfig, vpc: ViewportCells, windowSize: WindowSize = this.windowSize): void {
+		const grid = new SpatialGrid(gridConfig);
+		grid.initializeBorder();
+		grid.saveCleanState();
+		this.attachGrid(grid, vpc, windowSize);
+	}
+
+	/**
+	 * Uses an existing grid, e.g. one shared with the debug renderer.
+	 *
+	 * When it replaces a grid of different geometry (a resized viewport), orbs
+	 * are moved proportionally into the new world bounds, and obstacles and
+	 * shapes are marked into its clean state before the next step reads it.
+	 *
+	 * @param grid - Initialized grid (border marked, clean state saved).
+	 * @param vpc - Viewport cell metrics matching the grid.
+	 * @param windowSize - Viewport size in pixels.
+	 */
+	attachGrid(grid: SpatialGrid, vpc: ViewportCells, windowSize: WindowSize): void {
+		const previous = this.grid;
+		this.grid = grid;
+		this.vpc = vpc;
+		this.windowSize = windowSize;
+		if (!previous || previous === grid) return;
+
+		GridRemapper.remapOrbs(this.orbsRef.current, previous.config, grid.config);
+		this.syncObstacles(this.obstacleScrollOffset);
+	}
+
+	/**
+	 * Advances the simulation by one step. Does nothing until a grid exists.
+	 *
+	 * @param deltaTime - Step length in seconds.
+	 * @param frame - Optional input and overrides for this step.
+	 */
+	step(deltaTime: number, frame: OrbSimulationFrame = {}): void {
+		const { grid, vpc } = this;
+		if (!grid || !vpc) return;
+
+		const pausePhysics = frame.pausePhysics ?? this.settings.pausePhysics;
+		this.pendingEdits.clear();
+		this.stepTime = frame.now ?? this.clock;
+		this.stepPalette = frame.palette ?? this.activePalette;
+		const scrollOffset = frame.scrollOffset ?? { x: 0, y: 0 };
+		const obstacles = frame.obstacles ?? this.obstacleList;
+		const shapes = frame.shapes ?? this.shapeMaskList;
+		this.syncObstacles(scrollOffset, obstacles, shapes);
+
+		PhysicsStep.execute({
+			orbsRef: this.orbsRef,
+			grid,
+			vpc,
+			windowSize: frame.windowSize ?? this.windowSize,
+			deltaTime,
+			now: this.stepTime,
+			pointers: frame.pointers ?? [],
+			pointerMode: frame.pointerMode ?? this.pointer.mode,
+			pointerConfig: frame.pointerConfig ?? this.pointer.config,
+			pointerInteraction: this.pointer,
+			collisionCounters: this.collisionCounters,
+			scrollOffset,
+			forceFields: frame.forceFields ?? this.forceFields.list,
+			obstacles,
+			shapes,
+			isPageVisible: frame.isPageVisible ?? true,
+			burstTime: frame.burstTime !== undefined ? frame.burstTime : this.burstTime,
+			pausePhysics,
+			enableOrbSpawning: frame.enableOrbSpawning ?? this.settings.enableOrbSpawning,
+			enableOrbDespawning: frame.enableOrbDespawning ?? this.settings.enableOrbDespawning,
+			orbCountScale: frame.orbCountScale ?? this.targetScale,
+			palette: this.stepPalette,
+			random: this.random,
+			spawnRandomOrbs: this.spawnRandomOrbs,
+			syncOrbsState: this.notifyRosterChange,
+		}, this.pipeline);
+
+		if (!pausePhysics) {
+			this.clock += deltaTime * 1000;
+		}
+	}
+
+	/**
+	 * Spawns orbs at random valid positions across the viewport.
+	 *
+	 * @param count - Number of orbs to attempt to spawn.
+	 * @param now - Creation timestamp (defaults to the simulation clock).
+	 * @returns The spawned orbs (fewer than count if positions were blocked).
+	 */
+	spawn(count: number, now: number = this.clock): Orb[] {
+		return this.spawnWithin(count, this.windowSize.width, this.windowSize.height, now, this.activePalette);
+	}
+
+	/**
+	 * Spawns a burst of orbs from a center point and records the burst time,
+	 * which starts continuous spawning after the configured delay.
+	 *
+	 * @param centerX - Burst center X in pixels.
+	 * @param centerY - Burst center Y in pixels.
+	 * @param now - Creation and burst timestamp (defaults to the simulation clock).
+	 * @returns The spawned orbs.
+	 */
+	spawnBurst(centerX: number, centerY: number, now: number = this.clock): Orb[] {
+		const { grid, vpc } = this;
+		if (!grid || !vpc) return [];
+
+		const newOrbs = OrbSpawner.createBurst(centerX, centerY, grid, vpc, this.burstConfig, this.random, now, this.activePalette);
+		this.burstTime = now;
+		this.addOrbs(newOrbs);
+		return newOrbs;
+	}
+
+	/**
+	 * Adds fully initialized orbs (e.g. created elsewhere or received from another thread).
+	 *
+	 * @param orbs - Orbs to add.
+	 */
+	addOrbs(orbs: Orb[]): void {
+		if (orbs.length === 0) return;
+		this.orbsRef.current.push(...orbs);
+		this.notifyRosterChange();
+	}
+
+	/**
+	 * Removes orbs by ID.
+	 *
+	 * @param ids - IDs of orbs to remove.
+	 */
+	removeOrbs(ids: string[]): void {
+		if (ids.length === 0) return;
+		const removed = new Set(ids);
+		this.orbsRef.current = this.orbsRef.current.filter((orb) => !removed.has(orb.id));
+		this.notifyRosterChange();
+	}
+
+	/**
+	 * Applies a live edit to one orb (debug inspector).
+	 *
+	 * @param id - ID of the orb to change.
+	 * @param edit - Fields to overwrite.
+	 * @returns Whether the orb was found.
+	 */
+	editOrb(id: string, edit: OrbEdit): boolean {
+		const orb = this.orbsRef.current.find((o) => o.id === id);
+		if (!orb) return false;
+
+		OrbEditor.apply(orb, edit, this.grid?.config.layers ?? Infinity);
+		this.pendingEdits.set(id, { ...this.pendingEdits.get(id), ...edit });
+		return true;
+	}
+
+	/**
+	 * Returns the edits made since the last step and forgets them, so a
+	 * physics worker owning another copy of the orbs can replay them.
+	 *
+	 * @returns Edits by orb ID, or null when there are none.
+	 */
+	takeOrbEdits(): Map<string, OrbEdit> | null {
+		if (this.pendingEdits.size === 0) return null;
+		const edits = new Map(this.pendingEdits);
+		this.pendingEdits.clear();
+		return edits;
+	}
+
+	/**
+	 * Captures the current state. Orbs are copied, so later steps do not affect the snapshot.
+	 *
+	 * @returns Snapshot restorable with restore().
+	 */
+	snapshot(): OrbSimulationSnapshot {
+		return {
+			time: this.clock,
+			burstTime: this.burstTime,
+			orbs: this.orbsRef.current.map((orb) => ({ ...orb })),
+			randomState: this.random instanceof SeededRandom ? this.random.getState() : null,
+		};
+	}
+
+	/**
+	 * Restores a snapshot. The grid is re-marked from the orbs on the next step.
+	 *
+	 * @param snapshot - Snapshot returned by snapshot().
+	 */
+	restore(snapshot: OrbSimulationSnapshot): void {
+		this.clock = snapshot.time;
+		this.burstTime = snapshot.burstTime;
+		this.orbsRef.current = snapshot.orbs.map((orb) => ({ ...orb }));
+		if (snapshot.randomState !== null && this.random instanceof SeededRandom) {
+			this.random.setState(snapshot.randomState);
+		}
+		this.notifyRosterChange();
+	}
+
+	/**
+	 * Spawns random orbs inside a viewport of the given size.
+	 */
+	private spawnWithin(count: number, width: number, height: number, now: number, palette: OrbPalette): Orb[] {
+		const { grid, vpc } = this;
+		if (!grid || !vpc) return [];
+
+		const newOrbs = OrbSpawner.createRandom(
+			count,
+			width,
+			height,
+			grid,
+			vpc,
+			this.burstConfig,
+			this.continuousConfig,
+			this.random,
+			now,
+			palette
+		);
+		this.addOrbs(newOrbs);
+		return newOrbs;
+	}
+
+	/**
+	 * Continuous spawning callback for PhaseContinuousSpawn (uses the step's viewport, time and palette).
+	 */
+	private spawnRandomOrbs = (count: number, screenWidth: number, screenHeight: number): number => {
+		return this.spawnWithin(count, screenWidth, screenHeight, this.stepTime, this.stepPalette).length;
+	};
+
+	/**
+	 * Roster callback for PhaseExpiration and spawning.
+	 */
+	private notifyRosterChange = (): void => {
+		this.onRosterChange?.();
+	};
+}
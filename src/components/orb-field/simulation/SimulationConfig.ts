@@ -0,0 +1,25 @@
+// =============================================================================
+// Simulation Configuration
+// =============================================================================
+
+/**
+ * Step toggles applied when a step does not override them.
+ * Individual phases are toggled on the simulation's PhysicsPipeline.
+ */
+export interface OrbSimulationSettings {
+	/** Whether physics is paused (orbs are only marked, not moved). */
+	pausePhysics: boolean;
+	/** Whether continuous spawning is enabled. */
+	enableOrbSpawning: boolean;
+	/** Whether expired orbs are removed. */
+	enableOrbDespawning: boolean;
+}
+
+/**
+ * Default simulation settings (matches the debug menu defaults).
+ */
+export const DEFAULT_SIMULATION_SETTINGS: OrbSimulationSettings = {
+	pausePhysics: false,
+	enableOrbSpawning: true,
+	enableOrbDespawning: true,
+};
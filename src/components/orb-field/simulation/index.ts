@@ -0,0 +1,11 @@
+// =============================================================================
+// Simulation - Exports for the framework-free orb simulation
+// =============================================================================
+
+export { OrbSimulation } from './OrbSimulation';
+export { type OrbSimulationSettings, DEFAULT_SIMULATION_SETTINGS } from './SimulationConfig';
+export {
+	type OrbSimulationOptions,
+	type OrbSimulationFrame,
+	type OrbSimulationSnapshot,
+} from './types';
@@ -0,0 +1,56 @@
+// =============================================================================
+// Simulation Types - Options, per-step input and snapshots for OrbSimulation
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type OrbBurstConfig, type ContinuousSpawnConfig } from '../orb/config';
+import { type PhysicsStepInput, type PhysicsPipeline } from '../physics';
+import { type RandomSource } from '../shared/random';
+import { type OrbSimulationSettings } from './SimulationConfig';
+import { type OrbPalette } from '../palette';
+
+/**
+ * Options for constructing an OrbSimulation.
+ */
+export interface OrbSimulationOptions {
+	/** Random source for spawning and physics (defaults to Math.random). */
+	random?: RandomSource;
+	/** Physics phases to run (defaults to a new built-in pipeline). */
+	pipeline?: PhysicsPipeline;
+	/** Overrides for burst spawning (size, speed and lifetime ranges). */
+	burstConfig?: Partial<OrbBurstConfig>;
+	/** Overrides for continuous spawning. */
+	continuousConfig?: Partial<ContinuousSpawnConfig>;
+	/** Initial step toggles (pause, spawning, despawning). */
+	settings?: Partial<OrbSimulationSettings>;
+	/** Initial orb palette (defaults to DEFAULT_ORB_PALETTE). */
+	palette?: OrbPalette;
+	/** Called whenever orbs are added or removed. */
+	onRosterChange?: () => void;
+}
+
+/**
+ * Per-step overrides for OrbSimulation.step().
+ *
+ * Every field is optional: omitted values fall back to the simulation's own
+ * clock, viewport, burst time, settings and pointer mode, with no pointers and
+ * no parallax.
+ */
+export type OrbSimulationFrame = Partial<Omit<
+	PhysicsStepInput,
+	'orbsRef' | 'grid' | 'vpc' | 'deltaTime' | 'random' | 'pointerInteraction' | 'collisionCounters' | 'spawnRandomOrbs' | 'syncOrbsState'
+>>;
+
+/**
+ * Captured simulation state, restorable with OrbSimulation.restore().
+ */
+export interface OrbSimulationSnapshot {
+	/** Simulation clock in milliseconds. */
+	time: number;
+	/** Burst time in milliseconds (or null before the burst). */
+	burstTime: number | null;
+	/** Copies of every orb. */
+	orbs: Orb[];
+	/** Random generator state, or null when the source cannot be captured. */
+	randomState: number | null;
+}
@@ -0,0 +1,121 @@
+// =============================================================================
+// OrbSnapshot - Packs orb state into a transferable Float32Array
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+
+/**
+ * Numeric orb fields in the order they are packed into a snapshot.
+ * Together with `pinned` (packed as 0/1 after them) every field except `id`
+ * is included, so the main thread mirror is a complete Orb and the inline
+ * loop can take over from it without losing state.
+ */
+const SNAPSHOT_FIELDS = [
+	'pxX',
+	'pxY',
+	'z',
+	'vx',
+	'vy',
+	'vz',
+	'speed',
+	'angle',
+	'size',
+	'createdAt',
+	'lifetimeMs',
+	'spawnAnimDurationMs',
+	'despawnAnimDurationMs',
+	'lifecycleCooldownUntil',
+	'colorSeed',
+	'hue',
+	'saturation',
+	'lightness',
+	'wanderStrength',
+	'wanderPhase',
+	'wanderSpeed',
+	'wanderModulationSpeed',
+	'wanderModulationPhase',
+] as const satisfies readonly Exclude<keyof Orb, 'id' | 'pinned'>[];
+
+/** Orb fields the snapshot does not carry (never, unless a new field was left out above). */
+type UnpackedOrbField = Exclude<keyof Orb, 'id' | 'pinned' | (typeof SNAPSHOT_FIELDS)[number]>;
+
+/** Offset of the pinned flag within an orb's floats; fails to compile when a field is unpacked. */
+const PINNED_OFFSET: [UnpackedOrbField] extends [never] ? number : never = SNAPSHOT_FIELDS.length;
+
+/** Number of floats per orb in a snapshot buffer. */
+export const SNAPSHOT_STRIDE = PINNED_OFFSET + 1;
+
+/**
+ * Encodes and decodes orb snapshots exchanged with the physics worker.
+ *
+ * Layout: [orb0.pxX, orb0.pxY, ..., orb1.pxX, ...] with SNAPSHOT_STRIDE floats
+ * per orb. IDs are sent separately and only when the orb set changes.
+ *
+ * Single Responsibility: Snapshot serialization only.
+ */
+export class OrbSnapshot {
+	/**
+	 * Writes orbs into a buffer, reusing the given one when it is large enough.
+	 *
+	 * @param orbs - Orbs to pack.
+	 * @param buffer - Buffer returned from a previous snapshot, or null.
+	 * @returns Buffer containing the packed orbs (may be newly allocated).
+	 */
+	static encode(orbs: Orb[], buffer: ArrayBuffer | null): ArrayBuffer {
+		const required = orbs.length * SNAPSHOT_STRIDE * Float32Array.BYTES_PER_ELEMENT;
+		// Allocate with headroom so small population changes reuse the buffer
+		const target = buffer && buffer.byteLength >= required
+			? buffer
+			: new ArrayBuffer(Math.max(required * 2, SNAPSHOT_STRIDE * Float32Array.BYTES_PER_ELEMENT));
+		const data = new Float32Array(target);
+
+		for (let i = 0; i < orbs.length; i++) {
+			const orb = orbs[i];
+			const base = i * SNAPSHOT_STRIDE;
+			for (let f = 0; f < PINNED_OFFSET; f++) {
+				data[base + f] = orb[SNAPSHOT_FIELDS[f]];
+			}
+			data[base + PINNED_OFFSET] = orb.pinned ? 1 : 0;
+		}
+
+		return target;
+	}
+
+	/**
+	 * Applies a snapshot to the main thread orb mirror.
+	 *
+	 * When ids are provided the orb set changed: the array is rebuilt in
+	 * snapshot order, reusing existing orb objects by ID so selection and
+	 * other references stay valid. Otherwise orbs are updated in place.
+	 *
+	 * @param buffer - Snapshot buffer from the worker.
+	 * @param count - Number of orbs packed in the buffer.
+	 * @param ids - Orb IDs in buffer order, or null if unchanged.
+	 * @param orbs - Current mirror array.
+	 * @returns The updated mirror array (same array when ids is null).
+	 */
+	static apply(buffer: ArrayBuffer, count: number, ids: string[] | null, orbs: Orb[]): Orb[] {
+		const data = new Float32Array(buffer, 0, count * SNAPSHOT_STRIDE);
+
+		let target = orbs;
+		if (ids) {
+			const existing = new Map<string, Orb>();
+			for (const orb of orbs) existing.set(orb.id, orb);
+			target = ids.map((id) => existing.get(id) ?? ({ id } as Orb));
+		} else if (orbs.length !== count) {
+			// Out of sync roster - keep the previous frame rather than mismatching IDs
+			return orbs;
+		}
+
+		for (let i = 0; i < count; i++) {
+			const orb = target[i];
+			const base = i * SNAPSHOT_STRIDE;
+			for (let f = 0; f < PINNED_OFFSET; f++) {
+				orb[SNAPSHOT_FIELDS[f]] = data[base + f];
+			}
+			orb.pinned = data[base + PINNED_OFFSET] === 1;
+		}
+
+		return target;
+	}
+}
@@ -0,0 +1,107 @@
+// =============================================================================
+// PhysicsWorkerSimulation - Worker-owned orb state and grid
+// =============================================================================
+
+import { SeededRandom } from '../shared/random';
+import { OrbSimulation } from '../simulation';
+import { OrbSnapshot } from './OrbSnapshot';
+import {
+	type PhysicsWorkerRequest,
+	type PhysicsWorkerInitMessage,
+	type PhysicsWorkerStepMessage,
+	type PhysicsWorkerSnapshotMessage,
+} from './types';
+
+/**
+ * Holds the authoritative OrbSimulation inside the physics worker.
+ *
+ * Has no dependency on worker globals so the message handling can be driven
+ * from any context; orbPhysics.worker.ts only wires it to postMessage.
+ *
+ * All orb timestamps are kept in the main thread clock: orbs spawned here are
+ * stamped with the effective time posted with the step.
+ *
+ * Single Responsibility: Worker-side simulation state only.
+ */
+export class PhysicsWorkerSimulation {
+	/** Random source shared with the simulation, reseeded on init. */
+	private readonly random = new SeededRandom(0);
+
+	/** Authoritative simulation (grid is configured on init). */
+	private readonly simulation = new OrbSimulation({
+		random: this.random,
+		onRosterChange: () => {
+			this.rosterChanged = true;
+		},
+	});
+
+	/** Whether orbs were added or removed since the last snapshot. */
+	private rosterChanged = true;
+
+	/** Whether the first init message has seeded the random source. */
+	private seeded = false;
+
+	/**
+	 * Handles a message from the main thread.
+	 *
+	 * @param message - Request posted by usePhysicsWorker.
+	 * @returns A snapshot to post back for step requests, otherwise null.
+	 */
+	handleMessage(message: PhysicsWorkerRequest): PhysicsWorkerSnapshotMessage | null {
+		switch (message.type) {
+			case 'init':
+				this.init(message);
+				return null;
+			case 'addOrbs':
+				this.simulation.addOrbs(message.orbs);
+				return null;
+			case 'removeOrbs':
+				this.simulation.removeOrbs(message.ids);
+				return null;
+			case 'editOrbs':
+				for (const [id, edit] of message.edits) this.simulation.editOrb(id, edit);
+				return null;
+			case 'step':
+				return this.step(message);
+		}
+	}
+
+	/**
+	 * Rebuilds the grid for new geometry. Existing orbs are kept, and so is the
+	 * random sequence unless the seed changed.
+	 */
+	private init(message: PhysicsWorkerInitMessage): void {
+		if (!this.seeded || this.random.seed !== message.seed) {
+			this.random.reset(message.seed);
+			this.seeded = true;
+		}
+		this.simulation.configureGrid(message.gridConfig, message.vpc);
+	}
+
+	/**
+	 * Runs one physics step and packs the result.
+	 */
+	private step(message: PhysicsWorkerStepMessage): PhysicsWorkerSnapshotMessage {
+		if (this.seeded) {
+			this.simulation.pipeline.setDisabledIds(message.disabledPhases);
+			this.simulation.step(message.frame.deltaTime, message.frame);
+		}
+
+		// Counters are reported as deltas so a reset on the main thread sticks
+		const collisionCounters = this.simulation.collisionCounters.toValues();
+		this.simulation.collisionCounters.reset();
+
+		const orbs = this.simulation.orbs;
+		const ids = this.rosterChanged || message.includeIds ? orbs.map((orb) => orb.id) : null;
+		this.rosterChanged = false;
+
+		return {
+			type: 'snapshot',
+			seq: message.seq,
+			buffer: OrbSnapshot.encode(orbs, message.buffer),
+			count: orbs.length,
+			ids,
+			collisionCounters,
+		};
+	}
+}
@@ -0,0 +1,18 @@
+// =============================================================================
+// Physics Worker - Exports for off-main-thread physics modules
+// =============================================================================
+
+export { OrbSnapshot, SNAPSHOT_STRIDE } from './OrbSnapshot';
+export { PhysicsWorkerSimulation } from './PhysicsWorkerSimulation';
+export type {
+	PhysicsFrameInput,
+	PhysicsWorkerRequest,
+	PhysicsWorkerResponse,
+	PhysicsWorkerInitMessage,
+	PhysicsWorkerStepMessage,
+	PhysicsWorkerAddOrbsMessage,
+	PhysicsWorkerRemoveOrbsMessage,
+	PhysicsWorkerSnapshotMessage,
+	PhysicsWorkerErrorMessage,
+	PhysicsWorkerStatus,
+} from './types';
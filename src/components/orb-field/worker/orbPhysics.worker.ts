@@ -0,0 +1,28 @@
+// =============================================================================
+// orbPhysics.worker - Web Worker entry point for off-main-thread physics
+// =============================================================================
+
+import { PhysicsWorkerSimulation } from './PhysicsWorkerSimulation';
+import { type PhysicsWorkerRequest, type PhysicsWorkerResponse } from './types';
+
+const simulation = new PhysicsWorkerSimulation();
+
+/**
+ * Posts a response, transferring the snapshot buffer instead of copying it.
+ */
+function respond(response: PhysicsWorkerResponse): void {
+	const transfer = response.type === 'snapshot' ? [response.buffer] : [];
+	self.postMessage(response, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<PhysicsWorkerRequest>) => {
+	try {
+		const response = simulation.handleMessage(event.data);
+		if (response) respond(response);
+	} catch (error) {
+		respond({
+			type: 'error',
+			message: error instanceof Error ? error.message : String(error),
+		});
+	}
+};
@@ -0,0 +1,130 @@
+// =============================================================================
+// Physics Worker Types - Message protocol between main thread and worker
+// =============================================================================
+
+import { type Orb, type OrbEdit } from '../orb/types';
+import { type GridConfig, type ViewportCells } from '../grid/types';
+import { type PhysicsStepInput } from '../physics';
+import { type CollisionCounterValues } from '../collision';
+
+/**
+ * Per-frame values posted into the worker.
+ * Everything in PhysicsStepInput except the worker-owned state (including held
+ * orbs), random source and callbacks.
+ */
+export type PhysicsFrameInput = Omit<
+	PhysicsStepInput,
+	'orbsRef' | 'grid' | 'vpc' | 'random' | 'pointerInteraction' | 'collisionCounters' | 'spawnRandomOrbs' | 'syncOrbsState'
+>;
+
+/**
+ * (Re)creates the worker's SpatialGrid. Sent whenever the main thread grid changes.
+ */
+export interface PhysicsWorkerInitMessage {
+	type: 'init';
+	/** Grid geometry used to build the worker-owned SpatialGrid. */
+	gridConfig: GridConfig;
+	/** Viewport cell metrics matching gridConfig. */
+	vpc: ViewportCells;
+	/** Seed for the worker's random source (the sequence restarts only when it changes). */
+	seed: number;
+}
+
+/**
+ * Advances the worker simulation by one frame.
+ */
+export interface PhysicsWorkerStepMessage {
+	type: 'step';
+	/** Sequence number echoed back in the resulting snapshot. */
+	seq: number;
+	/** Timing, input and toggles for this frame. */
+	frame: PhysicsFrameInput;
+	/** Previously received snapshot buffer handed back for reuse, if any. */
+	buffer: ArrayBuffer | null;
+	/** Forces orb IDs into the snapshot (main thread mirror lost track of the roster). */
+	includeIds: boolean;
+	/** IDs of pipeline phases toggled off on the main thread. */
+	disabledPhases: string[];
+}
+
+/**
+ * Adds orbs created on the main thread (click spawning, burst).
+ */
+export interface PhysicsWorkerAddOrbsMessage {
+	type: 'addOrbs';
+	/** Fully initialized orbs with timestamps in the main thread clock. */
+	orbs: Orb[];
+}
+
+/**
+ * Removes orbs deleted on the main thread.
+ */
+export interface PhysicsWorkerRemoveOrbsMessage {
+	type: 'removeOrbs';
+	/** IDs of orbs to remove. */
+	ids: string[];
+}
+
+/**
+ * Replays inspector edits made on the main thread (velocity, size, pinning, ...).
+ */
+export interface PhysicsWorkerEditOrbsMessage {
+	type: 'editOrbs';
+	/** Edits by orb ID. */
+	edits: Map<string, OrbEdit>;
+}
+
+/**
+ * Messages posted from the main thread to the physics worker.
+ */
+export type PhysicsWorkerRequest =
+	| PhysicsWorkerInitMessage
+	| PhysicsWorkerStepMessage
+	| PhysicsWorkerAddOrbsMessage
+	| PhysicsWorkerRemoveOrbsMessage
+	| PhysicsWorkerEditOrbsMessage;
+
+/**
+ * Orb state after a step, packed into a transferable Float32Array buffer.
+ */
+export interface PhysicsWorkerSnapshotMessage {
+	type: 'snapshot';
+	/** Sequence number of the step that produced this snapshot. */
+	seq: number;
+	/** Packed orb values (see OrbSnapshot for layout). Transferred, not copied. */
+	buffer: ArrayBuffer;
+	/** Number of orbs packed in the buffer. */
+	count: number;
+	/** Orb IDs in buffer order, only sent when orbs were added or removed or when requested. */
+	ids: string[] | null;
+	/** Continuous collision events counted by this step (escapedOrbs is the current gauge). */
+	collisionCounters: CollisionCounterValues;
+}
+
+/**
+ * Reports an exception thrown inside the worker.
+ */
+export interface PhysicsWorkerErrorMessage {
+	type: 'error';
+	/** Error message for logging. */
+	message: string;
+}
+
+/**
+ * Messages posted from the physics worker to the main thread.
+ */
+export type PhysicsWorkerResponse =
+	| PhysicsWorkerSnapshotMessage
+	| PhysicsWorkerErrorMessage;
+
+/**
+ * How physics is running, for the debug menu.
+ */
+export interface PhysicsWorkerStatus {
+	/** Whether the worker is driving the simulation. */
+	active: boolean;
+	/** Why the worker could not start or stopped, or null if it has not failed. */
+	fallbackReason: string | null;
+	/** Whether custom pipeline phases are skipped because they only run inline. */
+	skipsCustomPhases: boolean;
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useRef, useEffect } from "react";
+import { useGridObstacle } from "@/components/orb-field/hooks/useGridObstacle";
 import styles from "./ScrollDotIndicator.module.css";
 
 interface ScrollDotIndicatorProps {
@@ -44,6 +45,10 @@ export function ScrollDotIndicator({
 		}
 	}, [activeSection]);
 
+	// Orbs bounce off the dots (the nav mounts only once visible)
+	const navRef = useRef<HTMLElement>(null);
+	useGridObstacle(navRef, { enabled: visible });
+
 	// Don't render at all until visible to prevent flash
 	if (!visible) {
 		return null;
@@ -53,6 +58,7 @@ export function ScrollDotIndicator({
 
 	return (
 		<nav
+			ref={navRef}
 			className={`${styles.dotIndicator} ${themeClass} ${visible ? styles.visible : ""}`}
 			aria-label="Section navigation"
 		>
@@ -4,6 +4,7 @@
  */
 
 import { AboutCard, LinksCard, ContactCard } from "@/components/cards";
+import type { OrbPaletteId } from "@/components/orb-field";
 
 /**
  * Style configuration for card animation wrapper
@@ -28,6 +29,8 @@ export interface CardConfig {
 	component: React.ComponentType;
 	/** Style configuration for the animated wrapper */
 	style: CardStyleConfig;
+	/** Orb palette while this card is active (the field cross-fades between cards) */
+	orbPalette?: OrbPaletteId;
 }
 
 /**
@@ -47,6 +50,7 @@ export const cardsConfig: CardConfig[] = [
 		label: "About",
 		component: AboutCard,
 		style: { ...defaultCardStyle },
+		orbPalette: "cyan",
 	},
 	{
 		id: "links",
@@ -54,6 +58,7 @@ export const cardsConfig: CardConfig[] = [
 		label: "Links",
 		component: LinksCard,
 		style: { ...defaultCardStyle },
+		orbPalette: "aurora",
 	},
 	{
 		id: "contact",
@@ -61,6 +66,7 @@ export const cardsConfig: CardConfig[] = [
 		label: "Contact",
 		component: ContactCard,
 		style: { ...defaultCardStyle },
+		orbPalette: "orchid",
 	},
 ];
 
@@ -1,3 +1,4 @@
 export { useTouchDevice } from './useTouchDevice';
 export { useSupportsHover } from './useSupportsHover';
 export { useMobileViewport } from './useMobileViewport';
+export { usePrefersReducedMotion } from './usePrefersReducedMotion';
@@ -0,0 +1,22 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+/**
+ * Hook to detect the prefers-reduced-motion user setting (updates when it changes)
+ * Follows Single Responsibility Principle - only detects the motion preference
+ */
+export function usePrefersReducedMotion(): boolean {
+	const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
+
+	useEffect(() => {
+		const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+		const update = () => setPrefersReducedMotion(query.matches);
+
+		queueMicrotask(update);
+		query.addEventListener('change', update);
+		return () => query.removeEventListener('change', update);
+	}, []);
+
+	return prefersReducedMotion;
+}
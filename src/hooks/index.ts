@@ -1,2 +1,2 @@
 export { useDeviceOrientation } from "./orientation";
-export { useTouchDevice, useSupportsHover, useMobileViewport } from "./device";
+export { useTouchDevice, useSupportsHover, useMobileViewport, usePrefersReducedMotion } from "./device";